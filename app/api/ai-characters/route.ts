@@ -1,36 +1,89 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenAI } from '@google/genai';
+import { AIRequestOptions, getAIProviderRegistry, parseAIRequestOptions } from '@/lib/ai/ai-providers';
+import { AIValidation, AIValidationError } from '@/lib/ai/ai-schema';
+import { generateValidatedJSON } from '@/lib/ai/ai-service';
+import type { AIFieldIssue } from '@/lib/ai/ai-types';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
 
-interface AICharactersRequestBody {
+interface AICharactersRequestBody extends AIRequestOptions {
   storyType?: string;
   prompt?: string;
   maxCharacters?: number;
 }
 
 interface AICharacterSuggestion {
-  id: string; // should match one of the known character ids
+  id: string; // character registry id
   name: string;
   description: string;
 }
 
 interface AICharactersResponseBody {
   characters: AICharacterSuggestion[];
+  corrections?: AIFieldIssue[];
 }
 
-const AVAILABLE_CHARACTER_IDS = ['Luna', 'Max', 'Whiskers'];
+const CAST = getCharacterRegistry().getCast();
+const AVAILABLE_CHARACTER_IDS = CAST.map((character) => character.id);
+
+function getDisplayName(id: string): string {
+  return CAST.find((character) => character.id === id)?.name ?? id;
+}
+
+// Check suggestions against the known rigs; unknown ids are recast, duplicates dropped
+function validateSuggestions(raw: unknown, maxCharacters: number): AIValidation<AICharacterSuggestion[]> {
+  const errors: AIFieldIssue[] = [];
+  const rawCharacters = (raw as { characters?: unknown } | null)?.characters;
+
+  if (!Array.isArray(rawCharacters) || rawCharacters.length === 0) {
+    errors.push({ path: 'characters', message: 'Response must have a non-empty "characters" array', value: rawCharacters });
+    return { value: null, errors };
+  }
+
+  const characters: AICharacterSuggestion[] = [];
+  rawCharacters.slice(0, maxCharacters).forEach((c: any, index: number) => {
+    const path = `characters[${index}]`;
+    let id = AVAILABLE_CHARACTER_IDS.find((known) => known.toLowerCase() === String(c?.id ?? '').trim().toLowerCase());
+    if (!id) {
+      id = AVAILABLE_CHARACTER_IDS.find((known) => !characters.some((char) => char.id === known));
+      errors.push({ path: `${path}.id`, message: `Id must be one of: ${AVAILABLE_CHARACTER_IDS.join(', ')}`, value: c?.id, correctedTo: id ?? null });
+      if (!id) return;
+    }
+    if (characters.some((char) => char.id === id)) {
+      errors.push({ path: `${path}.id`, message: 'Each character may only be picked once', value: c?.id, correctedTo: null });
+      return;
+    }
+
+    const displayName = getDisplayName(id);
+    const name = typeof c?.name === 'string' && c.name.trim() ? c.name.trim() : displayName;
+    let description = typeof c?.description === 'string' ? c.description.trim() : '';
+    if (!description) {
+      description = `A fun ${displayName} character for this story`;
+      errors.push({ path: `${path}.description`, message: 'Description must be a non-empty string', value: c?.description, correctedTo: description });
+    }
+    characters.push({ id, name, description });
+  });
+
+  return { value: characters.length > 0 ? characters : null, errors };
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.GEMINI_API_KEY;
+    const registry = getAIProviderRegistry();
+    const body: AICharactersRequestBody = await request.json();
+    const aiOptions = parseAIRequestOptions(body);
 
-    if (!apiKey) {
+    if (aiOptions.provider) {
+      const providerError = registry.getProviderError(aiOptions.provider, 'text');
+      if (providerError) {
+        return NextResponse.json({ error: providerError }, { status: 400 });
+      }
+    } else if (registry.getAvailable('text').length === 0) {
       return NextResponse.json(
-        { error: 'GEMINI_API_KEY not configured' },
+        { error: 'No AI text provider configured' },
         { status: 500 },
       );
     }
 
-    const body: AICharactersRequestBody = await request.json();
     const storyType = body.storyType || 'adventure';
     const idea = body.prompt || `A ${storyType} story for young children`;
     const maxCharacters = body.maxCharacters && body.maxCharacters > 0 && body.maxCharacters <= 3
@@ -39,115 +92,54 @@ export async function POST(request: NextRequest) {
 
     const systemPrompt = `You are helping design a small cast of characters for a kids' cartoon studio.
 You must only use these character ids, which map to existing 2D rigs:
-- Luna: curious, brave human child
-- Max: friendly, adventurous human child
-- Whiskers: playful cat sidekick
+${CAST.map((character) => `- ${character.id}: ${character.name}, ${character.capabilities.persona?.traits.join(', ')} ${character.category === 'animal' ? 'animal' : 'human child'}`).join('\n')}
 
 CRITICAL: Return ONLY valid JSON. No markdown, no backticks, no extra text.
 Use double quotes only. No trailing commas. No special characters.
 
 JSON format (follow exactly):
-{"characters":[{"id":"Luna","name":"Luna","description":"Short role description"}]}
+{"characters":[{"id":"luna","name":"Luna","description":"Short role description"}]}
 
 Pick ${maxCharacters} distinct characters that best fit the story idea.`;
 
     const userPrompt = `Story type: ${storyType}\nStory idea: ${idea}`;
 
-    const client = new GoogleGenAI({ apiKey });
-
-    const result = await client.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [
+    try {
+      const { value, corrections } = await generateValidatedJSON(
         {
-          role: 'user',
-          parts: [
-            {
-              text: `${systemPrompt}\n\n${userPrompt}`,
-            },
-          ],
+          systemPrompt,
+          prompt: userPrompt,
+          temperature: 0.7,
+          maxOutputTokens: 512,
         },
-      ],
-      config: {
-        temperature: 0.7,
-        maxOutputTokens: 512,
-      },
-    });
-
-    const text = (result as any).text as string | undefined;
-
-    if (!text) {
-      return NextResponse.json(
-        { error: 'No response from Gemini for character suggestions' },
-        { status: 502 },
+        (raw) => validateSuggestions(raw, maxCharacters),
+        aiOptions,
       );
-    }
-
-    let parsed: AICharactersResponseBody | null = null;
-
-    try {
-      let clean = text.trim();
-      if (clean.startsWith('```json')) {
-        clean = clean.slice(7);
-      } else if (clean.startsWith('```')) {
-        clean = clean.slice(3);
-      }
-      if (clean.endsWith('```')) {
-        clean = clean.slice(0, -3);
-      }
-      clean = clean.trim();
 
-      // Try to extract the first JSON object block if extra text is present
-      const firstBrace = clean.indexOf('{');
-      const lastBrace = clean.lastIndexOf('}');
-      if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-        clean = clean.slice(firstBrace, lastBrace + 1);
+      const response: AICharactersResponseBody = { characters: value };
+      if (corrections.length > 0) {
+        response.corrections = corrections;
       }
-      
-      // Remove trailing commas before closing brackets
-      clean = clean.replace(/,(\s*[\]}])/g, '$1');
-
-      parsed = JSON.parse(clean) as AICharactersResponseBody;
+      return NextResponse.json(response);
     } catch (error) {
-      console.error('Failed to parse AI character suggestions, falling back to defaults:', error, text);
+      if (error instanceof AIValidationError) {
+        console.error('Invalid AI character suggestions, falling back to defaults:', error.errors);
 
-      const fallback: AICharacterSuggestion[] = AVAILABLE_CHARACTER_IDS.slice(0, maxCharacters).map((id) => ({
-        id,
-        name: id,
-        description: `A fun ${id} character for this story`,
-      }));
+        const fallback: AICharacterSuggestion[] = CAST.slice(0, maxCharacters).map((character) => ({
+          id: character.id,
+          name: character.name,
+          description: `A fun ${character.name} character for this story`,
+        }));
 
-      return NextResponse.json({ characters: fallback });
-    }
+        return NextResponse.json({ characters: fallback });
+      }
 
-    const safeCharacters: AICharacterSuggestion[] = Array.isArray(parsed?.characters)
-      ? parsed!.characters
-          .map((c) => {
-            const id = AVAILABLE_CHARACTER_IDS.includes(c.id) ? c.id : AVAILABLE_CHARACTER_IDS[0];
-            return {
-              id,
-              name: c.name && c.name.trim() ? c.name.trim() : id,
-              description:
-                c.description && c.description.trim()
-                  ? c.description.trim()
-                  : `A fun ${id} character for this story` ,
-            };
-          })
-          .slice(0, maxCharacters)
-      : [];
-
-    if (!safeCharacters.length) {
-      // Fallback: simple default cast
-      const fallback: AICharacterSuggestion[] = [
-        {
-          id: 'Luna',
-          name: 'Luna',
-          description: 'Curious and brave main character for this story.',
-        },
-      ];
-      return NextResponse.json({ characters: fallback });
+      console.error('AI character suggestion providers failed:', error);
+      return NextResponse.json(
+        { error: 'No response from AI providers for character suggestions' },
+        { status: 502 },
+      );
     }
-
-    return NextResponse.json({ characters: safeCharacters });
   } catch (error) {
     console.error('AI character suggestion error:', error);
     return NextResponse.json(
@@ -1,12 +1,16 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getAIProviderRegistry } from '@/lib/ai/ai-providers';
 
-export async function GET() {
-  const gemini = !!process.env.GEMINI_API_KEY;
-  const openai = !!process.env.OPENAI_API_KEY;
+export const dynamic = 'force-dynamic';
+
+// Health of every registered AI provider; ?refresh=1 skips the short cache
+export async function GET(request: NextRequest) {
+  const refresh = request.nextUrl.searchParams.get('refresh') === '1';
+  const providers = await getAIProviderRegistry().checkHealth(refresh);
 
   return NextResponse.json({
-    gemini,
-    openai,
-    any: gemini || openai,
+    providers,
+    // Story generation can use a real AI provider (otherwise the canned fallback is used)
+    any: providers.some((p) => p.healthy && p.capabilities.includes('text')),
   });
 }
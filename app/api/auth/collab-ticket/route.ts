@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeProject } from '@/lib/auth/permissions';
+import { createCollaborationTicket } from '@/lib/auth/collab-ticket';
+
+// GET - A short-lived ticket for joining a project's collaboration room (?projectId=)
+export async function GET(request: NextRequest) {
+  try {
+    const projectId = request.nextUrl.searchParams.get('projectId');
+    if (!projectId) {
+      return NextResponse.json({ success: false, error: 'Project ID is required' }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, 'viewer');
+    if (access.response) return access.response;
+
+    const ticket = createCollaborationTicket({
+      userId: access.user.id,
+      name: access.user.name,
+      projectId,
+      role: access.role,
+    });
+
+    return NextResponse.json({ success: true, ticket, user: access.user, role: access.role });
+  } catch (error) {
+    console.error('Collaboration ticket error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to start collaboration' }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountError, signInWithPassword } from '@/lib/auth/accounts';
+import { signInResponse } from '@/lib/auth/session';
+
+// POST - Sign in with email and password
+export async function POST(request: NextRequest) {
+  try {
+    const user = await signInWithPassword(await request.json());
+    return signInResponse(user);
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Login error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to sign in' }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie, deleteSession, getSessionToken } from '@/lib/auth/session';
+
+// POST - Sign out (ends this browser's session only)
+export async function POST() {
+  try {
+    const token = getSessionToken();
+    if (token) await deleteSession(token);
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('Logout error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to sign out' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOAuthProviderRegistry } from '@/lib/auth/oauth';
+import { AccountError, findOrCreateOAuthUser } from '@/lib/auth/accounts';
+import { OAUTH_STATE_COOKIE, createSession, getOAuthRedirectUri, setSessionCookie } from '@/lib/auth/session';
+
+interface RouteParams {
+  params: { provider: string };
+}
+
+// GET - Provider redirect after sign-in: check the state, create the session, open the editor
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const fail = (message: string) => {
+    const response = NextResponse.redirect(new URL(`/login?error=${encodeURIComponent(message)}`, request.url));
+    response.cookies.set(OAUTH_STATE_COOKIE, '', { path: '/api/auth/oauth', maxAge: 0 });
+    return response;
+  };
+
+  try {
+    const provider = getOAuthProviderRegistry().get(params.provider);
+    if (!provider) return fail('Unknown sign-in provider');
+
+    const searchParams = request.nextUrl.searchParams;
+    if (searchParams.get('error')) return fail(searchParams.get('error_description') || 'Sign-in was cancelled');
+
+    let saved: { provider?: string; state?: string; codeVerifier?: string } = {};
+    try {
+      saved = JSON.parse(request.cookies.get(OAUTH_STATE_COOKIE)?.value || '{}');
+    } catch {
+      saved = {};
+    }
+    const code = searchParams.get('code');
+    if (!code || !saved.state || saved.provider !== provider.id || saved.state !== searchParams.get('state') || !saved.codeVerifier) {
+      return fail('Sign-in expired, please try again');
+    }
+
+    const profile = await provider.getProfile({
+      code,
+      codeVerifier: saved.codeVerifier,
+      redirectUri: getOAuthRedirectUri(request, provider.id),
+    });
+    const user = await findOrCreateOAuthUser(provider.id, profile);
+
+    const response = NextResponse.redirect(new URL('/', request.url));
+    response.cookies.set(OAUTH_STATE_COOKIE, '', { path: '/api/auth/oauth', maxAge: 0 });
+    setSessionCookie(response, await createSession(user.id));
+    return response;
+  } catch (error) {
+    if (error instanceof AccountError) return fail(error.message);
+    console.error('OAuth callback error:', error);
+    return fail('Sign-in failed');
+  }
+}
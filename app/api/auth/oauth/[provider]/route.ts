@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPkcePair, generateOAuthState, getOAuthProviderRegistry } from '@/lib/auth/oauth';
+import { OAUTH_STATE_COOKIE, getOAuthRedirectUri } from '@/lib/auth/session';
+
+interface RouteParams {
+  params: { provider: string };
+}
+
+// GET - Send the browser to the provider's sign-in page
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const provider = getOAuthProviderRegistry().get(params.provider);
+    if (!provider) {
+      return NextResponse.json({ success: false, error: 'Unknown sign-in provider' }, { status: 404 });
+    }
+
+    const state = generateOAuthState();
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    const redirectUri = getOAuthRedirectUri(request, provider.id);
+    const response = NextResponse.redirect(await provider.getAuthorizationUrl({ state, codeChallenge, redirectUri }));
+
+    // Checked on the callback, so a sign-in can't be started by another site
+    response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify({ provider: provider.id, state, codeVerifier }), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/auth/oauth',
+      maxAge: 10 * 60,
+    });
+    return response;
+  } catch (error) {
+    console.error('OAuth start error:', error);
+    return NextResponse.redirect(new URL('/login?error=Sign-in%20provider%20unavailable', request.url));
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountError, registerWithPassword } from '@/lib/auth/accounts';
+import { signInResponse } from '@/lib/auth/session';
+
+// POST - Create an email/password account and sign in
+export async function POST(request: NextRequest) {
+  try {
+    const user = await registerWithPassword(await request.json());
+    return signInResponse(user, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Register error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to create account' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/session';
+import { isSignupAllowed } from '@/lib/auth/accounts';
+import { getOAuthProviderRegistry } from '@/lib/auth/oauth';
+
+export const dynamic = 'force-dynamic';
+
+// GET - The signed-in user (null when signed out) and the available sign-in options
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      user: await getCurrentUser(),
+      providers: getOAuthProviderRegistry().list().map(({ id, name }) => ({ id, name })),
+      signupAllowed: isSignupAllowed(),
+    });
+  } catch (error) {
+    console.error('Session error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load session' }, { status: 500 });
+  }
+}
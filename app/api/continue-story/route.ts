@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { continueAIStory } from '@/lib/ai/ai-service';
+import { AIDialogueLine, AIGeneratedCharacter, AIStoryContinuationRequest } from '@/lib/ai/ai-types';
+import { AIRequestOptions, getAIProviderRegistry, parseAIRequestOptions } from '@/lib/ai/ai-providers';
+
+const MAX_NEW_SCENES = 10;
+
+const toStringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : undefined;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Scene cast and dialogue entries the story summary can read; anything else is dropped
+const toCharacterList = (value: unknown): AIGeneratedCharacter[] | undefined =>
+  Array.isArray(value)
+    ? value.filter((item): item is AIGeneratedCharacter => isRecord(item) && typeof item.name === 'string')
+    : undefined;
+
+const toDialogueList = (value: unknown): AIDialogueLine[] | undefined =>
+  Array.isArray(value)
+    ? value.filter(
+        (item): item is AIDialogueLine => isRecord(item) && typeof item.speaker === 'string' && typeof item.text === 'string'
+      )
+    : undefined;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: AIStoryContinuationRequest & AIRequestOptions = await request.json();
+
+    // Validate request
+    const scenes = Array.isArray(body.scenes)
+      ? body.scenes.filter((scene) => isRecord(scene) && typeof scene.narration === 'string')
+      : [];
+    if (scenes.length === 0) {
+      return NextResponse.json(
+        { error: 'Please provide the existing scenes to continue' },
+        { status: 400 }
+      );
+    }
+
+    const aiOptions = parseAIRequestOptions(body);
+    const providerError = aiOptions.provider && getAIProviderRegistry().getProviderError(aiOptions.provider, 'text');
+    if (providerError) {
+      return NextResponse.json({ error: providerError }, { status: 400 });
+    }
+
+    const sceneCount = typeof body.sceneCount === 'number' && body.sceneCount > 0
+      ? Math.min(Math.round(body.sceneCount), MAX_NEW_SCENES)
+      : 3;
+
+    // Continue the story with AI
+    const story = await continueAIStory({
+      title: typeof body.title === 'string' ? body.title : undefined,
+      scenes: scenes.map((scene) => ({
+        title: typeof scene.title === 'string' && scene.title ? scene.title : 'Untitled Scene',
+        background: typeof scene.background === 'string' && scene.background ? scene.background : 'meadow',
+        narration: scene.narration,
+        characters: toCharacterList(scene.characters),
+        dialogue: toDialogueList(scene.dialogue),
+        mood: typeof scene.mood === 'string' ? scene.mood : undefined,
+        duration: typeof scene.duration === 'number' ? scene.duration : undefined,
+      })),
+      characters: toStringList(body.characters),
+      plotThreads: toStringList(body.plotThreads),
+      ending: typeof body.ending === 'string' ? body.ending : undefined,
+      genre: body.genre,
+      sceneCount,
+      targetAudience: body.targetAudience || 'child',
+    }, aiOptions);
+
+    return NextResponse.json(story);
+  } catch (error) {
+    console.error('Story continuation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to continue story', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
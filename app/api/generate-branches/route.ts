@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateAIBranches } from '@/lib/ai/ai-service';
+import { AIBranchingRequest } from '@/lib/ai/ai-types';
+import { AIRequestOptions, getAIProviderRegistry, parseAIRequestOptions } from '@/lib/ai/ai-providers';
+
+const MAX_BRANCH_POINTS = 3;
+
+const toStringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : undefined;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: AIBranchingRequest & AIRequestOptions = await request.json();
+
+    // Validate request
+    const scenes = Array.isArray(body.scenes)
+      ? body.scenes.filter((scene) => scene && typeof scene.id === 'string' && typeof scene.narration === 'string')
+      : [];
+    if (scenes.length < 2) {
+      return NextResponse.json(
+        { error: 'Please provide at least two scenes, each with an id, to branch' },
+        { status: 400 }
+      );
+    }
+
+    const aiOptions = parseAIRequestOptions(body);
+    const providerError = aiOptions.provider && getAIProviderRegistry().getProviderError(aiOptions.provider, 'text');
+    if (providerError) {
+      return NextResponse.json({ error: providerError }, { status: 400 });
+    }
+
+    const branchCount = typeof body.branchCount === 'number' && body.branchCount > 0
+      ? Math.min(Math.round(body.branchCount), MAX_BRANCH_POINTS)
+      : 1;
+
+    // Generate branches with AI
+    const result = await generateAIBranches({
+      title: typeof body.title === 'string' ? body.title : undefined,
+      scenes: scenes.map((scene) => ({
+        id: scene.id,
+        title: scene.title || 'Untitled Scene',
+        background: scene.background || 'meadow',
+        narration: scene.narration,
+        characters: Array.isArray(scene.characters) ? scene.characters : undefined,
+        dialogue: Array.isArray(scene.dialogue) ? scene.dialogue : undefined,
+        mood: scene.mood,
+        duration: scene.duration,
+      })),
+      characters: toStringList(body.characters),
+      branchCount,
+      genre: body.genre,
+      targetAudience: body.targetAudience || 'child',
+    }, aiOptions);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Branch generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate story branches', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
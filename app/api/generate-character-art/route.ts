@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenAI } from '@google/genai';
+import { AIRequestOptions, getAIProviderRegistry, parseAIRequestOptions } from '@/lib/ai/ai-providers';
 
-interface GenerateCharacterArtBody {
+interface GenerateCharacterArtBody extends AIRequestOptions {
   name: string;
   description?: string;
   styleHint?: string;
@@ -9,9 +9,6 @@ interface GenerateCharacterArtBody {
 
 export async function POST(request: NextRequest) {
   try {
-    const geminiKey = process.env.GEMINI_API_KEY;
-    const openaiKey = process.env.OPENAI_API_KEY;
-
     const body: GenerateCharacterArtBody = await request.json();
     const name = body.name?.trim();
     const description = body.description?.trim() || '';
@@ -28,98 +25,32 @@ export async function POST(request: NextRequest) {
 
     const prompt = `Cute 2D cartoon character portrait of ${name}. ${description}. ${styleHint}. Centered, pastel plain background.`;
 
-    let lastError: unknown = null;
-
-    // Try Gemini first, if configured
-    if (geminiKey) {
-      try {
-        const client = new GoogleGenAI({ apiKey: geminiKey });
-        const result = await client.models.generateImages({
-          model: 'imagen-4.0-generate-001',
-          prompt,
-          config: {
-            numberOfImages: 1,
-          },
-        });
-
-        const generated = (result as any)?.generatedImages?.[0];
-        const imageBytes = generated?.image?.imageBytes as string | undefined;
-
-        if (imageBytes) {
-          return NextResponse.json({ imageBase64: imageBytes });
-        }
-
-        lastError = new Error('No image returned from Gemini');
-      } catch (error) {
-        console.error('Gemini character art generation failed, will try OpenAI if available:', error);
-        lastError = error;
-      }
-    }
-
-    // Fallback to OpenAI images API if configured
-    if (openaiKey) {
-      try {
-        const response = await fetch('https://api.openai.com/v1/images/generations', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${openaiKey}`,
-          },
-          body: JSON.stringify({
-            model: 'gpt-image-1',
-            prompt,
-            size: '1024x1024',
-            n: 1,
-          }),
-        });
-
-        if (!response.ok) {
-          let message = 'Image generation failed';
-          try {
-            const errJson = await response.json();
-            const openaiError = errJson?.error;
-            if (openaiError?.code === 'billing_hard_limit_reached') {
-              message = 'Image generation is disabled because the OpenAI billing limit has been reached.';
-            } else if (typeof openaiError?.message === 'string') {
-              message = openaiError.message;
-            }
-          } catch {
-            // ignore parse errors
-          }
-          throw new Error(message);
-        }
-
-        const data = await response.json();
-        const url = data?.data?.[0]?.url as string | undefined;
+    const registry = getAIProviderRegistry();
+    const aiOptions = parseAIRequestOptions(body);
 
-        if (!url) {
-          throw new Error('OpenAI did not return an image URL');
-        }
-
-        return NextResponse.json({ imageUrl: url });
-      } catch (error) {
-        console.error('OpenAI character art generation failed:', error);
-        lastError = error;
+    if (aiOptions.provider) {
+      const providerError = registry.getProviderError(aiOptions.provider, 'image');
+      if (providerError) {
+        return NextResponse.json({ error: providerError }, { status: 400 });
       }
-    }
-
-    // No providers configured
-    if (!geminiKey && !openaiKey) {
+    } else if (registry.getAvailable('image').length === 0) {
       return NextResponse.json(
-        { error: 'No image provider configured (missing GEMINI_API_KEY and OPENAI_API_KEY).' },
+        { error: 'No image provider configured (set GEMINI_API_KEY, OPENAI_API_KEY or IMAGINE_API_KEY).' },
         { status: 500 }
       );
     }
 
-    const message =
-      typeof lastError === 'object' && lastError && 'message' in lastError && (lastError as any).message
-        ? (lastError as any).message
-        : 'Failed to generate character art with all providers.';
-
-    return NextResponse.json(
-      { error: message },
-      { status: 502 }
-    );
+    // Tries each image provider in order (Gemini, then OpenAI, ...) unless one was requested
+    try {
+      const { result } = await registry.generateImage({ prompt }, aiOptions);
+      return NextResponse.json(result.imageBase64 ? { imageBase64: result.imageBase64 } : { imageUrl: result.imageUrl });
+    } catch (error) {
+      console.error('Character art generation failed with all providers:', error);
+      return NextResponse.json(
+        { error: error instanceof Error && error.message ? error.message : 'Failed to generate character art with all providers.' },
+        { status: 502 }
+      );
+    }
   } catch (error) {
     console.error('Character art generation error:', error);
 
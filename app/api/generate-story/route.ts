@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateAIStory } from '@/lib/ai/ai-service';
-import { AIStoryRequest } from '@/lib/ai/ai-types';
+import { generateAIStory, streamAIStory } from '@/lib/ai/ai-service';
+import { AIStoryRequest, AIStoryStreamEvent } from '@/lib/ai/ai-types';
+import { AIRequestOptions, getAIProviderRegistry, parseAIRequestOptions } from '@/lib/ai/ai-providers';
 
 export async function POST(request: NextRequest) {
   try {
-    const body: AIStoryRequest = await request.json();
+    const body: AIStoryRequest & AIRequestOptions & { stream?: boolean } = await request.json();
 
     // Validate request
     if (!body.prompt && !body.genre) {
@@ -14,14 +15,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate story with AI
-    const story = await generateAIStory({
+    const aiOptions = parseAIRequestOptions(body);
+    const providerError = aiOptions.provider && getAIProviderRegistry().getProviderError(aiOptions.provider, 'text');
+    if (providerError) {
+      return NextResponse.json({ error: providerError }, { status: 400 });
+    }
+
+    const storyRequest: AIStoryRequest = {
       prompt: body.prompt || '',
       genre: body.genre,
       characters: body.characters,
       sceneCount: body.sceneCount || 3,
       targetAudience: body.targetAudience || 'child',
-    });
+    };
+
+    if (body.stream) {
+      return streamStory(storyRequest, aiOptions, request.signal);
+    }
+
+    // Generate story with AI
+    const story = await generateAIStory(storyRequest, aiOptions);
 
     return NextResponse.json(story);
   } catch (error) {
@@ -32,3 +45,41 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+// NDJSON stream of AIStoryStreamEvents; generation stops when the client disconnects
+function streamStory(storyRequest: AIStoryRequest, aiOptions: AIRequestOptions, clientSignal: AbortSignal): Response {
+  const controller = new AbortController();
+  clientSignal.addEventListener('abort', () => controller.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(output) {
+      const send = (event: AIStoryStreamEvent) => output.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+
+      try {
+        for await (const event of streamAIStory(storyRequest, { ...aiOptions, signal: controller.signal })) {
+          send(event);
+        }
+      } catch (error) {
+        console.error('Story stream error:', error);
+        if (!controller.signal.aborted) {
+          send({ type: 'error', error: 'Failed to generate story' });
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          output.close();
+        }
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
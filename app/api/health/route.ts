@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/database/prisma';
+import { getAIProviderRegistry } from '@/lib/ai/ai-providers';
 
 export const dynamic = 'force-dynamic';
 
@@ -9,23 +10,21 @@ interface HealthStatus {
   version: string;
   checks: {
     database: { status: string; latency?: number; error?: string };
-    ai: { gemini: boolean; openai: boolean };
+    ai: Record<string, boolean>; // configured, by provider id
     memory: { used: number; total: number };
   };
 }
 
 export async function GET() {
   const startTime = Date.now();
+  const aiRegistry = getAIProviderRegistry();
   const health: HealthStatus = {
     status: 'healthy',
     timestamp: new Date().toISOString(),
     version: process.env.npm_package_version || '1.0.0',
     checks: {
       database: { status: 'unknown' },
-      ai: {
-        gemini: !!process.env.GEMINI_API_KEY,
-        openai: !!process.env.OPENAI_API_KEY,
-      },
+      ai: Object.fromEntries(aiRegistry.list().map((provider) => [provider.id, provider.isConfigured()])),
       memory: {
         used: 0,
         total: 0,
@@ -59,7 +58,7 @@ export async function GET() {
   }
 
   // Check if AI is available
-  if (!health.checks.ai.gemini && !health.checks.ai.openai) {
+  if (aiRegistry.getAvailable('text').length === 0) {
     health.status = 'degraded';
   }
 
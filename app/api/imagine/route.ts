@@ -1,7 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Imagine.art API v2 endpoint
-const IMAGINE_API_URL = 'https://api.vyro.ai/v2/image/generations';
+import { getAIProviderRegistry, parseAIRequestOptions } from '@/lib/ai/ai-providers';
 
 // Valid style values for Imagine.art API v2 (string values, not IDs)
 const VALID_STYLES = [
@@ -23,8 +21,6 @@ const PLACEHOLDER_BACKGROUNDS: Record<string, string> = {
 
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.IMAGINE_API_KEY;
-
     const body = await request.json();
     const { prompt, style = 'cartoon', aspectRatio = '1:1', type = 'character' } = body;
 
@@ -46,65 +42,33 @@ export async function POST(request: NextRequest) {
     // Use valid style or default to 'cartoon'
     const apiStyle = VALID_STYLES.includes(style.toLowerCase()) ? style.toLowerCase() : 'cartoon';
 
-    // Try Imagine API if key is configured
-    if (apiKey) {
+    // Imagine.art unless the request picks another image provider
+    const registry = getAIProviderRegistry();
+    const requested = parseAIRequestOptions(body);
+    const aiOptions = { ...requested, provider: requested.provider || 'imagine' };
+    const providerError = registry.getProviderError(aiOptions.provider, 'image');
+
+    if (providerError && requested.provider) {
+      return NextResponse.json({ error: providerError }, { status: 400 });
+    }
+
+    if (!providerError) {
       try {
-        const formData = new FormData();
-        formData.append('prompt', enhancedPrompt);
-        formData.append('style', apiStyle); // Use 'style' not 'style_id'
-        formData.append('aspect_ratio', aspectRatio);
-        formData.append('seed', Math.floor(Math.random() * 1000).toString());
-
-        console.log('Trying Imagine API...', { prompt: enhancedPrompt, style: apiStyle, aspectRatio });
-
-        const response = await fetch(IMAGINE_API_URL, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-          },
-          body: formData,
+        console.log('Trying image provider...', { provider: aiOptions.provider, prompt: enhancedPrompt, style: apiStyle, aspectRatio });
+
+        const { result, provider } = await registry.generateImage(
+          { prompt: enhancedPrompt, style: apiStyle, aspectRatio },
+          aiOptions
+        );
+
+        return NextResponse.json({
+          success: true,
+          imageUrl: result.imageUrl || `data:image/png;base64,${result.imageBase64}`,
+          prompt: enhancedPrompt,
+          source: provider === 'imagine' ? 'imagine-api' : provider,
         });
-
-        if (response.ok) {
-          const contentType = response.headers.get('content-type');
-          
-          if (contentType?.includes('application/json')) {
-            const jsonData = await response.json();
-            console.log('Imagine API JSON response:', jsonData);
-            if (jsonData.data?.[0]?.url) {
-              return NextResponse.json({
-                success: true,
-                imageUrl: jsonData.data[0].url,
-                prompt: enhancedPrompt,
-                source: 'imagine-api',
-              });
-            } else if (jsonData.url) {
-              return NextResponse.json({
-                success: true,
-                imageUrl: jsonData.url,
-                prompt: enhancedPrompt,
-                source: 'imagine-api',
-              });
-            }
-          } else {
-            // Binary image data
-            const imageBuffer = await response.arrayBuffer();
-            const base64Image = Buffer.from(imageBuffer).toString('base64');
-            const dataUrl = `data:image/png;base64,${base64Image}`;
-
-            return NextResponse.json({
-              success: true,
-              imageUrl: dataUrl,
-              prompt: enhancedPrompt,
-              source: 'imagine-api',
-            });
-          }
-        } else {
-          const errorText = await response.text();
-          console.error('Imagine API error, falling back to placeholder:', errorText);
-        }
       } catch (apiError) {
-        console.error('Imagine API failed, using fallback:', apiError);
+        console.error('Image provider failed, using fallback:', apiError);
       }
     }
 
@@ -147,12 +111,12 @@ export async function POST(request: NextRequest) {
 
 // GET endpoint to check API status
 export async function GET() {
-  const apiKey = process.env.IMAGINE_API_KEY;
-  
+  const available = !!getAIProviderRegistry().get('imagine')?.isConfigured();
+
   return NextResponse.json({
-    available: !!apiKey,
+    available,
     provider: 'imagine.art',
     styles: VALID_STYLES,
-    note: apiKey ? 'API key configured' : 'Using placeholder images',
+    note: available ? 'API key configured' : 'Using placeholder images',
   });
 }
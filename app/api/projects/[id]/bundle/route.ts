@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { projectRowToStored } from '@/lib/database/project-serializer';
+import { loadUserRigFiles } from '@/lib/database/user-rigs';
+import {
+  createProjectBundle,
+  embedBundleAssets,
+  getBundleFileName,
+  getProjectRigIds,
+  storedProjectToPayload,
+} from '@/lib/database/project-bundle';
+import { authorizeProject } from '@/lib/auth/permissions';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET - Download a project as a self-contained .cartoon bundle
+export async function GET(_: NextRequest, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'viewer');
+    if (access.response) return access.response;
+
+    const row = await prisma.project.findUnique({
+      where: { id: params.id },
+      include: {
+        scenes: {
+          include: { characters: true },
+          orderBy: { orderIndex: 'asc' },
+        },
+        audioTracks: true,
+        settings: true,
+      },
+    });
+
+    if (!row) {
+      return NextResponse.json({ success: false, error: 'Project not found' }, { status: 404 });
+    }
+
+    const project = storedProjectToPayload(projectRowToStored(row));
+    const rigs = await loadUserRigFiles(getProjectRigIds(project));
+    // Only data URLs and files this app serves are embedded; the base URL comes from
+    // configuration, never from the request's Host header
+    const { bundle, errors } = await embedBundleAssets(createProjectBundle(project, rigs), {
+      baseUrl: process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000',
+      sameOriginOnly: true,
+    });
+    if (errors.length > 0) {
+      console.warn(`Bundle for project ${params.id} kept linked assets:`, errors);
+    }
+
+    return new NextResponse(JSON.stringify(bundle), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${getBundleFileName(project.title)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export project bundle error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to export project' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { authorizeProject, isProjectRole, listProjectMembers } from '@/lib/auth/permissions';
+
+interface RouteParams {
+  params: { id: string; userId: string };
+}
+
+async function findMember(projectId: string, userId: string) {
+  return prisma.projectMember.findUnique({
+    where: { projectId_userId: { projectId, userId } },
+  });
+}
+
+// PATCH - Change a member's role
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'owner');
+    if (access.response) return access.response;
+
+    const body = await request.json();
+    if (!isProjectRole(body.role)) {
+      return NextResponse.json({ success: false, error: 'Role must be viewer, editor or owner' }, { status: 400 });
+    }
+
+    const member = await findMember(params.id, params.userId);
+    if (!member) {
+      return NextResponse.json({ success: false, error: 'Member not found' }, { status: 404 });
+    }
+
+    await prisma.projectMember.update({ where: { id: member.id }, data: { role: body.role } });
+
+    return NextResponse.json({ success: true, members: await listProjectMembers(params.id) });
+  } catch (error) {
+    console.error('Update member error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update member' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a member. Owners can remove anyone; members can remove themselves.
+export async function DELETE(_: Request, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'viewer');
+    if (access.response) return access.response;
+
+    if (access.role !== 'owner' && access.user.id !== params.userId) {
+      return NextResponse.json({ success: false, error: 'This needs owner access to the project' }, { status: 403 });
+    }
+
+    const member = await findMember(params.id, params.userId);
+    if (!member) {
+      return NextResponse.json({ success: false, error: 'Member not found' }, { status: 404 });
+    }
+
+    await prisma.projectMember.delete({ where: { id: member.id } });
+
+    return NextResponse.json({ success: true, members: await listProjectMembers(params.id) });
+  } catch (error) {
+    console.error('Remove member error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to remove member' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { normalizeEmail } from '@/lib/auth/accounts';
+import { authorizeProject, isProjectRole, listProjectMembers } from '@/lib/auth/permissions';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET - Everyone with access to the project and their roles
+export async function GET(_: Request, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'viewer');
+    if (access.response) return access.response;
+
+    return NextResponse.json({ success: true, members: await listProjectMembers(params.id), role: access.role });
+  } catch (error) {
+    console.error('List members error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to list members' }, { status: 500 });
+  }
+}
+
+// POST - Give a user (by account email) a role on the project, or change their role
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'owner');
+    if (access.response) return access.response;
+
+    const body = await request.json();
+    const email = normalizeEmail(body.email);
+    if (!email || !isProjectRole(body.role)) {
+      return NextResponse.json(
+        { success: false, error: 'An email and a role (viewer, editor or owner) are required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'No account uses that email. They need to sign up first.' },
+        { status: 404 }
+      );
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: params.id }, select: { ownerId: true } });
+    if (project?.ownerId === user.id) {
+      return NextResponse.json({ success: false, error: "The project's owner always has full access" }, { status: 409 });
+    }
+
+    await prisma.projectMember.upsert({
+      where: { projectId_userId: { projectId: params.id, userId: user.id } },
+      update: { role: body.role },
+      create: { projectId: params.id, userId: user.id, role: body.role },
+    });
+
+    return NextResponse.json({ success: true, members: await listProjectMembers(params.id) });
+  } catch (error) {
+    console.error('Add member error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to add member' }, { status: 500 });
+  }
+}
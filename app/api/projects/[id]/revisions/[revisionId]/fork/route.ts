@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { reassignProjectIds } from '@/lib/database/project-bundle';
+import { readRevisionSnapshot, saveProjectWithRevision } from '@/lib/database/project-revisions';
+import { authorizeProject } from '@/lib/auth/permissions';
+
+interface RouteParams {
+  params: { id: string; revisionId: string };
+}
+
+// POST - Start a new project from a revision, owned by whoever forks it. The
+// original project is left as it is.
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'viewer');
+    if (access.response) return access.response;
+
+    const body = await request.json().catch(() => ({}));
+
+    const revision = await prisma.projectRevision.findUnique({
+      where: { id: params.revisionId },
+    });
+
+    if (!revision || revision.projectId !== params.id) {
+      return NextResponse.json({ success: false, error: 'Revision not found' }, { status: 404 });
+    }
+
+    const { project, errors } = readRevisionSnapshot(revision);
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Revision snapshot is unreadable', details: errors },
+        { status: 422 }
+      );
+    }
+
+    const title = typeof body.title === 'string' && body.title.trim() ? body.title.trim() : `${project.title} (fork)`;
+    const saved = await saveProjectWithRevision(
+      { ...reassignProjectIds(project), title },
+      {
+        label: `Forked from "${revision.title}" revision ${revision.number}`,
+        author: access.user.name,
+        ownerId: access.user.id,
+      }
+    );
+
+    return NextResponse.json({ success: true, id: saved.id, revision: saved.revision, corrections: errors });
+  } catch (error) {
+    console.error('Fork revision error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fork revision' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { readRevisionSnapshot, saveProjectWithRevision } from '@/lib/database/project-revisions';
+import { authorizeProject } from '@/lib/auth/permissions';
+
+interface RouteParams {
+  params: { id: string; revisionId: string };
+}
+
+// POST - Save a revision over the project. This adds a new revision, so the
+// restore itself can be undone from the history.
+export async function POST(_: Request, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'editor');
+    if (access.response) return access.response;
+
+    const revision = await prisma.projectRevision.findUnique({
+      where: { id: params.revisionId },
+    });
+
+    if (!revision || revision.projectId !== params.id) {
+      return NextResponse.json({ success: false, error: 'Revision not found' }, { status: 404 });
+    }
+
+    const { project, errors } = readRevisionSnapshot(revision);
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Revision snapshot is unreadable', details: errors },
+        { status: 422 }
+      );
+    }
+
+    const saved = await saveProjectWithRevision(
+      { ...project, id: params.id },
+      { label: `Restored revision ${revision.number}`, author: access.user.name }
+    );
+
+    return NextResponse.json({ success: true, id: saved.id, revision: saved.revision, corrections: errors });
+  } catch (error) {
+    console.error('Restore revision error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to restore revision' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import {
+  normalizeRevisionLabel,
+  readRevisionSnapshot,
+  toRevisionSummary,
+} from '@/lib/database/project-revisions';
+import { authorizeProject } from '@/lib/auth/permissions';
+
+interface RouteParams {
+  params: { id: string; revisionId: string };
+}
+
+// GET - A revision with the project as it was saved
+export async function GET(_: Request, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'viewer');
+    if (access.response) return access.response;
+
+    const revision = await prisma.projectRevision.findUnique({
+      where: { id: params.revisionId },
+    });
+
+    if (!revision || revision.projectId !== params.id) {
+      return NextResponse.json({ success: false, error: 'Revision not found' }, { status: 404 });
+    }
+
+    const { project, errors } = readRevisionSnapshot(revision);
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Revision snapshot is unreadable', details: errors },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ success: true, revision: toRevisionSummary(revision), project, corrections: errors });
+  } catch (error) {
+    console.error('Load revision error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load revision' }, { status: 500 });
+  }
+}
+
+// PATCH - Set or clear a revision's label
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'editor');
+    if (access.response) return access.response;
+
+    const body = await request.json();
+
+    const revision = await prisma.projectRevision.findUnique({
+      where: { id: params.revisionId },
+    });
+
+    if (!revision || revision.projectId !== params.id) {
+      return NextResponse.json({ success: false, error: 'Revision not found' }, { status: 404 });
+    }
+
+    const updated = await prisma.projectRevision.update({
+      where: { id: revision.id },
+      data: { label: normalizeRevisionLabel(body.label) },
+    });
+
+    return NextResponse.json({ success: true, revision: toRevisionSummary(updated) });
+  } catch (error) {
+    console.error('Update revision error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update revision' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { diffProjects, readRevisionSnapshot } from '@/lib/database/project-revisions';
+import { authorizeProject } from '@/lib/auth/permissions';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET - Compare two revisions scene by scene (?from=<number>&to=<number>).
+// `to` defaults to the latest revision and `from` to the one before it.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'viewer');
+    if (access.response) return access.response;
+
+    const searchParams = request.nextUrl.searchParams;
+    const toParam = searchParams.get('to');
+    const fromParam = searchParams.get('from');
+    const toNumber = toParam ? Number(toParam) : null;
+    const fromNumber = fromParam ? Number(fromParam) : null;
+
+    if ((toParam && !Number.isInteger(toNumber)) || (fromParam && !Number.isInteger(fromNumber))) {
+      return NextResponse.json({ success: false, error: 'Revision numbers must be integers' }, { status: 400 });
+    }
+
+    const to = await prisma.projectRevision.findFirst({
+      where: { projectId: params.id, ...(toNumber !== null ? { number: toNumber } : {}) },
+      orderBy: { number: 'desc' },
+    });
+    if (!to) {
+      return NextResponse.json({ success: false, error: 'Revision not found' }, { status: 404 });
+    }
+
+    const from = await prisma.projectRevision.findFirst({
+      where: { projectId: params.id, number: fromNumber !== null ? fromNumber : { lt: to.number } },
+      orderBy: { number: 'desc' },
+    });
+    if (!from) {
+      return NextResponse.json(
+        { success: false, error: fromNumber !== null ? 'Revision not found' : 'No earlier revision to compare with' },
+        { status: 404 }
+      );
+    }
+
+    const before = readRevisionSnapshot(from).project;
+    const after = readRevisionSnapshot(to).project;
+    if (!before || !after) {
+      return NextResponse.json({ success: false, error: 'Revision snapshot is unreadable' }, { status: 422 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      diff: diffProjects(before, after, { from: from.number, to: to.number }),
+    });
+  } catch (error) {
+    console.error('Diff revisions error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to compare revisions' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { REVISION_SUMMARY_SELECT, toRevisionSummary } from '@/lib/database/project-revisions';
+import { authorizeProject } from '@/lib/auth/permissions';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET - List a project's revisions, newest first
+export async function GET(_: Request, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'viewer');
+    if (access.response) return access.response;
+
+    const revisions = await prisma.projectRevision.findMany({
+      where: { projectId: params.id },
+      select: REVISION_SUMMARY_SELECT,
+      orderBy: { number: 'desc' },
+    });
+
+    return NextResponse.json({ success: true, revisions: revisions.map(toRevisionSummary) });
+  } catch (error) {
+    console.error('List revisions error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to list revisions' }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/database/prisma';
+import { projectRowToStored } from '@/lib/database/project-serializer';
+import { authorizeProject } from '@/lib/auth/permissions';
 
 interface RouteParams {
   params: { id: string };
@@ -7,6 +9,9 @@ interface RouteParams {
 
 export async function GET(_: Request, { params }: RouteParams) {
   try {
+    const access = await authorizeProject(params.id, 'viewer');
+    if (access.response) return access.response;
+
     const project = await prisma.project.findUnique({
       where: { id: params.id },
       include: {
@@ -23,7 +28,7 @@ export async function GET(_: Request, { params }: RouteParams) {
       return NextResponse.json({ success: false, error: 'Project not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ success: true, project });
+    return NextResponse.json({ success: true, project: projectRowToStored(project), role: access.role });
   } catch (error) {
     console.error('Load project error:', error);
     return NextResponse.json({ success: false, error: 'Failed to load project' }, { status: 500 });
@@ -34,16 +39,11 @@ export async function DELETE(_: Request, { params }: RouteParams) {
   try {
     const { id } = params;
 
-    // Check if project exists
-    const project = await prisma.project.findUnique({
-      where: { id },
-    });
+    // Only owners can delete (this also checks that the project exists)
+    const access = await authorizeProject(id, 'owner');
+    if (access.response) return access.response;
 
-    if (!project) {
-      return NextResponse.json({ success: false, error: 'Project not found' }, { status: 404 });
-    }
-
-    // Delete the project (cascade will delete related scenes, characters, audio tracks, settings)
+    // Delete the project (cascade will delete related scenes, characters, audio tracks, settings, revisions and members)
     await prisma.project.delete({
       where: { id },
     });
@@ -58,6 +58,10 @@ export async function DELETE(_: Request, { params }: RouteParams) {
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
     const { id } = params;
+
+    const access = await authorizeProject(id, 'editor');
+    if (access.response) return access.response;
+
     const body = await request.json();
 
     // Check if project exists
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { toShareLinkSummary } from '@/lib/database/share-links';
+import { authorizeProject } from '@/lib/auth/permissions';
+
+interface RouteParams {
+  params: { id: string; linkId: string };
+}
+
+// DELETE - Revoke a share link. The row is kept so its view count stays visible.
+export async function DELETE(_: Request, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'editor');
+    if (access.response) return access.response;
+
+    const link = await prisma.shareLink.findUnique({
+      where: { id: params.linkId },
+      include: { createdBy: { select: { name: true } } },
+    });
+
+    if (!link || link.projectId !== params.id) {
+      return NextResponse.json({ success: false, error: 'Share link not found' }, { status: 404 });
+    }
+
+    const revoked = link.revokedAt
+      ? link
+      : await prisma.shareLink.update({
+          where: { id: link.id },
+          data: { revokedAt: new Date() },
+          include: { createdBy: { select: { name: true } } },
+        });
+
+    return NextResponse.json({ success: true, link: toShareLinkSummary(revoked) });
+  } catch (error) {
+    console.error('Revoke share link error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to revoke share link' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { toShareLinkSummary } from '@/lib/database/share-links';
+import { authorizeProject } from '@/lib/auth/permissions';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET - List every share link created for a project (active, expired and revoked).
+// Links carry their tokens, so this needs editor access.
+export async function GET(_: Request, { params }: RouteParams) {
+  try {
+    const access = await authorizeProject(params.id, 'editor');
+    if (access.response) return access.response;
+
+    const links = await prisma.shareLink.findMany({
+      where: { projectId: params.id },
+      include: { createdBy: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ success: true, links: links.map(toShareLinkSummary) });
+  } catch (error) {
+    console.error('List share links error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to list share links' }, { status: 500 });
+  }
+}
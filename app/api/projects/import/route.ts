@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { toUserRigData, userRigRowToRig } from '@/lib/database/user-rigs';
+import { parseProjectBundle, reassignProjectIds, remapProjectRigIds } from '@/lib/database/project-bundle';
+import { createRigFile } from '@/lib/utils/rig-format';
+import { writeProjectRevision } from '@/lib/database/project-revisions';
+import { CharacterRig, isBuiltInRigId } from '@/lib/utils/sprite-system';
+import { requireUser } from '@/lib/auth/session';
+
+/**
+ * Project Import API
+ * Creates a new project from a .cartoon bundle (or an older unbundled project
+ * JSON), owned by the signed-in user. The bundle's user rigs are added to the
+ * rig library; a rig whose id is already taken by a different rig is added under
+ * a new id, so other people's rigs are never overwritten.
+ */
+
+const isSameRig = (row: any, rig: CharacterRig) => {
+  const stored = userRigRowToRig(row);
+  return !!stored && JSON.stringify(createRigFile(stored)) === JSON.stringify(createRigFile(rig));
+};
+
+// POST - Import a project bundle
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser();
+    if (auth.response) return auth.response;
+
+    const { project, rigs, errors } = parseProjectBundle(await request.json());
+
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid project file', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const created = await prisma.$transaction(async (tx: typeof prisma) => {
+      const renamedRigs = new Map<string, string>();
+      for (const rig of rigs.filter((rig) => !isBuiltInRigId(rig.id))) {
+        const existing = await tx.userRig.findUnique({ where: { rigId: rig.id } });
+        if (existing && isSameRig(existing, rig)) continue;
+
+        const rigId = existing ? `${rig.id}-${Date.now().toString(36)}` : rig.id;
+        if (existing) renamedRigs.set(rig.id, rigId);
+        await tx.userRig.create({
+          data: { rigId, ...toUserRigData({ ...rig, id: rigId }), createdById: auth.user.id },
+        });
+      }
+      const imported = remapProjectRigIds(reassignProjectIds(project), renamedRigs);
+      return writeProjectRevision(tx, imported, {
+        label: 'Imported from file',
+        author: auth.user.name,
+        ownerId: auth.user.id,
+      });
+    });
+
+    return NextResponse.json({ success: true, id: created.id, corrections: errors });
+  } catch (error) {
+    console.error('Import project error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to import project' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import { NextResponse } from 'next/server';
+import { renderQueue } from '@/lib/export/render-queue';
+import { requireUser } from '@/lib/auth/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { jobId: string };
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+};
+
+// GET - Download the encoded video of a finished job
+export async function GET(_: Request, { params }: RouteParams) {
+  try {
+    const auth = await requireUser();
+    if (auth.response) return auth.response;
+
+    const job = renderQueue.getJob(params.jobId);
+
+    if (!job || job.userId !== auth.user.id) {
+      return NextResponse.json({ success: false, error: 'Render job not found' }, { status: 404 });
+    }
+
+    if (job.status !== 'complete' || !job.outputPath) {
+      return NextResponse.json(
+        { success: false, error: `Render job is ${job.status}` },
+        { status: 409 }
+      );
+    }
+
+    // Image sequences stay on disk; only encoded videos are served
+    if (job.options.format === 'png') {
+      return NextResponse.json(
+        { success: false, error: 'Image sequences are not downloadable', outputPath: job.outputPath },
+        { status: 400 }
+      );
+    }
+
+    const file = await fs.readFile(job.outputPath);
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[job.options.format],
+        'Content-Length': String(file.length),
+        'Content-Disposition': `attachment; filename="render-${job.id}.${job.options.format}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Render download error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to read render output' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { renderQueue } from '@/lib/export/render-queue';
+import { requireUser } from '@/lib/auth/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { jobId: string };
+}
+
+// GET - Job status and progress
+export async function GET(_: Request, { params }: RouteParams) {
+  const auth = await requireUser();
+  if (auth.response) return auth.response;
+
+  const job = renderQueue.getJob(params.jobId);
+
+  if (!job || job.userId !== auth.user.id) {
+    return NextResponse.json({ success: false, error: 'Render job not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    job,
+    queuePosition: renderQueue.getQueuePosition(job.id),
+  });
+}
+
+// DELETE - Cancel a queued or running job
+export async function DELETE(_: Request, { params }: RouteParams) {
+  const auth = await requireUser();
+  if (auth.response) return auth.response;
+
+  const job = renderQueue.getJob(params.jobId);
+
+  if (!job || job.userId !== auth.user.id) {
+    return NextResponse.json({ success: false, error: 'Render job not found' }, { status: 404 });
+  }
+
+  if (!renderQueue.cancel(job.id)) {
+    return NextResponse.json(
+      { success: false, error: `Render job already ${job.status}` },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ success: true, message: 'Render job cancelled' });
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { projectRowToStored } from '@/lib/database/project-serializer';
+import { editableSceneToRenderData, type SceneRenderData } from '@/lib/export/video-export-engine';
+import {
+  RenderLimitError,
+  renderQueue,
+  resolveRenderOptions,
+  type RenderJobOptions,
+} from '@/lib/export/render-queue';
+import { registerStoredRigs } from '@/lib/database/user-rigs';
+import { requireUser } from '@/lib/auth/session';
+import { authorizeProject } from '@/lib/auth/permissions';
+
+/**
+ * Headless Render API
+ * Queues a server-side render of a saved project (or raw scenes) and reports job status.
+ * Jobs run one at a time; poll GET /api/render/[jobId] for progress. Rendering a
+ * saved project needs viewer access to it, and each user only sees their own jobs.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// POST - Queue a render job
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser();
+    if (auth.response) return auth.response;
+
+    const body = await request.json();
+    const { projectId, scenes, options } = body as {
+      projectId?: string;
+      scenes?: any[];
+      options?: Partial<RenderJobOptions>;
+    };
+
+    let renderScenes: SceneRenderData[];
+    let projectOptions: Partial<RenderJobOptions> = {};
+
+    if (Array.isArray(scenes)) {
+      renderScenes = scenes.map(editableSceneToRenderData);
+    } else if (projectId) {
+      const access = await authorizeProject(projectId, 'viewer');
+      if (access.response) return access.response;
+
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        include: {
+          scenes: {
+            include: { characters: true },
+            orderBy: { orderIndex: 'asc' },
+          },
+          settings: true,
+        },
+      });
+
+      if (!project) {
+        return NextResponse.json({ success: false, error: 'Project not found' }, { status: 404 });
+      }
+
+      const stored = projectRowToStored(project);
+      renderScenes = stored.scenes.map(editableSceneToRenderData);
+      if (stored.settings) {
+        projectOptions = {
+          width: stored.settings.resolutionWidth,
+          height: stored.settings.resolutionHeight,
+          fps: stored.settings.fps,
+        };
+      }
+    } else {
+      return NextResponse.json(
+        { success: false, error: 'Either projectId or scenes is required' },
+        { status: 400 }
+      );
+    }
+
+    if (renderScenes.length === 0) {
+      return NextResponse.json({ success: false, error: 'Nothing to render' }, { status: 400 });
+    }
+
+    // Imported characters must resolve in this process too
+    try {
+      await registerStoredRigs(renderScenes.flatMap((scene) => scene.characters.map((char) => char.rigId)));
+    } catch (error) {
+      console.warn('Could not load user rigs for render:', error);
+    }
+
+    const job = renderQueue.enqueue(
+      renderScenes,
+      resolveRenderOptions({ ...projectOptions, ...options }),
+      projectId ?? null,
+      auth.user.id
+    );
+
+    return NextResponse.json(
+      { success: true, job, queuePosition: renderQueue.getQueuePosition(job.id) },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof RenderLimitError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Render error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to queue render' }, { status: 500 });
+  }
+}
+
+// GET - List the signed-in user's render jobs (newest first)
+export async function GET() {
+  const auth = await requireUser();
+  if (auth.response) return auth.response;
+
+  return NextResponse.json({
+    success: true,
+    jobs: renderQueue.listJobs().filter((job) => job.userId === auth.user.id),
+  });
+}
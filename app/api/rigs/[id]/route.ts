@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { canChangeUserRig, loadUserRigFiles } from '@/lib/database/user-rigs';
+import { requireUser } from '@/lib/auth/session';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET - Download a user rig as a rig file
+export async function GET(_: Request, { params }: RouteParams) {
+  try {
+    const auth = await requireUser();
+    if (auth.response) return auth.response;
+
+    const [file] = await loadUserRigFiles([params.id]);
+
+    if (!file) {
+      return NextResponse.json({ success: false, error: 'Rig not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(file, {
+      headers: { 'Content-Disposition': `attachment; filename="${file.rig.id}.rig.json"` },
+    });
+  } catch (error) {
+    console.error('Load rig error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load rig' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_: Request, { params }: RouteParams) {
+  try {
+    const auth = await requireUser();
+    if (auth.response) return auth.response;
+
+    const rig = await prisma.userRig.findUnique({ where: { rigId: params.id } });
+
+    if (!rig) {
+      return NextResponse.json({ success: false, error: 'Rig not found' }, { status: 404 });
+    }
+
+    if (!canChangeUserRig(rig, auth.user.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Only the person who added this rig can delete it' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.userRig.delete({ where: { rigId: params.id } });
+
+    return NextResponse.json({ success: true, message: 'Rig deleted successfully' });
+  } catch (error) {
+    console.error('Delete rig error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to delete rig' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { canChangeUserRig, loadUserRigFiles, toUserRigData } from '@/lib/database/user-rigs';
+import { parseRigFile } from '@/lib/utils/rig-format';
+import { isBuiltInRigId } from '@/lib/utils/sprite-system';
+import { requireUser } from '@/lib/auth/session';
+
+/**
+ * User Rig Library API
+ * Character rigs imported by users, stored as versioned rig files so every
+ * browser (and the headless renderer) can resolve them. The library is shared by
+ * the whole studio, so any signed-in user can use it; only the user who added a
+ * rig can replace or delete it.
+ */
+
+// GET - List user rigs
+export async function GET() {
+  try {
+    const auth = await requireUser();
+    if (auth.response) return auth.response;
+
+    return NextResponse.json({ success: true, rigs: await loadUserRigFiles() });
+  } catch (error) {
+    console.error('List rigs error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load rigs' }, { status: 500 });
+  }
+}
+
+// POST - Save a rig file (replaces a stored rig with the same id if the user added it)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser();
+    if (auth.response) return auth.response;
+
+    const { rig, errors } = parseRigFile(await request.json());
+
+    if (!rig) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid rig file', details: errors },
+        { status: 400 }
+      );
+    }
+
+    if (isBuiltInRigId(rig.id)) {
+      return NextResponse.json(
+        { success: false, error: `"${rig.id}" is a built-in character id` },
+        { status: 409 }
+      );
+    }
+
+    const data = toUserRigData(rig);
+    const existing = await prisma.userRig.findUnique({ where: { rigId: rig.id } });
+
+    if (existing && !canChangeUserRig(existing, auth.user.id)) {
+      return NextResponse.json(
+        { success: false, error: `Rig "${rig.id}" belongs to someone else; import it under another id` },
+        { status: 403 }
+      );
+    }
+
+    if (existing) {
+      await prisma.userRig.update({ where: { rigId: rig.id }, data });
+    } else {
+      await prisma.userRig.create({ data: { rigId: rig.id, ...data, createdById: auth.user.id } });
+    }
+
+    return NextResponse.json({ success: true, id: rig.id, corrections: errors });
+  } catch (error) {
+    console.error('Save rig error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to save rig' }, { status: 500 });
+  }
+}
@@ -1,17 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database/prisma';
-import { v4 as uuidv4 } from 'uuid';
+import {
+  generateShareToken,
+  resolveShareExpiry,
+  hashSharePassword,
+  verifySharePassword,
+  getShareLinkStatus,
+  toShareLinkSummary,
+} from '@/lib/database/share-links';
+import { projectRowToStored } from '@/lib/database/project-serializer';
+import { loadUserRigFiles } from '@/lib/database/user-rigs';
+import { authorizeProject } from '@/lib/auth/permissions';
 
 /**
  * Share Project API
- * Creates shareable links for projects
+ * Creates shareable links for projects and serves shared projects to viewers.
+ * Links are stored in the ShareLink table with an expiry, optional password and view counter.
+ * Creating a link needs editor access; viewing a shared project only needs the link.
  */
 
 // POST - Generate a share link
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { projectId } = body;
+    const { projectId, expiresInDays, password } = body as {
+      projectId?: string;
+      expiresInDays?: number;
+      password?: string;
+    };
 
     if (!projectId) {
       return NextResponse.json(
@@ -20,7 +36,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if project exists
+    const access = await authorizeProject(projectId, 'editor');
+    if (access.response) return access.response;
+
     const project = await prisma.project.findUnique({
       where: { id: projectId },
       select: { id: true, title: true },
@@ -33,21 +51,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate a unique share token
-    const shareToken = uuidv4().replace(/-/g, '').substring(0, 16);
-    
-    // In a production app, you'd store this token in a ShareLink table
-    // For now, we'll use the project ID as part of the shareable URL
-    // The token provides some obfuscation
-    
-    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
-    const shareLink = `${baseUrl}/view/${projectId}?token=${shareToken}`;
+    const link = await prisma.shareLink.create({
+      data: {
+        token: generateShareToken(),
+        projectId,
+        expiresAt: resolveShareExpiry(expiresInDays),
+        passwordHash: password ? hashSharePassword(password) : null,
+        createdById: access.user.id,
+      },
+      include: { createdBy: { select: { name: true } } },
+    });
+    const summary = toShareLinkSummary(link);
 
     return NextResponse.json({
       success: true,
-      shareLink,
+      shareLink: summary.url,
+      link: summary,
       projectTitle: project.title,
-      expiresIn: '7 days', // Info only - actual expiry would need DB tracking
+      expiresAt: summary.expiresAt,
     });
   } catch (error) {
     console.error('Share link generation error:', error);
@@ -63,6 +84,7 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
+    const token = searchParams.get('token');
 
     if (!projectId) {
       return NextResponse.json(
@@ -71,6 +93,40 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: 'A share token is required to view this project' },
+        { status: 401 }
+      );
+    }
+
+    const link = await prisma.shareLink.findUnique({ where: { token } });
+
+    if (!link || link.projectId !== projectId) {
+      return NextResponse.json(
+        { success: false, error: 'This share link is invalid' },
+        { status: 404 }
+      );
+    }
+
+    const status = getShareLinkStatus(link);
+    if (status !== 'active') {
+      return NextResponse.json(
+        { success: false, error: status === 'revoked' ? 'This share link has been revoked' : 'This share link has expired' },
+        { status: 410 }
+      );
+    }
+
+    if (link.passwordHash) {
+      const password = request.headers.get('x-share-password');
+      if (!password || !verifySharePassword(password, link.passwordHash)) {
+        return NextResponse.json(
+          { success: false, error: password ? 'Incorrect password' : 'Password required', passwordRequired: true },
+          { status: 401 }
+        );
+      }
+    }
+
     const project = await prisma.project.findUnique({
       where: { id: projectId },
       include: {
@@ -88,33 +144,22 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    await prisma.shareLink.update({
+      where: { id: link.id },
+      data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+    });
+
+    // Same scene model the editor loads; description, cover, provider, timestamps and
+    // audio settings stay private
+    const { id, title, scenes, sceneTransitions, branchingStory, customBackgrounds } = projectRowToStored(project);
+
+    // Imported rigs the scenes use, so viewers without them can still see the characters
+    const rigs = await loadUserRigFiles(scenes.flatMap((scene) => scene.characters.map((c) => c.rigId)));
+
     // Return read-only project data
     return NextResponse.json({
       success: true,
-      project: {
-        id: project.id,
-        title: project.title,
-        scenes: project.scenes.map((scene) => ({
-          id: scene.id,
-          title: scene.title,
-          narration: scene.narration,
-          background: scene.background,
-          duration: scene.duration,
-          cameraZoom: scene.cameraZoom,
-          cameraPanX: scene.cameraPanX,
-          cameraPanY: scene.cameraPanY,
-          characters: scene.characters.map((c) => ({
-            rigId: c.rigId,
-            name: c.name,
-            x: c.x,
-            y: c.y,
-            scale: c.scale,
-            flipX: c.flipX,
-            animation: c.animation,
-            expression: c.expression,
-          })),
-        })),
-      },
+      project: { id, title, scenes, sceneTransitions, branchingStory, customBackgrounds, rigs },
     });
   } catch (error) {
     console.error('Get shared project error:', error);
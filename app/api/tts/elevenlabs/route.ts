@@ -18,6 +18,9 @@ const VOICE_MAP: Record<string, string> = {
   rachel: '21m00Tcm4TlvDq8ikWAM',
   josh: 'TxGEqnHWrfWFTfGW9XjX',
   bella: 'EXAVITQu4vr4xnSDxMaL',
+  domi: 'AZnzlk1XvdvUeBnXmlld',
+  antoni: 'ErXwobaYiN019PkySvjV',
+  arnold: 'VR6AewLTigWG4xSOukaG',
   adam: 'pNInz6obpgDQGcFmaJgB',
   sam: 'yoZ06aMxZJJ28mfd3POQ',
   emily: 'LcfcDJNUP1GQjkzn1xUU',
@@ -3,7 +3,7 @@
 import React, { useState } from 'react';
 import AnimatedCharacterComponent from '@/components/shared/AnimatedCharacter';
 import AnimationStage from '@/components/shared/AnimationStage';
-import { ANIMATED_CHARACTERS } from '@/lib/utils/characters';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
 import { 
   Play, 
   Pause, 
@@ -30,7 +30,8 @@ interface StageCharacter {
 }
 
 export default function DemoPage() {
-  const [selectedCharacter, setSelectedCharacter] = useState(ANIMATED_CHARACTERS[0]);
+  const animatedCharacters = getCharacterRegistry().getAnimatedCharacters();
+  const [selectedCharacter, setSelectedCharacter] = useState(animatedCharacters[0]);
   const [currentAnimation, setCurrentAnimation] = useState<AnimationType>('idle');
   const [isPlaying, setIsPlaying] = useState(true);
   const [backgroundId, setBackgroundId] = useState('forest');
@@ -177,7 +178,7 @@ export default function DemoPage() {
                 Character Library
               </h3>
               <div className="grid grid-cols-2 gap-4">
-                {ANIMATED_CHARACTERS.map((char) => (
+                {animatedCharacters.map((char) => (
                   <div
                     key={char.id}
                     className="relative bg-gradient-to-br from-gray-50 to-gray-100 rounded-xl p-4 cursor-pointer hover:shadow-lg transition-all group"
@@ -211,7 +212,7 @@ export default function DemoPage() {
               <div className="bg-white rounded-2xl shadow-xl p-6">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="font-semibold text-gray-800">
-                    {ANIMATED_CHARACTERS.find(c => c.id === selectedStageChar.characterId)?.name}
+                    {getCharacterRegistry().getAnimatedCharacter(selectedStageChar.characterId)?.name}
                   </h3>
                   <button
                     onClick={() => removeCharacterFromStage(selectedStageChar.id)}
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Film, Loader2, LogIn, UserPlus, KeyRound } from 'lucide-react';
+import { register, signIn, signInWithProvider, useCurrentUser } from '@/lib/auth/client';
+
+interface LoginPageProps {
+  searchParams: { error?: string };
+}
+
+export default function LoginPage({ searchParams }: LoginPageProps) {
+  const { user, providers, signupAllowed, isLoading } = useCurrentUser();
+  const [mode, setMode] = useState<'signin' | 'register'>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(searchParams.error ?? null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (mode === 'register') {
+        await register(email, password, name.trim() || undefined);
+      } else {
+        await signIn(email, password);
+      }
+      // Full reload so everything that was fetched signed out is fetched again
+      window.location.href = '/';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2.5 mb-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-indigo-900 to-blue-900 flex items-center justify-center p-4">
+      <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-8 max-w-md w-full">
+        <div className="text-center mb-6">
+          <Film className="w-12 h-12 text-purple-300 mx-auto mb-4" />
+          <h1 className="text-xl font-bold text-white mb-2">
+            {mode === 'register' ? 'Create your account' : 'Sign in to Cartoon Studio'}
+          </h1>
+          <p className="text-gray-300">Projects are shared with the people their owner adds.</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-8 h-8 text-white animate-spin" />
+          </div>
+        ) : user ? (
+          <div className="text-center">
+            <p className="text-gray-200 mb-6">
+              Signed in as <span className="font-medium text-white">{user.name}</span> ({user.email})
+            </p>
+            <Link
+              href="/"
+              className="inline-flex items-center gap-2 px-6 py-3 bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors"
+            >
+              Open the studio
+            </Link>
+          </div>
+        ) : (
+          <>
+            <form onSubmit={handleSubmit}>
+              {mode === 'register' && (
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className={inputClass}
+                  placeholder="Name (shown to collaborators)"
+                  autoComplete="name"
+                />
+              )}
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={inputClass}
+                placeholder="Email"
+                autoComplete="email"
+                required
+                autoFocus
+              />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+                placeholder="Password"
+                autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+                required
+              />
+              {error && <p className="text-red-300 text-sm mb-3">{error}</p>}
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-purple-500 hover:bg-purple-600 disabled:opacity-60 text-white rounded-lg transition-colors"
+              >
+                {isSubmitting ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : mode === 'register' ? (
+                  <UserPlus className="w-4 h-4" />
+                ) : (
+                  <LogIn className="w-4 h-4" />
+                )}
+                {mode === 'register' ? 'Create account' : 'Sign in'}
+              </button>
+            </form>
+
+            {providers.length > 0 && (
+              <div className="mt-6 pt-6 border-t border-white/10 space-y-2">
+                {providers.map((provider) => (
+                  <button
+                    key={provider.id}
+                    onClick={() => signInWithProvider(provider.id)}
+                    className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+                  >
+                    <KeyRound className="w-4 h-4" />
+                    Continue with {provider.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {(signupAllowed || mode === 'register') && (
+              <p className="mt-6 text-center text-sm text-gray-300">
+                {mode === 'register' ? 'Already have an account?' : 'New to the studio?'}{' '}
+                <button
+                  onClick={() => {
+                    setMode(mode === 'register' ? 'signin' : 'register');
+                    setError(null);
+                  }}
+                  className="text-purple-300 hover:text-purple-200 underline"
+                >
+                  {mode === 'register' ? 'Sign in' : 'Create an account'}
+                </button>
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
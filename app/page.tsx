@@ -43,28 +43,54 @@ import {
   Globe,
   Undo2,
   Redo2,
+  Upload,
+  LogIn,
+  LogOut,
 } from 'lucide-react';
 import StoryGenerator from '@/components/modals/StoryGenerator';
 import EnhancedPlaybackViewer from '@/components/playback/EnhancedPlaybackViewer';
 import InteractiveSceneEditor, { EditableScene } from '@/components/editors/InteractiveSceneEditor';
+import type { SceneChange } from '@/lib/utils/scene-document';
 import VideoExporter from '@/components/modals/VideoExporter';
 import RiggedCharacter from '@/components/shared/RiggedCharacter';
 import AnimatedBackground from '@/components/shared/AnimatedBackground';
 import ParallaxBackground from '@/components/shared/ParallaxBackground';
-import { getCharacterRig, CHARACTER_RIGS } from '@/lib/utils/sprite-system';
-import { storyToEditableScenes, autoEnhanceScene, applyAutoDurations, aiSceneToEditableScene } from '@/lib/animation/story-animator';
-import type { AIStoryResponse } from '@/lib/ai/ai-types';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
+import { getRigLibrary, useUserRigs } from '@/lib/utils/rig-library';
+import { getUserRigs } from '@/lib/utils/sprite-system';
+import { storyToEditableScenes, storySceneToEditableScene, autoEnhanceScene, applyAutoDurations, aiSceneToEditableScene } from '@/lib/animation/story-animator';
+import type { AIBranchingResponse, AIStoryResponse } from '@/lib/ai/ai-types';
+import type { StoredProject } from '@/lib/database/project-serializer';
+import {
+  PROJECT_BUNDLE_EXTENSION,
+  createProjectBundle,
+  embedBundleAssets,
+  getBundleFileName,
+} from '@/lib/database/project-bundle';
+import type { ShareLinkSummary } from '@/lib/database/share-links';
 import { VideoExportEngine, editableSceneToRenderData, type ExportProgress } from '@/lib/export/video-export-engine';
+import { getAudioManager } from '@/lib/audio/audio-manager';
 import TTSSettingsPanel from '@/components/modals/TTSSettingsPanel';
 import { SCENE_TEMPLATES, applyTemplate } from '@/lib/utils/scene-templates';
 import CharacterCreatorModal from '@/components/modals/CharacterCreatorModal';
 import KeyboardShortcutsPanel from '@/components/modals/KeyboardShortcutsPanel';
 import SettingsPanel from '@/components/modals/SettingsPanel';
 import CollaborationPanel from '@/components/modals/CollaborationPanel';
+import ProjectHistoryPanel from '@/components/modals/ProjectHistoryPanel';
+import ProjectMembersPanel from '@/components/modals/ProjectMembersPanel';
+import { signOut, useCurrentUser } from '@/lib/auth/client';
+import type { ProjectRole } from '@/lib/auth/roles';
 import { TransitionConfig, createDefaultTransition, TRANSITION_PRESETS } from '@/lib/utils/scene-transitions';
 import TransitionPicker from '@/components/ui/TransitionPicker';
-import { AutoSaveManager, loadProjectLocally, formatTimeAgo } from '@/lib/utils/auto-save';
-import { copyToClipboard, generateSceneThumbnail } from '@/lib/export/gif-export';
+import StoryBranchingUI from '@/components/shared/StoryBranchingUI';
+import {
+  BranchingStory,
+  createBranchingStory,
+  deserializeBranchingStory,
+  serializeBranchingStory,
+} from '@/lib/utils/story-branching';
+import { AutoSaveManager, formatTimeAgo, type SavedProject } from '@/lib/utils/auto-save';
+import { copyToClipboard, downloadBlob, generateSceneThumbnail } from '@/lib/export/gif-export';
 import { suggestNextScene, analyzeEmotion, suggestBackgrounds } from '@/lib/ai/ai-suggestions';
 import OnboardingTour from '@/components/ui/OnboardingTour';
 import { continueStory } from '@/lib/ai/ai-story-generator';
@@ -88,6 +114,9 @@ const BACKGROUNDS = [
 export default function HomePage() {
   // Toast notifications
   const toast = useToast();
+  // Loads imported rigs so the character registry resolves them, and re-renders when the library changes
+  useUserRigs();
+  const { user: currentUser, isLoading: isLoadingUser } = useCurrentUser();
   
   const [showStoryGenerator, setShowStoryGenerator] = useState(false);
   const [showPlaybackViewer, setShowPlaybackViewer] = useState(false);
@@ -96,12 +125,14 @@ export default function HomePage() {
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [editingSceneIndex, setEditingSceneIndex] = useState(0);
   const [editableScenes, setEditableScenes] = useState<EditableScene[]>([]);
+  const [remoteSceneChanges, setRemoteSceneChanges] = useState<SceneChange[] | null>(null);
   const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [projectTitle, setProjectTitle] = useState('My Cartoon Story');
   const [isMuted, setIsMuted] = useState(false);
   const [hasProject, setHasProject] = useState(false);
   const [isRegeneratingScene, setIsRegeneratingScene] = useState(false);
+  const [isGeneratingBranches, setIsGeneratingBranches] = useState(false);
   const [regenError, setRegenError] = useState<string | null>(null);
   const lastSpokenSceneRef = useRef<number>(-1);
   const [characterRoleLabels, setCharacterRoleLabels] = useState<Record<string, string>>({});
@@ -110,13 +141,23 @@ export default function HomePage() {
   const [coverImage, setCoverImage] = useState<string | null>(null);
   const [projectId, setProjectId] = useState<string | null>(null);
   const [isSavingProject, setIsSavingProject] = useState(false);
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [lastAutoSaved, setLastAutoSaved] = useState<Date | null>(null);
   const [showLoadDialog, setShowLoadDialog] = useState(false);
-  const [availableProjects, setAvailableProjects] = useState<{ id: string; title: string; updatedAt: string }[]>([]);
+  const [availableProjects, setAvailableProjects] = useState<
+    { id: string; title: string; updatedAt: string; owner: string | null; role: ProjectRole }[]
+  >([]);
+  const [historyProject, setHistoryProject] = useState<{ id: string; title: string; role: ProjectRole } | null>(null);
+  const [membersProject, setMembersProject] = useState<{ id: string; title: string } | null>(null);
+  const [projectRole, setProjectRole] = useState<ProjectRole | null>(null); // Signed-in user's role on the open project
   const [isLoadingProjects, setIsLoadingProjects] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [isContinuingStory, setIsContinuingStory] = useState(false);
+  // Optional direction for "Continue": open plot threads (one per line) and the ending to head for
+  const [showContinueOptions, setShowContinueOptions] = useState(false);
+  const [continuePlotThreads, setContinuePlotThreads] = useState('');
+  const [continueEnding, setContinueEnding] = useState('');
   const [showTTSSettings, setShowTTSSettings] = useState(false);
   const [showAddSceneModal, setShowAddSceneModal] = useState(false);
   
@@ -127,9 +168,13 @@ export default function HomePage() {
   const [showCharacterCreator, setShowCharacterCreator] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<number | null>(null);
   const [sceneTransitions, setSceneTransitions] = useState<Record<string, TransitionConfig>>({});
+  const [branchingStory, setBranchingStory] = useState<BranchingStory | null>(null);
   const [draggedSceneIndex, setDraggedSceneIndex] = useState<number | null>(null);
   const [shareLink, setShareLink] = useState<string | null>(null);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [shareLinks, setShareLinks] = useState<ShareLinkSummary[]>([]);
+  const [sharePassword, setSharePassword] = useState('');
+  const [shareExpiryDays, setShareExpiryDays] = useState(7);
   const autoSaveManagerRef = useRef<AutoSaveManager | null>(null);
   
   // AI Background Generation states
@@ -222,6 +267,9 @@ export default function HomePage() {
         projectId: projectId || undefined,
         coverImage: coverImage || undefined,
         storyProvider: lastStoryProvider || undefined,
+        branchingStory: branchingStory ? serializeBranchingStory(branchingStory) : null,
+        sceneTransitions,
+        customBackgrounds,
       }, {
         intervalMs: 30000, // Auto-save every 30 seconds
         debounceMs: 2000,
@@ -249,9 +297,12 @@ export default function HomePage() {
         projectId: projectId || undefined,
         coverImage: coverImage || undefined,
         storyProvider: lastStoryProvider || undefined,
+        branchingStory: branchingStory ? serializeBranchingStory(branchingStory) : null,
+        sceneTransitions,
+        customBackgrounds,
       });
     }
-  }, [projectTitle, editableScenes, projectId, coverImage, lastStoryProvider, hasProject]);
+  }, [projectTitle, editableScenes, projectId, coverImage, lastStoryProvider, branchingStory, sceneTransitions, customBackgrounds, hasProject]);
 
   // -------- Scene Management Functions --------
   
@@ -304,11 +355,9 @@ export default function HomePage() {
         editableScenes.flatMap(s => s.characters.map(c => c.name))
       ));
       
-      // Determine mood from story context
-      const mood = lastStoryProvider || 'adventure';
-      
-      // Generate continuation scenes
+      // Generate continuation scenes (the server keeps the tone of the existing scenes)
       const newScenes = await continueStory({
+        title: projectTitle,
         existingScenes: editableScenes.map(s => ({
           title: s.title,
           narration: s.narration,
@@ -319,11 +368,14 @@ export default function HomePage() {
             expression: c.expression || 'neutral',
             position: (c.x < 40 ? 'left' : c.x > 60 ? 'right' : 'center') as 'left' | 'center' | 'right',
           })),
+          dialogue: s.dialogue,
           duration: s.duration,
+          mood: s.mood,
         })),
         characters,
-        mood,
         additionalSceneCount: 3, // Add 3 more scenes
+        plotThreads: continuePlotThreads.split('\n').map((thread) => thread.trim()).filter(Boolean),
+        ending: continueEnding.trim() || undefined,
       });
       
       // Convert to editable scenes and add to project
@@ -336,11 +388,13 @@ export default function HomePage() {
         cameraZoom: 1,
         cameraPanX: 0,
         cameraPanY: 0,
+        dialogue: scene.dialogue,
+        mood: scene.mood,
         characters: scene.characters.map((c, i) => {
-          const rig = getCharacterRig(c.name);
+          const rig = getCharacterRegistry().getRig(c.name);
           return {
             id: `char-${Date.now()}-${i}`,
-            rigId: rig?.id || 'kiara',
+            rigId: rig?.id || getCharacterRegistry().getDefault().id,
             name: c.name,
             x: c.position === 'left' ? 25 : c.position === 'right' ? 75 : 50,
             y: 65,
@@ -356,12 +410,15 @@ export default function HomePage() {
       
       setEditableScenes([...editableScenes, ...editableNewScenes]);
       setCurrentSceneIndex(editableScenes.length); // Jump to first new scene
+      setShowContinueOptions(false);
+      setContinuePlotThreads('');
+      setContinueEnding('');
     } catch (error) {
       console.error('Failed to continue story:', error);
     } finally {
       setIsContinuingStory(false);
     }
-  }, [editableScenes, lastStoryProvider]);
+  }, [editableScenes, projectTitle, continuePlotThreads, continueEnding]);
 
   // Handle scene drag start
   const handleSceneDragStart = (index: number) => {
@@ -387,13 +444,26 @@ export default function HomePage() {
     setSceneTransitions(prev => ({ ...prev, [sceneId]: transition }));
   }, []);
 
+  // Load the share links that already exist for the project
+  const fetchShareLinks = useCallback(async (id: string) => {
+    try {
+      const res = await fetch(`/api/projects/${id}/share-links`);
+      const data = await res.json();
+      if (data.success) setShareLinks(data.links || []);
+    } catch (err) {
+      console.warn('Failed to load share links:', err);
+    }
+  }, []);
+
   // Generate share link
-  const handleGenerateShareLink = async () => {
-    if (!projectId) {
+  const handleGenerateShareLink = async (options: { password?: string; expiresInDays?: number } = {}) => {
+    let shareProjectId = projectId;
+    if (!shareProjectId) {
       // Save project first if not saved
       if (hasProject && editableScenes.length > 0) {
         toast.info('Saving project first...', 'Please wait');
-        await handleSaveProject();
+        shareProjectId = await handleSaveProject();
+        if (!shareProjectId) return;
       } else {
         toast.warning('No project to share', 'Create or save a project first');
         return;
@@ -404,7 +474,11 @@ export default function HomePage() {
       const res = await fetch('/api/share', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ projectId }),
+        body: JSON.stringify({
+          projectId: shareProjectId,
+          expiresInDays: options.expiresInDays ?? shareExpiryDays,
+          password: options.password || undefined,
+        }),
       });
       
       const data = await res.json();
@@ -415,12 +489,29 @@ export default function HomePage() {
       
       setShareLink(data.shareLink);
       setShowShareModal(true);
+      setSharePassword('');
+      fetchShareLinks(shareProjectId);
       toast.success('Share link created!', 'Copy the link to share your animation');
     } catch (err: any) {
       toast.error('Share failed', err.message || 'Could not generate share link');
     }
   };
 
+  // Revoke a share link so it stops working immediately
+  const handleRevokeShareLink = async (linkId: string) => {
+    if (!projectId) return;
+    try {
+      const res = await fetch(`/api/projects/${projectId}/share-links/${linkId}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error || 'Failed to revoke link');
+      setShareLinks(prev => prev.map(link => (link.id === linkId ? data.link : link)));
+      if (shareLink === data.link.url) setShareLink(null);
+      toast.success('Link revoked', 'It can no longer be used to view this project');
+    } catch (err: any) {
+      toast.error('Revoke failed', err.message || 'Could not revoke share link');
+    }
+  };
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -491,7 +582,7 @@ export default function HomePage() {
       description: '',
       coverImage,
       storyProvider: lastStoryProvider,
-      scenes: editableScenes.map((scene, index) => ({
+      scenes: editableScenes.map((scene) => ({
         id: scene.id,
         title: scene.title,
         narration: scene.narration,
@@ -500,8 +591,10 @@ export default function HomePage() {
         cameraZoom: scene.cameraZoom,
         cameraPanX: scene.cameraPanX,
         cameraPanY: scene.cameraPanY,
-        mood: (scene as any).mood,
-        dialogue: (scene as any).dialogue,
+        mood: scene.mood,
+        dialogue: scene.dialogue,
+        props: scene.props,
+        cameraKeyframes: scene.cameraKeyframes,
         characters: scene.characters.map((c) => ({
           id: c.id,
           rigId: c.rigId,
@@ -514,8 +607,19 @@ export default function HomePage() {
           expression: c.expression,
           isTalking: c.isTalking,
           zIndex: c.zIndex,
+          outfitExplorer: c.outfitExplorer,
+          propBall: c.propBall,
+          pinFeet: c.pinFeet,
+          customColors: c.customColors,
+          customAccessories: c.customAccessories,
+          customOutfit: c.customOutfit,
+          aiGeneratedImage: c.aiGeneratedImage,
+          useAICharacter: c.useAICharacter,
         })),
       })),
+      sceneTransitions,
+      branchingStory: branchingStory ? serializeBranchingStory(branchingStory) : null,
+      customBackgrounds,
       audioTracks: [],
       settings: {
         resolutionWidth: 1280,
@@ -526,33 +630,17 @@ export default function HomePage() {
         narratorVoice: null,
       },
     };
-  }, [coverImage, editableScenes, lastStoryProvider, projectId, projectTitle]);
-
-  const toEditableScenesFromApi = useCallback((project: any): EditableScene[] => {
-    if (!project?.scenes) return [];
-    return project.scenes.map((scene: any) => ({
-      id: scene.id,
-      title: scene.title,
-      narration: scene.narration,
-      background: scene.background,
-      duration: scene.duration,
+  }, [branchingStory, coverImage, customBackgrounds, editableScenes, lastStoryProvider, projectId, projectTitle, sceneTransitions]);
+
+  // The projects API returns scenes already in the editable model (older rows are upgraded server-side)
+  const toEditableScenesFromApi = useCallback((project: StoredProject): EditableScene[] => {
+    if (!Array.isArray(project?.scenes)) return [];
+    return project.scenes.map((scene) => ({
+      ...scene,
       cameraZoom: scene.cameraZoom ?? 1,
       cameraPanX: scene.cameraPanX ?? 0,
       cameraPanY: scene.cameraPanY ?? 0,
-      dialogue: scene.dialogueJson as any,
-      characters: (scene.characters || []).map((c: any) => ({
-        id: c.id,
-        rigId: c.rigId,
-        name: c.name,
-        x: c.x,
-        y: c.y,
-        scale: c.scale,
-        flipX: c.flipX,
-        animation: c.animation,
-        expression: c.expression,
-        isTalking: c.isTalking,
-        zIndex: c.zIndex,
-      })),
+      characters: scene.characters || [],
     }));
   }, []);
 
@@ -624,7 +712,7 @@ export default function HomePage() {
   const handleSaveProject = useCallback(async () => {
     if (!hasProject || editableScenes.length === 0) {
       toast.warning('Nothing to save', 'Create a story first');
-      return;
+      return null;
     }
     setIsSavingProject(true);
     setSaveError(null);
@@ -635,17 +723,24 @@ export default function HomePage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
       });
+      if (res.status === 401) {
+        throw new Error('Sign in to save projects to the studio');
+      }
       if (!res.ok) {
         const err = await res.json().catch(() => ({}));
         throw new Error(err?.error || 'Save failed');
       }
       const data = await res.json();
       if (data?.id) setProjectId(data.id);
+      // A first save creates the project, owned by whoever saved it
+      setProjectRole((role) => role ?? 'owner');
       setLastAutoSaved(new Date());
       toast.success('Project saved!', 'Your animation has been saved');
+      return (data?.id as string) ?? null;
     } catch (err: any) {
       setSaveError(err?.message || 'Save failed');
       toast.error('Save failed', err?.message || 'Could not save project');
+      return null;
     } finally {
       setIsSavingProject(false);
     }
@@ -656,6 +751,7 @@ export default function HomePage() {
     setLoadError(null);
     try {
       const res = await fetch('/api/projects');
+      if (res.status === 401) throw new Error('Sign in to see your projects');
       if (!res.ok) throw new Error('Failed to load projects');
       const data = await res.json();
       setAvailableProjects(data.projects || []);
@@ -672,15 +768,21 @@ export default function HomePage() {
       setLoadError(null);
       try {
         const res = await fetch(`/api/projects/${id}`);
+        if (res.status === 401) throw new Error('Sign in to open projects');
         if (!res.ok) throw new Error('Project not found');
         const data = await res.json();
-        const proj = data.project;
+        const proj = data.project as StoredProject;
         const scenes = toEditableScenesFromApi(proj);
         if (scenes.length === 0) throw new Error('No scenes in project');
         setEditableScenes(scenes);
+        setSceneTransitions(proj.sceneTransitions || {});
+        setBranchingStory(deserializeBranchingStory(proj.branchingStory));
+        setCustomBackgrounds(proj.customBackgrounds || {});
         setProjectTitle(proj.title || 'My Cartoon Story');
         setProjectId(proj.id);
+        setProjectRole(data.role ?? null);
         setCoverImage(proj.coverImage ?? null);
+        setLastStoryProvider(proj.storyProvider ?? null);
         setHasProject(true);
         setCurrentSceneIndex(0);
         lastSpokenSceneRef.current = -1;
@@ -696,6 +798,77 @@ export default function HomePage() {
     [toEditableScenesFromApi, toast]
   );
 
+  // Download the open project as a .cartoon bundle (works without saving it first)
+  const handleExportBundle = useCallback(async () => {
+    if (!hasProject || editableScenes.length === 0) {
+      toast.warning('Nothing to export', 'Create a story first');
+      return;
+    }
+    setIsExportingBundle(true);
+    try {
+      const payload = buildProjectPayload();
+      const { bundle, errors } = await embedBundleAssets(createProjectBundle(payload, getUserRigs()));
+      downloadBlob(new Blob([JSON.stringify(bundle)], { type: 'application/json' }), getBundleFileName(payload.title));
+      if (errors.length > 0) {
+        toast.warning('Some files were not embedded', `${errors.length} asset(s) are still linked by URL`);
+      } else {
+        toast.success('Project exported!', getBundleFileName(payload.title));
+      }
+    } catch (err: any) {
+      toast.error('Export failed', err?.message || 'Could not export project');
+    } finally {
+      setIsExportingBundle(false);
+    }
+  }, [buildProjectPayload, editableScenes.length, hasProject, toast]);
+
+  // Import a .cartoon bundle as a new saved project, then open it
+  const handleImportBundle = useCallback(
+    async (file: File) => {
+      setIsLoadingProjects(true);
+      setLoadError(null);
+      try {
+        const res = await fetch('/api/projects/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: await file.text(),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (res.status === 401) throw new Error('Sign in to import projects');
+        if (!res.ok || !data?.id) {
+          throw new Error(data?.details?.[0] || data?.error || 'Import failed');
+        }
+        await getRigLibrary().syncWithServer();
+        if (Array.isArray(data.corrections) && data.corrections.length > 0) {
+          console.warn('Project import corrections:', data.corrections);
+        }
+        await handleLoadProject(data.id);
+      } catch (err: any) {
+        setLoadError(err?.message || 'Import failed');
+        toast.error('Import failed', err?.message || 'Could not import project');
+        setIsLoadingProjects(false);
+      }
+    },
+    [handleLoadProject, toast]
+  );
+
+  // Open a project restored from a local backup (already upgraded and checked)
+  const handleRestoreLocalProject = useCallback((project: SavedProject) => {
+    setEditableScenes(project.scenes);
+    setSceneTransitions(project.sceneTransitions || {});
+    setBranchingStory(deserializeBranchingStory(project.branchingStory));
+    setCustomBackgrounds(project.customBackgrounds || {});
+    setProjectTitle(project.title);
+    setProjectId(project.id.startsWith('local-') ? null : project.id);
+    setProjectRole(null);
+    setCoverImage(project.coverImage ?? null);
+    setLastStoryProvider(project.storyProvider ?? null);
+    setHasProject(true);
+    setCurrentSceneIndex(0);
+    lastSpokenSceneRef.current = -1;
+    setShowSettings(false);
+    toast.success('Backup restored!', project.title);
+  }, [toast]);
+
   useEffect(() => {
     if (showLoadDialog) {
       fetchProjects();
@@ -712,6 +885,8 @@ export default function HomePage() {
     scenes = applyAutoDurations(scenes);
     
     setEditableScenes(scenes);
+    setBranchingStory(null);
+    setSceneTransitions({});
     setProjectTitle(story.title);
     setShowStoryGenerator(false);
     setHasProject(true);
@@ -749,6 +924,96 @@ export default function HomePage() {
     }
   }, [toast]);
 
+  // Streamed scenes land in the editor while the rest of the story is still being written
+  const handleStorySceneStreamed = useCallback((scene: any, index: number, title: string) => {
+    const [editable] = applyAutoDurations([autoEnhanceScene(storySceneToEditableScene(scene, index))]);
+
+    if (index === 0) {
+      // A new story: drop everything tied to the previous one's scenes and cast
+      setEditableScenes([editable]);
+      setBranchingStory(null);
+      setSceneTransitions({});
+      setCharacterRoleLabels({});
+      setCharacterRoleDescriptions({});
+      setLastStoryProvider(null);
+      setCoverImage(null);
+      setProjectTitle(title || 'Untitled Story');
+      setHasProject(true);
+      setCurrentSceneIndex(0);
+      lastSpokenSceneRef.current = -1;
+    } else {
+      setEditableScenes(prev => [...prev, editable]);
+      if (title) setProjectTitle(title);
+    }
+  }, []);
+
+  // AI proposes choices after existing scenes; the alternate scenes are appended to the project
+  const handleGenerateBranches = useCallback(async (branchCount: number) => {
+    if (editableScenes.length < 2) return;
+
+    try {
+      setIsGeneratingBranches(true);
+
+      const response = await fetch('/api/generate-branches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: projectTitle,
+          branchCount,
+          targetAudience: 'child',
+          scenes: editableScenes.map((scene) => ({
+            id: scene.id,
+            title: scene.title,
+            background: scene.background,
+            narration: scene.narration,
+            characters: scene.characters.map((c) => ({
+              name: c.name.toLowerCase(),
+              action: c.animation,
+              position: c.x < 40 ? 'left' : c.x > 60 ? 'right' : 'center',
+              expression: c.expression,
+            })),
+            dialogue: scene.dialogue,
+            duration: scene.duration,
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        let message = 'Failed to generate branches';
+        try {
+          const errJson = await response.json();
+          if (errJson?.error) message = errJson.error;
+        } catch {
+        }
+        throw new Error(message);
+      }
+
+      const result: AIBranchingResponse = await response.json();
+      const story = result.success ? deserializeBranchingStory(result.story) : null;
+      if (!story) {
+        throw new Error(result.error || 'AI did not return a branching story');
+      }
+
+      const newScenes = applyAutoDurations(
+        result.scenes.map((aiScene, index) => ({
+          ...autoEnhanceScene(aiSceneToEditableScene(aiScene, editableScenes.length + index)),
+          id: aiScene.id,
+        }))
+      );
+      setEditableScenes((prev) => [...prev, ...newScenes]);
+      setBranchingStory(story);
+      toast.success(
+        'Branches added!',
+        `${story.endings.length} endings, ${newScenes.length} new scene${newScenes.length === 1 ? '' : 's'}${result.provider === 'fallback' ? ' (offline template)' : ''}`
+      );
+    } catch (error: any) {
+      console.error('Branch generation failed:', error);
+      toast.error('Branch generation failed', error?.message || 'Could not generate branches');
+    } finally {
+      setIsGeneratingBranches(false);
+    }
+  }, [editableScenes, projectTitle, toast]);
+
   const handleRegenerateScene = useCallback(async (sceneIndex: number) => {
     const baseScene = editableScenes[sceneIndex];
     if (!baseScene) return;
@@ -959,6 +1224,12 @@ export default function HomePage() {
     );
   };
 
+  // Collaborators' edits merged into our scenes; the editor rebases its undo history on them
+  const handleScenesMerged = useCallback((scenes: EditableScene[], changes: SceneChange[]) => {
+    setEditableScenes(scenes);
+    setRemoteSceneChanges(changes);
+  }, []);
+
   // Handle video export with real canvas capture
   const performExport = useCallback(async (options: any): Promise<Blob | null> => {
     if (editableScenes.length === 0) {
@@ -988,6 +1259,9 @@ export default function HomePage() {
         width: options.width,
         height: options.height,
         includeAudio: options.includeAudio ?? true,
+        mode: options.mode,
+        audioSettings: getAudioManager().getSettings(),
+        burnInCaptions: options.burnInCaptions,
       });
       toast.success('Export complete!', `Your ${options.format?.toUpperCase() || 'video'} is ready`);
       return blob;
@@ -1010,9 +1284,9 @@ export default function HomePage() {
     new Set(editableScenes.flatMap((s) => s.characters.map((c) => c.rigId)))
   );
   const usedRigsRaw = usedRigIds
-    .map((id) => getCharacterRig(id))
+    .map((id) => getCharacterRegistry().getRig(id))
     .filter((rig) => rig !== undefined) as any[];
-  const rigsToShow = usedRigsRaw.length > 0 ? usedRigsRaw : CHARACTER_RIGS.slice(0, 3);
+  const rigsToShow = usedRigsRaw.length > 0 ? usedRigsRaw : getCharacterRegistry().getRigs().slice(0, 3);
   const hasCharacterRoleLabels = Object.keys(characterRoleLabels).length > 0;
 
   const storySourceLabel = lastStoryProvider === 'gemini'
@@ -1145,7 +1419,7 @@ export default function HomePage() {
                 <>
                   {/* Share */}
                   <button
-                    onClick={handleGenerateShareLink}
+                    onClick={() => handleGenerateShareLink()}
                     className="p-2 bg-white/10 hover:bg-white/20 text-white/70 hover:text-white rounded-lg transition-all"
                     title="Share Project"
                   >
@@ -1159,12 +1433,26 @@ export default function HomePage() {
                   >
                     <Download className="w-4 h-4" />
                   </button>
+                  {/* People */}
+                  {projectId && currentUser && (
+                    <button
+                      onClick={() => setMembersProject({ id: projectId, title: projectTitle })}
+                      className="p-2 bg-white/10 hover:bg-white/20 text-white/70 hover:text-white rounded-lg transition-all"
+                      title="People on this project"
+                    >
+                      <Users className="w-4 h-4" />
+                    </button>
+                  )}
                   {/* Save */}
                   <button
                     onClick={handleSaveProject}
-                    disabled={isSavingProject}
+                    disabled={isSavingProject || projectRole === 'viewer'}
                     className="p-2 bg-white/10 hover:bg-white/20 text-white/70 hover:text-white rounded-lg transition-all disabled:opacity-60"
-                    title="Save Project"
+                    title={
+                      projectRole === 'viewer'
+                        ? 'View only - fork it from the revision history to make your own copy'
+                        : 'Save Project'
+                    }
                   >
                     {isSavingProject ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
                   </button>
@@ -1178,6 +1466,34 @@ export default function HomePage() {
                   </button>
                 </>
               )}
+
+              {/* Account */}
+              {!isLoadingUser &&
+                (currentUser ? (
+                  <button
+                    onClick={async () => {
+                      if (!confirm(`Sign out ${currentUser.email}?`)) return;
+                      try {
+                        await signOut();
+                      } finally {
+                        window.location.href = '/login';
+                      }
+                    }}
+                    className="flex items-center gap-1.5 px-2.5 py-1.5 bg-white/10 hover:bg-white/20 text-white/80 hover:text-white rounded-lg text-sm transition-all"
+                    title={`Signed in as ${currentUser.email} - click to sign out`}
+                  >
+                    <span className="max-w-[120px] truncate">{currentUser.name}</span>
+                    <LogOut className="w-3.5 h-3.5" />
+                  </button>
+                ) : (
+                  <a
+                    href="/login"
+                    className="flex items-center gap-1.5 px-2.5 py-1.5 bg-purple-500 hover:bg-purple-600 text-white rounded-lg text-sm transition-all"
+                  >
+                    <LogIn className="w-3.5 h-3.5" />
+                    Sign in
+                  </a>
+                ))}
             </div>
           </div>
         </div>
@@ -1318,7 +1634,7 @@ export default function HomePage() {
                       {/* Characters - positioned on the ground */}
                       <div className="absolute bottom-[12%] left-0 right-0 flex items-end justify-center gap-6 z-30">
                         {currentScene.characters.map((char, idx) => {
-                          const rig = getCharacterRig(char.rigId);
+                          const rig = getCharacterRegistry().getRig(char.rigId);
                           const label = characterRoleLabels[rig?.id.toLowerCase() || ''];
                           
                           // Check if this is an AI-generated character
@@ -1358,6 +1674,7 @@ export default function HomePage() {
                                 label={label}
                                 customColors={char.customColors}
                                 customAccessories={char.customAccessories}
+                                pinFeet={char.pinFeet}
                               />
                             </div>
                           );
@@ -1423,7 +1740,7 @@ export default function HomePage() {
                     {editableScenes.length > 0 && (
                       <>
                         <button
-                          onClick={handleContinueStory}
+                          onClick={() => setShowContinueOptions(!showContinueOptions)}
                           disabled={isContinuingStory}
                           className="px-2.5 py-1.5 rounded-md text-xs font-medium flex items-center gap-1 bg-gradient-to-r from-emerald-500 to-teal-500 hover:opacity-90 disabled:opacity-50 text-white shadow shadow-emerald-500/20 transition-all"
                           title="Add more scenes"
@@ -1452,6 +1769,39 @@ export default function HomePage() {
                     )}
                   </div>
                 </div>
+                {showContinueOptions && editableScenes.length > 0 && (
+                  <div className="mb-2 p-2 rounded-lg bg-white/5 border border-white/10 space-y-2">
+                    <textarea
+                      value={continuePlotThreads}
+                      onChange={(e) => setContinuePlotThreads(e.target.value)}
+                      placeholder="Plot threads to pick up, one per line (optional)"
+                      rows={2}
+                      className="w-full px-2 py-1.5 bg-white/10 border border-white/10 rounded-md text-xs text-white placeholder-white/40 resize-none focus:outline-none focus:border-emerald-400/50"
+                    />
+                    <input
+                      type="text"
+                      value={continueEnding}
+                      onChange={(e) => setContinueEnding(e.target.value)}
+                      placeholder="How should it end? (optional)"
+                      className="w-full px-2 py-1.5 bg-white/10 border border-white/10 rounded-md text-xs text-white placeholder-white/40 focus:outline-none focus:border-emerald-400/50"
+                    />
+                    <div className="flex justify-end gap-1.5">
+                      <button
+                        onClick={() => setShowContinueOptions(false)}
+                        className="px-2.5 py-1 rounded-md text-xs text-white/60 hover:text-white transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleContinueStory}
+                        disabled={isContinuingStory}
+                        className="px-2.5 py-1 rounded-md text-xs font-medium bg-gradient-to-r from-emerald-500 to-teal-500 hover:opacity-90 disabled:opacity-50 text-white transition-all"
+                      >
+                        {isContinuingStory ? 'Writing...' : 'Add 3 scenes'}
+                      </button>
+                    </div>
+                  </div>
+                )}
                 <div className="flex gap-2 overflow-x-auto pb-1 pt-3 scrollbar-thin scrollbar-thumb-white/10 overflow-visible">
                   {editableScenes.map((scene, index) => (
                     <div
@@ -1581,6 +1931,19 @@ export default function HomePage() {
                 </div>
               </div>
 
+              {/* Story Branches - Compact */}
+              <div className="bg-gradient-to-br from-slate-800/50 to-slate-900/50 backdrop-blur-sm rounded-xl p-4 border border-white/10">
+                <StoryBranchingUI
+                  story={branchingStory}
+                  currentSceneId={editableScenes[currentSceneIndex]?.id ?? ''}
+                  scenes={editableScenes.map((scene, index) => ({ id: scene.id, title: scene.title || `Scene ${index + 1}` }))}
+                  onCreateStory={() => setBranchingStory(createBranchingStory(projectTitle, editableScenes, []))}
+                  onStoryChange={setBranchingStory}
+                  onGenerateBranches={handleGenerateBranches}
+                  isGeneratingBranches={isGeneratingBranches}
+                />
+              </div>
+
               {/* Characters Preview - Compact */}
               <div className="bg-gradient-to-br from-slate-800/50 to-slate-900/50 backdrop-blur-sm rounded-xl p-4 border border-white/10">
                 <div className="flex items-center justify-between mb-3">
@@ -1621,6 +1984,7 @@ export default function HomePage() {
         {showStoryGenerator && (
           <StoryGenerator
             onStoryGenerated={handleStoryGenerated}
+            onSceneStreamed={handleStorySceneStreamed}
             onClose={() => setShowStoryGenerator(false)}
           />
         )}
@@ -1652,6 +2016,7 @@ export default function HomePage() {
               setShowPlaybackViewer(true);
             }}
             characterRoleLabels={characterRoleLabels}
+            remoteChanges={remoteSceneChanges}
           />
         )}
       </AnimatePresence>
@@ -1664,6 +2029,8 @@ export default function HomePage() {
             onClose={() => setShowVideoExporter(false)}
             totalDuration={totalDuration}
             sceneCount={editableScenes.length}
+            scenes={editableScenes.map(editableSceneToRenderData)}
+            audioSettings={getAudioManager().getSettings()}
           />
         )}
       </AnimatePresence>
@@ -1704,6 +2071,11 @@ export default function HomePage() {
                 {loadError && (
                   <div className="bg-red-50 border border-red-200 text-red-600 text-sm rounded-lg p-3">
                     {loadError}
+                    {!currentUser && (
+                      <a href="/login" className="ml-2 font-medium underline">
+                        Sign in
+                      </a>
+                    )}
                   </div>
                 )}
 
@@ -1723,35 +2095,125 @@ export default function HomePage() {
                       <div className="font-medium text-gray-900">{proj.title}</div>
                       <div className="text-xs text-gray-500 mt-1">
                         Updated {new Date(proj.updatedAt).toLocaleString()}
+                        {proj.role !== 'owner' && proj.owner ? ` · by ${proj.owner}` : ''}
+                        <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 capitalize">{proj.role}</span>
                       </div>
                     </button>
                     <button
-                      onClick={async (e) => {
+                      onClick={(e) => {
                         e.stopPropagation();
-                        if (confirm(`Delete "${proj.title}"? This cannot be undone.`)) {
-                          try {
-                            const res = await fetch(`/api/projects/${proj.id}`, { method: 'DELETE' });
-                            if (res.ok) {
-                              setAvailableProjects(prev => prev.filter(p => p.id !== proj.id));
-                            }
-                          } catch (err) {
-                            console.error('Delete failed:', err);
-                          }
-                        }
+                        setMembersProject({ id: proj.id, title: proj.title });
+                      }}
+                      className="p-2 opacity-0 group-hover:opacity-100 hover:bg-purple-100 rounded-lg transition-all"
+                      title="People"
+                    >
+                      <Users className="w-4 h-4 text-purple-500" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setHistoryProject({ id: proj.id, title: proj.title, role: proj.role });
                       }}
-                      className="p-2 opacity-0 group-hover:opacity-100 hover:bg-red-100 rounded-lg transition-all"
-                      title="Delete project"
+                      className="p-2 opacity-0 group-hover:opacity-100 hover:bg-purple-100 rounded-lg transition-all"
+                      title="Revision history"
                     >
-                      <Trash2 className="w-4 h-4 text-red-500" />
+                      <Clock className="w-4 h-4 text-purple-500" />
                     </button>
+                    <a
+                      href={`/api/projects/${proj.id}/bundle`}
+                      download
+                      onClick={(e) => e.stopPropagation()}
+                      className="p-2 opacity-0 group-hover:opacity-100 hover:bg-purple-100 rounded-lg transition-all"
+                      title={`Download as ${PROJECT_BUNDLE_EXTENSION} file`}
+                    >
+                      <Download className="w-4 h-4 text-purple-500" />
+                    </a>
+                    {proj.role === 'owner' && (
+                      <button
+                        onClick={async (e) => {
+                          e.stopPropagation();
+                          if (confirm(`Delete "${proj.title}"? This cannot be undone.`)) {
+                            try {
+                              const res = await fetch(`/api/projects/${proj.id}`, { method: 'DELETE' });
+                              if (res.ok) {
+                                setAvailableProjects(prev => prev.filter(p => p.id !== proj.id));
+                              }
+                            } catch (err) {
+                              console.error('Delete failed:', err);
+                            }
+                          }
+                        }}
+                        className="p-2 opacity-0 group-hover:opacity-100 hover:bg-red-100 rounded-lg transition-all"
+                        title="Delete project"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
+
+              <div className="flex items-center gap-2 px-5 py-4 border-t border-gray-200 bg-gray-50">
+                <label className="flex items-center gap-2 px-3 py-2 text-sm border border-gray-200 bg-white rounded-lg hover:bg-gray-100 transition-colors cursor-pointer">
+                  <Upload className="w-4 h-4 text-gray-600" />
+                  Import {PROJECT_BUNDLE_EXTENSION} file
+                  <input
+                    type="file"
+                    accept={`${PROJECT_BUNDLE_EXTENSION},.json,application/json`}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) handleImportBundle(file);
+                    }}
+                  />
+                </label>
+                {hasProject && (
+                  <button
+                    onClick={handleExportBundle}
+                    disabled={isExportingBundle}
+                    className="flex items-center gap-2 px-3 py-2 text-sm border border-gray-200 bg-white rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+                  >
+                    {isExportingBundle ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-gray-600" />
+                    ) : (
+                      <Download className="w-4 h-4 text-gray-600" />
+                    )}
+                    Export current project
+                  </button>
+                )}
+              </div>
             </motion.div>
           </motion.div>
         )}
       </AnimatePresence>
 
+      {/* Project Revision History */}
+      <ProjectHistoryPanel
+        isOpen={!!historyProject}
+        projectId={historyProject?.id ?? null}
+        projectTitle={historyProject?.title}
+        canEdit={historyProject?.role !== 'viewer'}
+        onClose={() => setHistoryProject(null)}
+        onOpenProject={(id) => {
+          fetchProjects();
+          handleLoadProject(id);
+        }}
+      />
+
+      {/* People on a project */}
+      <ProjectMembersPanel
+        isOpen={!!membersProject}
+        projectId={membersProject?.id ?? null}
+        projectTitle={membersProject?.title}
+        currentUserId={currentUser?.id ?? null}
+        onClose={() => setMembersProject(null)}
+        onLeft={() => {
+          if (membersProject?.id === projectId) setProjectRole(null);
+          fetchProjects();
+        }}
+      />
+
       {/* TTS Settings Panel */}
       <TTSSettingsPanel
         isOpen={showTTSSettings}
@@ -1817,7 +2279,7 @@ export default function HomePage() {
                               // Get characters from existing scenes
                               const existingChars = editableScenes.length > 0
                                 ? editableScenes[0].characters.map(c => ({ rigId: c.rigId, name: c.name }))
-                                : CHARACTER_RIGS.slice(0, 2).map(r => ({ rigId: r.id, name: r.name }));
+                                : getCharacterRegistry().getRigs().slice(0, 2).map(r => ({ rigId: r.id, name: r.name }));
                               
                               // Apply template
                               const newSceneData = applyTemplate(template, existingChars);
@@ -1917,6 +2379,7 @@ export default function HomePage() {
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
         onOpenKeyboardShortcuts={() => setShowKeyboardShortcuts(true)}
+        onRestoreProject={handleRestoreLocalProject}
       />
 
       {/* Collaboration Panel */}
@@ -1926,18 +2389,24 @@ export default function HomePage() {
             isOpen={showCollaboration}
             onClose={() => setShowCollaboration(false)}
             currentUser={{
-              id: 'user-1',
-              name: 'You',
+              id: currentUser?.id ?? 'local-user',
+              name: currentUser?.name ?? 'You',
               avatar: '👤',
               color: '#8B5CF6',
               status: 'online',
-              role: 'owner',
+              role: projectRole ?? 'owner',
               currentScene: currentSceneIndex,
             }}
             collaborators={[]}
+            projectId={currentUser ? projectId : null}
+            scenes={editableScenes}
+            onScenesMerged={handleScenesMerged}
             onInvite={() => {
-              // TODO: Implement invite functionality
-              alert('Invite feature coming soon!');
+              if (projectId) {
+                setMembersProject({ id: projectId, title: projectTitle });
+              } else {
+                toast.info('Save the project first', 'People can be added once it is saved');
+              }
             }}
           />
         )}
@@ -2233,7 +2702,7 @@ export default function HomePage() {
                   </div>
                   <div>
                     <h3 className="text-lg font-semibold text-white">Share Project</h3>
-                    <p className="text-gray-400 text-sm">Anyone with this link can view</p>
+                    <p className="text-gray-400 text-sm">Anyone with this link can view until it expires</p>
                   </div>
                 </div>
                 
@@ -2254,6 +2723,61 @@ export default function HomePage() {
                     Copy
                   </button>
                 </div>
+
+                {/* New link options */}
+                <div className="flex gap-2 mb-4">
+                  <input
+                    type="password"
+                    value={sharePassword}
+                    onChange={(e) => setSharePassword(e.target.value)}
+                    placeholder="Password (optional)"
+                    className="flex-1 min-w-0 px-3 py-2 bg-gray-800 border border-gray-700 rounded-xl text-white text-sm"
+                  />
+                  <select
+                    value={shareExpiryDays}
+                    onChange={(e) => setShareExpiryDays(Number(e.target.value))}
+                    className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-xl text-white text-sm"
+                  >
+                    <option value={1}>1 day</option>
+                    <option value={7}>7 days</option>
+                    <option value={30}>30 days</option>
+                    <option value={90}>90 days</option>
+                  </select>
+                  <button
+                    onClick={() => handleGenerateShareLink({ password: sharePassword, expiresInDays: shareExpiryDays })}
+                    className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-xl transition-colors"
+                  >
+                    New Link
+                  </button>
+                </div>
+
+                {/* Existing links */}
+                {shareLinks.length > 0 && (
+                  <div className="mb-4 max-h-48 overflow-y-auto space-y-2">
+                    {shareLinks.map((link) => (
+                      <div key={link.id} className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-800 rounded-xl text-xs">
+                        <div className="min-w-0">
+                          <p className="text-gray-300 truncate">
+                            …{link.token.slice(-8)} {link.hasPassword && '🔒'}
+                          </p>
+                          <p className="text-gray-500">
+                            {link.viewCount} views • {link.status === 'active'
+                              ? `expires ${new Date(link.expiresAt).toLocaleDateString()}`
+                              : link.status}
+                          </p>
+                        </div>
+                        {link.status === 'active' && (
+                          <button
+                            onClick={() => handleRevokeShareLink(link.id)}
+                            className="px-2 py-1 text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+                          >
+                            Revoke
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
                 
                 <button
                   onClick={() => setShowShareModal(false)}
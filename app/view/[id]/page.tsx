@@ -14,59 +14,106 @@ import {
   Loader2,
   AlertTriangle,
   Home,
+  Lock,
+  GitBranch,
 } from 'lucide-react';
 import Link from 'next/link';
 import RiggedCharacter from '@/components/shared/RiggedCharacter';
 import AnimatedBackground from '@/components/shared/AnimatedBackground';
-import { getCharacterRig } from '@/lib/utils/sprite-system';
+import { BranchingChoiceOverlay, type BranchPoint } from '@/components/shared/StoryBranchingUI';
+import { getCharacterRig, registerUserRigs } from '@/lib/utils/sprite-system';
+import { parseRigFile, type RigFile } from '@/lib/utils/rig-format';
+import type { TransitionConfig } from '@/lib/utils/scene-transitions';
+import type { EditableScene } from '@/components/editors/InteractiveSceneEditor';
+import {
+  StoryBranchingEngine,
+  deserializeBranchingStory,
+  type SerializedBranchingStory,
+  type StoryNode,
+} from '@/lib/utils/story-branching';
 
-interface SharedScene {
-  id: string;
-  title: string;
-  narration: string;
-  background: string;
-  duration: number;
-  cameraZoom?: number;
-  cameraPanX?: number;
-  cameraPanY?: number;
-  characters: {
-    rigId: string;
-    name: string;
-    x: number;
-    y: number;
-    scale: number;
-    flipX: boolean;
-    animation: string;
-    expression: string;
-  }[];
-}
+// Shared scenes use the editor's model: dialogue, props, camera keyframes and custom looks included
+type SharedScene = EditableScene & { mood?: string };
 
 interface SharedProject {
   id: string;
   title: string;
   scenes: SharedScene[];
+  sceneTransitions?: Record<string, TransitionConfig>;
+  branchingStory?: SerializedBranchingStory | null;
+  customBackgrounds?: Record<string, string>;
+  rigs?: RigFile[];
 }
 
-export default function ViewProjectPage({ params }: { params: { id: string } }) {
+interface ViewProjectPageProps {
+  params: { id: string };
+  searchParams: { token?: string };
+}
+
+const BRANCH_PROGRESS_KEY_PREFIX = 'cartoon-studio-branch-progress-';
+
+// Scene a branching node plays: a project scene by id, or the scene stored inline
+function resolveNodeScene(project: SharedProject, node: StoryNode): SharedScene | null {
+  if (node.type !== 'scene') return null;
+  if (node.sceneId) {
+    return project.scenes.find((scene) => scene.id === node.sceneId) ?? null;
+  }
+  if (!node.scene?.narration && !node.scene?.background) return null;
+  return {
+    ...node.scene,
+    id: node.id,
+    title: node.scene.title ?? '',
+    narration: node.scene.narration ?? '',
+    background: node.scene.background ?? 'meadow',
+    duration: node.scene.duration ?? 5000,
+    characters: node.scene.characters ?? [],
+  };
+}
+
+export default function ViewProjectPage({ params, searchParams }: ViewProjectPageProps) {
   const [project, setProject] = useState<SharedProject | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [password, setPassword] = useState('');
+  const [submittedPassword, setSubmittedPassword] = useState<string | null>(null);
   const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const lastSpokenRef = useRef(-1);
+  const branchEngineRef = useRef<StoryBranchingEngine | null>(null);
+  const [branchNode, setBranchNode] = useState<StoryNode | null>(null);
+  const [branchScene, setBranchScene] = useState<SharedScene | null>(null);
+  const [branchProgress, setBranchProgress] = useState({ percent: 0, endingsFound: 0, endingsTotal: 0 });
+  const [isBranching, setIsBranching] = useState(false);
 
-  // Load project
+  // Load project (the share token is validated server-side)
   useEffect(() => {
     async function loadProject() {
+      setLoading(true);
       try {
-        const res = await fetch(`/api/share?projectId=${params.id}`);
+        const query = new URLSearchParams({ projectId: params.id, token: searchParams.token || '' });
+        const res = await fetch(`/api/share?${query.toString()}`, {
+          headers: submittedPassword ? { 'x-share-password': submittedPassword } : undefined,
+        });
         const data = await res.json();
         
+        if (data.passwordRequired) {
+          setPasswordRequired(true);
+          setError(submittedPassword ? data.error : null);
+          return;
+        }
+
         if (!data.success) {
           throw new Error(data.error || 'Failed to load project');
         }
         
+        setPasswordRequired(false);
+        setError(null);
+        // Imported characters this project uses
+        registerUserRigs(
+          (data.project.rigs || []).flatMap((file: unknown) => parseRigFile(file).rig ?? [])
+        );
         setProject(data.project);
       } catch (err: any) {
         setError(err.message || 'Failed to load project');
@@ -76,7 +123,79 @@ export default function ViewProjectPage({ params }: { params: { id: string } })
     }
     
     loadProject();
-  }, [params.id]);
+  }, [params.id, searchParams.token, submittedPassword]);
+
+  // Move past nodes with nothing to show, then show the node the viewer is on.
+  // Progress is kept per project in this browser.
+  const settleBranch = useCallback(() => {
+    const engine = branchEngineRef.current;
+    if (!engine || !project) return;
+
+    let node = engine.getCurrentNode();
+    for (let guard = 0; node && guard < 100; guard++) {
+      if (node.type === 'choice' || node.type === 'ending') break;
+      const scene = resolveNodeScene(project, node);
+      if (scene) {
+        setBranchScene(scene);
+        break;
+      }
+      const next = engine.advance();
+      node = next && next.id !== node.id ? next : null;
+    }
+
+    if (node?.type === 'ending' && !engine.getState()?.unlockedEndings.has(node.id)) {
+      engine.advance();
+    }
+    if (!node || node.type !== 'scene') setIsPlaying(false);
+
+    const state = engine.getState();
+    setBranchNode(node);
+    setBranchProgress({
+      percent: engine.getProgress(),
+      endingsFound: state?.unlockedEndings.size ?? 0,
+      endingsTotal: project.branchingStory?.endings.length ?? 0,
+    });
+
+    const saved = engine.exportState();
+    try {
+      if (saved) localStorage.setItem(`${BRANCH_PROGRESS_KEY_PREFIX}${project.id}`, saved);
+    } catch {
+      // progress just won't survive a reload
+    }
+  }, [project]);
+
+  // Load the branching story and restore this viewer's progress
+  useEffect(() => {
+    const story = project?.branchingStory ? deserializeBranchingStory(project.branchingStory) : null;
+    setIsBranching(!!story);
+    if (!project || !story) {
+      branchEngineRef.current = null;
+      setBranchNode(null);
+      return;
+    }
+
+    const engine = new StoryBranchingEngine();
+    engine.loadStory(story);
+    try {
+      const saved = localStorage.getItem(`${BRANCH_PROGRESS_KEY_PREFIX}${project.id}`);
+      if (saved && !engine.importState(saved)) engine.resetState();
+    } catch {
+      // start from the beginning
+    }
+    branchEngineRef.current = engine;
+    settleBranch();
+  }, [project, settleBranch]);
+
+  const advanceBranch = useCallback(() => {
+    branchEngineRef.current?.advance();
+    settleBranch();
+  }, [settleBranch]);
+
+  const restartBranch = useCallback(() => {
+    branchEngineRef.current?.resetState();
+    lastSpokenRef.current = -1;
+    settleBranch();
+  }, [settleBranch]);
 
   // Speak narration
   const speakNarration = useCallback((text: string) => {
@@ -97,9 +216,23 @@ export default function ViewProjectPage({ params }: { params: { id: string } })
     window.speechSynthesis.speak(utterance);
   }, [isMuted]);
 
+  // Auto-play branching scenes; choices and endings wait for the viewer
+  useEffect(() => {
+    if (!isPlaying || !branchNode || branchNode.type !== 'scene' || !branchScene) return;
+
+    const history = branchEngineRef.current?.getState()?.history.length ?? 0;
+    if (history !== lastSpokenRef.current) {
+      lastSpokenRef.current = history;
+      speakNarration(branchScene.narration);
+    }
+
+    const timer = setTimeout(advanceBranch, branchScene.duration || 5000);
+    return () => clearTimeout(timer);
+  }, [isPlaying, branchNode, branchScene, advanceBranch, speakNarration]);
+
   // Auto-play scenes
   useEffect(() => {
-    if (!isPlaying || !project || project.scenes.length === 0) return;
+    if (!isPlaying || !project || project.scenes.length === 0 || isBranching) return;
     
     const currentScene = project.scenes[currentSceneIndex];
     if (!currentScene) return;
@@ -120,7 +253,7 @@ export default function ViewProjectPage({ params }: { params: { id: string } })
     }, currentScene.duration || 5000);
     
     return () => clearTimeout(timer);
-  }, [isPlaying, currentSceneIndex, project, speakNarration]);
+  }, [isPlaying, currentSceneIndex, project, isBranching, speakNarration]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -140,6 +273,39 @@ export default function ViewProjectPage({ params }: { params: { id: string } })
     );
   }
 
+  if (passwordRequired && !project) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-900 via-indigo-900 to-blue-900 flex items-center justify-center">
+        <form
+          className="text-center bg-white/10 backdrop-blur-lg rounded-2xl p-8 max-w-md w-full"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (password) setSubmittedPassword(password);
+          }}
+        >
+          <Lock className="w-12 h-12 text-purple-300 mx-auto mb-4" />
+          <h1 className="text-xl font-bold text-white mb-2">Password Protected</h1>
+          <p className="text-gray-300 mb-6">Enter the password you were given to watch this animation.</p>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-4 py-2.5 mb-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+            placeholder="Password"
+            autoFocus
+          />
+          {error && <p className="text-red-300 text-sm mb-3">{error}</p>}
+          <button
+            type="submit"
+            className="w-full px-6 py-3 bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors"
+          >
+            Watch
+          </button>
+        </form>
+      </div>
+    );
+  }
+
   if (error || !project) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-purple-900 via-indigo-900 to-blue-900 flex items-center justify-center">
@@ -159,7 +325,22 @@ export default function ViewProjectPage({ params }: { params: { id: string } })
     );
   }
 
-  const currentScene = project.scenes[currentSceneIndex];
+  const currentScene = isBranching ? branchScene : project.scenes[currentSceneIndex];
+  const customBackground = currentScene ? project.customBackgrounds?.[currentScene.background] : undefined;
+  const availableChoices = branchNode?.type === 'choice' && branchEngineRef.current
+    ? branchEngineRef.current.getAvailableChoices(branchNode.choices || [])
+    : [];
+  const choicePoint: BranchPoint | null = availableChoices.length > 0
+    ? {
+        id: branchNode!.id,
+        sceneId: branchScene?.id ?? '',
+        prompt: branchNode!.prompt || 'What happens next?',
+        choices: availableChoices.map((choice) => ({ id: choice.id, text: choice.text, targetSceneId: choice.targetNodeId })),
+        timeToShow: 0,
+        duration: 0,
+      }
+    : null;
+  const branchEnded = isBranching && (!branchNode || branchNode.type === 'ending' || (branchNode.type === 'choice' && !choicePoint));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-900 via-indigo-900 to-blue-900">
@@ -191,30 +372,54 @@ export default function ViewProjectPage({ params }: { params: { id: string } })
                 transition: 'transform 0.5s ease-out',
               }}
             >
-              {/* Background */}
-              <AnimatedBackground backgroundType={currentScene.background as any} />
+              {/* Background (AI-generated ones are stored with the project) */}
+              {customBackground ? (
+                <img src={customBackground} alt="" className="absolute inset-0 w-full h-full object-cover" />
+              ) : (
+                <AnimatedBackground backgroundType={currentScene.background as any} />
+              )}
 
               {/* Characters */}
               {currentScene.characters.map((char, idx) => {
+                const position = {
+                  left: `${char.x}%`,
+                  bottom: `${100 - char.y}%`,
+                  transform: `translateX(-50%) ${char.flipX ? 'scaleX(-1)' : ''}`,
+                };
+
+                if (char.useAICharacter && char.aiGeneratedImage) {
+                  return (
+                    <div key={`${char.rigId}-${idx}`} className="absolute" style={position}>
+                      <img
+                        src={char.aiGeneratedImage}
+                        alt={char.name}
+                        className="w-28 h-36 object-contain drop-shadow-lg"
+                        style={{ transform: `scale(${char.scale * 0.6})` }}
+                      />
+                    </div>
+                  );
+                }
+
                 const rig = getCharacterRig(char.rigId);
                 if (!rig) return null;
-                
+
                 return (
                   <div
                     key={`${char.rigId}-${idx}`}
                     className="absolute"
-                    style={{
-                      left: `${char.x}%`,
-                      bottom: `${100 - char.y}%`,
-                      transform: `translateX(-50%) ${char.flipX ? 'scaleX(-1)' : ''}`,
-                    }}
+                    style={position}
                   >
                     <RiggedCharacter
                       rig={rig}
                       animation={char.animation as any}
-                      expression={char.expression as any}
+                      expression={char.expression}
                       scale={char.scale * 0.6}
                       isTalking={false}
+                      showExplorerGear={char.outfitExplorer}
+                      showBallProp={char.propBall}
+                      pinFeet={char.pinFeet}
+                      customColors={char.customColors}
+                      customAccessories={char.customAccessories}
                     />
                   </div>
                 );
@@ -222,12 +427,61 @@ export default function ViewProjectPage({ params }: { params: { id: string } })
             </div>
           )}
 
+          {/* Branch choices */}
+          {choicePoint && (
+            <BranchingChoiceOverlay
+              branchPoint={choicePoint}
+              currentTime={0}
+              onChoiceSelect={(choice) => {
+                branchEngineRef.current?.makeChoice(choice.id);
+                settleBranch();
+                setIsPlaying(true);
+              }}
+            />
+          )}
+
+          {/* Ending */}
+          {branchEnded && (
+            <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/60">
+              <div className="text-center bg-white/10 backdrop-blur-lg rounded-2xl p-8 max-w-md">
+                <GitBranch className="w-10 h-10 text-purple-300 mx-auto mb-3" />
+                <h2 className="text-2xl font-bold text-white mb-2">
+                  {branchNode?.type === 'ending' ? branchNode.endingTitle || 'The End' : 'The End'}
+                </h2>
+                {branchNode?.type === 'ending' && branchNode.endingDescription && (
+                  <p className="text-gray-300 mb-4">{branchNode.endingDescription}</p>
+                )}
+                <p className="text-purple-200 text-sm mb-6">
+                  {branchProgress.endingsTotal > 0
+                    ? `You have found ${branchProgress.endingsFound} of ${branchProgress.endingsTotal} endings`
+                    : 'Try different choices to see what else can happen'}
+                </p>
+                <button
+                  onClick={() => {
+                    restartBranch();
+                    setIsPlaying(true);
+                  }}
+                  className="inline-flex items-center gap-2 px-6 py-3 bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Play Again
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Narration Overlay */}
           {currentScene && (
             <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/80 to-transparent">
               <p className="text-white text-center text-lg max-w-3xl mx-auto leading-relaxed">
                 {currentScene.narration}
               </p>
+              {currentScene.dialogue?.filter((line) => line.text?.trim()).map((line, idx) => (
+                <p key={idx} className="text-white/90 text-center text-base max-w-3xl mx-auto mt-1">
+                  {line.speaker && <span className="font-semibold text-purple-200">{line.speaker}: </span>}
+                  {line.text}
+                </p>
+              ))}
             </div>
           )}
         </div>
@@ -237,6 +491,7 @@ export default function ViewProjectPage({ params }: { params: { id: string } })
           <div className="flex items-center justify-center gap-4 mb-4">
             <button
               onClick={() => {
+                if (isBranching) restartBranch();
                 setCurrentSceneIndex(0);
                 setIsPlaying(false);
                 window.speechSynthesis?.cancel();
@@ -249,7 +504,7 @@ export default function ViewProjectPage({ params }: { params: { id: string } })
             
             <button
               onClick={() => setCurrentSceneIndex(Math.max(0, currentSceneIndex - 1))}
-              disabled={currentSceneIndex === 0}
+              disabled={isBranching || currentSceneIndex === 0}
               className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50"
               title="Previous"
             >
@@ -264,8 +519,12 @@ export default function ViewProjectPage({ params }: { params: { id: string } })
             </button>
             
             <button
-              onClick={() => setCurrentSceneIndex(Math.min(project.scenes.length - 1, currentSceneIndex + 1))}
-              disabled={currentSceneIndex === project.scenes.length - 1}
+              onClick={() =>
+                isBranching
+                  ? advanceBranch()
+                  : setCurrentSceneIndex(Math.min(project.scenes.length - 1, currentSceneIndex + 1))
+              }
+              disabled={isBranching ? branchNode?.type !== 'scene' : currentSceneIndex === project.scenes.length - 1}
               className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50"
               title="Next"
             >
@@ -285,36 +544,53 @@ export default function ViewProjectPage({ params }: { params: { id: string } })
           </div>
 
           {/* Progress Bar */}
-          <div className="flex items-center gap-2">
-            <span className="text-white/60 text-sm">{currentSceneIndex + 1}</span>
-            <div className="flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
-              <div
-                className="h-full bg-purple-500 transition-all duration-300"
-                style={{ width: `${((currentSceneIndex + 1) / project.scenes.length) * 100}%` }}
-              />
+          {isBranching ? (
+            <div className="flex items-center gap-2">
+              <GitBranch className="w-4 h-4 text-white/60" />
+              <div className="flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-purple-500 transition-all duration-300"
+                  style={{ width: `${branchProgress.percent}%` }}
+                />
+              </div>
+              <span className="text-white/60 text-sm">
+                {branchProgress.endingsFound}/{branchProgress.endingsTotal} endings
+              </span>
             </div>
-            <span className="text-white/60 text-sm">{project.scenes.length}</span>
-          </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <span className="text-white/60 text-sm">{currentSceneIndex + 1}</span>
+              <div className="flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-purple-500 transition-all duration-300"
+                  style={{ width: `${((currentSceneIndex + 1) / project.scenes.length) * 100}%` }}
+                />
+              </div>
+              <span className="text-white/60 text-sm">{project.scenes.length}</span>
+            </div>
+          )}
 
           {/* Scene Thumbnails */}
-          <div className="flex gap-2 mt-4 overflow-x-auto pb-2">
-            {project.scenes.map((scene, idx) => (
-              <button
-                key={scene.id}
-                onClick={() => {
-                  setCurrentSceneIndex(idx);
-                  setIsPlaying(false);
-                }}
-                className={`flex-shrink-0 px-3 py-2 rounded-lg text-sm transition-colors ${
-                  idx === currentSceneIndex
-                    ? 'bg-purple-500 text-white'
-                    : 'bg-white/10 text-white/60 hover:bg-white/20'
-                }`}
-              >
-                {scene.title || `Scene ${idx + 1}`}
-              </button>
-            ))}
-          </div>
+          {!isBranching && (
+            <div className="flex gap-2 mt-4 overflow-x-auto pb-2">
+              {project.scenes.map((scene, idx) => (
+                <button
+                  key={scene.id}
+                  onClick={() => {
+                    setCurrentSceneIndex(idx);
+                    setIsPlaying(false);
+                  }}
+                  className={`flex-shrink-0 px-3 py-2 rounded-lg text-sm transition-colors ${
+                    idx === currentSceneIndex
+                      ? 'bg-purple-500 text-white'
+                      : 'bg-white/10 text-white/60 hover:bg-white/20'
+                  }`}
+                >
+                  {scene.title || `Scene ${idx + 1}`}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </main>
     </div>
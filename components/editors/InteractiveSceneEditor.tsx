@@ -32,15 +32,24 @@ import {
   Redo2,
   LayoutTemplate,
   Music,
+  Upload,
+  Download,
+  Trash2,
 } from 'lucide-react';
 import RiggedCharacter from '../shared/RiggedCharacter';
 import AudioTimeline, { AudioTrack } from '../playback/AudioTimeline';
 import CameraKeyframeEditor from './CameraKeyframeEditor';
 import { CameraKeyframe, createKeyframe } from '@/lib/animation/camera-keyframes';
-import { CharacterRig, CHARACTER_RIGS, getCharacterRig } from '@/lib/utils/sprite-system';
+import { CharacterRig, isBuiltInRigId } from '@/lib/utils/sprite-system';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
+import { exportRigJSON, exportRigSVG } from '@/lib/utils/rig-format';
+import { getRigLibrary, useUserRigs } from '@/lib/utils/rig-library';
+import { BACKGROUNDS, hasSun } from '@/lib/utils/backgrounds';
 import { ANIMATION_PRESETS } from '@/lib/animation/keyframe-animation';
+import { getIKChains } from '@/lib/animation/inverse-kinematics';
 import { analyzeNarrationForActions } from '@/lib/animation/story-animator';
 import { UndoRedoManager, EDIT_ACTIONS, getActionDescription } from '@/lib/utils/undo-redo';
+import { applySceneChanges, type SceneChange } from '@/lib/utils/scene-document';
 import { SCENE_TEMPLATES, SceneTemplate, applyTemplate } from '@/lib/utils/scene-templates';
 
 // Custom character colors from Character Creator
@@ -76,6 +85,7 @@ export interface EditableCharacter {
   // Optional per-scene outfit/prop toggles
   outfitExplorer?: boolean; // e.g. Kiara's explorer gear / backpack
   propBall?: boolean; // e.g. Jayden's soccer ball
+  pinFeet?: boolean; // keep feet planted on the ground (IK) while animating
   // Custom character creator settings
   customColors?: CustomCharacterColors;
   customAccessories?: CustomCharacterAccessories;
@@ -99,6 +109,7 @@ export interface EditableScene {
   dialogue?: { speaker: string; text: string }[];
   props?: any[];
   cameraKeyframes?: any[];
+  mood?: string;
 }
 
 interface InteractiveSceneEditorProps {
@@ -107,30 +118,11 @@ interface InteractiveSceneEditorProps {
   onClose: () => void;
   onSave: () => void;
   characterRoleLabels?: Record<string, string>;
+  remoteChanges?: SceneChange[] | null; // Collaborators' edits merged into the scene
 }
 
-// Background configurations - expanded list
-const BACKGROUNDS: Record<string, { gradient: string; groundColor: string }> = {
-  meadow: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #ADD8E6 40%, #90EE90 100%)', groundColor: '#7CFC00' },
-  forest: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #98D8C8 50%, #228B22 100%)', groundColor: '#228B22' },
-  beach: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #87CEEB 40%, #00CED1 60%, #F4A460 100%)', groundColor: '#F4A460' },
-  night: { gradient: 'linear-gradient(180deg, #0f0c29 0%, #302b63 50%, #24243e 100%)', groundColor: '#1a1a2e' },
-  bedroom: { gradient: 'linear-gradient(180deg, #E6E6FA 0%, #DDA0DD 50%, #D2B48C 100%)', groundColor: '#D2B48C' },
-  park: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #B0E0E6 50%, #90EE90 100%)', groundColor: '#7CFC00' },
-  castle: { gradient: 'linear-gradient(180deg, #B0C4DE 0%, #778899 50%, #696969 100%)', groundColor: '#808080' },
-  space: { gradient: 'linear-gradient(180deg, #000428 0%, #004e92 50%, #000428 100%)', groundColor: '#1a1a2e' },
-  underwater: { gradient: 'linear-gradient(180deg, #00CED1 0%, #008B8B 50%, #006666 100%)', groundColor: '#004d4d' },
-  mountain: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #B0C4DE 40%, #8B7355 100%)', groundColor: '#6B4423' },
-  city: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #B0C4DE 60%, #708090 100%)', groundColor: '#505050' },
-  farm: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #F5DEB3 50%, #DAA520 100%)', groundColor: '#8B4513' },
-  playground: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #ADD8E6 50%, #90EE90 100%)', groundColor: '#228B22' },
-  library: { gradient: 'linear-gradient(180deg, #DEB887 0%, #D2B48C 50%, #8B4513 100%)', groundColor: '#654321' },
-  kitchen: { gradient: 'linear-gradient(180deg, #FFFAF0 0%, #FFF8DC 50%, #FAEBD7 100%)', groundColor: '#D2B48C' },
-  garden: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #98FB98 50%, #228B22 100%)', groundColor: '#006400' },
-};
-
 const EXPRESSIONS = ['neutral', 'happy', 'sad', 'surprised', 'angry'] as const;
-const ANIMATIONS = ['idle', 'walk', 'run', 'wave', 'jump', 'talk', 'sit', 'dance', 'surprised', 'sad', 'sleep', 'eat', 'read', 'play', 'think', 'laugh', 'cry'] as const;
+const ANIMATIONS = ['idle', 'walk', 'run', 'wave', 'reach', 'jump', 'talk', 'sit', 'dance', 'surprised', 'sad', 'sleep', 'eat', 'read', 'play', 'think', 'laugh', 'cry'] as const;
 
 export default function InteractiveSceneEditor({
   scene,
@@ -138,6 +130,7 @@ export default function InteractiveSceneEditor({
   onClose,
   onSave,
   characterRoleLabels,
+  remoteChanges,
 }: InteractiveSceneEditorProps) {
   const stageRef = useRef<HTMLDivElement>(null);
   const [selectedCharacterId, setSelectedCharacterId] = useState<string | null>(null);
@@ -147,6 +140,10 @@ export default function InteractiveSceneEditor({
   const [showSettings, setShowSettings] = useState(false);
   const [activeTab, setActiveTab] = useState<'characters' | 'scene' | 'camera' | 'timing' | 'audio'>('characters');
   const [showTemplateModal, setShowTemplateModal] = useState(false);
+  // Re-render the character picker when imported rigs change
+  useUserRigs();
+  const rigFileInputRef = useRef<HTMLInputElement>(null);
+  const [rigImportMessage, setRigImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
   
   // Audio timeline state
   const [audioTracks, setAudioTracks] = useState<AudioTrack[]>(() => {
@@ -190,6 +187,12 @@ export default function InteractiveSceneEditor({
     };
     return () => { undoManagerRef.current = null; };
   }, []);
+
+  // Keep remote edits when undoing: replay them onto every history entry
+  useEffect(() => {
+    if (!remoteChanges || remoteChanges.length === 0) return;
+    undoManagerRef.current?.rebase((state) => applySceneChanges(state, remoteChanges));
+  }, [remoteChanges]);
   
   // Track scene changes for undo
   const updateSceneWithHistory = useCallback((newScene: EditableScene, action: string, details?: Record<string, any>) => {
@@ -229,6 +232,7 @@ export default function InteractiveSceneEditor({
   }, [handleUndo, handleRedo]);
 
   const selectedCharacter = scene.characters.find(c => c.id === selectedCharacterId);
+  const selectedRig = selectedCharacter ? getCharacterRegistry().getRig(selectedCharacter.rigId) : undefined;
   const bgConfig = BACKGROUNDS[scene.background] || BACKGROUNDS.meadow;
   const narrationAnalysis = analyzeNarrationForActions(scene.narration || '');
   const primarySuggestion = narrationAnalysis[0];
@@ -302,9 +306,44 @@ export default function InteractiveSceneEditor({
     });
   }, [scene, onSceneUpdate]);
 
+  // Import a rig file (JSON or layered SVG) into the user rig library
+  const handleRigFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const baseName = file.name.replace(/(\.rig)?\.(json|svg)$/i, '');
+      const { rig, errors } = getRigLibrary().importFile(event.target?.result as string, { name: baseName });
+      if (!rig) {
+        setRigImportMessage({ text: errors[0] || 'Could not import rig', isError: true });
+        return;
+      }
+      if (errors.length > 0) console.warn(`Rig "${rig.id}" imported with corrections:`, errors);
+      setRigImportMessage({
+        text: `Imported ${rig.name}${errors.length > 0 ? ` (${errors.length} correction${errors.length === 1 ? '' : 's'}, see console)` : ''}`,
+        isError: false,
+      });
+    };
+    reader.readAsText(file);
+  };
+
+  const downloadRig = (rig: CharacterRig, format: 'json' | 'svg') => {
+    const blob = format === 'json'
+      ? new Blob([exportRigJSON(rig)], { type: 'application/json' })
+      : new Blob([exportRigSVG(rig)], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = format === 'json' ? `${rig.id}.rig.json` : `${rig.id}.svg`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   // Add character to scene
   const addCharacter = (rigId: string) => {
-    const rig = getCharacterRig(rigId);
+    const rig = getCharacterRegistry().getRig(rigId);
     if (!rig) return;
 
     const newCharacter: EditableCharacter = {
@@ -479,12 +518,12 @@ export default function InteractiveSceneEditor({
                 >
                   <div className="absolute bottom-0 left-0 right-0 h-[22%]" style={{ background: `linear-gradient(to top, ${bgConfig.groundColor}, transparent)`, opacity: 0.8 }} />
                   
-                  {scene.background !== 'night' && scene.background !== 'bedroom' && (
+                  {hasSun(scene.background) && (
                     <div className="absolute top-[10%] right-[15%] w-10 h-10 bg-yellow-200 rounded-full" style={{ boxShadow: '0 0 30px 10px rgba(255, 255, 200, 0.4)' }} />
                   )}
 
                   {scene.characters.map((char) => {
-                    const rig = getCharacterRig(char.rigId);
+                    const rig = getCharacterRegistry().getRig(char.rigId);
                     if (!rig) return null;
                     const isSelected = char.id === selectedCharacterId;
                     return (
@@ -495,7 +534,7 @@ export default function InteractiveSceneEditor({
                         onMouseDown={(e) => { e.stopPropagation(); handleMouseDown(e, char.id); }}
                         onClick={(e) => { e.stopPropagation(); setSelectedCharacterId(char.id); }}
                       >
-                        <RiggedCharacter rig={rig} animation={char.animation} scale={char.scale * 0.8} flipX={char.flipX} expression={char.expression} isTalking={char.isTalking} showExplorerGear={char.outfitExplorer} showBallProp={char.propBall} customColors={char.customColors} customAccessories={char.customAccessories} />
+                        <RiggedCharacter rig={rig} animation={char.animation} scale={char.scale * 0.8} flipX={char.flipX} expression={char.expression} isTalking={char.isTalking} showExplorerGear={char.outfitExplorer} showBallProp={char.propBall} pinFeet={char.pinFeet} customColors={char.customColors} customAccessories={char.customAccessories} />
                       </div>
                     );
                   })}
@@ -534,7 +573,7 @@ export default function InteractiveSceneEditor({
                 <div className="space-y-3">
                   {/* Add Character */}
                   <div className="grid grid-cols-3 gap-1.5">
-                    {CHARACTER_RIGS.map((rig) => (
+                    {getCharacterRegistry().getRigs().map((rig) => (
                       <button
                         key={rig.id}
                         onClick={() => addCharacter(rig.id)}
@@ -546,6 +585,30 @@ export default function InteractiveSceneEditor({
                     ))}
                   </div>
 
+                  {/* Rig Library */}
+                  <div className="flex items-center gap-1.5">
+                    <input
+                      ref={rigFileInputRef}
+                      type="file"
+                      accept=".json,.svg,application/json,image/svg+xml"
+                      onChange={handleRigFileImport}
+                      className="hidden"
+                    />
+                    <button
+                      onClick={() => rigFileInputRef.current?.click()}
+                      className="flex-1 py-1.5 bg-white/5 hover:bg-white/10 rounded-lg text-[10px] text-gray-400 flex items-center justify-center gap-1 transition-all"
+                      title="Import a rig file or a layered SVG with one named group per body part"
+                    >
+                      <Upload className="w-3 h-3" />
+                      Import Rig
+                    </button>
+                  </div>
+                  {rigImportMessage && (
+                    <p className={`text-[10px] ${rigImportMessage.isError ? 'text-red-400' : 'text-green-400'}`}>
+                      {rigImportMessage.text}
+                    </p>
+                  )}
+
                   {/* Selected Character */}
                   {selectedCharacter && (
                     <div className="space-y-3 pt-3 border-t border-white/5">
@@ -556,6 +619,26 @@ export default function InteractiveSceneEditor({
                         </button>
                       </div>
 
+                      {/* Rig file */}
+                      {selectedRig && (
+                        <div className="flex items-center gap-1.5">
+                          <span className="text-[10px] text-gray-500 uppercase flex-1">Rig</span>
+                          <button onClick={() => downloadRig(selectedRig, 'json')} className="px-2 py-1 bg-white/5 hover:bg-white/10 rounded text-[10px] text-gray-400 flex items-center gap-1 transition-all" title="Download rig file">
+                            <Download className="w-3 h-3" />
+                            JSON
+                          </button>
+                          <button onClick={() => downloadRig(selectedRig, 'svg')} className="px-2 py-1 bg-white/5 hover:bg-white/10 rounded text-[10px] text-gray-400 flex items-center gap-1 transition-all" title="Download layered SVG">
+                            <Download className="w-3 h-3" />
+                            SVG
+                          </button>
+                          {!isBuiltInRigId(selectedRig.id) && (
+                            <button onClick={() => getRigLibrary().remove(selectedRig.id)} className="p-1 hover:bg-red-500/20 rounded text-red-400 transition-all" title="Remove from rig library">
+                              <Trash2 className="w-3 h-3" />
+                            </button>
+                          )}
+                        </div>
+                      )}
+
                       {/* Position */}
                       <div className="space-y-2">
                         <div className="flex items-center justify-between">
@@ -583,7 +666,7 @@ export default function InteractiveSceneEditor({
                       <div>
                         <span className="text-[10px] text-gray-500 uppercase block mb-1.5">Animation</span>
                         <div className="flex flex-wrap gap-1">
-                          {ANIMATIONS.slice(0, 8).map((anim) => (
+                          {ANIMATIONS.slice(0, 9).map((anim) => (
                             <button
                               key={anim}
                               onClick={() => updateCharacter(selectedCharacter.id, { animation: anim })}
@@ -595,6 +678,19 @@ export default function InteractiveSceneEditor({
                         </div>
                       </div>
 
+                      {/* Foot pinning - only for rigs with feet to pin */}
+                      {selectedRig && getIKChains(selectedRig).some((chain) => chain.id.endsWith('Foot')) && (
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={!!selectedCharacter.pinFeet}
+                            onChange={(e) => updateCharacter(selectedCharacter.id, { pinFeet: e.target.checked })}
+                            className="w-3.5 h-3.5 rounded bg-gray-800 border-gray-600 text-purple-500 focus:ring-purple-500"
+                          />
+                          <span className="text-[10px] text-gray-400">Keep feet on ground</span>
+                        </label>
+                      )}
+
                       {/* Expression */}
                       <div>
                         <span className="text-[10px] text-gray-500 uppercase block mb-1.5">Expression</span>
@@ -624,7 +720,7 @@ export default function InteractiveSceneEditor({
                             onClick={() => setSelectedCharacterId(char.id)}
                             className={`w-full p-2 rounded-lg text-left flex items-center gap-2 transition-all ${char.id === selectedCharacterId ? 'bg-purple-500/20 ring-1 ring-purple-500/50' : 'bg-white/5 hover:bg-white/10'}`}
                           >
-                            <div className="w-5 h-5 rounded-full" style={{ backgroundColor: getCharacterRig(char.rigId)?.colors.primary || '#888' }} />
+                            <div className="w-5 h-5 rounded-full" style={{ backgroundColor: getCharacterRegistry().getRig(char.rigId)?.colors.primary || '#888' }} />
                             <span className="text-xs text-white">{char.name}</span>
                             <span className="text-[10px] text-gray-500 ml-auto">{char.animation}</span>
                           </button>
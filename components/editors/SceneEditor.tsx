@@ -2,7 +2,8 @@
 
 import React from 'react';
 import { useStudioStore } from '@/lib/utils/store';
-import { CHARACTER_TEMPLATES, BACKGROUND_TEMPLATES, SVG_BACKGROUNDS } from '@/lib/utils/templates';
+import { BACKGROUND_TEMPLATES, SVG_BACKGROUNDS } from '@/lib/utils/templates';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
 import type { Expression, Scene } from '@/lib/utils/types';
 import {
   Plus,
@@ -211,17 +212,17 @@ export default function SceneEditor({ scene, onClose }: SceneEditorProps) {
                 <ChevronDown className="w-3 h-3" />
               </button>
               <div className="absolute right-0 top-full mt-1 bg-white rounded-xl shadow-xl border border-gray-100 py-2 min-w-[160px] opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all z-10">
-                {CHARACTER_TEMPLATES.map((template) => (
+                {getCharacterRegistry().getAll().filter((character) => character.capabilities.templateId).map((character) => (
                   <button
-                    key={template.id}
-                    onClick={() => addCharacter(scene.id, template.id)}
+                    key={character.id}
+                    onClick={() => addCharacter(scene.id, character.id)}
                     className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50 flex items-center gap-2"
                   >
                     <div
                       className="w-4 h-4 rounded-full"
-                      style={{ backgroundColor: template.primaryColor }}
+                      style={{ backgroundColor: character.color }}
                     />
-                    {template.displayName}
+                    {character.name}
                   </button>
                 ))}
               </div>
@@ -231,9 +232,7 @@ export default function SceneEditor({ scene, onClose }: SceneEditorProps) {
           {/* Character List */}
           <div className="space-y-2">
             {scene.characters.map((character) => {
-              const template = CHARACTER_TEMPLATES.find(
-                (t) => t.id === character.templateId
-              );
+              const template = getCharacterRegistry().getTemplate(character.templateId);
               const isSelected = character.id === editor.selectedCharacterId;
 
               return (
@@ -18,7 +18,8 @@ import {
   Play,
   Pause,
 } from 'lucide-react';
-import { CHARACTER_RIGS, CharacterRig } from '@/lib/utils/sprite-system';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
+import { useUserRigs } from '@/lib/utils/rig-library';
 
 // ============================================
 // MODERN 2D CHARACTER ENGINE
@@ -928,7 +929,7 @@ export default function CharacterCreatorModal({
   const [character, setCharacter] = useState<CharacterCustomization>({
     id: initialCharacter?.id || `char-${Date.now()}`,
     name: initialCharacter?.name || '',
-    rigId: initialCharacter?.rigId || CHARACTER_RIGS[0]?.id || 'kiara',
+    rigId: initialCharacter?.rigId || getCharacterRegistry().getDefault().id,
     colors: initialCharacter?.colors || {
       primary: '#4ECDC4',
       secondary: '#2C3A47',
@@ -947,6 +948,8 @@ export default function CharacterCreatorModal({
   });
 
   const [previewAnimation, setPreviewAnimation] = useState('idle');
+  // Re-render the rig list when imported rigs change
+  useUserRigs();
   
   // AI Character Generation states
   const [aiCharacterPrompt, setAiCharacterPrompt] = useState('');
@@ -999,7 +1002,7 @@ export default function CharacterCreatorModal({
       setCharacter({
         id: initialCharacter.id || `char-${Date.now()}`,
         name: initialCharacter.name || '',
-        rigId: initialCharacter.rigId || CHARACTER_RIGS[0]?.id || 'kiara',
+        rigId: initialCharacter.rigId || getCharacterRegistry().getDefault().id,
         colors: initialCharacter.colors || {
           primary: '#4ECDC4',
           secondary: '#2C3A47',
@@ -1020,7 +1023,8 @@ export default function CharacterCreatorModal({
   }, [initialCharacter]);
 
   const handleRandomize = () => {
-    const randomRig = CHARACTER_RIGS[Math.floor(Math.random() * CHARACTER_RIGS.length)];
+    const rigs = getCharacterRegistry().getRigs();
+    const randomRig = rigs[Math.floor(Math.random() * rigs.length)];
     const randomOutfit = OUTFIT_OPTIONS[Math.floor(Math.random() * OUTFIT_OPTIONS.length)];
     const randomPersonality = PERSONALITY_OPTIONS[Math.floor(Math.random() * PERSONALITY_OPTIONS.length)];
     
@@ -1049,7 +1053,7 @@ export default function CharacterCreatorModal({
     setCharacter({
       id: character.id,
       name: '',
-      rigId: CHARACTER_RIGS[0]?.id || 'kiara',
+      rigId: getCharacterRegistry().getDefault().id,
       colors: {
         primary: '#4ECDC4',
         secondary: '#2C3A47',
@@ -1068,7 +1072,7 @@ export default function CharacterCreatorModal({
     });
   };
 
-  const selectedRig = CHARACTER_RIGS.find(r => r.id === character.rigId);
+  const selectedRig = getCharacterRegistry().getRig(character.rigId);
   
   // Animation preview state - includes all story-acting animations
   const [animationState, setAnimationState] = useState<AnimationType>('idle');
@@ -1284,7 +1288,7 @@ export default function CharacterCreatorModal({
                     <div>
                       <h3 className="text-white font-medium mb-3">Character Base</h3>
                       <div className="grid grid-cols-3 gap-3">
-                        {CHARACTER_RIGS.map((rig) => (
+                        {getCharacterRegistry().getRigs().map((rig) => (
                           <button
                             key={rig.id}
                             onClick={() => setCharacter({ ...character, rigId: rig.id })}
@@ -15,6 +15,9 @@ import {
   ChevronDown,
   ChevronUp,
 } from 'lucide-react';
+import { useCollaboration, type CollaboratorPresence } from '@/lib/utils/collaboration';
+import type { SceneChange } from '@/lib/utils/scene-document';
+import type { EditableScene } from '@/components/editors/InteractiveSceneEditor';
 
 interface Collaborator {
   id: string;
@@ -42,6 +45,9 @@ interface CollaborationPanelProps {
   currentUser: Collaborator;
   collaborators: Collaborator[];
   onInvite: () => void;
+  projectId?: string | null; // When set, connects to the collaboration server for this project
+  scenes?: EditableScene[]; // Shared with collaborators while connected
+  onScenesMerged?: (scenes: EditableScene[], changes: SceneChange[]) => void;
 }
 
 // Mock data for demo
@@ -115,15 +121,51 @@ export default function CollaborationPanel({
   isOpen,
   onClose,
   currentUser,
-  collaborators = MOCK_COLLABORATORS,
+  collaborators: staticCollaborators = MOCK_COLLABORATORS,
   onInvite,
+  projectId,
+  scenes,
+  onScenesMerged,
 }: CollaborationPanelProps) {
   const [activeTab, setActiveTab] = useState<'users' | 'chat'>('users');
-  const [messages, setMessages] = useState<ChatMessage[]>(MOCK_MESSAGES);
+  const [localMessages, setLocalMessages] = useState<ChatMessage[]>(MOCK_MESSAGES);
   const [newMessage, setNewMessage] = useState('');
   const [isMinimized, setIsMinimized] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
+  // Live session (no-op until a projectId is provided)
+  const live = useCollaboration(
+    projectId ?? null,
+    undefined,
+    scenes && onScenesMerged ? { scenes, onMerge: onScenesMerged } : undefined
+  );
+  const isLive = !!projectId;
+  const selfId = isLive ? live.localUser.id : currentUser?.id || 'user-1';
+
+  const collaborators: Collaborator[] = isLive
+    ? [
+        {
+          ...currentUser,
+          id: live.localUser.id,
+          color: live.localUser.color,
+          role: live.localUser.role ?? currentUser.role,
+          status: 'online',
+        },
+        ...live.collaborators.map((presence) => toPanelCollaborator(presence, live.cursors)),
+      ]
+    : staticCollaborators;
+
+  const messages: ChatMessage[] = isLive
+    ? live.messages.map((msg) => ({
+        id: msg.id,
+        userId: msg.senderId,
+        userName: msg.senderId === live.localUser.id ? currentUser?.name || 'You' : msg.senderName,
+        userColor: msg.color,
+        message: msg.message,
+        timestamp: new Date(msg.timestamp),
+      }))
+    : localMessages;
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
@@ -131,6 +173,12 @@ export default function CollaborationPanel({
   const handleSendMessage = () => {
     if (!newMessage.trim()) return;
 
+    if (isLive) {
+      live.sendChat(newMessage.trim());
+      setNewMessage('');
+      return;
+    }
+
     const message: ChatMessage = {
       id: `msg-${Date.now()}`,
       userId: currentUser?.id || 'user-1',
@@ -140,7 +188,7 @@ export default function CollaborationPanel({
       timestamp: new Date(),
     };
 
-    setMessages([...messages, message]);
+    setLocalMessages([...localMessages, message]);
     setNewMessage('');
   };
 
@@ -178,9 +226,15 @@ export default function CollaborationPanel({
         <div className="flex items-center gap-2">
           <Users className="w-5 h-5 text-purple-400" />
           <span className="font-medium text-white">Collaboration</span>
-          <span className="px-2 py-0.5 bg-green-500/20 text-green-400 text-xs rounded-full">
-            {collaborators.filter(c => c.status === 'online').length} online
-          </span>
+          {isLive && !live.isConnected ? (
+            <span className="px-2 py-0.5 bg-gray-500/20 text-gray-400 text-xs rounded-full">
+              connecting…
+            </span>
+          ) : (
+            <span className="px-2 py-0.5 bg-green-500/20 text-green-400 text-xs rounded-full">
+              {collaborators.filter(c => c.status === 'online').length} online
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-1">
           <button
@@ -299,7 +353,7 @@ export default function CollaborationPanel({
                     {messages.map((msg) => (
                       <div
                         key={msg.id}
-                        className={`flex gap-2 ${msg.userId === (currentUser?.id || 'user-1') ? 'flex-row-reverse' : ''}`}
+                        className={`flex gap-2 ${msg.userId === selfId ? 'flex-row-reverse' : ''}`}
                       >
                         <div
                           className="w-8 h-8 rounded-full flex-shrink-0 flex items-center justify-center text-sm"
@@ -307,7 +361,7 @@ export default function CollaborationPanel({
                         >
                           {collaborators.find(c => c.id === msg.userId)?.avatar || '👤'}
                         </div>
-                        <div className={`max-w-[70%] ${msg.userId === (currentUser?.id || 'user-1') ? 'text-right' : ''}`}>
+                        <div className={`max-w-[70%] ${msg.userId === selfId ? 'text-right' : ''}`}>
                           <div className="flex items-center gap-2 mb-0.5">
                             <span className="text-xs font-medium" style={{ color: msg.userColor }}>
                               {msg.userName}
@@ -318,7 +372,7 @@ export default function CollaborationPanel({
                           </div>
                           <div
                             className={`px-3 py-2 rounded-xl text-sm ${
-                              msg.userId === (currentUser?.id || 'user-1')
+                              msg.userId === selfId
                                 ? 'bg-purple-500 text-white'
                                 : 'bg-gray-800 text-gray-200'
                             }`}
@@ -361,6 +415,24 @@ export default function CollaborationPanel({
   );
 }
 
+// Map server presence onto the panel's collaborator shape
+function toPanelCollaborator(
+  presence: CollaboratorPresence,
+  cursors: { id: string; x: number; y: number }[]
+): Collaborator {
+  const cursor = cursors.find((c) => c.id === presence.id);
+  return {
+    id: presence.id,
+    name: presence.name,
+    avatar: '🧑‍🎨',
+    color: presence.color,
+    status: presence.status === 'active' ? 'online' : presence.status === 'idle' ? 'away' : 'offline',
+    role: 'editor',
+    cursorPosition: cursor ? { x: cursor.x, y: cursor.y } : undefined,
+    currentScene: presence.currentScene,
+  };
+}
+
 // Cursor overlay component for showing collaborator cursors on the stage
 export function CollaboratorCursors({ collaborators }: { collaborators: Collaborator[] }) {
   return (
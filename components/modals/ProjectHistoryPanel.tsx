@@ -0,0 +1,316 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, History, Loader2, GitCompare, RotateCcw, GitBranch, Pencil, Check } from 'lucide-react';
+import type { RevisionDiff, RevisionSummary, SceneChange } from '@/lib/database/project-revisions';
+
+interface ProjectHistoryPanelProps {
+  isOpen: boolean;
+  projectId: string | null;
+  projectTitle?: string;
+  canEdit?: boolean; // Viewers can browse, compare and fork, but not relabel or restore
+  onClose: () => void;
+  onOpenProject: (id: string) => void; // After a restore (same id) or a fork (new id)
+}
+
+const CHANGE_STYLES: Record<SceneChange, string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  modified: 'bg-amber-100 text-amber-700',
+  moved: 'bg-blue-100 text-blue-700',
+};
+
+export default function ProjectHistoryPanel({
+  isOpen,
+  projectId,
+  projectTitle,
+  canEdit = true,
+  onClose,
+  onOpenProject,
+}: ProjectHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyRevisionId, setBusyRevisionId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState('');
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+
+  const fetchRevisions = useCallback(async (id: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${id}/revisions`);
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data?.error || 'Failed to load history');
+      setRevisions(data.revisions || []);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+    setDiff(null);
+    setEditingId(null);
+    fetchRevisions(projectId);
+  }, [fetchRevisions, isOpen, projectId]);
+
+  const handleCompare = async (revision: RevisionSummary) => {
+    if (!projectId) return;
+    if (diff?.to === revision.number) {
+      setDiff(null);
+      return;
+    }
+    setBusyRevisionId(revision.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/revisions/diff?to=${revision.number}`);
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data?.error || 'Compare failed');
+      setDiff(data.diff);
+    } catch (err: any) {
+      setError(err?.message || 'Compare failed');
+    } finally {
+      setBusyRevisionId(null);
+    }
+  };
+
+  const handleSaveLabel = async (revision: RevisionSummary) => {
+    if (!projectId) return;
+    setBusyRevisionId(revision.id);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/revisions/${revision.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: labelDraft }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data?.error || 'Rename failed');
+      setRevisions((prev) => prev.map((item) => (item.id === revision.id ? data.revision : item)));
+      setEditingId(null);
+    } catch (err: any) {
+      setError(err?.message || 'Rename failed');
+    } finally {
+      setBusyRevisionId(null);
+    }
+  };
+
+  const handleRestoreOrFork = async (revision: RevisionSummary, action: 'restore' | 'fork') => {
+    if (!projectId) return;
+    if (
+      action === 'restore' &&
+      !confirm(`Restore revision ${revision.number}? The current version stays in the history.`)
+    ) {
+      return;
+    }
+    setBusyRevisionId(revision.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/revisions/${revision.id}/${action}`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok || !data?.id) throw new Error(data?.error || `${action === 'restore' ? 'Restore' : 'Fork'} failed`);
+      onOpenProject(data.id);
+      onClose();
+    } catch (err: any) {
+      setError(err?.message || 'Request failed');
+    } finally {
+      setBusyRevisionId(null);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            className="w-full max-w-2xl bg-white rounded-2xl shadow-2xl overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+              <div className="flex items-center gap-2 min-w-0">
+                <History className="w-5 h-5 text-purple-500" />
+                <h3 className="text-lg font-semibold text-gray-900 truncate">
+                  History{projectTitle ? ` - ${projectTitle}` : ''}
+                </h3>
+              </div>
+              <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg">
+                <X className="w-4 h-4 text-gray-500" />
+              </button>
+            </div>
+
+            <div className="p-5 space-y-3 max-h-[520px] overflow-y-auto">
+              {isLoading && (
+                <div className="flex items-center gap-2 text-gray-600 text-sm">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Loading history...
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-600 text-sm rounded-lg p-3">{error}</div>
+              )}
+
+              {!isLoading && !error && revisions.length === 0 && (
+                <p className="text-sm text-gray-600">No revisions yet. One is recorded every time the project is saved.</p>
+              )}
+
+              {revisions.map((revision, index) => {
+                const isBusy = busyRevisionId === revision.id;
+                const hasPrevious = index < revisions.length - 1;
+                return (
+                  <div key={revision.id} className="p-3 rounded-xl border border-gray-200">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs font-mono px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                            #{revision.number}
+                          </span>
+                          {editingId === revision.id ? (
+                            <div className="flex items-center gap-1 flex-1">
+                              <input
+                                value={labelDraft}
+                                onChange={(e) => setLabelDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') handleSaveLabel(revision);
+                                  if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                placeholder="Label this revision"
+                                maxLength={120}
+                                autoFocus
+                                className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:border-purple-400"
+                              />
+                              <button
+                                onClick={() => handleSaveLabel(revision)}
+                                disabled={isBusy}
+                                className="p-1.5 hover:bg-gray-100 rounded-lg"
+                                title="Save label"
+                              >
+                                <Check className="w-4 h-4 text-green-600" />
+                              </button>
+                            </div>
+                          ) : (
+                            <>
+                              <span className="font-medium text-gray-900 truncate">
+                                {revision.label || (index === 0 ? 'Latest save' : 'Saved')}
+                              </span>
+                              {canEdit && (
+                                <button
+                                  onClick={() => {
+                                    setEditingId(revision.id);
+                                    setLabelDraft(revision.label ?? '');
+                                  }}
+                                  className="p-1 hover:bg-gray-100 rounded"
+                                  title="Edit label"
+                                >
+                                  <Pencil className="w-3 h-3 text-gray-400" />
+                                </button>
+                              )}
+                            </>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {new Date(revision.createdAt).toLocaleString()}
+                          {revision.author ? ` · ${revision.author}` : ''}
+                          {` · ${revision.sceneCount} scene${revision.sceneCount === 1 ? '' : 's'}`}
+                          {revision.title !== projectTitle ? ` · "${revision.title}"` : ''}
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {isBusy && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+                        {hasPrevious && (
+                          <button
+                            onClick={() => handleCompare(revision)}
+                            disabled={isBusy}
+                            className={`p-2 rounded-lg transition-colors ${
+                              diff?.to === revision.number ? 'bg-purple-100' : 'hover:bg-gray-100'
+                            }`}
+                            title="Compare with the previous revision"
+                          >
+                            <GitCompare className="w-4 h-4 text-purple-500" />
+                          </button>
+                        )}
+                        {index > 0 && canEdit && (
+                          <button
+                            onClick={() => handleRestoreOrFork(revision, 'restore')}
+                            disabled={isBusy}
+                            className="p-2 hover:bg-gray-100 rounded-lg"
+                            title="Restore this revision"
+                          >
+                            <RotateCcw className="w-4 h-4 text-gray-600" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleRestoreOrFork(revision, 'fork')}
+                          disabled={isBusy}
+                          className="p-2 hover:bg-gray-100 rounded-lg"
+                          title="Start a new project from this revision"
+                        >
+                          <GitBranch className="w-4 h-4 text-gray-600" />
+                        </button>
+                      </div>
+                    </div>
+
+                    {diff?.to === revision.number && (
+                      <div className="mt-3 pt-3 border-t border-gray-100 space-y-2 text-sm">
+                        <div className="text-xs text-gray-500">
+                          Changes since revision #{diff.from}
+                        </div>
+                        {diff.project.length === 0 && diff.scenes.length === 0 && (
+                          <p className="text-gray-600">No changes.</p>
+                        )}
+                        {diff.project.length > 0 && (
+                          <p className="text-gray-700">
+                            <span className="font-medium">Project:</span> {diff.project.join(', ')}
+                          </p>
+                        )}
+                        {diff.scenes.map((scene) => (
+                          <div key={`${scene.change}-${scene.sceneId}`} className="flex items-start gap-2">
+                            <span className={`text-[10px] uppercase font-semibold px-1.5 py-0.5 rounded ${CHANGE_STYLES[scene.change]}`}>
+                              {scene.change}
+                            </span>
+                            <div className="min-w-0 text-gray-700">
+                              <span className="font-medium">{scene.title || 'Untitled scene'}</span>
+                              {scene.change === 'moved' && scene.fromIndex !== null && scene.toIndex !== null && (
+                                <span className="text-gray-500"> · scene {scene.fromIndex + 1} → {scene.toIndex + 1}</span>
+                              )}
+                              {scene.fields.length > 0 && (
+                                <span className="text-gray-500"> · {scene.fields.join(', ')}</span>
+                              )}
+                              {scene.characters.added.length > 0 && (
+                                <div className="text-xs text-green-700">+ {scene.characters.added.join(', ')}</div>
+                              )}
+                              {scene.characters.removed.length > 0 && (
+                                <div className="text-xs text-red-600">− {scene.characters.removed.join(', ')}</div>
+                              )}
+                              {scene.characters.changed.length > 0 && (
+                                <div className="text-xs text-amber-700">~ {scene.characters.changed.join(', ')}</div>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
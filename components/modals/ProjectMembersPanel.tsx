@@ -0,0 +1,259 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Users, Loader2, UserPlus, Trash2, Crown } from 'lucide-react';
+import { PROJECT_ROLES, type ProjectRole } from '@/lib/auth/roles';
+import type { ProjectMemberSummary } from '@/lib/auth/permissions';
+
+interface ProjectMembersPanelProps {
+  isOpen: boolean;
+  projectId: string | null;
+  projectTitle?: string;
+  currentUserId: string | null;
+  onClose: () => void;
+  onLeft?: () => void; // After the signed-in user removed themselves
+}
+
+const ROLE_DESCRIPTIONS: Record<ProjectRole, string> = {
+  viewer: 'Can open, watch, export and fork',
+  editor: 'Can also save, restore revisions and share',
+  owner: 'Can also manage people and delete the project',
+};
+
+export default function ProjectMembersPanel({
+  isOpen,
+  projectId,
+  projectTitle,
+  currentUserId,
+  onClose,
+  onLeft,
+}: ProjectMembersPanelProps) {
+  const [members, setMembers] = useState<ProjectMemberSummary[]>([]);
+  const [role, setRole] = useState<ProjectRole | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [newRole, setNewRole] = useState<ProjectRole>('editor');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const canManage = role === 'owner';
+
+  const fetchMembers = useCallback(async (id: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${id}/members`);
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data?.error || 'Failed to load members');
+      setMembers(data.members || []);
+      setRole(data.role ?? null);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+    setEmail('');
+    fetchMembers(projectId);
+  }, [fetchMembers, isOpen, projectId]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!projectId || !email.trim()) return;
+    setIsAdding(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), role: newRole }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data?.error || 'Could not add member');
+      setMembers(data.members || []);
+      setEmail('');
+    } catch (err: any) {
+      setError(err?.message || 'Could not add member');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleChangeRole = async (member: ProjectMemberSummary, memberRole: ProjectRole) => {
+    if (!projectId) return;
+    setBusyUserId(member.userId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/members/${member.userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role: memberRole }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data?.error || 'Could not change role');
+      setMembers(data.members || []);
+    } catch (err: any) {
+      setError(err?.message || 'Could not change role');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleRemove = async (member: ProjectMemberSummary) => {
+    if (!projectId) return;
+    const isSelf = member.userId === currentUserId;
+    if (!confirm(isSelf ? 'Leave this project? You will lose access to it.' : `Remove ${member.name} from the project?`)) {
+      return;
+    }
+    setBusyUserId(member.userId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/members/${member.userId}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data?.error || 'Could not remove member');
+      if (isSelf) {
+        onLeft?.();
+        onClose();
+        return;
+      }
+      setMembers(data.members || []);
+    } catch (err: any) {
+      setError(err?.message || 'Could not remove member');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            className="w-full max-w-lg bg-white rounded-2xl shadow-2xl overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+              <div className="flex items-center gap-2 min-w-0">
+                <Users className="w-5 h-5 text-purple-500" />
+                <h3 className="text-lg font-semibold text-gray-900 truncate">
+                  People{projectTitle ? ` - ${projectTitle}` : ''}
+                </h3>
+              </div>
+              <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg">
+                <X className="w-4 h-4 text-gray-500" />
+              </button>
+            </div>
+
+            <div className="p-5 space-y-3 max-h-[420px] overflow-y-auto">
+              {isLoading && (
+                <div className="flex items-center gap-2 text-gray-600 text-sm">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Loading people...
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-600 text-sm rounded-lg p-3">{error}</div>
+              )}
+
+              {members.map((member) => {
+                const isBusy = busyUserId === member.userId;
+                const isSelf = member.userId === currentUserId;
+                return (
+                  <div key={member.userId} className="p-3 rounded-xl border border-gray-200 flex items-center gap-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-1.5 font-medium text-gray-900 truncate">
+                        {member.isOwner && <Crown className="w-3.5 h-3.5 text-yellow-500 flex-shrink-0" />}
+                        {member.name}
+                        {isSelf && <span className="text-xs font-normal text-gray-500">(you)</span>}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">{member.email}</div>
+                    </div>
+
+                    {isBusy && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+                    {canManage && !member.isOwner ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleChangeRole(member, e.target.value as ProjectRole)}
+                        disabled={isBusy}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-lg text-gray-900 bg-white"
+                        title={ROLE_DESCRIPTIONS[member.role]}
+                      >
+                        {PROJECT_ROLES.map((option) => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span
+                        className="text-xs px-2 py-1 rounded-full bg-purple-100 text-purple-700 capitalize"
+                        title={ROLE_DESCRIPTIONS[member.role]}
+                      >
+                        {member.role}
+                      </span>
+                    )}
+                    {!member.isOwner && (canManage || isSelf) && (
+                      <button
+                        onClick={() => handleRemove(member)}
+                        disabled={isBusy}
+                        className="p-2 hover:bg-red-100 rounded-lg transition-colors"
+                        title={isSelf ? 'Leave project' : 'Remove from project'}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {canManage && (
+              <form onSubmit={handleAdd} className="px-5 py-4 border-t border-gray-200 bg-gray-50 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="Email of a studio account"
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-900 bg-white focus:outline-none focus:border-purple-400"
+                  />
+                  <select
+                    value={newRole}
+                    onChange={(e) => setNewRole(e.target.value as ProjectRole)}
+                    className="px-2 py-2 text-sm border border-gray-300 rounded-lg text-gray-900 bg-white"
+                  >
+                    {PROJECT_ROLES.map((option) => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={isAdding || !email.trim()}
+                    className="flex items-center gap-1.5 px-3 py-2 text-sm bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                    Add
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">{ROLE_DESCRIPTIONS[newRole]}.</p>
+              </form>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
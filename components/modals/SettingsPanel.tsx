@@ -18,20 +18,51 @@ import {
   Download,
   Upload,
   Check,
+  AlertTriangle,
+  Wrench,
 } from 'lucide-react';
 import { ThemeMode, getStoredThemeMode, saveThemeMode, resolveTheme, applyTheme } from '@/lib/utils/theme';
-import { getAutoSaveConfig, saveAutoSaveConfig, AutoSaveConfig, getBackups, clearAutoSaveData } from '@/lib/utils/auto-save';
+import {
+  getAutoSaveConfig,
+  saveAutoSaveConfig,
+  AutoSaveConfig,
+  AutoSaveBackup,
+  QuarantinedBackup,
+  SavedProject,
+  getBackups,
+  getQuarantinedBackups,
+  deleteQuarantinedBackup,
+  restoreFromBackup,
+  clearAutoSaveData,
+  getAutoSaveStorageUsage,
+} from '@/lib/utils/auto-save';
+import type { StorageUsage } from '@/lib/utils/project-storage';
 
 interface SettingsPanelProps {
   isOpen: boolean;
   onClose: () => void;
   onOpenKeyboardShortcuts: () => void;
+  onRestoreProject?: (project: SavedProject) => void;
+}
+
+// Reading backups quarantines the ones that can't be recovered, so list both together
+async function loadLocalSaves() {
+  const backups = await getBackups();
+  const quarantined = await getQuarantinedBackups();
+  return { backups, quarantined, usage: await getAutoSaveStorageUsage() };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
 }
 
 export default function SettingsPanel({
   isOpen,
   onClose,
   onOpenKeyboardShortcuts,
+  onRestoreProject,
 }: SettingsPanelProps) {
   const [activeTab, setActiveTab] = useState<'general' | 'editor' | 'audio' | 'data'>('general');
   const [themeMode, setThemeMode] = useState<ThemeMode>('dark');
@@ -46,6 +77,17 @@ export default function SettingsPanel({
   const [gridSize, setGridSize] = useState(10);
   const [masterVolume, setMasterVolume] = useState(80);
   const [showConfirmClear, setShowConfirmClear] = useState(false);
+  const [backups, setBackups] = useState<AutoSaveBackup[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantinedBackup[]>([]);
+  const [expandedBackup, setExpandedBackup] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+
+  const refreshBackups = async () => {
+    const saves = await loadLocalSaves();
+    setBackups(saves.backups);
+    setQuarantined(saves.quarantined);
+    setStorageUsage(saves.usage);
+  };
 
   useEffect(() => {
     setThemeMode(getStoredThemeMode());
@@ -58,6 +100,13 @@ export default function SettingsPanel({
       setGridSize(parseInt(localStorage.getItem('cartoon-studio-grid-size') || '10', 10));
       setMasterVolume(parseInt(localStorage.getItem('cartoon-studio-master-volume') || '80', 10));
     }
+    if (isOpen) {
+      loadLocalSaves().then((saves) => {
+        setBackups(saves.backups);
+        setQuarantined(saves.quarantined);
+        setStorageUsage(saves.usage);
+      });
+    }
   }, [isOpen]);
 
   const handleThemeChange = (mode: ThemeMode) => {
@@ -91,12 +140,22 @@ export default function SettingsPanel({
     }
   };
 
-  const handleClearData = () => {
-    clearAutoSaveData();
+  const handleClearData = async () => {
+    await clearAutoSaveData();
     setShowConfirmClear(false);
+    await refreshBackups();
+  };
+
+  const handleRestoreBackup = async (key: string) => {
+    const project = await restoreFromBackup(key);
+    await refreshBackups();
+    if (project) onRestoreProject?.(project);
   };
 
-  const backups = getBackups();
+  const handleDeleteQuarantined = async (key: string) => {
+    await deleteQuarantinedBackup(key);
+    await refreshBackups();
+  };
 
   if (!isOpen) return null;
 
@@ -367,6 +426,28 @@ export default function SettingsPanel({
                       <Save className="w-4 h-4" />
                       Local Backups
                     </h3>
+                    {storageUsage && (
+                      <div className="mb-3 p-3 bg-gray-800 rounded-xl">
+                        <div className="flex items-center justify-between text-xs text-gray-400 mb-2">
+                          <span>
+                            {storageUsage.backend === 'indexeddb' ? 'IndexedDB' : 'localStorage'}
+                            {storageUsage.assetCount > 0 && ` • ${storageUsage.assetCount} stored images`}
+                          </span>
+                          <span className="font-mono">
+                            {formatBytes(storageUsage.used)}
+                            {storageUsage.quota !== null && ` of ${formatBytes(storageUsage.quota)}`}
+                          </span>
+                        </div>
+                        {storageUsage.quota !== null && (
+                          <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full ${storageUsage.used / storageUsage.quota > 0.8 ? 'bg-red-500' : 'bg-purple-500'}`}
+                              style={{ width: `${Math.min(100, (storageUsage.used / storageUsage.quota) * 100)}%` }}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
                     <div className="space-y-2">
                       {backups.length === 0 ? (
                         <div className="p-4 bg-gray-800 rounded-xl text-center">
@@ -374,22 +455,71 @@ export default function SettingsPanel({
                         </div>
                       ) : (
                         backups.slice(0, 5).map((backup) => (
-                          <div
-                            key={backup.key}
-                            className="p-3 bg-gray-800 rounded-xl flex items-center justify-between"
-                          >
-                            <div>
-                              <div className="text-white text-sm">{backup.project.title}</div>
-                              <div className="text-gray-500 text-xs">
-                                {new Date(backup.timestamp).toLocaleString()}
+                          <div key={backup.key} className="p-3 bg-gray-800 rounded-xl">
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <div className="text-white text-sm">{backup.project.title}</div>
+                                <div className="text-gray-500 text-xs">
+                                  {new Date(backup.timestamp).toLocaleString()} • {backup.project.scenes.length} scenes
+                                </div>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                {backup.fixes.length > 0 ? (
+                                  <button
+                                    onClick={() => setExpandedBackup(expandedBackup === backup.key ? null : backup.key)}
+                                    className="flex items-center gap-1 px-2 py-1 bg-amber-500/20 text-amber-300 rounded-lg text-xs"
+                                    title="Show what was fixed"
+                                  >
+                                    <Wrench className="w-3 h-3" />
+                                    {backup.fixes.length} fixed
+                                  </button>
+                                ) : (
+                                  <span className="flex items-center gap-1 px-2 py-1 bg-green-500/20 text-green-300 rounded-lg text-xs">
+                                    <Check className="w-3 h-3" />
+                                    Restorable
+                                  </span>
+                                )}
+                                <button
+                                  onClick={() => handleRestoreBackup(backup.key)}
+                                  disabled={!onRestoreProject}
+                                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg text-xs text-gray-300 disabled:opacity-50"
+                                >
+                                  Restore
+                                </button>
                               </div>
                             </div>
-                            <button className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg text-xs text-gray-300">
-                              Restore
-                            </button>
+                            {expandedBackup === backup.key && (
+                              <ul className="mt-2 pl-4 list-disc text-xs text-amber-200/80 space-y-0.5">
+                                {backup.fixes.map((fix, index) => (
+                                  <li key={index}>{fix}</li>
+                                ))}
+                              </ul>
+                            )}
                           </div>
                         ))
                       )}
+                      {quarantined.map((entry) => (
+                        <div
+                          key={entry.key}
+                          className="p-3 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start justify-between gap-3"
+                        >
+                          <div>
+                            <div className="text-red-300 text-sm flex items-center gap-1">
+                              <AlertTriangle className="w-3 h-3" />
+                              Not restorable
+                            </div>
+                            <div className="text-gray-500 text-xs">
+                              {new Date(entry.timestamp).toLocaleString()} • {entry.reasons.join('; ') || 'Unreadable data'}
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => handleDeleteQuarantined(entry.key)}
+                            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg text-xs text-gray-300"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      ))}
                     </div>
                   </div>
 
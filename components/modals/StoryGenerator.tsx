@@ -1,10 +1,12 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { X, Check, Loader2, ChevronRight, ChevronLeft, Play } from "lucide-react";
+import { X, Check, Loader2, ChevronRight, ChevronLeft, Play, Square } from "lucide-react";
 import { STORY_PROMPTS } from "@/lib/ai/ai-story-generator";
-import type { AIStoryResponse } from "@/lib/ai/ai-types";
+import type { AIGeneratedScene, AIStoryResponse, AIStoryStreamEvent } from "@/lib/ai/ai-types";
+import type { AIProviderStatus } from "@/lib/ai/ai-providers";
+import { getCharacterRegistry } from "@/lib/utils/character-registry";
 
 // Types
 interface StoryScene {
@@ -29,6 +31,8 @@ interface GeneratedStory {
 
 interface StoryGeneratorProps {
   onStoryGenerated: (story: GeneratedStory) => void;
+  // Called for each scene as it streams in; index 0 starts a new story
+  onSceneStreamed?: (scene: StoryScene, index: number, title: string) => void;
   onClose: () => void;
 }
 
@@ -43,14 +47,14 @@ const STORY_TYPES = [
 ];
 
 // Characters - with avatars only
-const CHARACTERS = [
-  { id: 'Kiara', name: 'Kiara', avatar: '👧🏽', desc: 'Musical' },
-  { id: 'Jayden', name: 'Jayden', avatar: '👦🏻', desc: 'Sporty' },
-  { id: 'Luna', name: 'Luna', avatar: '👧🏼', desc: 'Brave' },
-  { id: 'Max', name: 'Max', avatar: '👦🏾', desc: 'Kind' },
-  { id: 'Whiskers', name: 'Whiskers', avatar: '🐱', desc: 'Playful' },
-  { id: 'Buddy', name: 'Buddy', avatar: '🐕', desc: 'Loyal' },
-];
+const CHARACTERS = getCharacterRegistry().getCast().map((character) => ({
+  id: character.id,
+  name: character.name,
+  avatar: character.avatar,
+  desc: character.tagline,
+}));
+
+const getCharacterName = (id: string) => CHARACTERS.find((char) => char.id === id)?.name ?? id;
 
 // Backgrounds - minimal
 const BACKGROUNDS = [
@@ -388,10 +392,70 @@ function generateStory(
   };
 }
 
-export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGeneratorProps) {
+// Summary of the healthy story providers from /api/ai-status
+function getAIProviderHint(providers: AIProviderStatus[] = []): string {
+  const healthy = providers.filter((p) => p.healthy && p.capabilities.includes("text"));
+  if (healthy.length > 0) {
+    return healthy.map((p) => p.name).join(" + ");
+  }
+  return providers.some((p) => p.configured && p.capabilities.includes("text"))
+    ? "Unreachable (using smart templates)"
+    : "Not configured (using smart templates)";
+}
+
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+function toStoryScene(scene: AIGeneratedScene): StoryScene {
+  return {
+    title: scene.title,
+    description: scene.title,
+    narration: scene.narration,
+    background: scene.background,
+    characters: scene.characters.map((char) => ({
+      name: getCharacterRegistry().get(char.name)?.name ?? capitalize(char.name),
+      position: char.position,
+      expression: char.expression,
+      action: char.action,
+    })),
+    dialogue: scene.dialogue?.map((line) => ({
+      speaker: getCharacterRegistry().get(line.speaker)?.name ?? capitalize(line.speaker),
+      text: line.text,
+    })),
+    duration: scene.duration,
+  };
+}
+
+// Read the NDJSON event stream from /api/generate-story, one event per line
+async function readStoryStream(response: Response, onEvent: (event: AIStoryStreamEvent) => void) {
+  if (!response.body) throw new Error("Story stream unavailable");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (line: string) => {
+    if (line.trim()) onEvent(JSON.parse(line) as AIStoryStreamEvent);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      flush(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+    }
+  }
+  flush(buffer + decoder.decode());
+}
+
+export default function StoryGenerator({ onStoryGenerated, onSceneStreamed, onClose }: StoryGeneratorProps) {
   const [step, setStep] = useState(1);
   const [storyType, setStoryType] = useState("adventure");
-  const [selectedCharacters, setSelectedCharacters] = useState<string[]>(["Luna", "Max"]);
+  const [selectedCharacters, setSelectedCharacters] = useState<string[]>(["luna", "max"]);
   const [sceneCount, setSceneCount] = useState(4);
   const [customPrompt, setCustomPrompt] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
@@ -401,7 +465,7 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
   const [aiProviderHint, setAiProviderHint] = useState<string>("");
   const [aiError, setAiError] = useState<string | null>(null);
   const [lastAIProvider, setLastAIProvider] = useState<string | null>(null);
-  const [aiStatusDetail, setAiStatusDetail] = useState<{ gemini: boolean; openai: boolean } | null>(null);
+  const [aiStatusDetail, setAiStatusDetail] = useState<AIProviderStatus[] | null>(null);
   const [isTestingAI, setIsTestingAI] = useState(false);
   const [characterArt, setCharacterArt] = useState<Record<string, string>>({});
   const [artLoadingId, setArtLoadingId] = useState<string | null>(null);
@@ -411,6 +475,10 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
   const [aiCastSummary, setAiCastSummary] = useState<string | null>(null);
   const [aiCastMap, setAiCastMap] = useState<Record<string, { name: string; description: string }>>({});
   const [generationProgress, setGenerationProgress] = useState<string>("");
+  const generationAbortRef = useRef<AbortController | null>(null);
+
+  // Stop any in-flight stream when the modal closes
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
 
   // Check backend AI status (env-configured providers)
   useEffect(() => {
@@ -420,21 +488,9 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
         if (!res.ok) throw new Error("Status request failed");
         const data = await res.json();
 
-        setAiStatusDetail({ gemini: !!data.gemini, openai: !!data.openai });
-
-        if (data.any) {
-          setAiAvailable(true);
-          if (data.gemini && data.openai) {
-            setAiProviderHint("Gemini + OpenAI");
-          } else if (data.gemini) {
-            setAiProviderHint("Gemini");
-          } else if (data.openai) {
-            setAiProviderHint("OpenAI");
-          }
-        } else {
-          setAiAvailable(false);
-          setAiProviderHint("Not configured (using smart templates)");
-        }
+        setAiStatusDetail(data.providers);
+        setAiAvailable(!!data.any);
+        setAiProviderHint(getAIProviderHint(data.providers));
       } catch {
         setAiAvailable(false);
         setAiProviderHint("Status unknown (falling back to templates if needed)");
@@ -576,25 +632,13 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
     setAiError(null);
 
     try {
-      const res = await fetch("/api/ai-status");
+      const res = await fetch("/api/ai-status?refresh=1");
       if (!res.ok) throw new Error("Status request failed");
       const data = await res.json();
 
-      setAiStatusDetail({ gemini: !!data.gemini, openai: !!data.openai });
-
-      if (data.any) {
-        setAiAvailable(true);
-        if (data.gemini && data.openai) {
-          setAiProviderHint("Gemini + OpenAI");
-        } else if (data.gemini) {
-          setAiProviderHint("Gemini");
-        } else if (data.openai) {
-          setAiProviderHint("OpenAI");
-        }
-      } else {
-        setAiAvailable(false);
-        setAiProviderHint("Not configured (using smart templates)");
-      }
+      setAiStatusDetail(data.providers);
+      setAiAvailable(!!data.any);
+      setAiProviderHint(getAIProviderHint(data.providers));
     } catch (error) {
       console.error("AI status check failed:", error);
       setAiAvailable(false);
@@ -634,10 +678,31 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
       return undefined;
     })();
 
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    const received: StoryScene[] = [];
+    const result: { title: string; provider: string | null; story: AIStoryResponse | null } = {
+      title: "",
+      provider: null,
+      story: null,
+    };
+    const buildStory = (scenes: StoryScene[]): GeneratedStory => ({
+      title: result.title || "Untitled Story",
+      theme: storyType,
+      scenes,
+      castLabels,
+      castDescriptions,
+      provider: result.provider || 'ai',
+      coverImage,
+    });
+
+    setGeneratedStory(null);
+    setStep(4);
+
     try {
       setGenerationProgress("Connecting to AI...");
       
-      // Always use AI generation
+      // Always use AI generation; scenes stream in as they are written
       const response = await fetch("/api/generate-story", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -645,78 +710,90 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
           prompt:
             customPrompt ||
             STORY_PROMPTS[selectedPromptIndex] ||
-            `A ${storyType} story featuring ${selectedCharacters.join(' and ')}`,
-            genre: storyType,
-            characters: selectedCharacters.map((c) => c.toLowerCase()),
-            sceneCount,
-            targetAudience: "child",
-          }),
-        });
-
-        setGenerationProgress("Generating story with AI...");
-
-        if (!response.ok) {
-          let message = "AI request failed";
-          try {
-            const errJson = await response.json();
-            if (errJson?.error) message = errJson.error;
-          } catch {
-            // ignore JSON parse errors
-          }
-          throw new Error(message);
+            `A ${storyType} story featuring ${selectedCharacters.map(getCharacterName).join(' and ')}`,
+          genre: storyType,
+          characters: selectedCharacters,
+          sceneCount,
+          targetAudience: "child",
+          stream: true,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        let message = "AI request failed";
+        try {
+          const errJson = await response.json();
+          if (errJson?.error) message = errJson.error;
+        } catch {
+          // ignore JSON parse errors
         }
+        throw new Error(message);
+      }
+
+      setGenerationProgress("Writing your story...");
 
-        const aiStory: AIStoryResponse = await response.json();
-
-        setGenerationProgress("Processing your story...");
-
-        if (aiStory.success && aiStory.scenes?.length > 0) {
-          const story: GeneratedStory = {
-            title: aiStory.title,
-            theme: storyType,
-            scenes: aiStory.scenes.map((scene) => ({
-              title: scene.title,
-              description: scene.title,
-              narration: scene.narration,
-              background: scene.background,
-              characters: scene.characters.map((char) => ({
-                name:
-                  char.name.charAt(0).toUpperCase() + char.name.slice(1),
-                position: char.position,
-                expression: char.expression,
-                action: char.action,
-              })),
-              dialogue: scene.dialogue?.map((line) => ({
-                speaker:
-                  line.speaker.charAt(0).toUpperCase() + line.speaker.slice(1),
-                text: line.text,
-              })),
-              duration: scene.duration,
-            })),
-            castLabels,
-            castDescriptions,
-            provider: aiStory.provider || 'ai',
-            coverImage,
-          };
-
-          setGeneratedStory(story);
-          setLastAIProvider(aiStory.provider || null);
-          setAiError(null);
-          setGenerationProgress("");
-          console.log(`✨ Story generated with ${aiStory.provider}`);
-        } else {
-          throw new Error(aiStory.error || "AI generation failed - please try again");
+      await readStoryStream(response, (event) => {
+        switch (event.type) {
+          case 'start':
+            result.provider = event.provider;
+            break;
+          case 'title':
+            result.title = event.title;
+            break;
+          case 'scene': {
+            if (event.index < received.length) break;
+            const scene = toStoryScene(event.scene);
+            received.push(scene);
+            onSceneStreamed?.(scene, event.index, result.title);
+            setGeneratedStory(buildStory([...received]));
+            setGenerationProgress(`Scene ${received.length} of ${sceneCount} ready...`);
+            break;
+          }
+          case 'done':
+            result.story = event.story;
+            break;
+          case 'error':
+            throw new Error(event.error);
         }
+      });
+
+      const aiStory = result.story;
+      if (received.length > 0) {
+        setGeneratedStory(buildStory(received));
+        setLastAIProvider(aiStory?.provider || result.provider);
+        setAiError(aiStory?.error || (aiStory ? null : "Story stream ended early"));
+        setGenerationProgress("");
+        console.log(`✨ Story generated with ${aiStory?.provider || result.provider}`);
+      } else {
+        throw new Error(aiStory?.error || "AI generation failed - please try again");
+      }
     } catch (error) {
-      console.error("Story generation failed:", error);
-      const errorMessage = error instanceof Error ? error.message : "Failed to generate story";
-      setAiError(errorMessage);
-      setGenerationProgress("");
-      // Don't fall back to templates - let user retry or adjust their prompt
+      if (controller.signal.aborted) {
+        // Cancelled: keep whatever scenes already arrived
+        setGeneratedStory(received.length > 0 ? buildStory(received) : null);
+        setLastAIProvider(result.provider);
+        setAiError(null);
+        setGenerationProgress("");
+        if (received.length === 0) setStep(3);
+      } else {
+        console.error("Story generation failed:", error);
+        const errorMessage = error instanceof Error ? error.message : "Failed to generate story";
+        setGeneratedStory(received.length > 0 ? buildStory(received) : null);
+        setAiError(errorMessage);
+        setGenerationProgress("");
+        // Don't fall back to templates - let user retry or adjust their prompt
+      }
     }
 
+    if (generationAbortRef.current === controller) {
+      generationAbortRef.current = null;
+    }
     setIsGenerating(false);
-    setStep(4);
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
   };
 
   const handleConfirm = () => {
@@ -946,12 +1023,17 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
                     <p className="text-[10px] text-zinc-500">Story idea</p>
                     {aiStatusDetail && (
                       <div className="flex gap-1">
-                        <span className={`text-[9px] px-1.5 py-0.5 rounded ${aiStatusDetail.gemini ? 'bg-emerald-500/20 text-emerald-400' : 'bg-zinc-800 text-zinc-600'}`}>
-                          Gemini
-                        </span>
-                        <span className={`text-[9px] px-1.5 py-0.5 rounded ${aiStatusDetail.openai ? 'bg-emerald-500/20 text-emerald-400' : 'bg-zinc-800 text-zinc-600'}`}>
-                          OpenAI
-                        </span>
+                        {aiStatusDetail.filter((p) => p.capabilities.includes('text')).map((p) => (
+                          <span
+                            key={p.id}
+                            title={p.error || (p.healthy ? `${p.model}${p.latencyMs !== null ? ` · ${p.latencyMs}ms` : ''}` : 'Not configured')}
+                            className={`text-[9px] px-1.5 py-0.5 rounded ${
+                              p.healthy ? 'bg-emerald-500/20 text-emerald-400' : p.configured ? 'bg-amber-500/20 text-amber-400' : 'bg-zinc-800 text-zinc-600'
+                            }`}
+                          >
+                            {p.name}
+                          </span>
+                        ))}
                       </div>
                     )}
                   </div>
@@ -1005,11 +1087,34 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
                 transition={{ duration: 0.15 }}
               >
                 {isGenerating ? (
-                  <div className="flex flex-col items-center justify-center py-8">
-                    <Loader2 className="w-8 h-8 text-violet-400 animate-spin mb-3" />
-                    <p className="text-sm text-white font-medium">Creating story...</p>
-                    <p className="text-[10px] text-zinc-500 mt-1">{generationProgress || "Connecting..."}</p>
-                  </div>
+                  <>
+                    <div className={`flex flex-col items-center justify-center ${generatedStory ? 'py-4' : 'py-8'}`}>
+                      <Loader2 className="w-8 h-8 text-violet-400 animate-spin mb-3" />
+                      <p className="text-sm text-white font-medium">{generatedStory?.title || "Creating story..."}</p>
+                      <p className="text-[10px] text-zinc-500 mt-1">{generationProgress || "Connecting..."}</p>
+                    </div>
+
+                    {generatedStory && (
+                      <div className="space-y-1.5 max-h-[140px] overflow-y-auto">
+                        {generatedStory.scenes.map((scene, index) => (
+                          <motion.div
+                            key={index}
+                            initial={{ opacity: 0, y: 6 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            className="p-2 bg-zinc-900/50 border border-zinc-800 rounded-lg"
+                          >
+                            <div className="flex items-center gap-2">
+                              <span className="w-5 h-5 bg-violet-500 text-white rounded text-[10px] flex items-center justify-center font-medium">
+                                {index + 1}
+                              </span>
+                              <span className="text-[11px] font-medium text-white">{scene.title}</span>
+                            </div>
+                            <p className="text-[9px] text-zinc-500 mt-1 ml-7 line-clamp-1">{scene.narration}</p>
+                          </motion.div>
+                        ))}
+                      </div>
+                    )}
+                  </>
                 ) : aiError && !generatedStory ? (
                   <div className="flex flex-col items-center justify-center py-8">
                     <div className="w-10 h-10 bg-red-500/20 rounded-lg flex items-center justify-center mb-3">
@@ -1031,7 +1136,11 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
                     <div className="flex items-center justify-between mb-3">
                       <div>
                         <p className="text-sm font-medium text-white">{generatedStory.title}</p>
-                        <p className="text-[10px] text-zinc-500">{generatedStory.scenes.length} scenes • {generatedStory.theme}</p>
+                        <p className="text-[10px] text-zinc-500">
+                          {generatedStory.scenes.length < sceneCount
+                            ? `${generatedStory.scenes.length} of ${sceneCount} scenes`
+                            : `${generatedStory.scenes.length} scenes`} • {generatedStory.theme}
+                        </p>
                       </div>
                       <div className="flex gap-1">
                         <button onClick={handleGenerate} className="px-2 py-1 text-[9px] bg-zinc-800 text-zinc-300 rounded hover:bg-zinc-700">
@@ -1043,6 +1152,10 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
                       </div>
                     </div>
 
+                    {aiError && (
+                      <p className="text-[10px] text-amber-400 mb-2">{aiError}</p>
+                    )}
+
                     <div className="space-y-1.5 max-h-[180px] overflow-y-auto">
                       {generatedStory.scenes.map((scene, index) => (
                         <div key={index} className="p-2 bg-zinc-900/50 border border-zinc-800 rounded-lg">
@@ -1067,7 +1180,8 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
         <div className="border-t border-zinc-800 px-4 py-3 flex justify-between">
           <button
             onClick={() => step === 1 ? onClose() : setStep(step - 1)}
-            className="px-3 py-1.5 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 rounded transition-colors flex items-center gap-1"
+            disabled={step === 4 && isGenerating}
+            className="px-3 py-1.5 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 rounded transition-colors flex items-center gap-1 disabled:opacity-50"
           >
             <ChevronLeft className="w-3 h-3" />
             {step === 1 ? 'Cancel' : 'Back'}
@@ -1102,9 +1216,12 @@ export default function StoryGenerator({ onStoryGenerated, onClose }: StoryGener
           )}
           
           {step === 4 && isGenerating && (
-            <button disabled className="px-4 py-1.5 bg-violet-500/50 text-white text-xs rounded flex items-center gap-1">
-              <Loader2 className="w-3 h-3 animate-spin" />
-              Generating...
+            <button
+              onClick={handleCancelGeneration}
+              className="px-4 py-1.5 bg-zinc-800 text-white text-xs rounded hover:bg-zinc-700 transition-colors flex items-center gap-1"
+            >
+              <Square className="w-3 h-3" />
+              {generatedStory ? `Stop (keep ${generatedStory.scenes.length})` : 'Cancel'}
             </button>
           )}
           
@@ -4,12 +4,12 @@ import React, { useState } from 'react';
 import { useStudioStore } from '@/lib/utils/store';
 import { 
   SCENE_TEMPLATES, 
-  CHARACTER_SPRITES, 
   createSceneFromTemplate,
   createCharacterFromSprite,
   type SceneTemplate,
   type CharacterSprite,
 } from '@/lib/utils/sprites';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
 import {
   Layout,
   Users,
@@ -64,9 +64,10 @@ export default function TemplateGallery({ isOpen, onClose }: TemplateGalleryProp
     ? SCENE_TEMPLATES 
     : SCENE_TEMPLATES.filter(t => t.category === templateCategory);
 
+  const sprites = getCharacterRegistry().getSprites();
   const filteredSprites = spriteCategory === 'all'
-    ? CHARACTER_SPRITES
-    : CHARACTER_SPRITES.filter(s => s.category === spriteCategory);
+    ? sprites
+    : sprites.filter(s => s.category === spriteCategory);
 
   const handleAddTemplate = (template: SceneTemplate) => {
     const scene = createSceneFromTemplate(template);
@@ -1,13 +1,21 @@
 'use client';
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Download, Loader2, Film, Check, X, Settings, AlertTriangle, Info } from 'lucide-react';
+import { Download, Loader2, Film, Check, X, Settings, AlertTriangle, Info, Subtitles } from 'lucide-react';
+import { VideoExportEngine, type SceneRenderData } from '@/lib/export/video-export-engine';
+import { generateCaptions, type CaptionFormat } from '@/lib/export/captions';
+import { prepareSpeechCues, type SpeechCue } from '@/lib/export/export-audio';
+import type { AudioSettings } from '@/lib/audio/audio-manager';
 
 interface VideoExporterProps {
   onExport: (options: ExportOptions) => Promise<Blob | null>;
   onClose: () => void;
   totalDuration: number;
   sceneCount: number;
+  // Scenes to build caption files from
+  scenes?: SceneRenderData[];
+  // Soundtrack settings the export uses, so caption files follow the same narration
+  audioSettings?: Partial<AudioSettings>;
 }
 
 interface ExportOptions {
@@ -18,6 +26,8 @@ interface ExportOptions {
   height: number;
   includeAudio: boolean;
   aspectRatio?: '16:9' | '9:16' | '1:1';
+  mode?: 'realtime' | 'frame-accurate';
+  burnInCaptions?: boolean;
 }
 
 const QUALITY_PRESETS = {
@@ -39,13 +49,15 @@ function checkCodecSupport() {
   };
 }
 
-export default function VideoExporter({ onExport, onClose, totalDuration, sceneCount }: VideoExporterProps) {
+export default function VideoExporter({ onExport, onClose, totalDuration, sceneCount, scenes = [], audioSettings }: VideoExporterProps) {
   const [isExporting, setIsExporting] = useState(false);
   const [progress, setProgress] = useState(0);
   const [exportComplete, setExportComplete] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [codecSupport, setCodecSupport] = useState<{ webm: boolean; mp4: boolean; bestFormat: string } | null>(null);
+  const [frameAccurateSupported, setFrameAccurateSupported] = useState(false);
+  const [isPreparingCaptions, setIsPreparingCaptions] = useState(false);
   
   const [options, setOptions] = useState<ExportOptions>({
     format: 'webm',
@@ -67,6 +79,11 @@ export default function VideoExporter({ onExport, onClose, totalDuration, sceneC
         setOptions(prev => ({ ...prev, format: 'webm' }));
       }
     }
+    // Prefer frame-accurate rendering whenever WebCodecs is available
+    if (typeof window !== 'undefined' && VideoExportEngine.supportsFrameAccurate()) {
+      setFrameAccurateSupported(true);
+      setOptions(prev => ({ ...prev, mode: 'frame-accurate' }));
+    }
   }, []);
 
   const handleQualityChange = (quality: 'low' | 'medium' | 'high') => {
@@ -127,6 +144,31 @@ export default function VideoExporter({ onExport, onClose, totalDuration, sceneC
     }
   };
 
+  const handleDownloadCaptions = async (format: CaptionFormat) => {
+    // Time lines from the soundtrack the export would have; videos without audio keep the estimate
+    let speech: Record<string, SpeechCue[]> | undefined;
+    if (options.includeAudio && options.format !== 'gif' && typeof OfflineAudioContext !== 'undefined') {
+      setIsPreparingCaptions(true);
+      try {
+        speech = await prepareSpeechCues(scenes, audioSettings);
+      } catch (err) {
+        console.warn('Could not time captions from the soundtrack:', err);
+      } finally {
+        setIsPreparingCaptions(false);
+      }
+    }
+
+    const captions = generateCaptions(scenes, format, { fps: options.fps, speech });
+    const url = URL.createObjectURL(new Blob([captions], { type: format === 'vtt' ? 'text/vtt' : 'application/x-subrip' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `cartoon-animation.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const formatDuration = (ms: number) => {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
@@ -332,6 +374,55 @@ export default function VideoExporter({ onExport, onClose, totalDuration, sceneC
                   </span>
                 </label>
               </div>
+
+              {/* Captions */}
+              <div className="mb-6">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!options.burnInCaptions}
+                    onChange={(e) => setOptions(prev => ({ ...prev, burnInCaptions: e.target.checked }))}
+                    className="w-5 h-5 rounded border-white/20 bg-white/10 text-indigo-500 focus:ring-indigo-500"
+                  />
+                  <span className="text-sm font-medium text-zinc-300">Burn captions into the video</span>
+                </label>
+                <div className="mt-3 ml-8 flex items-center gap-2">
+                  <Subtitles className="w-4 h-4 text-zinc-500" />
+                  <span className="text-xs text-zinc-500 mr-1">Caption file:</span>
+                  {(['srt', 'vtt'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handleDownloadCaptions(format)}
+                      disabled={scenes.length === 0 || isPreparingCaptions}
+                      className="px-3 py-1 text-xs font-medium text-zinc-300 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      .{format}
+                    </button>
+                  ))}
+                  {isPreparingCaptions && <Loader2 className="w-4 h-4 text-zinc-500 animate-spin" />}
+                </div>
+              </div>
+
+              {/* Render Mode */}
+              {options.format !== 'gif' && (
+                <div className="mb-6">
+                  <label className={`flex items-center gap-3 ${frameAccurateSupported ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                    <input
+                      type="checkbox"
+                      checked={options.mode === 'frame-accurate'}
+                      onChange={(e) => setOptions(prev => ({ ...prev, mode: e.target.checked ? 'frame-accurate' : 'realtime' }))}
+                      disabled={!frameAccurateSupported}
+                      className="w-5 h-5 rounded border-white/20 bg-white/10 text-indigo-500 focus:ring-indigo-500 disabled:opacity-50"
+                    />
+                    <span className="text-sm font-medium text-zinc-300">
+                      Frame-accurate rendering {!frameAccurateSupported && '(not supported in this browser)'}
+                    </span>
+                  </label>
+                  <p className="mt-1 ml-8 text-xs text-zinc-500">
+                    Renders every frame at its exact time, so busy tabs never drop frames or drift audio. Usually faster than real time.
+                  </p>
+                </div>
+              )}
             </>
           )}
 
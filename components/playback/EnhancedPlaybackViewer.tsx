@@ -26,6 +26,7 @@ import {
 } from 'lucide-react';
 import RiggedCharacter from '../shared/RiggedCharacter';
 import { getCharacterRig } from '@/lib/utils/sprite-system';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
 import { EditableScene, EditableCharacter } from '../editors/InteractiveSceneEditor';
 import { getAudioController, createNarrationDialogue, DialoguePlayer } from '@/lib/audio/audio-system';
 import { MouthShape } from '@/lib/animation/keyframe-animation';
@@ -472,9 +473,10 @@ export default function EnhancedPlaybackViewer({
                   text: line.text,
                   emotion: 'neutral' as const,
                   delay: index === 0 ? 200 : 100,
+                  voice: getCharacterRegistry().getVoice(targetChar.rigId),
                 };
               })
-              .filter((l): l is { characterId: string; text: string; emotion: 'neutral'; delay: number } => !!l);
+              .filter((l): l is NonNullable<typeof l> => !!l);
 
             if (lines.length > 0) {
               if (!dialoguePlayerRef.current) {
@@ -1003,6 +1005,8 @@ export default function EnhancedPlaybackViewer({
                     label={label}
                     showExplorerGear={char.outfitExplorer}
                     showBallProp={char.propBall}
+                    pinFeet={char.pinFeet}
+                    mouthShape={isTalking ? characterMouthShapes[char.id] : undefined}
                     customColors={char.customColors}
                     customAccessories={char.customAccessories}
                   />
@@ -16,7 +16,7 @@ import {
   ChevronRight
 } from 'lucide-react';
 import AnimatedCharacterComponent from '../shared/AnimatedCharacter';
-import { getCharacterById } from '@/lib/utils/characters';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
 import { AnimationScene } from '@/lib/animation/animation-engine';
 
 interface PlaybackViewerProps {
@@ -350,7 +350,7 @@ export default function PlaybackViewer({
           >
             <div className="flex items-end gap-16">
               {currentScene.characters.map((char, idx) => {
-                const charData = getCharacterById(char.characterId);
+                const charData = getCharacterRegistry().getAnimatedCharacter(char.characterId);
                 if (!charData) return null;
                 
                 const position = char.position || (idx === 0 ? -100 : 100);
@@ -2,10 +2,10 @@
 
 import React, { useRef, useEffect, useCallback, useState } from 'react';
 import { useStudioStore } from '@/lib/utils/store';
-import { CHARACTER_TEMPLATES, BACKGROUND_TEMPLATES, EXPRESSION_CONFIGS, SVG_BACKGROUNDS } from '@/lib/utils/templates';
-import { CHARACTER_SPRITES } from '@/lib/utils/sprites';
+import { BACKGROUND_TEMPLATES, EXPRESSION_CONFIGS, SVG_BACKGROUNDS } from '@/lib/utils/templates';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
 import { isSpriteCharacter, getSpriteForCharacter, renderSpriteToCanvas } from '@/components/shared/SpriteRenderer';
-import type { CharacterInstance, Expression, Scene } from '@/lib/utils/types';
+import type { CharacterInstance, CharacterTemplate, Expression, Scene } from '@/lib/utils/types';
 
 interface AnimationCanvasProps {
   scene: Scene;
@@ -20,7 +20,7 @@ interface AnimationCanvasProps {
 function drawCharacter(
   ctx: CanvasRenderingContext2D,
   character: CharacterInstance,
-  template: typeof CHARACTER_TEMPLATES[0],
+  template: CharacterTemplate,
   canvasWidth: number,
   canvasHeight: number,
   time: number,
@@ -638,7 +638,7 @@ export default function AnimationCanvas({
           }
         } else {
           // Regular template-based character
-          const template = CHARACTER_TEMPLATES.find((t) => t.id === character.templateId);
+          const template = getCharacterRegistry().getTemplate(character.templateId);
           if (template) {
             drawCharacter(
               ctx,
@@ -3,7 +3,7 @@
 import React, { useRef, useEffect, useState } from 'react';
 import gsap from 'gsap';
 import AnimatedCharacterComponent from '../shared/AnimatedCharacter';
-import { ANIMATED_CHARACTERS, getCharacterById } from '@/lib/utils/characters';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
 import { BACKGROUND_TEMPLATES } from '@/lib/utils/templates';
 import { Play, Pause, RotateCcw, Volume2, VolumeX } from 'lucide-react';
 
@@ -208,7 +208,7 @@ export default function AnimationStage({
         {/* Characters */}
         <div className="absolute inset-0">
           {characters.map((char) => {
-            const characterData = getCharacterById(char.characterId);
+            const characterData = getCharacterRegistry().getAnimatedCharacter(char.characterId);
             if (!characterData) return null;
 
             // Convert percentage to pixels
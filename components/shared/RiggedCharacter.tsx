@@ -9,6 +9,8 @@ import {
   updateAnimationState,
   getAnimationForAction 
 } from '@/lib/animation/keyframe-animation';
+import { applyCustomColors, getBrowOffset, getEyeModifier, getMouthPath } from '@/lib/animation/rig-rasterizer';
+import { IKTarget, applyIK } from '@/lib/animation/inverse-kinematics';
 
 interface CustomCharacterColors {
   primary: string;
@@ -41,6 +43,12 @@ interface RiggedCharacterProps {
   // Custom character creator settings
   customColors?: CustomCharacterColors;
   customAccessories?: CustomCharacterAccessories;
+  // Hand/foot targets in rig space, e.g. from getPropReachTarget
+  ikTargets?: IKTarget[];
+  // Keep feet planted on the ground while the animation plays
+  pinFeet?: boolean;
+  // Mouth shape from lip sync; overrides the animation's mouth while set
+  mouthShape?: MouthShape;
 }
 
 // Render a sprite shape to SVG elements
@@ -104,80 +112,6 @@ function renderShape(shape: SpriteShape, key: string): React.ReactNode {
   }
 }
 
-// Get mouth shape SVG path based on expression and mouth shape
-function getMouthPath(mouthShape: MouthShape, expression: string): string {
-  const mouthPaths: Record<MouthShape, string> = {
-    closed: 'M -8 0 Q 0 2 8 0',
-    open: 'M -8 0 Q 0 8 8 0 Q 0 4 -8 0',
-    wide: 'M -10 0 Q 0 12 10 0 Q 0 6 -10 0',
-    oh: 'M -6 -4 Q -8 0 -6 4 Q 0 6 6 4 Q 8 0 6 -4 Q 0 -6 -6 -4',
-    ee: 'M -10 0 Q 0 3 10 0',
-    smile: 'M -8 0 Q 0 10 8 0',
-  };
-  
-  // Override based on expression
-  if (expression === 'happy') {
-    return mouthPaths.smile;
-  } else if (expression === 'sad') {
-    return 'M -8 4 Q 0 -4 8 4';
-  } else if (expression === 'surprised') {
-    return mouthPaths.oh;
-  } else if (expression === 'angry') {
-    return 'M -8 2 L 0 0 L 8 2';
-  } else if (expression === 'confused') {
-    return 'M -6 1 Q -2 -2 2 2 Q 6 -1 8 1'; // Squiggly confused mouth
-  } else if (expression === 'sleepy') {
-    return 'M -6 1 Q 0 -1 6 1'; // Slightly droopy mouth
-  } else if (expression === 'excited') {
-    return 'M -10 0 Q 0 14 10 0 Q 0 8 -10 0'; // Big excited smile
-  }
-  
-  return mouthPaths[mouthShape] || mouthPaths.closed;
-}
-
-// Get eye modification based on expression
-function getEyeModifier(expression: string): { scaleY: number; offsetY: number; scaleX?: number; rotation?: number } {
-  switch (expression) {
-    case 'happy':
-      return { scaleY: 0.3, offsetY: 2 }; // Squinted happy eyes
-    case 'sad':
-      return { scaleY: 0.7, offsetY: 1 };
-    case 'surprised':
-      return { scaleY: 1.3, offsetY: 0 };
-    case 'angry':
-      return { scaleY: 0.6, offsetY: 0 };
-    case 'confused':
-      return { scaleY: 0.9, offsetY: 0, rotation: 5 }; // Slightly tilted eyes
-    case 'sleepy':
-      return { scaleY: 0.2, offsetY: 2 }; // Almost closed eyes
-    case 'excited':
-      return { scaleY: 1.2, offsetY: -1 }; // Wide excited eyes
-    default:
-      return { scaleY: 1, offsetY: 0 };
-  }
-}
-
-function getBrowOffset(expression: string): number {
-  switch (expression) {
-    case 'happy':
-      return -1.5;
-    case 'sad':
-      return 1.5;
-    case 'surprised':
-      return -3;
-    case 'angry':
-      return 0;
-    case 'confused':
-      return -1; // One brow raised effect
-    case 'sleepy':
-      return 2; // Droopy brows
-    case 'excited':
-      return -2.5; // Raised excited brows
-    default:
-      return 0;
-  }
-}
-
 export default function RiggedCharacter({
   rig,
   animation = 'idle',
@@ -193,6 +127,9 @@ export default function RiggedCharacter({
   showBallProp = false,
   customColors,
   customAccessories,
+  ikTargets,
+  pinFeet = false,
+  mouthShape: spokenMouthShape,
 }: RiggedCharacterProps) {
   const animationRef = useRef<number | null>(null);
   const lastTimeRef = useRef<number>(0);
@@ -236,40 +173,9 @@ export default function RiggedCharacter({
   const isKiara = rigId === 'kiara';
   const isJayden = rigId === 'jayden';
 
-  // Helper to apply custom colors to a shape based on part name
-  const applyCustomColor = (shape: SpriteShape, partId: string): SpriteShape => {
-    if (!customColors) return shape;
-    
-    // Skip group type shapes as they don't have fill
-    if (shape.type === 'group') return shape;
-    
-    // Map part IDs to custom color categories
-    const skinParts = ['head', 'face', 'leftHand', 'rightHand', 'neck'];
-    const hairParts = ['hair', 'hairBack'];
-    const clothingParts = ['body', 'torso', 'chest', 'shirt'];
-    const secondaryParts = ['leftLeg', 'rightLeg', 'pants', 'shorts', 'leftSleeve', 'rightSleeve'];
-    const eyeParts = ['leftPupil', 'rightPupil', 'leftIris', 'rightIris'];
-    
-    let newFill = shape.fill;
-    
-    if (skinParts.some(p => partId.toLowerCase().includes(p.toLowerCase()))) {
-      newFill = customColors.skin;
-    } else if (hairParts.some(p => partId.toLowerCase().includes(p.toLowerCase()))) {
-      newFill = customColors.hair;
-    } else if (eyeParts.some(p => partId.toLowerCase().includes(p.toLowerCase()))) {
-      newFill = customColors.eyes;
-    } else if (clothingParts.some(p => partId.toLowerCase().includes(p.toLowerCase()))) {
-      newFill = customColors.primary;
-    } else if (secondaryParts.some(p => partId.toLowerCase().includes(p.toLowerCase()))) {
-      newFill = customColors.secondary;
-    }
-    
-    return { ...shape, fill: newFill };
-  };
-
   // Render shape with optional custom colors
   const renderShapeWithColors = (shape: SpriteShape, key: string, partId: string): React.ReactNode => {
-    const coloredShape = applyCustomColor(shape, partId);
+    const coloredShape = applyCustomColors(shape, partId, customColors);
     return renderShape(coloredShape, key);
   };
 
@@ -306,9 +212,15 @@ export default function RiggedCharacter({
     };
   }, []);
 
+  // Animated pose with hands and feet moved onto their IK targets
+  const partTransforms = useMemo(
+    () => applyIK(rig, animState.partTransforms, { targets: ikTargets, pinFeet }),
+    [rig, animState.partTransforms, ikTargets, pinFeet]
+  );
+
   // Calculate transform for a part including animation
   const getPartTransform = (part: SpritePart): string => {
-    const animTransform = animState.partTransforms[part.id] || {};
+    const animTransform = partTransforms[part.id] || {};
     const baseTransform = part.defaultTransform;
     
     const pos: Vector2 = {
@@ -334,13 +246,13 @@ export default function RiggedCharacter({
     if (!part) return null;
 
     const transform = getPartTransform(part);
-    const animTransform = animState.partTransforms[part.id] || {};
+    const animTransform = partTransforms[part.id] || {};
     const eyeModifier = getEyeModifier(expression);
     const browOffsetY = getBrowOffset(expression);
 
     // Special handling for mouth
     if (part.id === 'mouth') {
-      const mouthShape = animTransform.mouthShape || 'closed';
+      const mouthShape = spokenMouthShape || animTransform.mouthShape || 'closed';
       const mouthPath = getMouthPath(mouthShape, expression);
 
       return (
@@ -1,7 +1,8 @@
 'use client';
 
 import React from 'react';
-import { CHARACTER_SPRITES, type CharacterSprite } from '@/lib/utils/sprites';
+import type { CharacterSprite } from '@/lib/utils/sprites';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
 import type { CharacterInstance } from '@/lib/utils/types';
 
 interface SpriteRendererProps {
@@ -135,7 +136,7 @@ export function isSpriteCharacter(templateId: string): boolean {
  * Get sprite by template ID
  */
 export function getSpriteForCharacter(templateId: string): CharacterSprite | undefined {
-  return CHARACTER_SPRITES.find(s => s.id === templateId);
+  return getCharacterRegistry().getSprite(templateId);
 }
 
 /**
@@ -1,17 +1,22 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   GitBranch,
   Plus,
   Trash2,
   ArrowRight,
-  Edit3,
-  Check,
+  Flag,
   X,
   Sparkles,
+  AlertTriangle,
+  CheckCircle,
+  Wand2,
+  Loader2,
 } from 'lucide-react';
+import type { BranchingStory, StoryNode } from '@/lib/utils/story-branching';
+import { analyzeBranchingStory } from '@/lib/utils/story-branching-analyzer';
 
 export interface StoryChoice {
   id: string;
@@ -27,19 +32,29 @@ export interface BranchPoint {
   prompt: string;
   choices: StoryChoice[];
   timeToShow: number; // ms from scene start
-  duration: number; // how long choices are visible
+  duration: number; // how long choices are visible; 0 waits for a choice
 }
 
 interface StoryBranchingUIProps {
-  branchPoints: BranchPoint[];
+  story: BranchingStory | null;
   currentSceneId: string;
-  currentTime: number;
-  isPlaying: boolean;
-  onChoiceSelect: (choice: StoryChoice) => void;
-  onBranchPointsChange: (branchPoints: BranchPoint[]) => void;
   scenes: { id: string; title: string }[];
+  onCreateStory: () => void;
+  onStoryChange: (story: BranchingStory | null) => void;
+  // Ask AI for branch points with alternate scenes and endings
+  onGenerateBranches?: (branchCount: number) => void;
+  isGeneratingBranches?: boolean;
 }
 
+type NextMode = 'continue' | 'choices' | 'ending';
+
+const ENDING_TYPES: { id: NonNullable<StoryNode['endingType']>; label: string }[] = [
+  { id: 'good', label: 'Good' },
+  { id: 'neutral', label: 'Neutral' },
+  { id: 'bad', label: 'Bad' },
+  { id: 'secret', label: 'Secret' },
+];
+
 // Playback overlay for showing choices during playback
 export function BranchingChoiceOverlay({
   branchPoint,
@@ -52,14 +67,16 @@ export function BranchingChoiceOverlay({
 }) {
   if (!branchPoint) return null;
 
+  const untimed = branchPoint.duration <= 0;
   const isVisible =
     currentTime >= branchPoint.timeToShow &&
-    currentTime <= branchPoint.timeToShow + branchPoint.duration;
+    (untimed || currentTime <= branchPoint.timeToShow + branchPoint.duration);
 
   if (!isVisible) return null;
 
-  const progress =
-    (currentTime - branchPoint.timeToShow) / branchPoint.duration;
+  const progress = untimed
+    ? 0
+    : (currentTime - branchPoint.timeToShow) / branchPoint.duration;
 
   return (
     <AnimatePresence>
@@ -100,261 +117,390 @@ export function BranchingChoiceOverlay({
         </div>
 
         {/* Timer bar */}
-        <div className="mt-4 mx-auto w-48 h-1 bg-white/20 rounded-full overflow-hidden">
-          <motion.div
-            className="h-full bg-white"
-            initial={{ width: '100%' }}
-            animate={{ width: `${(1 - progress) * 100}%` }}
-            transition={{ duration: 0.1 }}
-          />
-        </div>
+        {!untimed && (
+          <div className="mt-4 mx-auto w-48 h-1 bg-white/20 rounded-full overflow-hidden">
+            <motion.div
+              className="h-full bg-white"
+              initial={{ width: '100%' }}
+              animate={{ width: `${(1 - progress) * 100}%` }}
+              transition={{ duration: 0.1 }}
+            />
+          </div>
+        )}
       </motion.div>
     </AnimatePresence>
   );
 }
 
-// Editor panel for managing branch points
+// -------- Graph editing helpers --------
+
+function findSceneNode(story: BranchingStory, sceneId: string): StoryNode | undefined {
+  return Array.from(story.nodes.values()).find(
+    (node) => node.type === 'scene' && node.sceneId === sceneId
+  );
+}
+
+// Copy the node map, apply the edit, then drop choice/ending nodes nothing points at
+function editStory(
+  story: BranchingStory,
+  edit: (nodes: Map<string, StoryNode>) => void
+): BranchingStory {
+  const nodes = new Map(story.nodes);
+  edit(nodes);
+
+  const referenced = new Set<string>([story.startNodeId]);
+  nodes.forEach((node) => {
+    if (node.nextNodeId) referenced.add(node.nextNodeId);
+    node.choices?.forEach((choice) => referenced.add(choice.targetNodeId));
+  });
+  nodes.forEach((node, id) => {
+    if ((node.type === 'choice' || node.type === 'ending') && !referenced.has(id)) {
+      nodes.delete(id);
+    }
+  });
+
+  return {
+    ...story,
+    nodes,
+    endings: Array.from(nodes.values()).filter((node) => node.type === 'ending').map((node) => node.id),
+    updatedAt: Date.now(),
+  };
+}
+
+// Node id for a scene, adding a scene node when the scene is not in the graph yet
+function ensureSceneNode(nodes: Map<string, StoryNode>, sceneId: string): string {
+  const existing = Array.from(nodes.values()).find(
+    (node) => node.type === 'scene' && node.sceneId === sceneId
+  );
+  if (existing) return existing.id;
+
+  let id = `scene-${sceneId}`;
+  while (nodes.has(id)) id = `${id}-1`;
+  nodes.set(id, { id, type: 'scene', sceneId });
+  return id;
+}
+
+// Choice targets are encoded as "scene:<sceneId>" or "node:<nodeId>"
+function resolveTarget(nodes: Map<string, StoryNode>, value: string): string {
+  return value.startsWith('scene:')
+    ? ensureSceneNode(nodes, value.slice('scene:'.length))
+    : value.slice('node:'.length);
+}
+
+function encodeTarget(story: BranchingStory, nodeId: string): string {
+  const node = story.nodes.get(nodeId);
+  return node?.type === 'scene' && node.sceneId ? `scene:${node.sceneId}` : `node:${nodeId}`;
+}
+
+function describeNode(story: BranchingStory, id: string, sceneTitles: Record<string, string>): string {
+  const node = story.nodes.get(id);
+  if (!node) return id;
+  if (node.type === 'ending') return node.endingTitle || 'Ending';
+  if (node.type === 'choice') return node.prompt || 'Choice';
+  return (node.sceneId && sceneTitles[node.sceneId]) || node.scene?.title || id;
+}
+
+// Editor panel for the branching story graph, one scene at a time
 export default function StoryBranchingUI({
-  branchPoints,
+  story,
   currentSceneId,
-  currentTime,
-  isPlaying,
-  onChoiceSelect,
-  onBranchPointsChange,
   scenes,
+  onCreateStory,
+  onStoryChange,
+  onGenerateBranches,
+  isGeneratingBranches = false,
 }: StoryBranchingUIProps) {
-  const [editingBranchId, setEditingBranchId] = useState<string | null>(null);
-  const [editingChoiceId, setEditingChoiceId] = useState<string | null>(null);
-
-  const currentSceneBranches = branchPoints.filter(
-    (bp) => bp.sceneId === currentSceneId
+  const [branchCount, setBranchCount] = useState(2);
+  const sceneTitles = useMemo(
+    () => Object.fromEntries(scenes.map((scene) => [scene.id, scene.title])),
+    [scenes]
   );
+  const analysis = useMemo(
+    () => (story ? analyzeBranchingStory(story, { sceneTitles }) : null),
+    [story, sceneTitles]
+  );
+
+  if (!story) {
+    return (
+      <div className="space-y-3">
+        <h3 className="text-white font-medium text-sm flex items-center gap-2">
+          <GitBranch className="w-4 h-4 text-purple-400" />
+          Story Branches
+        </h3>
+        <div className="p-4 bg-gray-800 rounded-xl text-center">
+          <GitBranch className="w-8 h-8 text-gray-600 mx-auto mb-2" />
+          <p className="text-gray-400 text-sm">This story plays straight through</p>
+          <p className="text-gray-500 text-xs mt-1">
+            Make it interactive to let viewers choose what happens next
+          </p>
+          <button
+            onClick={onCreateStory}
+            disabled={scenes.length === 0}
+            className="mt-3 px-3 py-1.5 bg-purple-500 hover:bg-purple-600 text-white text-xs rounded-lg inline-flex items-center gap-1 transition-colors disabled:opacity-50"
+          >
+            <Sparkles className="w-3 h-3" />
+            Make Interactive
+          </button>
+          {onGenerateBranches && (
+            <div className="mt-3 pt-3 border-t border-gray-700 flex items-center justify-center gap-2">
+              <select
+                value={branchCount}
+                onChange={(e) => setBranchCount(Number(e.target.value))}
+                disabled={isGeneratingBranches}
+                className="bg-gray-700 px-2 py-1 rounded text-white text-xs"
+                title="Number of choice points"
+              >
+                {[1, 2, 3].map((count) => (
+                  <option key={count} value={count}>
+                    {count} choice{count === 1 ? '' : 's'}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => onGenerateBranches(branchCount)}
+                disabled={scenes.length < 2 || isGeneratingBranches}
+                className="px-3 py-1.5 bg-pink-500 hover:bg-pink-600 text-white text-xs rounded-lg inline-flex items-center gap-1 transition-colors disabled:opacity-50"
+              >
+                {isGeneratingBranches ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
+                {isGeneratingBranches ? 'Writing branches...' : 'Suggest with AI'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
 
-  const addBranchPoint = () => {
-    const newBranch: BranchPoint = {
-      id: `branch-${Date.now()}`,
-      sceneId: currentSceneId,
-      prompt: 'What should happen next?',
-      choices: [
-        {
-          id: `choice-${Date.now()}-1`,
-          text: 'Option A',
-          targetSceneId: scenes[0]?.id || '',
-        },
-        {
-          id: `choice-${Date.now()}-2`,
-          text: 'Option B',
-          targetSceneId: scenes[1]?.id || scenes[0]?.id || '',
-        },
-      ],
-      timeToShow: Math.max(0, currentTime),
-      duration: 5000,
-    };
-    onBranchPointsChange([...branchPoints, newBranch]);
-    setEditingBranchId(newBranch.id);
+  const node = findSceneNode(story, currentSceneId);
+  const nextNode = node?.nextNodeId ? story.nodes.get(node.nextNodeId) : undefined;
+  const mode: NextMode =
+    nextNode?.type === 'choice' ? 'choices' : nextNode?.type === 'ending' ? 'ending' : 'continue';
+  const endings = Array.from(story.nodes.values()).filter((n) => n.type === 'ending');
+  const nextSceneId = scenes[scenes.findIndex((s) => s.id === currentSceneId) + 1]?.id;
+
+  const update = (edit: (nodes: Map<string, StoryNode>) => void) => {
+    onStoryChange(editStory(story, edit));
   };
 
-  const updateBranchPoint = (id: string, updates: Partial<BranchPoint>) => {
-    onBranchPointsChange(
-      branchPoints.map((bp) => (bp.id === id ? { ...bp, ...updates } : bp))
-    );
+  const updateNode = (nodes: Map<string, StoryNode>, id: string, updates: Partial<StoryNode>) => {
+    const existing = nodes.get(id);
+    if (existing) nodes.set(id, { ...existing, ...updates });
   };
 
-  const deleteBranchPoint = (id: string) => {
-    onBranchPointsChange(branchPoints.filter((bp) => bp.id !== id));
-    if (editingBranchId === id) setEditingBranchId(null);
+  const addToStory = () => {
+    update((nodes) => {
+      ensureSceneNode(nodes, currentSceneId);
+    });
   };
 
-  const addChoice = (branchId: string) => {
-    const branch = branchPoints.find((bp) => bp.id === branchId);
-    if (!branch) return;
+  const setStart = () => {
+    if (!node) return;
+    onStoryChange({ ...story, startNodeId: node.id, updatedAt: Date.now() });
+  };
 
-    const newChoice: StoryChoice = {
-      id: `choice-${Date.now()}`,
-      text: `Option ${branch.choices.length + 1}`,
-      targetSceneId: scenes[0]?.id || '',
-    };
+  const setMode = (next: NextMode) => {
+    if (!node || next === mode) return;
 
-    updateBranchPoint(branchId, {
-      choices: [...branch.choices, newChoice],
+    update((nodes) => {
+      if (next === 'continue') {
+        updateNode(nodes, node.id, {
+          nextNodeId: nextSceneId ? ensureSceneNode(nodes, nextSceneId) : undefined,
+        });
+      } else if (next === 'choices') {
+        const choiceId = `choice-${node.id}`;
+        const fallbackTarget = nextSceneId ?? currentSceneId;
+        nodes.set(choiceId, {
+          id: choiceId,
+          type: 'choice',
+          prompt: 'What should happen next?',
+          choices: [
+            { id: `${choiceId}-${Date.now()}-1`, text: 'Option A', targetNodeId: ensureSceneNode(nodes, fallbackTarget) },
+            { id: `${choiceId}-${Date.now()}-2`, text: 'Option B', targetNodeId: ensureSceneNode(nodes, fallbackTarget) },
+          ],
+        });
+        updateNode(nodes, node.id, { nextNodeId: choiceId });
+      } else {
+        const endingId = `ending-${node.id}`;
+        nodes.set(endingId, {
+          id: endingId,
+          type: 'ending',
+          endingType: 'good',
+          endingTitle: 'The End',
+          endingDescription: 'Thanks for watching!',
+        });
+        updateNode(nodes, node.id, { nextNodeId: endingId });
+      }
     });
   };
 
-  const updateChoice = (
-    branchId: string,
-    choiceId: string,
-    updates: Partial<StoryChoice>
-  ) => {
-    const branch = branchPoints.find((bp) => bp.id === branchId);
-    if (!branch) return;
-
-    updateBranchPoint(branchId, {
-      choices: branch.choices.map((c) =>
-        c.id === choiceId ? { ...c, ...updates } : c
-      ),
+  const addChoice = () => {
+    if (!nextNode) return;
+    update((nodes) => {
+      const choices = nextNode.choices || [];
+      updateNode(nodes, nextNode.id, {
+        choices: [
+          ...choices,
+          {
+            id: `${nextNode.id}-${Date.now()}`,
+            text: `Option ${choices.length + 1}`,
+            targetNodeId: ensureSceneNode(nodes, nextSceneId ?? currentSceneId),
+          },
+        ],
+      });
     });
   };
 
-  const deleteChoice = (branchId: string, choiceId: string) => {
-    const branch = branchPoints.find((bp) => bp.id === branchId);
-    if (!branch || branch.choices.length <= 2) return;
+  const updateChoice = (choiceId: string, updates: { text?: string; target?: string }) => {
+    if (!nextNode) return;
+    update((nodes) => {
+      updateNode(nodes, nextNode.id, {
+        choices: (nextNode.choices || []).map((choice) =>
+          choice.id === choiceId
+            ? {
+                ...choice,
+                ...(updates.text !== undefined ? { text: updates.text } : {}),
+                ...(updates.target ? { targetNodeId: resolveTarget(nodes, updates.target) } : {}),
+              }
+            : choice
+        ),
+      });
+    });
+  };
 
-    updateBranchPoint(branchId, {
-      choices: branch.choices.filter((c) => c.id !== choiceId),
+  const deleteChoice = (choiceId: string) => {
+    if (!nextNode || (nextNode.choices?.length ?? 0) <= 2) return;
+    update((nodes) => {
+      updateNode(nodes, nextNode.id, {
+        choices: nextNode.choices!.filter((choice) => choice.id !== choiceId),
+      });
     });
   };
 
   return (
-    <div className="space-y-4">
+    <div className="space-y-3">
       <div className="flex items-center justify-between">
-        <h3 className="text-white font-medium flex items-center gap-2">
+        <h3 className="text-white font-medium text-sm flex items-center gap-2">
           <GitBranch className="w-4 h-4 text-purple-400" />
           Story Branches
         </h3>
         <button
-          onClick={addBranchPoint}
-          className="px-3 py-1.5 bg-purple-500 hover:bg-purple-600 text-white text-xs rounded-lg flex items-center gap-1 transition-colors"
+          onClick={() => onStoryChange(null)}
+          className="p-1.5 hover:bg-red-500/20 rounded-lg transition-colors"
+          title="Remove branching"
         >
-          <Plus className="w-3 h-3" />
-          Add Branch
+          <Trash2 className="w-4 h-4 text-red-400" />
         </button>
       </div>
 
-      {currentSceneBranches.length === 0 ? (
+      {!node ? (
         <div className="p-4 bg-gray-800 rounded-xl text-center">
-          <GitBranch className="w-8 h-8 text-gray-600 mx-auto mb-2" />
-          <p className="text-gray-400 text-sm">No branch points in this scene</p>
-          <p className="text-gray-500 text-xs mt-1">
-            Add a branch to create interactive choices
-          </p>
+          <p className="text-gray-400 text-sm">This scene is not part of the branching story</p>
+          <button
+            onClick={addToStory}
+            className="mt-3 px-3 py-1.5 bg-purple-500 hover:bg-purple-600 text-white text-xs rounded-lg inline-flex items-center gap-1 transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            Add Scene
+          </button>
         </div>
       ) : (
-        <div className="space-y-3">
-          {currentSceneBranches.map((branch) => (
-            <div
-              key={branch.id}
-              className="bg-gray-800 rounded-xl overflow-hidden"
-            >
-              {/* Branch Header */}
-              <div className="p-3 border-b border-gray-700 flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <Sparkles className="w-4 h-4 text-purple-400" />
-                  {editingBranchId === branch.id ? (
-                    <input
-                      type="text"
-                      value={branch.prompt}
-                      onChange={(e) =>
-                        updateBranchPoint(branch.id, { prompt: e.target.value })
-                      }
-                      className="bg-gray-700 px-2 py-1 rounded text-white text-sm flex-1"
-                      autoFocus
-                    />
-                  ) : (
-                    <span className="text-white text-sm font-medium">
-                      {branch.prompt}
-                    </span>
-                  )}
-                </div>
-                <div className="flex items-center gap-1">
-                  <button
-                    onClick={() =>
-                      setEditingBranchId(
-                        editingBranchId === branch.id ? null : branch.id
-                      )
-                    }
-                    className="p-1.5 hover:bg-gray-700 rounded-lg transition-colors"
-                  >
-                    {editingBranchId === branch.id ? (
-                      <Check className="w-4 h-4 text-green-400" />
-                    ) : (
-                      <Edit3 className="w-4 h-4 text-gray-400" />
-                    )}
-                  </button>
-                  <button
-                    onClick={() => deleteBranchPoint(branch.id)}
-                    className="p-1.5 hover:bg-red-500/20 rounded-lg transition-colors"
-                  >
-                    <Trash2 className="w-4 h-4 text-red-400" />
-                  </button>
-                </div>
-              </div>
-
-              {/* Timing */}
-              <div className="px-3 py-2 bg-gray-750 flex items-center gap-4 text-xs">
-                <div className="flex items-center gap-2">
-                  <span className="text-gray-400">Show at:</span>
-                  <input
-                    type="number"
-                    value={branch.timeToShow / 1000}
-                    onChange={(e) =>
-                      updateBranchPoint(branch.id, {
-                        timeToShow: Number(e.target.value) * 1000,
-                      })
-                    }
-                    className="w-16 px-2 py-1 bg-gray-700 rounded text-white text-center"
-                    step={0.5}
-                    min={0}
-                  />
-                  <span className="text-gray-500">sec</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <span className="text-gray-400">Duration:</span>
-                  <input
-                    type="number"
-                    value={branch.duration / 1000}
-                    onChange={(e) =>
-                      updateBranchPoint(branch.id, {
-                        duration: Number(e.target.value) * 1000,
-                      })
-                    }
-                    className="w-16 px-2 py-1 bg-gray-700 rounded text-white text-center"
-                    step={0.5}
-                    min={1}
-                  />
-                  <span className="text-gray-500">sec</span>
-                </div>
-              </div>
-
-              {/* Choices */}
-              <div className="p-3 space-y-2">
-                {branch.choices.map((choice, index) => (
-                  <div
-                    key={choice.id}
-                    className="flex items-center gap-2 p-2 bg-gray-700 rounded-lg"
-                  >
-                    <div className="w-6 h-6 bg-purple-500 rounded-full flex items-center justify-center text-white text-xs font-bold">
+        <div className="bg-gray-800 rounded-xl overflow-hidden">
+          {/* Start marker */}
+          <div className="p-3 border-b border-gray-700 flex items-center justify-between text-xs">
+            <span className="text-gray-400">After this scene</span>
+            {story.startNodeId === node.id ? (
+              <span className="px-2 py-0.5 bg-green-500/20 text-green-300 rounded flex items-center gap-1">
+                <Flag className="w-3 h-3" />
+                Start
+              </span>
+            ) : (
+              <button onClick={setStart} className="text-purple-300 hover:text-white transition-colors">
+                Start here
+              </button>
+            )}
+          </div>
+
+          {/* Next step */}
+          <div className="p-3 space-y-2">
+            <div className="grid grid-cols-3 gap-1">
+              {(['continue', 'choices', 'ending'] as NextMode[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`px-2 py-1 rounded text-xs transition-colors ${
+                    mode === option ? 'bg-purple-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {option === 'continue' ? 'Continue' : option === 'choices' ? 'Choices' : 'End'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'continue' && (
+              <select
+                value={nextNode?.sceneId ?? ''}
+                onChange={(e) =>
+                  update((nodes) => {
+                    updateNode(nodes, node.id, {
+                      nextNodeId: e.target.value ? ensureSceneNode(nodes, e.target.value) : undefined,
+                    });
+                  })
+                }
+                className="w-full bg-gray-700 px-2 py-1 rounded text-white text-sm"
+              >
+                <option value="">Nothing (stops here)</option>
+                {scenes.map((scene) => (
+                  <option key={scene.id} value={scene.id}>
+                    {scene.title}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {mode === 'choices' && nextNode && (
+              <>
+                <input
+                  type="text"
+                  value={nextNode.prompt ?? ''}
+                  onChange={(e) =>
+                    update((nodes) => updateNode(nodes, nextNode.id, { prompt: e.target.value }))
+                  }
+                  className="w-full bg-gray-700 px-2 py-1 rounded text-white text-sm"
+                  placeholder="Question for the viewer"
+                />
+                {(nextNode.choices || []).map((choice, index) => (
+                  <div key={choice.id} className="flex items-center gap-2 p-2 bg-gray-700 rounded-lg">
+                    <div className="w-5 h-5 bg-purple-500 rounded-full flex items-center justify-center text-white text-[10px] font-bold flex-shrink-0">
                       {index + 1}
                     </div>
-                    <input
-                      type="text"
-                      value={choice.text}
-                      onChange={(e) =>
-                        updateChoice(branch.id, choice.id, {
-                          text: e.target.value,
-                        })
-                      }
-                      className="flex-1 bg-gray-600 px-2 py-1 rounded text-white text-sm"
-                      placeholder="Choice text"
-                    />
-                    <ArrowRight className="w-4 h-4 text-gray-500" />
-                    <select
-                      value={choice.targetSceneId}
-                      onChange={(e) =>
-                        updateChoice(branch.id, choice.id, {
-                          targetSceneId: e.target.value,
-                        })
-                      }
-                      className="bg-gray-600 px-2 py-1 rounded text-white text-sm"
-                    >
-                      {scenes.map((scene) => (
-                        <option key={scene.id} value={scene.id}>
-                          {scene.title}
-                        </option>
-                      ))}
-                    </select>
-                    {branch.choices.length > 2 && (
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <input
+                        type="text"
+                        value={choice.text}
+                        onChange={(e) => updateChoice(choice.id, { text: e.target.value })}
+                        className="w-full bg-gray-600 px-2 py-1 rounded text-white text-xs"
+                        placeholder="Choice text"
+                      />
+                      <select
+                        value={encodeTarget(story, choice.targetNodeId)}
+                        onChange={(e) => updateChoice(choice.id, { target: e.target.value })}
+                        className="w-full bg-gray-600 px-2 py-1 rounded text-white text-xs"
+                      >
+                        {scenes.map((scene) => (
+                          <option key={scene.id} value={`scene:${scene.id}`}>
+                            {scene.title}
+                          </option>
+                        ))}
+                        {endings.map((ending) => (
+                          <option key={ending.id} value={`node:${ending.id}`}>
+                            Ending: {ending.endingTitle || ending.id}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {(nextNode.choices?.length ?? 0) > 2 && (
                       <button
-                        onClick={() => deleteChoice(branch.id, choice.id)}
+                        onClick={() => deleteChoice(choice.id)}
                         className="p-1 hover:bg-red-500/20 rounded transition-colors"
                       >
                         <X className="w-4 h-4 text-red-400" />
@@ -363,22 +509,107 @@ export default function StoryBranchingUI({
                   </div>
                 ))}
                 <button
-                  onClick={() => addChoice(branch.id)}
-                  className="w-full p-2 border border-dashed border-gray-600 hover:border-purple-500 rounded-lg text-gray-400 hover:text-purple-400 text-sm transition-colors"
+                  onClick={addChoice}
+                  className="w-full p-2 border border-dashed border-gray-600 hover:border-purple-500 rounded-lg text-gray-400 hover:text-purple-400 text-xs transition-colors"
                 >
                   + Add Choice
                 </button>
-              </div>
+              </>
+            )}
+
+            {mode === 'ending' && nextNode && (
+              <>
+                <input
+                  type="text"
+                  value={nextNode.endingTitle ?? ''}
+                  onChange={(e) =>
+                    update((nodes) => updateNode(nodes, nextNode.id, { endingTitle: e.target.value }))
+                  }
+                  className="w-full bg-gray-700 px-2 py-1 rounded text-white text-sm"
+                  placeholder="Ending title"
+                />
+                <input
+                  type="text"
+                  value={nextNode.endingDescription ?? ''}
+                  onChange={(e) =>
+                    update((nodes) => updateNode(nodes, nextNode.id, { endingDescription: e.target.value }))
+                  }
+                  className="w-full bg-gray-700 px-2 py-1 rounded text-white text-xs"
+                  placeholder="Shown to the viewer at the end"
+                />
+                <div className="grid grid-cols-4 gap-1">
+                  {ENDING_TYPES.map((type) => (
+                    <button
+                      key={type.id}
+                      onClick={() => update((nodes) => updateNode(nodes, nextNode.id, { endingType: type.id }))}
+                      className={`px-2 py-1 rounded text-[10px] transition-colors ${
+                        nextNode.endingType === type.id ? 'bg-purple-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                    >
+                      {type.label}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Checks */}
+      {analysis && (
+        <div className="bg-gray-800 rounded-xl p-3 space-y-2">
+          {analysis.issues.length === 0 ? (
+            <p className="text-green-300 text-xs flex items-center gap-1">
+              <CheckCircle className="w-3 h-3" />
+              No problems found
+            </p>
+          ) : (
+            <ul className="space-y-1 max-h-32 overflow-y-auto">
+              {analysis.issues.map((issue, index) => {
+                const here = issue.nodeId !== undefined && (issue.nodeId === node?.id || issue.nodeId === nextNode?.id);
+                return (
+                  <li
+                    key={`${issue.type}-${issue.nodeId ?? ''}-${issue.choiceId ?? ''}-${index}`}
+                    className={`text-[11px] flex items-start gap-1 ${
+                      issue.severity === 'error' ? 'text-red-300' : 'text-amber-300'
+                    } ${here ? 'font-medium' : ''}`}
+                  >
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    <span>{issue.message}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {analysis.endings.length > 0 && (
+            <div className="pt-2 border-t border-gray-700 space-y-1">
+              {analysis.endings.map((ending) => (
+                <div key={ending.endingId} className="text-[11px]">
+                  <span className={ending.reachable ? 'text-green-300' : 'text-gray-500'}>
+                    {ending.reachable ? '✓' : '✗'} {ending.title}
+                  </span>
+                  {ending.reachable && (
+                    <p className="text-gray-500 truncate" title={ending.path.map((id) => describeNode(story, id, sceneTitles)).join(' → ')}>
+                      {ending.path
+                        .filter((id) => story.nodes.get(id)?.type === 'scene')
+                        .map((id) => describeNode(story, id, sceneTitles))
+                        .join(' → ')}
+                    </p>
+                  )}
+                </div>
+              ))}
             </div>
-          ))}
+          )}
         </div>
       )}
 
       {/* Preview tip */}
       <div className="p-3 bg-purple-500/10 border border-purple-500/30 rounded-xl">
         <p className="text-purple-300 text-xs">
-          💡 Branch choices will appear during playback at the specified time.
-          Viewers can click to jump to different scenes.
+          💡 Choices appear when the scene ends in shared links.
+          Each viewer&apos;s path is remembered in their browser.
         </p>
       </div>
     </div>
@@ -0,0 +1,699 @@
+/**
+ * AI Provider Registry
+ * Every AI route goes through here instead of calling vendors directly.
+ * Providers: Gemini, OpenAI, any OpenAI-compatible server (llama.cpp, Ollama, vLLM...)
+ * via LOCAL_AI_BASE_URL, and Imagine.art for images.
+ */
+import { GoogleGenAI } from '@google/genai';
+
+export type AICapability = 'text' | 'image';
+
+// Per-request overrides, read from route bodies with parseAIRequestOptions
+export interface AIRequestOptions {
+  provider?: string; // only this provider is tried
+  model?: string; // needs `provider`, since model names are provider-specific
+  timeoutMs?: number;
+  // Aborts the provider call, e.g. when the client disconnects
+  signal?: AbortSignal;
+}
+
+export interface AITextRequest {
+  prompt: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  topK?: number;
+  topP?: number;
+}
+
+export interface AIImageRequest {
+  prompt: string;
+  style?: string;
+  aspectRatio?: string;
+}
+
+export interface AIImageResult {
+  imageUrl?: string;
+  imageBase64?: string;
+}
+
+export interface AICallOptions {
+  model: string;
+  signal: AbortSignal;
+}
+
+export interface AIProvider {
+  id: string;
+  name: string;
+  capabilities: AICapability[];
+  defaultModel: string;
+  isConfigured(): boolean;
+  generateText?(request: AITextRequest, options: AICallOptions): Promise<string>;
+  // Text as it is generated; providers without it are streamed as one chunk
+  streamText?(request: AITextRequest, options: AICallOptions): AsyncIterable<string>;
+  generateImage?(request: AIImageRequest, options: AICallOptions): Promise<AIImageResult>;
+  // Cheap request that proves the provider is reachable with its credentials
+  ping(signal: AbortSignal): Promise<void>;
+}
+
+export interface AIProviderStatus {
+  id: string;
+  name: string;
+  capabilities: AICapability[];
+  model: string;
+  configured: boolean;
+  healthy: boolean;
+  latencyMs: number | null;
+  error: string | null;
+}
+
+export interface AIResult<T> {
+  result: T;
+  provider: string;
+  model: string;
+}
+
+export interface AITextChunk {
+  text: string;
+  provider: string;
+  model: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const MAX_TIMEOUT_MS = 180000;
+const HEALTH_TIMEOUT_MS = 5000;
+const HEALTH_CACHE_MS = 30000;
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+export class GeminiProvider implements AIProvider {
+  id = 'gemini';
+  name = 'Gemini';
+  capabilities: AICapability[] = ['text', 'image'];
+  defaultModel = 'gemini-2.5-flash';
+  private imageModel = 'imagen-4.0-generate-001';
+
+  isConfigured(): boolean {
+    return !!process.env.GEMINI_API_KEY;
+  }
+
+  async generateText(request: AITextRequest, options: AICallOptions): Promise<string> {
+    const result = await this.getClient().models.generateContent({
+      model: options.model,
+      contents: this.getContents(request),
+      config: this.getConfig(request, options),
+    });
+
+    const text = (result as any).text as string | undefined;
+    if (!text) {
+      throw new Error('No response from Gemini');
+    }
+    return text;
+  }
+
+  async *streamText(request: AITextRequest, options: AICallOptions): AsyncIterable<string> {
+    const stream = await this.getClient().models.generateContentStream({
+      model: options.model,
+      contents: this.getContents(request),
+      config: this.getConfig(request, options),
+    });
+
+    for await (const chunk of stream) {
+      const text = (chunk as any).text as string | undefined;
+      if (text) yield text;
+    }
+  }
+
+  async generateImage(request: AIImageRequest, options: AICallOptions): Promise<AIImageResult> {
+    const result = await this.getClient().models.generateImages({
+      // Text model names don't apply to image generation
+      model: options.model === this.defaultModel ? this.imageModel : options.model,
+      prompt: request.prompt,
+      config: {
+        numberOfImages: 1,
+        abortSignal: options.signal,
+      },
+    });
+
+    const imageBytes = (result as any)?.generatedImages?.[0]?.image?.imageBytes as string | undefined;
+    if (!imageBytes) {
+      throw new Error('No image returned from Gemini');
+    }
+    return { imageBase64: imageBytes };
+  }
+
+  async ping(signal: AbortSignal): Promise<void> {
+    const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1', {
+      headers: { 'x-goog-api-key': process.env.GEMINI_API_KEY || '' },
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Gemini responded with ${response.status}`);
+    }
+  }
+
+  private getClient(): GoogleGenAI {
+    return new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+  }
+
+  private getContents(request: AITextRequest): string {
+    return request.systemPrompt ? `${request.systemPrompt}\n\n${request.prompt}` : request.prompt;
+  }
+
+  private getConfig(request: AITextRequest, options: AICallOptions) {
+    return {
+      temperature: request.temperature,
+      topK: request.topK,
+      topP: request.topP,
+      maxOutputTokens: request.maxOutputTokens,
+      abortSignal: options.signal,
+    };
+  }
+}
+
+export interface OpenAICompatibleConfig {
+  id: string;
+  name: string;
+  baseUrl: () => string | undefined;
+  apiKey: () => string | undefined;
+  defaultModel: () => string;
+  // Local servers usually run without a key
+  requiresApiKey: boolean;
+  imageModel?: string;
+}
+
+// Chat completions (and optionally images) against any OpenAI-style /v1 API
+export class OpenAICompatibleProvider implements AIProvider {
+  id: string;
+  name: string;
+  capabilities: AICapability[];
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = config;
+    this.id = config.id;
+    this.name = config.name;
+    this.capabilities = config.imageModel ? ['text', 'image'] : ['text'];
+  }
+
+  get defaultModel(): string {
+    return this.config.defaultModel();
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.baseUrl() && (!this.config.requiresApiKey || !!this.config.apiKey());
+  }
+
+  async generateText(request: AITextRequest, options: AICallOptions): Promise<string> {
+    const response = await this.request('/chat/completions', this.getChatBody(request, options, false), options.signal);
+    const data = await response.json();
+
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error(`No response from ${this.name}`);
+    }
+    return text;
+  }
+
+  // Reads the server-sent events of a streamed chat completion
+  async *streamText(request: AITextRequest, options: AICallOptions): AsyncIterable<string> {
+    const response = await this.request('/chat/completions', this.getChatBody(request, options, true), options.signal);
+    if (!response.body) {
+      throw new Error(`No response from ${this.name}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+          const payload = data.slice(5).trim();
+          if (payload === '[DONE]') return;
+
+          try {
+            const text = JSON.parse(payload).choices?.[0]?.delta?.content;
+            if (text) yield text;
+          } catch {
+            // ignore keep-alive and malformed events
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  async generateImage(request: AIImageRequest, options: AICallOptions): Promise<AIImageResult> {
+    const response = await this.request('/images/generations', {
+      model: options.model === this.defaultModel ? this.config.imageModel : options.model,
+      prompt: request.prompt,
+      size: '1024x1024',
+      n: 1,
+    }, options.signal);
+    const data = await response.json();
+
+    const image = data?.data?.[0];
+    if (image?.url) return { imageUrl: image.url };
+    if (image?.b64_json) return { imageBase64: image.b64_json };
+    throw new Error(`${this.name} did not return an image`);
+  }
+
+  async ping(signal: AbortSignal): Promise<void> {
+    const response = await fetch(`${this.getBaseUrl()}/models`, { headers: this.getHeaders(), signal });
+    if (!response.ok) {
+      throw new Error(`${this.name} responded with ${response.status}`);
+    }
+  }
+
+  private getChatBody(request: AITextRequest, options: AICallOptions, stream: boolean) {
+    const messages = [
+      ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    return {
+      model: options.model,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxOutputTokens,
+      stream,
+    };
+  }
+
+  private async request(path: string, body: unknown, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.getBaseUrl()}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.getHeaders() },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      let message = `${this.name} API error (${response.status})`;
+      try {
+        const errJson = await response.json();
+        if (errJson?.error?.code === 'billing_hard_limit_reached') {
+          message = `${this.name} billing limit has been reached.`;
+        } else if (typeof errJson?.error?.message === 'string') {
+          message = `${this.name} API error: ${errJson.error.message}`;
+        }
+      } catch {
+        // ignore parse errors
+      }
+      throw new Error(message);
+    }
+
+    return response;
+  }
+
+  private getBaseUrl(): string {
+    return (this.config.baseUrl() || '').replace(/\/+$/, '');
+  }
+
+  private getHeaders(): Record<string, string> {
+    const apiKey = this.config.apiKey();
+    return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  }
+}
+
+// Imagine.art API v2 endpoint
+const IMAGINE_API_URL = 'https://api.vyro.ai/v2/image/generations';
+
+export class ImagineProvider implements AIProvider {
+  id = 'imagine';
+  name = 'Imagine.art';
+  capabilities: AICapability[] = ['image'];
+  defaultModel = 'imagine-v2';
+
+  isConfigured(): boolean {
+    return !!process.env.IMAGINE_API_KEY;
+  }
+
+  async generateImage(request: AIImageRequest, options: AICallOptions): Promise<AIImageResult> {
+    const formData = new FormData();
+    formData.append('prompt', request.prompt);
+    formData.append('style', request.style || 'cartoon');
+    formData.append('aspect_ratio', request.aspectRatio || '1:1');
+    formData.append('seed', Math.floor(Math.random() * 1000).toString());
+
+    const response = await fetch(IMAGINE_API_URL, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${process.env.IMAGINE_API_KEY}` },
+      body: formData,
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Imagine API error: ${await response.text()}`);
+    }
+
+    if (response.headers.get('content-type')?.includes('application/json')) {
+      const jsonData = await response.json();
+      const url = jsonData.data?.[0]?.url || jsonData.url;
+      if (!url) {
+        throw new Error('Imagine API did not return an image');
+      }
+      return { imageUrl: url };
+    }
+
+    // Binary image data
+    const imageBuffer = await response.arrayBuffer();
+    return { imageBase64: Buffer.from(imageBuffer).toString('base64') };
+  }
+
+  // Imagine has no free endpoint to probe, so a configured key counts as healthy
+  async ping(): Promise<void> {}
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+export class AIProviderRegistry {
+  private providers: Map<string, AIProvider> = new Map();
+  private healthCache: { checkedAt: number; statuses: AIProviderStatus[] } | null = null;
+
+  register(provider: AIProvider): void {
+    this.providers.set(provider.id, provider);
+    this.healthCache = null;
+  }
+
+  get(id: string): AIProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * Providers in fallback order: AI_PROVIDER_ORDER (comma-separated ids) first,
+   * then the rest in registration order
+   */
+  list(): AIProvider[] {
+    const preferred = (process.env.AI_PROVIDER_ORDER || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => this.providers.has(id));
+    const rest = Array.from(this.providers.keys()).filter((id) => !preferred.includes(id));
+    return [...preferred, ...rest].map((id) => this.providers.get(id)!);
+  }
+
+  // Configured providers that can do `capability`, in fallback order
+  getAvailable(capability: AICapability): AIProvider[] {
+    return this.list().filter((p) => p.capabilities.includes(capability) && p.isConfigured());
+  }
+
+  async generateText(request: AITextRequest, options: AIRequestOptions = {}): Promise<AIResult<string>> {
+    return this.run('text', options, (provider, callOptions) => provider.generateText!(request, callOptions));
+  }
+
+  async generateImage(request: AIImageRequest, options: AIRequestOptions = {}): Promise<AIResult<AIImageResult>> {
+    return this.run('image', options, (provider, callOptions) => provider.generateImage!(request, callOptions));
+  }
+
+  /**
+   * Stream text from the first provider that starts answering. The next provider
+   * is only tried if nothing was produced yet, and the timeout applies to the wait
+   * for each chunk rather than the whole response.
+   */
+  async *streamText(request: AITextRequest, options: AIRequestOptions = {}): AsyncGenerator<AITextChunk> {
+    const candidates = options.provider ? [this.resolve(options.provider, 'text')] : this.getAvailable('text');
+    if (candidates.length === 0) {
+      throw new Error('No AI provider configured for text generation');
+    }
+
+    const timeoutMs = getTimeout(options);
+    const errors: string[] = [];
+
+    for (const provider of candidates) {
+      const model = (options.provider && options.model) || provider.defaultModel;
+      const deadline = createDeadline(timeoutMs, provider.name, options.signal);
+      let started = false;
+      let finished = false;
+
+      try {
+        const callOptions = { model, signal: deadline.signal };
+        const chunks = provider.streamText
+          ? provider.streamText(request, callOptions)
+          : singleChunk(provider.generateText!(request, callOptions));
+
+        for await (const text of chunks) {
+          if (deadline.getReason()) break;
+          deadline.restart();
+          started = true;
+          yield { text, provider: provider.id, model };
+        }
+
+        const reason = deadline.getReason();
+        if (reason) throw reason;
+        finished = true;
+        return;
+      } catch (error) {
+        const reason = deadline.getReason() || error;
+        if (started || options.signal?.aborted) throw reason;
+        const message = reason instanceof Error ? reason.message : String(reason);
+        console.warn(`AI provider ${provider.id} failed:`, message);
+        errors.push(message);
+      } finally {
+        // Stop the upstream request if the consumer stopped reading early
+        deadline.dispose(!finished);
+      }
+    }
+
+    throw new Error(errors.join('; '));
+  }
+
+  /**
+   * Probe every registered provider. Results are cached briefly so status polling
+   * doesn't hit vendor APIs on every request.
+   */
+  async checkHealth(force: boolean = false): Promise<AIProviderStatus[]> {
+    if (!force && this.healthCache && Date.now() - this.healthCache.checkedAt < HEALTH_CACHE_MS) {
+      return this.healthCache.statuses;
+    }
+
+    const statuses = await Promise.all(
+      this.list().map(async (provider): Promise<AIProviderStatus> => {
+        const status: AIProviderStatus = {
+          id: provider.id,
+          name: provider.name,
+          capabilities: provider.capabilities,
+          model: provider.defaultModel,
+          configured: provider.isConfigured(),
+          healthy: false,
+          latencyMs: null,
+          error: null,
+        };
+        if (!status.configured) return status;
+
+        const startedAt = Date.now();
+        try {
+          await withTimeout(HEALTH_TIMEOUT_MS, `${provider.name} health check`, (signal) => provider.ping(signal));
+          status.healthy = true;
+          status.latencyMs = Date.now() - startedAt;
+        } catch (error) {
+          status.error = error instanceof Error ? error.message : String(error);
+        }
+        return status;
+      })
+    );
+
+    this.healthCache = { checkedAt: Date.now(), statuses };
+    return statuses;
+  }
+
+  // Try each candidate in turn until one succeeds
+  private async run<T>(
+    capability: AICapability,
+    options: AIRequestOptions,
+    call: (provider: AIProvider, callOptions: AICallOptions) => Promise<T>
+  ): Promise<AIResult<T>> {
+    const candidates = options.provider ? [this.resolve(options.provider, capability)] : this.getAvailable(capability);
+    if (candidates.length === 0) {
+      throw new Error(`No AI provider configured for ${capability} generation`);
+    }
+
+    const timeoutMs = getTimeout(options);
+    const errors: string[] = [];
+
+    for (const provider of candidates) {
+      const model = (options.provider && options.model) || provider.defaultModel;
+      try {
+        const result = await withTimeout(timeoutMs, provider.name, (signal) => call(provider, { model, signal }), options.signal);
+        return { result, provider: provider.id, model };
+      } catch (error) {
+        // A cancelled request shouldn't move on to the next provider
+        if (options.signal?.aborted) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`AI provider ${provider.id} failed:`, message);
+        errors.push(message);
+      }
+    }
+
+    throw new Error(errors.join('; '));
+  }
+
+  /**
+   * Why a requested provider can't serve a request, or null if it can.
+   * Routes call this to answer 400 instead of silently falling back.
+   */
+  getProviderError(id: string, capability: AICapability): string | null {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      return `Unknown AI provider "${id}". Available: ${Array.from(this.providers.keys()).join(', ')}`;
+    }
+    if (!provider.capabilities.includes(capability)) {
+      return `${provider.name} does not support ${capability} generation`;
+    }
+    if (!provider.isConfigured()) {
+      return `${provider.name} is not configured`;
+    }
+    return null;
+  }
+
+  private resolve(id: string, capability: AICapability): AIProvider {
+    const error = this.getProviderError(id, capability);
+    if (error) {
+      throw new Error(error);
+    }
+    return this.providers.get(id)!;
+  }
+}
+
+interface Deadline {
+  signal: AbortSignal;
+  // Start the timeout over (streams restart it on every chunk)
+  restart(): void;
+  // Why the signal fired, if it did
+  getReason(): Error | null;
+  dispose(cancel?: boolean): void;
+}
+
+// Abort signal that fires when the timeout passes or `external` aborts
+function createDeadline(timeoutMs: number, label: string, external?: AbortSignal): Deadline {
+  const controller = new AbortController();
+  let reason: Error | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const abort = (error: Error) => {
+    if (reason) return;
+    reason = error;
+    controller.abort();
+  };
+  const onExternalAbort = () => abort(new Error(`${label} request was cancelled`));
+  const restart = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => abort(new Error(`${label} timed out after ${timeoutMs}ms`)), timeoutMs);
+  };
+
+  if (external?.aborted) {
+    onExternalAbort();
+  } else {
+    external?.addEventListener('abort', onExternalAbort);
+  }
+  restart();
+
+  return {
+    signal: controller.signal,
+    restart,
+    getReason: () => reason,
+    dispose: (cancel = false) => {
+      clearTimeout(timer);
+      external?.removeEventListener('abort', onExternalAbort);
+      if (cancel) controller.abort();
+    },
+  };
+}
+
+// Abort the call once the timeout passes (or the caller cancels)
+async function withTimeout<T>(
+  timeoutMs: number,
+  label: string,
+  call: (signal: AbortSignal) => Promise<T>,
+  external?: AbortSignal
+): Promise<T> {
+  const deadline = createDeadline(timeoutMs, label, external);
+  const aborted = new Promise<never>((_, reject) => {
+    deadline.signal.addEventListener('abort', () => reject(deadline.getReason()));
+  });
+
+  try {
+    return await Promise.race([call(deadline.signal), aborted]);
+  } finally {
+    deadline.dispose();
+  }
+}
+
+async function* singleChunk(text: Promise<string>): AsyncIterable<string> {
+  yield await text;
+}
+
+function getTimeout(options: AIRequestOptions): number {
+  return options.timeoutMs || Number(process.env.AI_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * Read provider/model/timeoutMs from a request body, ignoring anything malformed
+ */
+export function parseAIRequestOptions(body: any): AIRequestOptions {
+  const options: AIRequestOptions = {};
+  if (typeof body?.provider === 'string' && body.provider.trim()) {
+    options.provider = body.provider.trim();
+  }
+  if (typeof body?.model === 'string' && body.model.trim()) {
+    options.model = body.model.trim();
+  }
+  if (typeof body?.timeoutMs === 'number' && Number.isFinite(body.timeoutMs) && body.timeoutMs > 0) {
+    options.timeoutMs = Math.min(Math.round(body.timeoutMs), MAX_TIMEOUT_MS);
+  }
+  return options;
+}
+
+function createDefaultRegistry(): AIProviderRegistry {
+  const registry = new AIProviderRegistry();
+
+  registry.register(new GeminiProvider());
+  registry.register(
+    new OpenAICompatibleProvider({
+      id: 'openai',
+      name: 'OpenAI',
+      baseUrl: () => process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      apiKey: () => process.env.OPENAI_API_KEY,
+      defaultModel: () => process.env.OPENAI_MODEL || 'gpt-3.5-turbo',
+      requiresApiKey: true,
+      imageModel: 'gpt-image-1',
+    })
+  );
+  registry.register(
+    new OpenAICompatibleProvider({
+      id: 'local',
+      name: 'Local',
+      baseUrl: () => process.env.LOCAL_AI_BASE_URL,
+      apiKey: () => process.env.LOCAL_AI_API_KEY,
+      defaultModel: () => process.env.LOCAL_AI_MODEL || 'llama3.1',
+      requiresApiKey: false,
+    })
+  );
+  registry.register(new ImagineProvider());
+
+  return registry;
+}
+
+// Singleton registry
+let aiProviderRegistry: AIProviderRegistry | null = null;
+
+export function getAIProviderRegistry(): AIProviderRegistry {
+  if (!aiProviderRegistry) {
+    aiProviderRegistry = createDefaultRegistry();
+  }
+  return aiProviderRegistry;
+}
@@ -0,0 +1,604 @@
+/**
+ * AI Schema - what a generated story may contain, and a validator that checks
+ * model output against it. Every problem is reported per field (e.g.
+ * `scenes[1].characters[0].action`) together with the value it was corrected to,
+ * so callers can re-prompt with the errors or report what was auto-corrected.
+ */
+import { AIExpression, AIFieldIssue, AIGeneratedScene, AIPosition } from './ai-types';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
+
+// Available backgrounds in the app - expanded list
+export const AVAILABLE_BACKGROUNDS = [
+  'meadow', 'forest', 'beach', 'night', 'bedroom', 'park',
+  'castle', 'space', 'underwater', 'mountain', 'city', 'farm',
+  'playground', 'library', 'kitchen', 'garden'
+];
+
+// Available actions - expanded list
+export const AVAILABLE_ACTIONS = [
+  'idle', 'walk', 'run', 'wave', 'reach', 'dance', 'jump', 'talk', 'surprised',
+  'sit', 'sleep', 'eat', 'read', 'play', 'think', 'laugh', 'cry',
+  'hug', 'point', 'clap', 'spin', 'fly', 'swim', 'climb'
+];
+
+// Characters stories may cast - registry ids of the characters with a rig and a persona
+export const AVAILABLE_CHARACTERS = getCharacterRegistry().getCast().map((character) => character.id);
+
+const AVAILABLE_POSITIONS: AIPosition[] = ['left', 'center', 'right'];
+const AVAILABLE_EXPRESSIONS: AIExpression[] = ['happy', 'sad', 'surprised', 'neutral', 'angry'];
+
+const MIN_SCENE_DURATION = 2000;
+const MAX_SCENE_DURATION = 20000;
+const DEFAULT_SCENE_DURATION = 5000;
+
+// What generated scenes are allowed to contain
+export interface StoryConstraints {
+  characters: string[];
+  backgrounds: string[];
+  fallbackBackground: string;
+  fallbackMood: string;
+  // Drop characters outside `characters` instead of recasting them
+  strictCast?: boolean;
+}
+
+export const DEFAULT_STORY_CONSTRAINTS: StoryConstraints = {
+  characters: AVAILABLE_CHARACTERS,
+  backgrounds: AVAILABLE_BACKGROUNDS,
+  fallbackBackground: 'meadow',
+  fallbackMood: 'happy',
+};
+
+/**
+ * Result of validating model output. `value` is the corrected output (null when
+ * nothing usable could be recovered); `errors` lists every field that had to change.
+ */
+export interface AIValidation<T> {
+  value: T | null;
+  errors: AIFieldIssue[];
+}
+
+// Model output that stayed unusable after every re-prompt
+export class AIValidationError extends Error {
+  errors: AIFieldIssue[];
+
+  constructor(errors: AIFieldIssue[]) {
+    super(`AI output failed validation:\n${formatValidationErrors(errors)}`);
+    this.name = 'AIValidationError';
+    this.errors = errors;
+  }
+}
+
+export interface ValidatedStory {
+  title: string;
+  scenes: AIGeneratedScene[];
+}
+
+export const BRANCH_ENDING_TYPES = ['good', 'neutral', 'secret'] as const;
+export type BranchEndingType = (typeof BRANCH_ENDING_TYPES)[number];
+
+// Most alternate choices per branch point, and scenes per alternate path
+export const MAX_BRANCH_ALTERNATES = 2;
+export const MAX_BRANCH_PATH_SCENES = 3;
+
+export interface ValidatedBranchPath {
+  choiceText: string;
+  scenes: AIGeneratedScene[];
+  ending: { type: BranchEndingType; title: string; description: string };
+}
+
+export interface ValidatedBranchPoint {
+  afterScene: number; // 0-based index of the existing scene the choice follows
+  prompt: string;
+  continueText: string; // Choice that keeps to the original story
+  paths: ValidatedBranchPath[];
+}
+
+export interface ValidatedBranchPlan {
+  branches: ValidatedBranchPoint[];
+}
+
+// Match a name case-insensitively, returning the allowed spelling
+export function matchName(name: unknown, allowed: string[]): string | undefined {
+  if (typeof name !== 'string') return undefined;
+  const lower = name.trim().toLowerCase();
+  return allowed.find((candidate) => candidate.toLowerCase() === lower);
+}
+
+/**
+ * Attempt to repair common JSON issues from AI responses
+ */
+export function repairJSON(text: string): string {
+  let repaired = text;
+
+  // Remove trailing commas before closing brackets
+  repaired = repaired.replace(/,(\s*[\]}])/g, '$1');
+
+  // Fix unterminated strings by finding incomplete string patterns
+  // Look for strings that start but don't end before a comma, bracket, or newline
+  repaired = repaired.replace(/"([^"\\]*(\\.[^"\\]*)*)(?=\s*[,}\]\n])/g, (match) => {
+    if (!match.endsWith('"')) {
+      return match + '"';
+    }
+    return match;
+  });
+
+  // Remove any characters after the last closing brace
+  const lastBrace = repaired.lastIndexOf('}');
+  if (lastBrace !== -1) {
+    repaired = repaired.slice(0, lastBrace + 1);
+  }
+
+  // Ensure we have balanced braces - count them
+  let braceCount = 0;
+  for (const char of repaired) {
+    if (char === '{') braceCount++;
+    if (char === '}') braceCount--;
+  }
+
+  // Add missing closing braces
+  while (braceCount > 0) {
+    repaired += '}';
+    braceCount--;
+  }
+
+  // Add missing closing brackets for arrays
+  let bracketCount = 0;
+  for (const char of repaired) {
+    if (char === '[') bracketCount++;
+    if (char === ']') bracketCount--;
+  }
+
+  // Find position before final } and add missing ]
+  if (bracketCount > 0) {
+    const lastBracePos = repaired.lastIndexOf('}');
+    if (lastBracePos > 0) {
+      const closingBrackets = ']'.repeat(bracketCount);
+      repaired = repaired.slice(0, lastBracePos) + closingBrackets + repaired.slice(lastBracePos);
+    }
+  }
+
+  return repaired;
+}
+
+/**
+ * Pull the JSON object out of a model response: strips code fences and prose,
+ * then falls back to repairJSON. Throws when nothing parses.
+ */
+export function parseModelJSON(text: string): unknown {
+  // Clean up the response - remove markdown code blocks if present
+  let cleanText = text.trim();
+  if (cleanText.startsWith('```json')) {
+    cleanText = cleanText.slice(7);
+  } else if (cleanText.startsWith('```')) {
+    cleanText = cleanText.slice(3);
+  }
+  if (cleanText.endsWith('```')) {
+    cleanText = cleanText.slice(0, -3);
+  }
+  cleanText = cleanText.trim();
+
+  // Try to extract the first JSON object block if extra prose is present
+  const firstBrace = cleanText.indexOf('{');
+  const lastBrace = cleanText.lastIndexOf('}');
+  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
+    cleanText = cleanText.slice(firstBrace, lastBrace + 1);
+  }
+
+  try {
+    return JSON.parse(cleanText);
+  } catch (firstError) {
+    try {
+      return JSON.parse(repairJSON(cleanText));
+    } catch {
+      // Last resort for stories: keep whatever scenes survive
+      const scenesMatch = cleanText.match(/"scenes"\s*:\s*\[([\s\S]*)\]/);
+      if (scenesMatch) {
+        try {
+          return { scenes: JSON.parse(repairJSON('[' + scenesMatch[1] + ']')) };
+        } catch {
+          // fall through to the original error
+        }
+      }
+      throw firstError;
+    }
+  }
+}
+
+/**
+ * Check a parsed story against the constraints. Invalid fields are corrected
+ * (recast, defaulted or dropped) and each correction is reported as an error.
+ * A story without any scenes can't be corrected and yields a null value.
+ */
+export function validateStory(raw: unknown, constraints: StoryConstraints = DEFAULT_STORY_CONSTRAINTS): AIValidation<ValidatedStory> {
+  const errors: AIFieldIssue[] = [];
+  const issue = (path: string, message: string, value: unknown, correctedTo?: unknown) => {
+    errors.push({ path, message, value, correctedTo });
+  };
+
+  if (!isRecord(raw)) {
+    issue('$', 'Response must be a JSON object with "title" and "scenes"', raw);
+    return { value: null, errors };
+  }
+
+  let title = typeof raw.title === 'string' ? raw.title.trim() : '';
+  if (!title) {
+    title = 'AI Generated Story';
+    issue('title', 'Story title must be a non-empty string', raw.title, title);
+  }
+
+  if (!Array.isArray(raw.scenes) || raw.scenes.length === 0) {
+    issue('scenes', 'Story must have a non-empty "scenes" array', raw.scenes);
+    return { value: null, errors };
+  }
+
+  const scenes: AIGeneratedScene[] = [];
+  raw.scenes.forEach((rawScene: unknown, sceneIndex: number) => {
+    const path = `scenes[${sceneIndex}]`;
+    if (!isRecord(rawScene)) {
+      issue(path, 'Scene must be an object', rawScene, null);
+      return;
+    }
+    scenes.push(validateScene(rawScene, path, constraints, issue));
+  });
+
+  if (scenes.length === 0) {
+    return { value: null, errors };
+  }
+  return { value: { title, scenes }, errors };
+}
+
+/**
+ * Validate a single scene, e.g. one parsed from a stream before the rest of the story
+ */
+export function validateStoryScene(
+  raw: unknown,
+  index: number,
+  constraints: StoryConstraints = DEFAULT_STORY_CONSTRAINTS
+): AIValidation<AIGeneratedScene> {
+  const errors: AIFieldIssue[] = [];
+  const issue = (path: string, message: string, value: unknown, correctedTo?: unknown) => {
+    errors.push({ path, message, value, correctedTo });
+  };
+
+  if (!isRecord(raw)) {
+    issue(`scenes[${index}]`, 'Scene must be an object', raw, null);
+    return { value: null, errors };
+  }
+  return { value: validateScene(raw, `scenes[${index}]`, constraints, issue), errors };
+}
+
+/**
+ * Check a proposed set of branch points for a story of `sceneCount` scenes.
+ * `afterScene` is 1-based in model output and 0-based in the result. Branch
+ * points past `maxBranches`, on a scene that already branches, or without a
+ * usable alternate path are dropped; a plan with no branch points left is null.
+ */
+export function validateBranchPlan(
+  raw: unknown,
+  sceneCount: number,
+  maxBranches: number,
+  constraints: StoryConstraints = DEFAULT_STORY_CONSTRAINTS
+): AIValidation<ValidatedBranchPlan> {
+  const errors: AIFieldIssue[] = [];
+  const issue = (path: string, message: string, value: unknown, correctedTo?: unknown) => {
+    errors.push({ path, message, value, correctedTo });
+  };
+
+  if (!isRecord(raw) || !Array.isArray(raw.branches) || raw.branches.length === 0) {
+    issue('branches', 'Response must be a JSON object with a non-empty "branches" array', isRecord(raw) ? raw.branches : raw);
+    return { value: null, errors };
+  }
+
+  const branches: ValidatedBranchPoint[] = [];
+  raw.branches.forEach((rawBranch: unknown, branchIndex: number) => {
+    const path = `branches[${branchIndex}]`;
+    if (branches.length >= maxBranches) {
+      issue(path, `At most ${maxBranches} branch point(s) are allowed`, rawBranch, null);
+      return;
+    }
+    if (!isRecord(rawBranch)) {
+      issue(path, 'Branch point must be an object', rawBranch, null);
+      return;
+    }
+
+    const afterScene = rawBranch.afterScene;
+    if (typeof afterScene !== 'number' || !Number.isInteger(afterScene) || afterScene < 1 || afterScene > sceneCount) {
+      issue(`${path}.afterScene`, `afterScene must be a scene number from 1 to ${sceneCount}`, afterScene, null);
+      return;
+    }
+    if (branches.some((branch) => branch.afterScene === afterScene - 1)) {
+      issue(`${path}.afterScene`, `Scene ${afterScene} already has a branch point`, afterScene, null);
+      return;
+    }
+
+    let prompt = typeof rawBranch.prompt === 'string' ? rawBranch.prompt.trim() : '';
+    if (!prompt) {
+      prompt = 'What should happen next?';
+      issue(`${path}.prompt`, 'Prompt must be a non-empty string', rawBranch.prompt, prompt);
+    }
+
+    let continueText = typeof rawBranch.continueText === 'string' ? rawBranch.continueText.trim() : '';
+    if (!continueText) {
+      continueText = 'Keep going';
+      issue(`${path}.continueText`, 'continueText must be a non-empty string', rawBranch.continueText, continueText);
+    }
+
+    const rawChoices = Array.isArray(rawBranch.choices) ? rawBranch.choices : [];
+    if (rawChoices.length === 0) {
+      issue(`${path}.choices`, 'Branch point needs a non-empty "choices" array', rawBranch.choices, null);
+      return;
+    }
+
+    const paths: ValidatedBranchPath[] = [];
+    rawChoices.forEach((rawChoice: unknown, choiceIndex: number) => {
+      const choicePath = `${path}.choices[${choiceIndex}]`;
+      if (paths.length >= MAX_BRANCH_ALTERNATES) {
+        issue(choicePath, `At most ${MAX_BRANCH_ALTERNATES} alternate choices are allowed per branch point`, rawChoice, null);
+        return;
+      }
+      if (!isRecord(rawChoice)) {
+        issue(choicePath, 'Choice must be an object', rawChoice, null);
+        return;
+      }
+
+      const choiceText = typeof rawChoice.text === 'string' ? rawChoice.text.trim() : '';
+      if (!choiceText) {
+        issue(`${choicePath}.text`, 'Choice text must be a non-empty string', rawChoice.text, null);
+        return;
+      }
+
+      const rawScenes = Array.isArray(rawChoice.scenes) ? rawChoice.scenes : [];
+      const scenes: AIGeneratedScene[] = [];
+      rawScenes.forEach((rawScene: unknown, sceneIndex: number) => {
+        const scenePath = `${choicePath}.scenes[${sceneIndex}]`;
+        if (scenes.length >= MAX_BRANCH_PATH_SCENES) {
+          issue(scenePath, `At most ${MAX_BRANCH_PATH_SCENES} scenes are allowed per alternate path`, rawScene, null);
+        } else if (!isRecord(rawScene)) {
+          issue(scenePath, 'Scene must be an object', rawScene, null);
+        } else {
+          scenes.push(validateScene(rawScene, scenePath, constraints, issue));
+        }
+      });
+      if (scenes.length === 0) {
+        issue(`${choicePath}.scenes`, 'Alternate path needs a non-empty "scenes" array', rawChoice.scenes, null);
+        return;
+      }
+
+      const rawEnding = isRecord(rawChoice.ending) ? rawChoice.ending : {};
+      if (!isRecord(rawChoice.ending)) {
+        issue(`${choicePath}.ending`, 'Ending must be an object with "type", "title" and "description"', rawChoice.ending);
+      }
+      let endingTitle = typeof rawEnding.title === 'string' ? rawEnding.title.trim() : '';
+      if (!endingTitle) {
+        endingTitle = 'The End';
+        issue(`${choicePath}.ending.title`, 'Ending title must be a non-empty string', rawEnding.title, endingTitle);
+      }
+
+      paths.push({
+        choiceText,
+        scenes,
+        ending: {
+          type: checkEnum(rawEnding.type, [...BRANCH_ENDING_TYPES], 'neutral', `${choicePath}.ending.type`, 'Ending type', issue),
+          title: endingTitle,
+          description: typeof rawEnding.description === 'string' ? rawEnding.description.trim() : '',
+        },
+      });
+    });
+
+    if (paths.length === 0) {
+      issue(path, 'Branch point has no usable alternate choice', rawBranch, null);
+      return;
+    }
+    branches.push({ afterScene: afterScene - 1, prompt, continueText, paths });
+  });
+
+  if (branches.length === 0) {
+    return { value: null, errors };
+  }
+  return { value: { branches }, errors };
+}
+
+/**
+ * Incremental parser for a story that is still being generated. Feed it text
+ * chunks; it returns each scene object as soon as its closing brace arrives.
+ */
+export class StoryStreamParser {
+  private text = '';
+  private position = 0;
+  private scenesStart = -1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private objectStart = -1;
+  private finished = false;
+  private title: string | null = null;
+
+  push(chunk: string): { title: string | null; scenes: unknown[] } {
+    this.text += chunk;
+    const scenes: unknown[] = [];
+
+    if (this.scenesStart === -1) {
+      const match = /"scenes"\s*:\s*\[/.exec(this.text);
+      if (!match) return { title: this.readTitle(), scenes };
+      this.scenesStart = match.index + match[0].length;
+      this.position = this.scenesStart;
+    }
+
+    // Track strings and braces inside the scenes array; depth 0 is the array itself
+    while (!this.finished && this.position < this.text.length) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+      } else if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (this.depth === 0 && char === '{') this.objectStart = this.position;
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        if (this.depth === 0) {
+          this.finished = true; // end of the scenes array
+        } else {
+          this.depth--;
+          if (this.depth === 0 && char === '}' && this.objectStart !== -1) {
+            // Unparseable scenes come through as null so validation reports them
+            scenes.push(parseSceneObject(this.text.slice(this.objectStart, this.position + 1)));
+            this.objectStart = -1;
+          }
+        }
+      }
+      this.position++;
+    }
+
+    return { title: this.readTitle(), scenes };
+  }
+
+  // Story title, once it has been generated (it comes before the scenes)
+  private readTitle(): string | null {
+    if (this.title === null) {
+      const head = this.scenesStart === -1 ? this.text : this.text.slice(0, this.scenesStart);
+      const match = /^\s*(?:```(?:json)?\s*)?\{\s*"title"\s*:\s*"((?:[^"\\]|\\.)*)"/.exec(head);
+      if (match) {
+        try {
+          this.title = JSON.parse(`"${match[1]}"`);
+        } catch {
+          this.title = match[1];
+        }
+      }
+    }
+    return this.title;
+  }
+}
+
+function parseSceneObject(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    try {
+      return JSON.parse(repairJSON(text));
+    } catch {
+      return null;
+    }
+  }
+}
+
+function validateScene(
+  scene: Record<string, unknown>,
+  path: string,
+  constraints: StoryConstraints,
+  issue: (path: string, message: string, value: unknown, correctedTo?: unknown) => void
+): AIGeneratedScene {
+  let title = typeof scene.title === 'string' ? scene.title.trim() : '';
+  if (!title) {
+    title = 'Untitled Scene';
+    issue(`${path}.title`, 'Scene title must be a non-empty string', scene.title, title);
+  }
+
+  let background = typeof scene.background === 'string' ? scene.background.trim().toLowerCase() : '';
+  if (!constraints.backgrounds.includes(background)) {
+    issue(`${path}.background`, `Background must be one of: ${constraints.backgrounds.join(', ')}`, scene.background, constraints.fallbackBackground);
+    background = constraints.fallbackBackground;
+  }
+
+  let narration = typeof scene.narration === 'string' ? scene.narration.trim() : '';
+  if (!narration) {
+    narration = 'Something magical happens...';
+    issue(`${path}.narration`, 'Narration must be a non-empty string', scene.narration, narration);
+  }
+
+  const characters: AIGeneratedScene['characters'] = [];
+  const rawCharacters = Array.isArray(scene.characters) ? scene.characters : [];
+  if (!Array.isArray(scene.characters)) {
+    issue(`${path}.characters`, 'Characters must be an array', scene.characters, []);
+  }
+  rawCharacters.forEach((char: unknown, charIndex: number) => {
+    const charPath = `${path}.characters[${charIndex}]`;
+    const record = isRecord(char) ? char : {};
+
+    let name = matchName(record.name, constraints.characters);
+    if (!name) {
+      const replacement = constraints.strictCast ? null : constraints.characters[0];
+      issue(`${charPath}.name`, `Character must be one of: ${constraints.characters.join(', ')}`, record.name, replacement);
+      if (!replacement) return;
+      name = replacement;
+    }
+
+    characters.push({
+      name,
+      action: checkEnum(record.action, AVAILABLE_ACTIONS, 'idle', `${charPath}.action`, 'Action', issue),
+      position: checkEnum(record.position, AVAILABLE_POSITIONS, 'center', `${charPath}.position`, 'Position', issue),
+      expression: checkEnum(record.expression, AVAILABLE_EXPRESSIONS, 'happy', `${charPath}.expression`, 'Expression', issue),
+    });
+  });
+
+  let dialogue: AIGeneratedScene['dialogue'];
+  if (Array.isArray(scene.dialogue)) {
+    dialogue = [];
+    scene.dialogue.forEach((line: unknown, lineIndex: number) => {
+      const linePath = `${path}.dialogue[${lineIndex}]`;
+      const record = isRecord(line) ? line : {};
+      const text = typeof record.text === 'string' ? record.text.trim() : '';
+      const speaker = typeof record.speaker === 'string' ? record.speaker.trim() : '';
+
+      if (!speaker || !text) {
+        issue(linePath, 'Dialogue lines need a "speaker" and non-empty "text"', line, null);
+        return;
+      }
+      dialogue!.push({ speaker: matchName(speaker, constraints.characters) || speaker, text });
+    });
+  } else if (scene.dialogue !== undefined) {
+    issue(`${path}.dialogue`, 'Dialogue must be an array', scene.dialogue, null);
+  }
+
+  let mood = typeof scene.mood === 'string' ? scene.mood.trim() : '';
+  if (!mood) {
+    mood = constraints.fallbackMood;
+    if (scene.mood !== undefined) {
+      issue(`${path}.mood`, 'Mood must be a string', scene.mood, mood);
+    }
+  }
+
+  let duration = DEFAULT_SCENE_DURATION;
+  if (typeof scene.duration === 'number' && scene.duration >= MIN_SCENE_DURATION && scene.duration <= MAX_SCENE_DURATION) {
+    duration = Math.round(scene.duration);
+  } else if (scene.duration !== undefined) {
+    issue(`${path}.duration`, `Duration must be a number of ms between ${MIN_SCENE_DURATION} and ${MAX_SCENE_DURATION}`, scene.duration, duration);
+  }
+
+  return { title, background, narration, characters, dialogue, mood, duration };
+}
+
+function checkEnum<T extends string>(
+  value: unknown,
+  allowed: T[],
+  fallback: T,
+  path: string,
+  label: string,
+  issue: (path: string, message: string, value: unknown, correctedTo?: unknown) => void
+): T {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  const match = allowed.find((option) => option === normalized);
+  if (match) return match;
+
+  issue(path, `${label} must be one of: ${allowed.join(', ')}`, value, fallback);
+  return fallback;
+}
+
+/**
+ * Error list for a re-prompt, one line per field
+ */
+export function formatValidationErrors(errors: AIFieldIssue[]): string {
+  return errors
+    .map((error) => {
+      if (!('value' in error)) return `- ${error.path}: ${error.message}`;
+      const value = error.value === undefined ? 'missing' : JSON.stringify(error.value);
+      return `- ${error.path}: ${error.message} (got ${value && value.length > 80 ? `${value.slice(0, 77)}...` : value})`;
+    })
+    .join('\n');
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,79 +1,42 @@
 /**
- * AI Service - Integrates Gemini and OpenAI for story generation
- * Uses Gemini as primary, OpenAI as fallback
+ * AI Service - Story generation through the AI provider registry
+ * Tries each configured text provider in order, then a canned fallback story
  */
-import { GoogleGenAI } from '@google/genai';
-import { AIStoryRequest, AIGeneratedScene, AIStoryResponse } from './ai-types';
-
-// Available backgrounds in the app - expanded list
-const AVAILABLE_BACKGROUNDS = [
-  'meadow', 'forest', 'beach', 'night', 'bedroom', 'park',
-  'castle', 'space', 'underwater', 'mountain', 'city', 'farm',
-  'playground', 'library', 'kitchen', 'garden'
-];
-
-// Available actions - expanded list
-const AVAILABLE_ACTIONS = [
-  'idle', 'walk', 'run', 'wave', 'dance', 'jump', 'talk', 'surprised',
-  'sit', 'sleep', 'eat', 'read', 'play', 'think', 'laugh', 'cry',
-  'hug', 'point', 'clap', 'spin', 'fly', 'swim', 'climb'
-];
-
-// Available characters - expanded list
-const AVAILABLE_CHARACTERS = [
-  'luna', 'max', 'emma', 'whiskers', 'buddy', 'cotton',
-  'milo', 'coco', 'pip', 'ruby', 'oliver', 'daisy',
-  'felix', 'bella', 'charlie', 'rosie'
-];
-
-// Character personas/templates for richer storytelling
-export const CHARACTER_PERSONAS: Record<string, { description: string; traits: string[]; voiceStyle: string }> = {
-  luna: {
-    description: 'A curious and adventurous young girl with a love for exploration',
-    traits: ['curious', 'brave', 'kind', 'imaginative'],
-    voiceStyle: 'cheerful and enthusiastic'
-  },
-  max: {
-    description: 'A playful and energetic boy who loves sports and games',
-    traits: ['energetic', 'friendly', 'competitive', 'loyal'],
-    voiceStyle: 'excited and upbeat'
-  },
-  emma: {
-    description: 'A thoughtful and creative girl who loves art and nature',
-    traits: ['creative', 'gentle', 'observant', 'caring'],
-    voiceStyle: 'soft and warm'
-  },
-  whiskers: {
-    description: 'A clever and mischievous cat with a heart of gold',
-    traits: ['clever', 'playful', 'independent', 'affectionate'],
-    voiceStyle: 'sly but friendly'
-  },
-  buddy: {
-    description: 'A loyal and friendly dog who loves everyone',
-    traits: ['loyal', 'happy', 'protective', 'silly'],
-    voiceStyle: 'eager and joyful'
-  },
-  cotton: {
-    description: 'A fluffy and gentle bunny who loves carrots and cuddles',
-    traits: ['gentle', 'shy', 'sweet', 'cuddly'],
-    voiceStyle: 'quiet and adorable'
-  },
-  milo: {
-    description: 'A wise and patient owl who loves to teach',
-    traits: ['wise', 'patient', 'helpful', 'knowledgeable'],
-    voiceStyle: 'calm and thoughtful'
-  },
-  coco: {
-    description: 'A cheerful and colorful parrot who loves to sing',
-    traits: ['musical', 'colorful', 'talkative', 'entertaining'],
-    voiceStyle: 'melodic and expressive'
-  },
-  pip: {
-    description: 'A tiny but brave mouse with big dreams',
-    traits: ['brave', 'determined', 'resourceful', 'optimistic'],
-    voiceStyle: 'small but confident'
-  }
-};
+import {
+  AIStoryRequest,
+  AIGeneratedScene,
+  AIStoryResponse,
+  AIStoryContinuationRequest,
+  AIStoryContextScene,
+  AIFieldIssue,
+  AIStoryStreamEvent,
+  AIBranchingRequest,
+  AIBranchingResponse,
+  AIBranchScene,
+} from './ai-types';
+import { AIRequestOptions, AITextRequest, getAIProviderRegistry } from './ai-providers';
+import {
+  AIValidation,
+  AIValidationError,
+  AVAILABLE_ACTIONS,
+  AVAILABLE_BACKGROUNDS,
+  AVAILABLE_CHARACTERS,
+  BRANCH_ENDING_TYPES,
+  MAX_BRANCH_ALTERNATES,
+  MAX_BRANCH_PATH_SCENES,
+  StoryConstraints,
+  StoryStreamParser,
+  ValidatedBranchPlan,
+  formatValidationErrors,
+  matchName,
+  parseModelJSON,
+  validateBranchPlan,
+  validateStory,
+  validateStoryScene,
+} from './ai-schema';
+import { BRANCHING_FORMAT_VERSION, StoryNode } from '@/lib/utils/story-branching';
+import { analyzeBranchingStory } from '@/lib/utils/story-branching-analyzer';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
 
 // Story genre templates
 export const GENRE_TEMPLATES = {
@@ -105,14 +68,15 @@ export const GENRE_TEMPLATES = {
 };
 
 // Build system prompt dynamically with character personas
-function buildSystemPrompt(selectedCharacters?: string[]): string {
+function buildSystemPrompt(selectedCharacters?: string[], characterNames: string[] = AVAILABLE_CHARACTERS): string {
   // Build character descriptions for selected characters
   let characterDescriptions = '';
   if (selectedCharacters && selectedCharacters.length > 0) {
+    const registry = getCharacterRegistry();
     const descriptions = selectedCharacters
-      .filter(c => CHARACTER_PERSONAS[c.toLowerCase()])
+      .filter(c => registry.getPersona(c))
       .map(c => {
-        const persona = CHARACTER_PERSONAS[c.toLowerCase()];
+        const persona = registry.getPersona(c)!;
         return `- ${c}: ${persona.description}. Traits: ${persona.traits.join(', ')}. Voice: ${persona.voiceStyle}`;
       });
     if (descriptions.length > 0) {
@@ -132,7 +96,7 @@ CRITICAL JSON RULES - FOLLOW EXACTLY:
 
 Available backgrounds: ${AVAILABLE_BACKGROUNDS.join(', ')}
 Available character actions: ${AVAILABLE_ACTIONS.join(', ')}
-Available character names: ${AVAILABLE_CHARACTERS.join(', ')}${characterDescriptions}
+Available character names: ${characterNames.join(', ')}${characterDescriptions}
 
 Story Guidelines:
 - Keep language simple and age-appropriate (ages 3-7)
@@ -148,89 +112,6 @@ Generate a story with this EXACT JSON structure:
 Follow this structure exactly. Include 1-2 dialogue lines per scene. Use ONLY the available character names, actions, and backgrounds listed above.`;
 }
 
-/**
- * Generate story using Google Gemini API
- */
-async function generateWithGemini(request: AIStoryRequest): Promise<AIStoryResponse> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY not configured');
-  }
-
-  const userPrompt = buildUserPrompt(request);
-  const systemPrompt = buildSystemPrompt(request.characters);
-  const combinedPrompt = `${systemPrompt}\n\n${userPrompt}`;
-
-  const client = new GoogleGenAI({ apiKey });
-
-  const result = await client.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: combinedPrompt,
-    config: {
-      temperature: 0.8,
-      topK: 40,
-      topP: 0.95,
-      maxOutputTokens: 2048,
-    },
-  });
-
-  const text = (result as any).text as string | undefined;
-
-  if (!text) {
-    throw new Error('No response from Gemini');
-  }
-
-  const story = parseStoryResponse(text);
-  return { ...story, provider: 'gemini' };
-}
-
-/**
- * Generate story using OpenAI API
- */
-async function generateWithOpenAI(request: AIStoryRequest): Promise<AIStoryResponse> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY not configured');
-  }
-
-  const userPrompt = buildUserPrompt(request);
-  const systemPrompt = buildSystemPrompt(request.characters);
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.8,
-      max_tokens: 2048,
-    })
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${error}`);
-  }
-
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content;
-
-  if (!text) {
-    throw new Error('No response from OpenAI');
-  }
-
-  const story = parseStoryResponse(text);
-  return { ...story, provider: 'openai' };
-}
-
 /**
  * Build user prompt from request
  */
@@ -256,187 +137,586 @@ function buildUserPrompt(request: AIStoryRequest): string {
   return prompt;
 }
 
+// Re-prompts allowed after the first response fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+// Longest previous response quoted back in a re-prompt
+const MAX_REPAIR_ECHO = 6000;
+
+export interface AIValidatedResult<T> {
+  value: T;
+  provider: string;
+  model: string;
+  attempts: number;
+  // Fields that were still invalid after the last attempt and were auto-corrected
+  corrections: AIFieldIssue[];
+}
+
 /**
- * Attempt to repair common JSON issues from AI responses
+ * Generate JSON with a text provider and validate it. When validation fails the
+ * same provider is re-prompted with the field errors, up to MAX_REPAIR_ATTEMPTS
+ * times; the best usable response is then auto-corrected. Throws when no
+ * response could be used at all (AIValidationError when the provider answered).
  */
-function repairJSON(text: string): string {
-  let repaired = text;
-  
-  // Remove trailing commas before closing brackets
-  repaired = repaired.replace(/,(\s*[\]}])/g, '$1');
-  
-  // Fix unterminated strings by finding incomplete string patterns
-  // Look for strings that start but don't end before a comma, bracket, or newline
-  repaired = repaired.replace(/"([^"\\]*(\\.[^"\\]*)*)(?=\s*[,}\]\n])/g, (match) => {
-    if (!match.endsWith('"')) {
-      return match + '"';
+export async function generateValidatedJSON<T>(
+  request: AITextRequest,
+  validate: (raw: unknown) => AIValidation<T>,
+  options: AIRequestOptions = {}
+): Promise<AIValidatedResult<T>> {
+  const registry = getAIProviderRegistry();
+  let best: AIValidation<T> | null = null;
+  let lastErrors: AIFieldIssue[] = [];
+  let prompt = request.prompt;
+  let callOptions = options;
+  let provider = '';
+  let model = '';
+  let attempts = 0;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    let text: string;
+    try {
+      const response = await registry.generateText({ ...request, prompt }, callOptions);
+      text = response.result;
+      provider = response.provider;
+      model = response.model;
+    } catch (error) {
+      // Nothing to fall back on yet; otherwise keep the best response so far
+      if (attempt === 0) throw error;
+      console.warn('AI re-prompt failed:', error);
+      break;
+    }
+    attempts++;
+
+    let validation: AIValidation<T>;
+    try {
+      validation = validate(parseModelJSON(text));
+    } catch (error) {
+      validation = {
+        value: null,
+        errors: [{ path: '$', message: `Response is not valid JSON (${error instanceof Error ? error.message : String(error)})` }],
+      };
+    }
+
+    if (validation.value !== null && (!best || validation.errors.length < best.errors.length)) {
+      best = validation;
+    }
+    if (validation.value !== null && validation.errors.length === 0) break;
+
+    lastErrors = validation.errors;
+    if (attempt < MAX_REPAIR_ATTEMPTS) {
+      console.warn(`AI output failed validation (${validation.errors.length} errors), re-prompting ${provider}...`);
+      // Ask the same provider and model to fix its own output
+      callOptions = { ...options, provider, model };
+      prompt = buildRepairPrompt(request.prompt, text, validation.errors);
     }
-    return match;
-  });
-  
-  // Remove any characters after the last closing brace
-  const lastBrace = repaired.lastIndexOf('}');
-  if (lastBrace !== -1) {
-    repaired = repaired.slice(0, lastBrace + 1);
-  }
-  
-  // Ensure we have balanced braces - count them
-  let braceCount = 0;
-  for (const char of repaired) {
-    if (char === '{') braceCount++;
-    if (char === '}') braceCount--;
   }
-  
-  // Add missing closing braces
-  while (braceCount > 0) {
-    repaired += '}';
-    braceCount--;
+
+  if (!best || best.value === null) {
+    throw new AIValidationError(lastErrors);
   }
-  
-  // Add missing closing brackets for arrays
-  let bracketCount = 0;
-  for (const char of repaired) {
-    if (char === '[') bracketCount++;
-    if (char === ']') bracketCount--;
+  if (best.errors.length > 0) {
+    console.warn('Auto-corrected AI output fields:', best.errors.map((error) => error.path).join(', '));
   }
-  
-  // Find position before final } and add missing ]
-  if (bracketCount > 0) {
-    const lastBracePos = repaired.lastIndexOf('}');
-    if (lastBracePos > 0) {
-      const closingBrackets = ']'.repeat(bracketCount);
-      repaired = repaired.slice(0, lastBracePos) + closingBrackets + repaired.slice(lastBracePos);
-    }
+
+  return { value: best.value, provider, model, attempts, corrections: best.errors };
+}
+
+function buildRepairPrompt(originalPrompt: string, previousOutput: string, errors: AIFieldIssue[]): string {
+  return `${originalPrompt}
+
+Your previous response did not match the required JSON structure. Problems:
+${formatValidationErrors(errors)}
+
+Previous response:
+${previousOutput.slice(0, MAX_REPAIR_ECHO)}
+
+Return the complete corrected JSON only, fixing every field listed above and keeping everything else the same.`;
+}
+
+/**
+ * Main function to generate story with AI
+ * Without options.provider every configured provider is tried in order;
+ * with it, only that provider is used
+ */
+export async function generateAIStory(request: AIStoryRequest, options: AIRequestOptions = {}): Promise<AIStoryResponse> {
+  try {
+    const { value, provider, model, attempts, corrections } = await generateValidatedJSON(
+      {
+        systemPrompt: buildSystemPrompt(request.characters),
+        prompt: buildUserPrompt(request),
+        temperature: 0.8,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: 2048,
+      },
+      (raw) => validateStory(raw),
+      options
+    );
+
+    return { ...value, success: true, provider, model, attempts, corrections };
+  } catch (error) {
+    console.error('AI story generation failed:', error);
+
+    // Return fallback story
+    return generateFallbackStory(request);
   }
-  
-  return repaired;
 }
 
 /**
- * Parse AI response into story structure
+ * Generate a story and yield each scene as soon as the provider has written it.
+ * Streamed scenes can't be taken back, so they are auto-corrected instead of
+ * re-prompted. If the stream produced no usable scene, the regular validated
+ * generation (and finally the fallback story) is used instead.
+ * Stops quietly when options.signal aborts.
  */
-function parseStoryResponse(text: string): Omit<AIStoryResponse, 'provider'> {
+export async function* streamAIStory(
+  request: AIStoryRequest,
+  options: AIRequestOptions = {}
+): AsyncGenerator<AIStoryStreamEvent> {
+  const sceneCount = request.sceneCount || 3;
+  const parser = new StoryStreamParser();
+  const scenes: AIGeneratedScene[] = [];
+  const corrections: AIFieldIssue[] = [];
+  let provider = '';
+  let model = '';
+  let title: string | null = null;
+  let rawSceneCount = 0;
+  let streamError: string | undefined;
+
   try {
-    // Clean up the response - remove markdown code blocks if present
-    let cleanText = text.trim();
-    if (cleanText.startsWith('```json')) {
-      cleanText = cleanText.slice(7);
-    } else if (cleanText.startsWith('```')) {
-      cleanText = cleanText.slice(3);
-    }
-    if (cleanText.endsWith('```')) {
-      cleanText = cleanText.slice(0, -3);
-    }
-    cleanText = cleanText.trim();
-    
-    // Try to extract the first JSON object block if extra prose is present
-    const firstBrace = cleanText.indexOf('{');
-    const lastBrace = cleanText.lastIndexOf('}');
-    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-      cleanText = cleanText.slice(firstBrace, lastBrace + 1);
-    }
+    const chunks = getAIProviderRegistry().streamText(
+      {
+        systemPrompt: buildSystemPrompt(request.characters),
+        prompt: buildUserPrompt(request),
+        temperature: 0.8,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: Math.max(2048, sceneCount * 400),
+      },
+      options
+    );
+
+    for await (const chunk of chunks) {
+      if (!provider) {
+        provider = chunk.provider;
+        model = chunk.model;
+        yield { type: 'start', provider, model };
+      }
 
-    // First attempt: try parsing as-is
-    let parsed;
-    try {
-      parsed = JSON.parse(cleanText);
-    } catch (firstError) {
-      // Second attempt: try to repair the JSON
-      console.log('First JSON parse failed, attempting repair...');
-      const repairedText = repairJSON(cleanText);
-      try {
-        parsed = JSON.parse(repairedText);
-        console.log('JSON repair successful');
-      } catch (secondError) {
-        // Third attempt: try to extract just the scenes array
-        console.log('JSON repair failed, attempting to extract scenes...');
-        const scenesMatch = cleanText.match(/"scenes"\s*:\s*\[([\s\S]*)\]/);
-        if (scenesMatch) {
-          try {
-            const scenesText = '[' + scenesMatch[1] + ']';
-            const repairedScenes = repairJSON(scenesText);
-            const scenes = JSON.parse(repairedScenes);
-            parsed = { title: 'AI Generated Story', scenes };
-            console.log('Scenes extraction successful');
-          } catch {
-            throw firstError; // Re-throw original error
-          }
-        } else {
-          throw firstError;
-        }
+      const parsed = parser.push(chunk.text);
+      if (parsed.title && title === null) {
+        title = parsed.title;
+        yield { type: 'title', title };
+      }
+
+      for (const rawScene of parsed.scenes) {
+        const { value, errors } = validateStoryScene(rawScene, rawSceneCount++);
+        corrections.push(...errors);
+        if (!value || scenes.length >= sceneCount) continue;
+
+        scenes.push(value);
+        yield { type: 'scene', index: scenes.length - 1, scene: value, corrections: errors };
       }
     }
-    
-    // Validate and sanitize the response
-    const rawScenes = Array.isArray(parsed.scenes) ? parsed.scenes : [];
-    const scenes: AIGeneratedScene[] = rawScenes.map((scene: any) => {
-      const characters = (scene.characters || []).map((char: any) => ({
-        name: AVAILABLE_CHARACTERS.includes(char.name?.toLowerCase()) ? char.name.toLowerCase() : 'luna',
-        action: AVAILABLE_ACTIONS.includes(char.action) ? char.action : 'idle',
-        position: ['left', 'center', 'right'].includes(char.position) ? char.position : 'center',
-        expression: ['happy', 'sad', 'surprised', 'neutral', 'angry'].includes(char.expression) ? char.expression : 'happy',
-      }));
-
-      const dialogue = Array.isArray(scene.dialogue)
-        ? scene.dialogue
-            .map((line: any) => ({
-              speaker: typeof line.speaker === 'string' ? line.speaker : '',
-              text: typeof line.text === 'string' ? line.text.trim() : '',
-            }))
-            .filter((line: any) => line.speaker && line.text)
-        : undefined;
-
-      return {
-        title: scene.title || 'Untitled Scene',
-        background: AVAILABLE_BACKGROUNDS.includes(scene.background) ? scene.background : 'meadow',
-        narration: scene.narration || 'Something magical happens...',
-        characters,
-        dialogue,
-        mood: scene.mood || 'happy',
-        duration: scene.duration || 5000,
-      };
-    });
+  } catch (error) {
+    if (options.signal?.aborted) return;
+    console.error('AI story stream failed:', error);
+    streamError = `Story stream ended early: ${error instanceof Error ? error.message : String(error)}`;
+  }
 
-    return {
-      title: parsed.title || 'AI Generated Story',
+  if (options.signal?.aborted) return;
+
+  if (scenes.length === 0) {
+    // Nothing usable was streamed; generate the whole story the regular way
+    const story = await generateAIStory(request, options);
+    yield { type: 'start', provider: story.provider, model: story.model };
+    yield { type: 'title', title: story.title };
+    for (const [index, scene] of story.scenes.entries()) {
+      yield { type: 'scene', index, scene, corrections: [] };
+    }
+    yield { type: 'done', story };
+    return;
+  }
+
+  if (corrections.length > 0) {
+    console.warn('Auto-corrected streamed AI output fields:', corrections.map((c) => c.path).join(', '));
+  }
+
+  yield {
+    type: 'done',
+    story: {
+      title: title || 'AI Generated Story',
       scenes,
       success: true,
+      error: streamError,
+      provider,
+      model,
+      attempts: 1,
+      corrections,
+    },
+  };
+}
+
+// Scenes summarized one line each before the last few are given in full
+const MAX_SUMMARIZED_SCENES = 20;
+const FULL_CONTEXT_SCENES = 2;
+
+/**
+ * Continue an existing story. The provider gets a summary of the story so far
+ * (cast, settings, tone, open threads, desired ending) and the new scenes are
+ * held to the same cast and settings.
+ */
+export async function continueAIStory(
+  request: AIStoryContinuationRequest,
+  options: AIRequestOptions = {}
+): Promise<AIStoryResponse> {
+  const cast = getContinuationCast(request);
+  const usedBackgrounds = Array.from(new Set(request.scenes.map((scene) => scene.background).filter(Boolean)));
+  const tone = getStoryTone(request);
+  const constraints: StoryConstraints = {
+    characters: cast,
+    backgrounds: Array.from(new Set([...usedBackgrounds, ...AVAILABLE_BACKGROUNDS])),
+    fallbackBackground: request.scenes[request.scenes.length - 1]?.background || 'meadow',
+    fallbackMood: tone,
+    strictCast: true,
+  };
+
+  try {
+    const { value, provider, model, attempts, corrections } = await generateValidatedJSON(
+      {
+        systemPrompt: buildSystemPrompt(cast, cast),
+        prompt: buildContinuationPrompt(request, cast, usedBackgrounds, tone),
+        temperature: 0.7,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: 2048,
+      },
+      (raw) => validateStory(raw, constraints),
+      options
+    );
+
+    return {
+      title: request.title || value.title,
+      scenes: value.scenes.slice(0, request.sceneCount || 3),
+      success: true,
+      provider,
+      model,
+      attempts,
+      corrections,
     };
   } catch (error) {
-    console.error('Failed to parse AI response:', error);
+    console.error('AI story continuation failed:', error);
     return {
-      title: 'Error',
+      title: request.title || 'Untitled Story',
       scenes: [],
       success: false,
-      error: 'Failed to parse AI response',
+      error: 'AI continuation unavailable',
+      provider: 'fallback',
     };
   }
 }
 
+// Requested cast, or everyone who has appeared so far
+function getContinuationCast(request: AIStoryContinuationRequest): string[] {
+  const names = request.characters?.length
+    ? request.characters
+    : request.scenes.flatMap((scene) => (scene.characters || []).map((char) => char.name));
+
+  const cast: string[] = [];
+  for (const name of names) {
+    if (typeof name === 'string' && name.trim() && !matchName(name, cast)) {
+      cast.push(name.trim());
+    }
+  }
+  return cast.length > 0 ? cast : ['luna'];
+}
+
+// Most common scene mood, else the genre
+function getStoryTone(request: AIStoryContinuationRequest): string {
+  const counts = new Map<string, number>();
+  request.scenes.forEach((scene) => {
+    if (scene.mood) counts.set(scene.mood, (counts.get(scene.mood) || 0) + 1);
+  });
+  const [mostCommon] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  return mostCommon?.[0] || request.genre || 'happy';
+}
+
+function summarizeScene(scene: AIStoryContextScene, index: number, full: boolean): string {
+  const who = (scene.characters || []).map((char) => char.name).join(', ') || 'no characters';
+  const narration = full || scene.narration.length <= 160 ? scene.narration : `${scene.narration.slice(0, 157)}...`;
+  let line = `${index + 1}. "${scene.title}" (${scene.background}; ${who}): ${narration}`;
+
+  if (full && scene.dialogue?.length) {
+    line += ` Dialogue: ${scene.dialogue.map((d) => `${d.speaker}: "${d.text}"`).join(' ')}`;
+  }
+  return line;
+}
+
 /**
- * Main function to generate story with AI
- * Tries Gemini first, falls back to OpenAI
+ * Context summary plus instructions for the next scenes
+ */
+function buildContinuationPrompt(
+  request: AIStoryContinuationRequest,
+  cast: string[],
+  usedBackgrounds: string[],
+  tone: string
+): string {
+  const sceneCount = request.sceneCount || 3;
+  const scenes = request.scenes;
+  const fullFrom = Math.max(0, scenes.length - FULL_CONTEXT_SCENES);
+  const summaryFrom = Math.max(0, fullFrom - MAX_SUMMARIZED_SCENES);
+
+  const sceneLines: string[] = [];
+  if (summaryFrom > 0) {
+    sceneLines.push(`(${summaryFrom} earlier scenes omitted)`);
+  }
+  for (let i = summaryFrom; i < scenes.length; i++) {
+    sceneLines.push(summarizeScene(scenes[i], i, i >= fullFrom));
+  }
+
+  const parts = [
+    `Continue the children's story${request.title ? ` "${request.title}"` : ''} with ${sceneCount} new scenes that follow on directly from the last scene.`,
+    `Cast (use ONLY these characters, with the same names): ${cast.join(', ')}`,
+    `Settings used so far: ${usedBackgrounds.join(', ') || 'none'}. Prefer staying in these settings; only move somewhere new if the story travels there.`,
+    `Tone: ${tone}${request.genre ? ` (${request.genre} genre)` : ''}. Keep the same tone and narration style.`,
+  ];
+  if (request.targetAudience) {
+    parts.push(`Audience: ${request.targetAudience}`);
+  }
+  parts.push(`Story so far:\n${sceneLines.join('\n')}`);
+
+  const threads = (request.plotThreads || []).filter((thread) => thread.trim());
+  if (threads.length > 0) {
+    parts.push(`Unresolved plot threads to pick up:\n${threads.map((thread) => `- ${thread.trim()}`).join('\n')}`);
+  }
+  parts.push(
+    request.ending?.trim()
+      ? `The final new scene must end the story like this: ${request.ending.trim()}`
+      : 'The final new scene should bring the story to a satisfying, happy conclusion.'
+  );
+  parts.push('Do not repeat or rewrite earlier scenes. Use the same JSON structure, with "title" set to the story title and "scenes" holding only the new scenes.');
+
+  return parts.join('\n\n');
+}
+
+const MAX_BRANCH_POINTS = 3;
+
+/**
+ * Turn a linear story into a branching one. The provider proposes branch
+ * points after existing scenes, each with alternate choices that play a few
+ * new scenes and end in their own good, neutral or secret ending. The original
+ * scenes stay the main path, ending happily.
  */
-export async function generateAIStory(request: AIStoryRequest): Promise<AIStoryResponse> {
-  // Try Gemini first
+export async function generateAIBranches(
+  request: AIBranchingRequest,
+  options: AIRequestOptions = {}
+): Promise<AIBranchingResponse> {
+  const cast = getContinuationCast(request);
+  const usedBackgrounds = Array.from(new Set(request.scenes.map((scene) => scene.background).filter(Boolean)));
+  const branchCount = Math.min(Math.max(request.branchCount || 1, 1), MAX_BRANCH_POINTS, request.scenes.length);
+  const constraints: StoryConstraints = {
+    characters: cast,
+    backgrounds: Array.from(new Set([...usedBackgrounds, ...AVAILABLE_BACKGROUNDS])),
+    fallbackBackground: request.scenes[0]?.background || 'meadow',
+    fallbackMood: getStoryTone(request),
+    strictCast: true,
+  };
+
   try {
-    console.log('Attempting story generation with Gemini...');
-    return await generateWithGemini(request);
-  } catch (geminiError) {
-    console.warn('Gemini failed, trying OpenAI:', geminiError);
-    
-    // Try OpenAI as fallback
+    const { value, provider, model, attempts, corrections } = await generateValidatedJSON(
+      {
+        systemPrompt: buildSystemPrompt(cast, cast),
+        prompt: buildBranchingPrompt(request, cast, branchCount),
+        temperature: 0.8,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: 4096,
+      },
+      (raw) => validateBranchPlan(raw, request.scenes.length, branchCount, constraints),
+      options
+    );
+
+    return { ...assembleBranchingStory(request, value), success: true, provider, model, attempts, corrections };
+  } catch (error) {
+    console.error('AI branch generation failed:', error);
+
+    // Return fallback branches
     try {
-      return await generateWithOpenAI(request);
-    } catch (openaiError) {
-      console.error('OpenAI also failed:', openaiError);
-      
-      // Return fallback story
-      return generateFallbackStory(request);
+      return { ...assembleBranchingStory(request, generateFallbackBranchPlan(request, cast)), success: true, provider: 'fallback' };
+    } catch (fallbackError) {
+      console.error('Fallback branch generation failed:', fallbackError);
+      return { story: null, scenes: [], success: false, error: 'AI branching unavailable', provider: 'fallback' };
     }
   }
 }
 
+/**
+ * Numbered story plus instructions for the branch plan
+ */
+function buildBranchingPrompt(request: AIBranchingRequest, cast: string[], branchCount: number): string {
+  const sceneLines = request.scenes.map((scene, index) => summarizeScene(scene, index, false));
+  const sceneShape = '{"title":"...","background":"...","narration":"...","characters":[...],"dialogue":[...],"mood":"...","duration":5000}';
+
+  const parts = [
+    `Turn the children's story${request.title ? ` "${request.title}"` : ''} into an interactive story with ${branchCount} branch point${branchCount === 1 ? '' : 's'}.`,
+    `Story (scene numbers in front):\n${sceneLines.join('\n')}`,
+    `Cast (use ONLY these characters, with the same names): ${cast.join(', ')}`,
+    `At each branch point the viewer chooses between continuing the original story and 1-${MAX_BRANCH_ALTERNATES} alternate choices. Each alternate plays 1-${MAX_BRANCH_PATH_SCENES} new scenes and then ends the story its own way.`,
+    `Ending types: ${BRANCH_ENDING_TYPES.join(', ')}. The original story already has the good ending, so prefer neutral endings (a different but still happy outcome) and at most one secret ending (a surprising discovery). Every ending must be gentle and age-appropriate.`,
+  ];
+  if (request.genre) {
+    parts.push(`Genre: ${request.genre}`);
+  }
+  if (request.targetAudience) {
+    parts.push(`Audience: ${request.targetAudience}`);
+  }
+  parts.push(
+    'Pick moments where the characters could believably decide something. Each branch point must follow a different scene, and the new scenes must follow on directly from that scene.',
+    `Instead of a whole story, respond with this EXACT JSON structure, where each scene uses the scene structure above:\n{"branches":[{"afterScene":2,"prompt":"Question for the viewer","continueText":"Choice that keeps to the original story","choices":[{"text":"Alternate choice","scenes":[${sceneShape}],"ending":{"type":"neutral","title":"Ending title","description":"One sentence shown at the end"}}]}]}`
+  );
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Branching story over the request scenes: the original scenes run in order to
+ * a good ending, and each branch point adds a choice node after its scene
+ */
+function assembleBranchingStory(
+  request: AIBranchingRequest,
+  plan: ValidatedBranchPlan
+): Pick<AIBranchingResponse, 'story' | 'scenes'> {
+  const storyId = `story-${Date.now()}`;
+  const nodes: StoryNode[] = [];
+  const scenes: AIBranchScene[] = [];
+  const mainEndingId = 'ending-main';
+  const mainNodeId = (index: number) => (index < request.scenes.length ? `scene-${index}` : mainEndingId);
+
+  request.scenes.forEach((scene, index) => {
+    const branch = plan.branches.find((point) => point.afterScene === index);
+    nodes.push({
+      id: `scene-${index}`,
+      type: 'scene',
+      sceneId: scene.id,
+      nextNodeId: branch ? `choice-${index}` : mainNodeId(index + 1),
+    });
+    if (!branch) return;
+
+    nodes.push({
+      id: `choice-${index}`,
+      type: 'choice',
+      prompt: branch.prompt,
+      choices: [
+        { id: `choice-${index}-0`, text: branch.continueText, targetNodeId: mainNodeId(index + 1) },
+        ...branch.paths.map((path, pathIndex) => ({
+          id: `choice-${index}-${pathIndex + 1}`,
+          text: path.choiceText,
+          targetNodeId: `branch-${index}-${pathIndex}-0`,
+        })),
+      ],
+    });
+
+    branch.paths.forEach((path, pathIndex) => {
+      const endingId = `ending-${index}-${pathIndex}`;
+      path.scenes.forEach((branchScene, sceneIndex) => {
+        const sceneId = `${storyId}-branch-${index}-${pathIndex}-${sceneIndex}`;
+        scenes.push({ ...branchScene, id: sceneId });
+        nodes.push({
+          id: `branch-${index}-${pathIndex}-${sceneIndex}`,
+          type: 'scene',
+          sceneId,
+          nextNodeId: sceneIndex < path.scenes.length - 1 ? `branch-${index}-${pathIndex}-${sceneIndex + 1}` : endingId,
+        });
+      });
+      nodes.push({
+        id: endingId,
+        type: 'ending',
+        endingType: path.ending.type,
+        endingTitle: path.ending.title,
+        endingDescription: path.ending.description || undefined,
+      });
+    });
+  });
+
+  nodes.push({
+    id: mainEndingId,
+    type: 'ending',
+    endingType: 'good',
+    endingTitle: 'The End',
+    endingDescription: 'Thanks for watching!',
+  });
+
+  const now = Date.now();
+  const story = {
+    version: BRANCHING_FORMAT_VERSION,
+    id: storyId,
+    title: request.title || 'Interactive Story',
+    description: '',
+    startNodeId: 'scene-0',
+    nodes,
+    variables: [],
+    endings: nodes.filter((node) => node.type === 'ending').map((node) => node.id),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const sceneTitles = Object.fromEntries(
+    [...request.scenes, ...scenes].map((scene) => [scene.id, scene.title])
+  );
+  const problems = analyzeBranchingStory({ ...story, nodes: new Map(nodes.map((node) => [node.id, node])) }, { sceneTitles })
+    .issues.filter((issue) => issue.severity === 'error');
+  if (problems.length > 0) {
+    throw new Error(`Assembled branching story is invalid: ${problems.map((issue) => issue.message).join('; ')}`);
+  }
+
+  return { story, scenes };
+}
+
+/**
+ * Canned branch point halfway through the story, used when AI is unavailable
+ */
+function generateFallbackBranchPlan(request: AIBranchingRequest, cast: string[]): ValidatedBranchPlan {
+  const afterScene = Math.floor((request.scenes.length - 1) / 2);
+  const scene = request.scenes[afterScene];
+  const hero = cast[0];
+
+  return {
+    branches: [
+      {
+        afterScene,
+        prompt: 'What should happen next?',
+        continueText: 'Keep going',
+        paths: [
+          {
+            choiceText: 'Try a different path',
+            scenes: [
+              {
+                title: 'A Different Path',
+                background: scene?.background || 'meadow',
+                narration: `${hero} decided to try something new and found a little surprise along the way.`,
+                characters: [{ name: hero, action: 'walk', position: 'center', expression: 'surprised' }],
+                dialogue: [{ speaker: hero, text: "Let's see where this way goes!" }],
+                mood: 'happy',
+                duration: 5000,
+              },
+            ],
+            ending: {
+              type: 'neutral',
+              title: 'A Different Adventure',
+              description: 'Sometimes a new path leads somewhere just as fun.',
+            },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+// Registry id of a castable character, else Luna
+function toCastId(name: string | undefined): string {
+  const id = name ? getCharacterRegistry().resolve(name)?.id : undefined;
+  return id && AVAILABLE_CHARACTERS.includes(id) ? id : 'luna';
+}
+
 /**
  * Generate a fallback story when AI is unavailable
  */
@@ -447,9 +727,7 @@ function generateFallbackStory(request: AIStoryRequest): AIStoryResponse {
   const scenes: AIGeneratedScene[] = [];
   const backgrounds = ['meadow', 'forest', 'park'];
   const actions = ['walk', 'wave', 'dance'];
-  const primaryCharacter = AVAILABLE_CHARACTERS.includes(characters[0]?.toLowerCase() || '')
-    ? characters[0].toLowerCase()
-    : 'luna';
+  const primaryCharacter = toCastId(characters[0]);
   
   for (let i = 0; i < sceneCount; i++) {
     scenes.push({
@@ -461,7 +739,7 @@ function generateFallbackStory(request: AIStoryRequest): AIStoryResponse {
         ? `And they all lived happily ever after!`
         : `${characters[0]} discovered something wonderful along the way.`,
       characters: characters.slice(0, 2).map((name, idx) => ({
-        name: AVAILABLE_CHARACTERS.includes(name.toLowerCase()) ? name.toLowerCase() : 'luna',
+        name: toCastId(name),
         action: actions[i % actions.length],
         position: idx === 0 ? 'left' as const : 'right' as const,
         expression: 'happy' as const,
@@ -23,6 +23,8 @@ export interface AIGeneratedScene {
     position: 'left' | 'center' | 'right';
   }[];
   duration: number;
+  dialogue?: { speaker: string; text: string }[];
+  mood?: string;
   cameraAngle?: string;
   transition?: string;
 }
@@ -478,45 +480,49 @@ const CONTINUATION_TEMPLATES = {
 
 // Generate continuation scenes for an existing story
 export interface StoryContinuationRequest {
+  title?: string;
   existingScenes: AIGeneratedScene[];
   characters: string[];
-  mood: string;
+  // Genre to aim for; by default the tone follows the existing scenes' moods
+  mood?: string;
   additionalSceneCount: number;
+  // Open questions the new scenes should pick up
+  plotThreads?: string[];
+  // How the story should end
+  ending?: string;
 }
 
 export async function continueStory(
-  request: StoryContinuationRequest,
-  apiKey?: string
+  request: StoryContinuationRequest
 ): Promise<AIGeneratedScene[]> {
-  const { existingScenes, characters, mood, additionalSceneCount } = request;
-  
-  // Try AI-based continuation if API key provided
-  if (apiKey) {
-    try {
-      const lastScene = existingScenes[existingScenes.length - 1];
-      const storyContext = existingScenes.map(s => s.narration).join(' ');
-      
-      // Use the generate-story API with continuation context
-      const response = await fetch('/api/generate-story', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          genre: mood,
-          characters: characters.map(c => ({ name: c })),
-          sceneCount: additionalSceneCount,
-          customPrompt: `Continue this story naturally. Previous context: ${storyContext.slice(-500)}. Generate ${additionalSceneCount} more scenes that continue the narrative.`,
-        }),
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        return data.scenes || [];
+  const { title, existingScenes, characters, mood, additionalSceneCount, plotThreads, ending } = request;
+
+  // Try AI-based continuation; the server summarizes the story for the provider
+  try {
+    const response = await fetch('/api/continue-story', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        title,
+        scenes: existingScenes,
+        characters,
+        genre: mood,
+        sceneCount: additionalSceneCount,
+        plotThreads,
+        ending,
+      }),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      if (data.success && Array.isArray(data.scenes) && data.scenes.length > 0) {
+        return data.scenes;
       }
-    } catch (error) {
-      console.warn('AI continuation failed, falling back to templates:', error);
     }
+  } catch (error) {
+    console.warn('AI continuation failed, falling back to templates:', error);
   }
-  
+
   // Fallback to template-based continuation
   return generateContinuationFromTemplate(request);
 }
@@ -524,7 +530,8 @@ export async function continueStory(
 function generateContinuationFromTemplate(
   request: StoryContinuationRequest
 ): AIGeneratedScene[] {
-  const { characters, mood, additionalSceneCount, existingScenes } = request;
+  const { characters, additionalSceneCount, existingScenes } = request;
+  const mood = request.mood || existingScenes[existingScenes.length - 1]?.mood;
   
   const templateType = mood === 'adventure' || mood === 'adventurous' ? 'adventure' :
                        mood === 'learning' || mood === 'educational' ? 'learning' : 'friendship';
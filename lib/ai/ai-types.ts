@@ -1,4 +1,5 @@
 // Shared AI types for story generation
+import type { SerializedBranchingStory } from '@/lib/utils/story-branching';
 
 export type AITargetAudience = 'toddler' | 'child' | 'family';
 
@@ -35,12 +36,83 @@ export interface AIGeneratedScene {
   duration: number;
 }
 
-export type AIProvider = 'gemini' | 'openai' | 'fallback';
+// A scene of an existing story, as sent for continuation (editor scenes don't carry every field)
+export type AIStoryContextScene = Pick<AIGeneratedScene, 'title' | 'background' | 'narration'> &
+  Partial<Pick<AIGeneratedScene, 'characters' | 'dialogue' | 'mood' | 'duration'>>;
+
+export interface AIStoryContinuationRequest {
+  title?: string;
+  scenes: AIStoryContextScene[];
+  // Cast to keep using; defaults to everyone who appears in `scenes`
+  characters?: string[];
+  // Open questions the new scenes should pick up or resolve
+  plotThreads?: string[];
+  // How the story should end, e.g. "they find the lost kite and fly it together"
+  ending?: string;
+  genre?: string;
+  sceneCount?: number;
+  targetAudience?: AITargetAudience;
+}
+
+// One field of model output that failed validation, and what it was corrected to
+// (null when the item was dropped)
+export interface AIFieldIssue {
+  path: string; // e.g. "scenes[1].characters[0].action"
+  message: string;
+  value?: unknown;
+  correctedTo?: unknown;
+}
+
+// Id of the registry provider that wrote the story (see ai-providers), or 'fallback'
+export type AIStoryProvider = string;
 
 export interface AIStoryResponse {
   title: string;
   scenes: AIGeneratedScene[];
   success: boolean;
   error?: string;
-  provider: AIProvider;
+  provider: AIStoryProvider;
+  model?: string;
+  // Provider calls made, including re-prompts after validation errors
+  attempts?: number;
+  // Fields still invalid after the last re-prompt, which were auto-corrected
+  corrections?: AIFieldIssue[];
+}
+
+// Events of a streamed story (/api/generate-story with "stream": true), one JSON object per line
+export type AIStoryStreamEvent =
+  | { type: 'start'; provider: AIStoryProvider; model?: string }
+  | { type: 'title'; title: string }
+  | { type: 'scene'; index: number; scene: AIGeneratedScene; corrections: AIFieldIssue[] }
+  // Final story with every scene; also sent after a fallback that streamed nothing
+  | { type: 'done'; story: AIStoryResponse }
+  | { type: 'error'; error: string };
+
+// A project scene sent for branching; alternate paths are hung off these by id
+export type AIBranchingContextScene = AIStoryContextScene & { id: string };
+
+export interface AIBranchingRequest {
+  title?: string;
+  scenes: AIBranchingContextScene[];
+  // Cast to keep using; defaults to everyone who appears in `scenes`
+  characters?: string[];
+  // Branch points to propose (1-3)
+  branchCount?: number;
+  genre?: string;
+  targetAudience?: AITargetAudience;
+}
+
+// New scene of an alternate path; `id` is the sceneId its branching node plays
+export type AIBranchScene = AIGeneratedScene & { id: string };
+
+export interface AIBranchingResponse {
+  success: boolean;
+  // Branching story over the request scenes plus `scenes`, in SerializedBranchingStory form
+  story: SerializedBranchingStory | null;
+  scenes: AIBranchScene[];
+  error?: string;
+  provider: AIStoryProvider;
+  model?: string;
+  attempts?: number;
+  corrections?: AIFieldIssue[];
 }
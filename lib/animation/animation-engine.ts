@@ -4,7 +4,8 @@
  */
 
 import gsap from 'gsap';
-import { AnimatedCharacter, ANIMATED_CHARACTERS } from '../utils/characters';
+import type { AnimatedCharacter } from '../utils/characters';
+import { getCharacterRegistry } from '../utils/character-registry';
 
 export type AnimationType = 'idle' | 'walk' | 'wave' | 'talk' | 'jump' | 'sit';
 export type ExpressionType = 'neutral' | 'happy' | 'sad' | 'surprised' | 'angry' | 'talking';
@@ -66,15 +67,7 @@ export const ACTION_PRESETS: Record<string, { animation: AnimationType; duration
 
 // Get character by ID
 export function getCharacter(characterId: string): AnimatedCharacter | undefined {
-  // Map common names to character IDs
-  const nameMap: Record<string, string> = {
-    'luna': 'char-girl',
-    'max': 'char-boy',
-    'whiskers': 'char-cat',
-  };
-  
-  const mappedId = nameMap[characterId.toLowerCase()] || characterId;
-  return ANIMATED_CHARACTERS.find(c => c.id === mappedId || c.name.toLowerCase() === characterId.toLowerCase());
+  return getCharacterRegistry().getAnimatedCharacter(characterId);
 }
 
 // Create a scene character from template
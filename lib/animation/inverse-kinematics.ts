@@ -0,0 +1,374 @@
+// Inverse Kinematics - two-bone IK over the CharacterRig part hierarchy.
+// A chain is an upper and a lower bone (arm + hand, or upper arm + forearm on rigs
+// that have an elbow part) ending in an effector point. Solving a chain rotates its
+// two joints so the effector lands on a target, which lets clips, props and the
+// ground place hands and feet instead of posing every joint by hand.
+// All positions are in rig space (the 0..rig.width x 0..rig.height viewBox).
+
+import type { CharacterRig, SpritePart, SpriteShape, Vector2 } from '../utils/sprite-system';
+import type { CharacterAnimationState } from './keyframe-animation';
+import type { Prop } from '../utils/props-system';
+
+type PartTransforms = CharacterAnimationState['partTransforms'];
+
+export interface IKChain {
+  id: string; // end effector part id, e.g. 'leftHand' or 'rightFoot'
+  upperPartId: string;
+  lowerPartId: string;
+  effector: Vector2; // in the lower part's local space
+}
+
+export interface IKTarget {
+  chainId: string;
+  position: Vector2; // rig space
+  weight?: number; // 0..1, blends from the animated pose to the solved pose
+}
+
+export interface IKOptions {
+  targets?: IKTarget[];
+  // Keep feet that the animation has on (or under) the ground on the ground
+  pinFeet?: boolean;
+  // Ground height in rig space; defaults to where the feet rest
+  groundLevel?: number;
+}
+
+// 2D affine matrix in canvas order: x' = a*x + c*y + e, y' = b*x + d*y + f
+interface Matrix2D {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+const END_EFFECTORS = ['leftHand', 'rightHand', 'leftFoot', 'rightFoot'];
+
+// Feet within this distance of the ground count as standing on it
+const FOOT_CONTACT_TOLERANCE = 4;
+
+// Lifts up to this share of the leg's reach (a swinging leg, a bob in a walk) are
+// taken back by lowering the body; bigger ones fade out, so jumps still leave the ground
+const HIP_DROP_LIMIT = 0.25;
+
+const chainCache = new WeakMap<CharacterRig, IKChain[]>();
+
+/**
+ * IK chains of a rig, one per hand and foot it has. A hand or foot whose parent
+ * hangs off another limb part (upper arm > forearm > hand) uses both limb parts
+ * as bones; a hand or foot on a single limb part (arm > hand) is itself the lower
+ * bone and its effector is the tip of its shape.
+ */
+export function getIKChains(rig: CharacterRig): IKChain[] {
+  const cached = chainCache.get(rig);
+  if (cached) return cached;
+
+  const chains: IKChain[] = [];
+  for (const id of END_EFFECTORS) {
+    const end = rig.parts[id];
+    const parent = end?.parentId ? rig.parts[end.parentId] : undefined;
+    if (!end || !parent?.parentId) continue;
+
+    const grandparent = rig.parts[parent.parentId];
+    if (grandparent?.parentId) {
+      chains.push({ id, upperPartId: grandparent.id, lowerPartId: parent.id, effector: { ...end.defaultTransform.position } });
+    } else {
+      chains.push({ id, upperPartId: parent.id, lowerPartId: end.id, effector: getShapeTip(end.shape) });
+    }
+  }
+
+  chainCache.set(rig, chains);
+  return chains;
+}
+
+/**
+ * Rig-space transform of every part for a pose, composed the way RiggedCharacter
+ * and the rasterizer draw them (translate, rotate in degrees, scale)
+ */
+export function getPartWorldMatrices(rig: CharacterRig, partTransforms: PartTransforms = {}): Record<string, Matrix2D> {
+  const matrices: Record<string, Matrix2D> = {};
+  const visit = (partId: string, parentMatrix: Matrix2D) => {
+    const part = rig.parts[partId];
+    if (!part || matrices[partId]) return;
+    matrices[partId] = multiply(parentMatrix, getLocalMatrix(part, partTransforms));
+    part.children.forEach((childId) => visit(childId, matrices[partId]));
+  };
+  visit(rig.rootPartId, IDENTITY);
+  return matrices;
+}
+
+// Rig-space position of a chain's effector
+export function getEffectorPosition(rig: CharacterRig, chain: IKChain, partTransforms: PartTransforms = {}): Vector2 {
+  const matrix = getPartWorldMatrices(rig, partTransforms)[chain.lowerPartId];
+  return matrix ? transformPoint(matrix, chain.effector) : { x: 0, y: 0 };
+}
+
+// Where the rig's feet rest, in rig space; the bottom of the rig if it has no feet
+export function getRigGroundLevel(rig: CharacterRig): number {
+  const feet = getIKChains(rig).filter(isFootChain);
+  if (feet.length === 0) return rig.height;
+  return Math.max(...feet.map((chain) => getEffectorPosition(rig, chain).y));
+}
+
+/**
+ * Target for the hand a prop attaches to, so the hand reaches for the prop placed
+ * at `position` (rig space). Props held elsewhere (head, body, ground) have none.
+ */
+export function getPropReachTarget(prop: Prop, position: Vector2, weight = 1): IKTarget | null {
+  if (prop.attachPoint !== 'leftHand' && prop.attachPoint !== 'rightHand') return null;
+  return {
+    chainId: prop.attachPoint,
+    position: { x: position.x + prop.offsetX, y: position.y + prop.offsetY },
+    weight,
+  };
+}
+
+/**
+ * Joint rotations that put the chain's effector on `target` (clamped to the
+ * chain's reach), as part rotation offsets like keyframe tracks produce. Of the
+ * two bend directions, the one closest to the current pose is used.
+ */
+export function solveTwoBoneIK(
+  rig: CharacterRig,
+  chain: IKChain,
+  target: Vector2,
+  partTransforms: PartTransforms = {},
+  weight = 1
+): { upper: number; lower: number } | null {
+  const upper = rig.parts[chain.upperPartId];
+  const lower = rig.parts[chain.lowerPartId];
+  if (!upper || !lower) return null;
+
+  // Solve in the space of the upper bone's parent, where its rotation applies
+  const matrices = getPartWorldMatrices(rig, partTransforms);
+  const parentMatrix = upper.parentId ? matrices[upper.parentId] : IDENTITY;
+  const inverse = parentMatrix && invert(parentMatrix);
+  if (!inverse) return null;
+  const goal = transformPoint(inverse, target);
+
+  const upperLocal = getLocalValues(upper, partTransforms);
+  const lowerLocal = getLocalValues(lower, partTransforms);
+  const joint = upperLocal.position;
+
+  // Bone vectors before their own rotation (scales assumed uniform per part)
+  const upperBone = { x: upperLocal.scale.x * lowerLocal.position.x, y: upperLocal.scale.y * lowerLocal.position.y };
+  const lowerBone = {
+    x: upperLocal.scale.x * lowerLocal.scale.x * chain.effector.x,
+    y: upperLocal.scale.y * lowerLocal.scale.y * chain.effector.y,
+  };
+  const a = Math.hypot(upperBone.x, upperBone.y);
+  const b = Math.hypot(lowerBone.x, lowerBone.y);
+  if (a < 1e-6 || b < 1e-6) return null;
+
+  const minReach = Math.max(Math.abs(a - b), 1e-4);
+  const distance = Math.min(a + b, Math.max(minReach, Math.hypot(goal.x - joint.x, goal.y - joint.y)));
+
+  const baseAngle = Math.atan2(goal.y - joint.y, goal.x - joint.x);
+  const reachPoint = { x: joint.x + Math.cos(baseAngle) * distance, y: joint.y + Math.sin(baseAngle) * distance };
+  const jointAngle = Math.acos(Math.min(1, Math.max(-1, (a * a + distance * distance - b * b) / (2 * a * distance))));
+
+  const currentUpper = toRadians(upperLocal.rotation);
+  const currentLower = toRadians(lowerLocal.rotation);
+  let best: { upper: number; lower: number; cost: number } | null = null;
+
+  for (const bend of [1, -1]) {
+    const upperDirection = baseAngle + bend * jointAngle;
+    const elbow = { x: joint.x + Math.cos(upperDirection) * a, y: joint.y + Math.sin(upperDirection) * a };
+    const lowerDirection = Math.atan2(reachPoint.y - elbow.y, reachPoint.x - elbow.x);
+    const upperRotation = upperDirection - Math.atan2(upperBone.y, upperBone.x);
+    const lowerRotation = lowerDirection - upperRotation - Math.atan2(lowerBone.y, lowerBone.x);
+    const cost = Math.abs(wrapAngle(upperRotation - currentUpper)) + Math.abs(wrapAngle(lowerRotation - currentLower));
+    if (!best || cost < best.cost) {
+      best = { upper: upperRotation, lower: lowerRotation, cost };
+    }
+  }
+  if (!best) return null;
+
+  const blend = Math.min(1, Math.max(0, weight));
+  const upperRotation = currentUpper + wrapAngle(best.upper - currentUpper) * blend;
+  const lowerRotation = currentLower + wrapAngle(best.lower - currentLower) * blend;
+  return {
+    upper: toDegrees(upperRotation) - upper.defaultTransform.rotation,
+    lower: toDegrees(lowerRotation) - lower.defaultTransform.rotation,
+  };
+}
+
+/**
+ * Apply IK to an animated pose. Targets come from the clip's `ikTarget` tracks
+ * (offsets from where the effector rests), from `options.targets`, and for feet
+ * from `options.pinFeet`. Returns new part transforms; the input is not changed.
+ */
+export function applyIK(rig: CharacterRig, partTransforms: PartTransforms, options: IKOptions = {}): PartTransforms {
+  const chains = getIKChains(rig);
+  if (chains.length === 0) return partTransforms;
+
+  const targets = new Map<string, IKTarget>();
+  for (const chain of chains) {
+    const track = partTransforms[chain.id];
+    if (track?.ikTarget && (track.ikWeight ?? 1) > 0) {
+      const rest = getEffectorPosition(rig, chain);
+      targets.set(chain.id, {
+        chainId: chain.id,
+        position: { x: rest.x + track.ikTarget.x, y: rest.y + track.ikTarget.y },
+        weight: track.ikWeight ?? 1,
+      });
+    }
+  }
+  options.targets?.forEach((target) => targets.set(target.chainId, target));
+
+  let pose = partTransforms;
+  if (options.pinFeet) {
+    const groundLevel = options.groundLevel ?? getRigGroundLevel(rig);
+    pose = dropHipsToGround(rig, pose, chains.filter(isFootChain), groundLevel);
+    for (const chain of chains.filter(isFootChain)) {
+      if (targets.has(chain.id)) continue;
+      const foot = getEffectorPosition(rig, chain, pose);
+      if (foot.y >= groundLevel - FOOT_CONTACT_TOLERANCE) {
+        targets.set(chain.id, { chainId: chain.id, position: { x: foot.x, y: groundLevel } });
+      }
+    }
+  }
+  if (targets.size === 0) return pose;
+
+  // Chains never share joints, so each one can be solved against the same pose
+  const solved: PartTransforms = { ...pose };
+  for (const target of Array.from(targets.values())) {
+    const chain = chains.find((c) => c.id === target.chainId);
+    if (!chain) continue;
+    const result = solveTwoBoneIK(rig, chain, target.position, pose, target.weight ?? 1);
+    if (!result) continue;
+    solved[chain.upperPartId] = { ...solved[chain.upperPartId], rotation: result.upper };
+    solved[chain.lowerPartId] = { ...solved[chain.lowerPartId], rotation: result.lower };
+  }
+  return solved;
+}
+
+/**
+ * Lower the root part so the lowest foot stands on the ground. Limbs without a knee
+ * cannot stretch down to the ground when they swing, so the body comes down instead.
+ */
+function dropHipsToGround(rig: CharacterRig, pose: PartTransforms, feet: IKChain[], groundLevel: number): PartTransforms {
+  if (feet.length === 0) return pose;
+
+  const lowestFoot = Math.max(...feet.map((chain) => getEffectorPosition(rig, chain, pose).y));
+  const lift = groundLevel - lowestFoot;
+  const root = rig.parts[rig.rootPartId];
+  const legReach = getChainReach(rig, feet[0]);
+  if (lift <= 0 || !root || legReach <= 0) return pose;
+
+  // Full drop up to the limit, then fading to none at twice the limit
+  const limit = legReach * HIP_DROP_LIMIT;
+  const drop = lift <= limit ? lift : Math.max(0, 2 * limit - lift);
+  if (drop <= 0) return pose;
+
+  const rootTransform = pose[root.id] || {};
+  return {
+    ...pose,
+    [root.id]: {
+      ...rootTransform,
+      position: { x: rootTransform.position?.x || 0, y: (rootTransform.position?.y || 0) + drop },
+    },
+  };
+}
+
+// Length of a chain with its joints straight, at rest
+function getChainReach(rig: CharacterRig, chain: IKChain): number {
+  const lower = rig.parts[chain.lowerPartId];
+  if (!lower) return 0;
+  return Math.hypot(lower.defaultTransform.position.x, lower.defaultTransform.position.y) + Math.hypot(chain.effector.x, chain.effector.y);
+}
+
+function isFootChain(chain: IKChain): boolean {
+  return chain.id === 'leftFoot' || chain.id === 'rightFoot';
+}
+
+// Lowest point of a shape in its part's space: fingertips and soles on limbs that hang down
+function getShapeTip(shape: SpriteShape): Vector2 {
+  const points = getShapePoints(shape);
+  if (points.length === 0) return { x: 0, y: 0 };
+  return points.reduce((lowest, point) => (point.y > lowest.y ? point : lowest));
+}
+
+function getShapePoints(shape: SpriteShape): Vector2[] {
+  switch (shape.type) {
+    case 'ellipse':
+      return [{ x: shape.cx, y: shape.cy + Math.abs(shape.ry) }];
+    case 'rect':
+      return [{ x: shape.x + shape.width / 2, y: shape.y + shape.height }];
+    case 'polygon':
+      return toPointPairs(shape.points);
+    case 'path':
+      return toPointPairs(shape.d);
+    case 'group':
+      return shape.children.flatMap(getShapePoints);
+  }
+}
+
+// Coordinate pairs from points/path data (path control points are close enough here)
+function toPointPairs(data: string): Vector2[] {
+  const numbers = (data.match(/-?\d*\.?\d+(?:e-?\d+)?/gi) || []).map(Number);
+  const points: Vector2[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    points.push({ x: numbers[i], y: numbers[i + 1] });
+  }
+  return points;
+}
+
+function getLocalValues(part: SpritePart, partTransforms: PartTransforms) {
+  const base = part.defaultTransform;
+  const anim = partTransforms[part.id] || {};
+  return {
+    position: { x: base.position.x + (anim.position?.x || 0), y: base.position.y + (anim.position?.y || 0) },
+    rotation: base.rotation + (anim.rotation || 0),
+    scale: { x: base.scale.x * (anim.scale?.x || 1), y: base.scale.y * (anim.scale?.y || 1) },
+  };
+}
+
+function getLocalMatrix(part: SpritePart, partTransforms: PartTransforms): Matrix2D {
+  const { position, rotation, scale } = getLocalValues(part, partTransforms);
+  const cos = Math.cos(toRadians(rotation));
+  const sin = Math.sin(toRadians(rotation));
+  return { a: cos * scale.x, b: sin * scale.x, c: -sin * scale.y, d: cos * scale.y, e: position.x, f: position.y };
+}
+
+const IDENTITY: Matrix2D = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+function multiply(m: Matrix2D, n: Matrix2D): Matrix2D {
+  return {
+    a: m.a * n.a + m.c * n.b,
+    b: m.b * n.a + m.d * n.b,
+    c: m.a * n.c + m.c * n.d,
+    d: m.b * n.c + m.d * n.d,
+    e: m.a * n.e + m.c * n.f + m.e,
+    f: m.b * n.e + m.d * n.f + m.f,
+  };
+}
+
+function invert(m: Matrix2D): Matrix2D | null {
+  const det = m.a * m.d - m.b * m.c;
+  if (Math.abs(det) < 1e-9) return null;
+  return {
+    a: m.d / det,
+    b: -m.b / det,
+    c: -m.c / det,
+    d: m.a / det,
+    e: (m.c * m.f - m.d * m.e) / det,
+    f: (m.b * m.e - m.a * m.f) / det,
+  };
+}
+
+function transformPoint(m: Matrix2D, point: Vector2): Vector2 {
+  return { x: m.a * point.x + m.c * point.y + m.e, y: m.b * point.x + m.d * point.y + m.f };
+}
+
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
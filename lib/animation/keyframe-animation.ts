@@ -39,10 +39,13 @@ export interface Keyframe {
   easing: EasingType;
 }
 
-// Track for animating a specific property of a part
+// Track for animating a specific property of a part.
+// 'ikTarget' and 'ikWeight' tracks go on a hand or foot part: the target is an
+// offset from where that effector rests, and inverse-kinematics.ts turns it into
+// rotations of the limb's joints.
 export interface AnimationTrack {
   partId: string;
-  property: 'position' | 'rotation' | 'scale' | 'opacity' | 'mouthShape';
+  property: 'position' | 'rotation' | 'scale' | 'opacity' | 'mouthShape' | 'ikTarget' | 'ikWeight';
   keyframes: Keyframe[];
 }
 
@@ -305,6 +308,43 @@ export const ANIMATION_PRESETS: Record<string, AnimationClip> = {
     ],
   },
   
+  reach: {
+    id: 'reach',
+    name: 'Reach',
+    duration: 1600,
+    loop: false,
+    tracks: [
+      {
+        partId: 'rightHand',
+        property: 'ikTarget',
+        keyframes: [
+          { time: 0, value: { x: 0, y: 0 }, easing: 'easeOut' },
+          { time: 500, value: { x: 22, y: -38 }, easing: 'easeOut' },
+          { time: 1100, value: { x: 22, y: -38 }, easing: 'easeInOut' },
+          { time: 1600, value: { x: 0, y: 0 }, easing: 'easeInOut' },
+        ],
+      },
+      {
+        partId: 'rightHand',
+        property: 'ikWeight',
+        keyframes: [
+          { time: 0, value: 1, easing: 'linear' },
+          { time: 1600, value: 1, easing: 'linear' },
+        ],
+      },
+      {
+        partId: 'leftArm',
+        property: 'rotation',
+        keyframes: [
+          { time: 0, value: 0, easing: 'easeOut' },
+          { time: 500, value: 10, easing: 'easeOut' },
+          { time: 1100, value: 10, easing: 'easeInOut' },
+          { time: 1600, value: 0, easing: 'easeInOut' },
+        ],
+      },
+    ],
+  },
+  
   jump: {
     id: 'jump',
     name: 'Jump',
@@ -849,7 +889,7 @@ export function getTrackValueAtTime(
   const { keyframes } = track;
   
   if (keyframes.length === 0) {
-    return track.property === 'position' ? { x: 0, y: 0 } : 0;
+    return track.property === 'position' || track.property === 'ikTarget' ? { x: 0, y: 0 } : 0;
   }
   
   // Handle looping
@@ -895,13 +935,20 @@ export function getTrackValueAtTime(
   );
 }
 
+// Per-part values a clip produces at one moment
+export type PartAnimationValues = Partial<Transform> & {
+  mouthShape?: MouthShape;
+  ikTarget?: Vector2;
+  ikWeight?: number;
+};
+
 // Animation state for a character
 export interface CharacterAnimationState {
   rigId: string;
   currentClip: AnimationClip;
   time: number;
   speed: number;
-  partTransforms: Record<string, Partial<Transform> & { mouthShape?: MouthShape }>;
+  partTransforms: Record<string, PartAnimationValues>;
 }
 
 // Create initial animation state
@@ -929,7 +976,7 @@ export function updateAnimationState(
   const { currentClip } = state;
   
   // Calculate new transforms for each track
-  const partTransforms: Record<string, Partial<Transform> & { mouthShape?: MouthShape }> = {};
+  const partTransforms: Record<string, PartAnimationValues> = {};
   
   for (const track of currentClip.tracks) {
     const value = getTrackValueAtTime(track, newTime, currentClip.duration, currentClip.loop);
@@ -951,6 +998,12 @@ export function updateAnimationState(
       case 'mouthShape':
         partTransforms[track.partId].mouthShape = value as MouthShape;
         break;
+      case 'ikTarget':
+        partTransforms[track.partId].ikTarget = value as Vector2;
+        break;
+      case 'ikWeight':
+        partTransforms[track.partId].ikWeight = value as number;
+        break;
     }
   }
   
@@ -969,6 +1022,8 @@ export function getAnimationForAction(action: string, isAnimal: boolean): Animat
     run: isAnimal ? 'animalWalk' : 'run',  // Use the new run animation for humans
     jump: isAnimal ? 'animalJump' : 'jump',
     wave: 'wave',
+    reach: isAnimal ? 'animalIdle' : 'reach',
+    point: isAnimal ? 'animalIdle' : 'reach',
     talk: 'talk',
     sit: 'sit',
     dance: 'dance',
@@ -0,0 +1,365 @@
+// Rig Rasterizer - draws CharacterRig sprites and scene backgrounds onto a 2D canvas.
+// Mirrors what RiggedCharacter renders as SVG (same part hierarchy, transforms and
+// expression tweaks), so exports, GIFs and thumbnails match the editor.
+
+import type { CharacterRig, SpritePart, SpriteShape, Transform } from '@/lib/utils/sprite-system';
+import {
+  type CharacterAnimationState,
+  type MouthShape,
+  createAnimationState,
+  updateAnimationState,
+  getAnimationForAction,
+} from './keyframe-animation';
+import { type IKOptions, applyIK } from './inverse-kinematics';
+import { getBackgroundConfig, hasSun } from '@/lib/utils/backgrounds';
+
+export type RigColors = CharacterRig['colors'];
+
+export type PartTransforms = CharacterAnimationState['partTransforms'];
+
+export interface RigDrawOptions {
+  partTransforms?: PartTransforms;
+  expression?: string;
+  customColors?: RigColors;
+  showExplorerGear?: boolean;
+  showBallProp?: boolean;
+  // Path2D constructor to use where there is no global one (e.g. @napi-rs/canvas in Node)
+  createPath?: (d: string) => Path2D;
+}
+
+// Editor stage width the character sizes were designed against
+export const STAGE_REFERENCE_WIDTH = 640;
+
+// Get mouth shape SVG path based on expression and mouth shape
+export function getMouthPath(mouthShape: MouthShape, expression: string): string {
+  const mouthPaths: Record<MouthShape, string> = {
+    closed: 'M -8 0 Q 0 2 8 0',
+    open: 'M -8 0 Q 0 8 8 0 Q 0 4 -8 0',
+    wide: 'M -10 0 Q 0 12 10 0 Q 0 6 -10 0',
+    oh: 'M -6 -4 Q -8 0 -6 4 Q 0 6 6 4 Q 8 0 6 -4 Q 0 -6 -6 -4',
+    ee: 'M -10 0 Q 0 3 10 0',
+    smile: 'M -8 0 Q 0 10 8 0',
+  };
+
+  // Speech shapes (lip sync, talking clips) win; the expression sets the mouth at rest
+  if (mouthShape !== 'closed') {
+    return mouthPaths[mouthShape] || mouthPaths.closed;
+  }
+
+  // Override based on expression
+  if (expression === 'happy') {
+    return mouthPaths.smile;
+  } else if (expression === 'sad') {
+    return 'M -8 4 Q 0 -4 8 4';
+  } else if (expression === 'surprised') {
+    return mouthPaths.oh;
+  } else if (expression === 'angry') {
+    return 'M -8 2 L 0 0 L 8 2';
+  } else if (expression === 'confused') {
+    return 'M -6 1 Q -2 -2 2 2 Q 6 -1 8 1'; // Squiggly confused mouth
+  } else if (expression === 'sleepy') {
+    return 'M -6 1 Q 0 -1 6 1'; // Slightly droopy mouth
+  } else if (expression === 'excited') {
+    return 'M -10 0 Q 0 14 10 0 Q 0 8 -10 0'; // Big excited smile
+  }
+
+  return mouthPaths[mouthShape] || mouthPaths.closed;
+}
+
+// Get eye modification based on expression
+export function getEyeModifier(expression: string): { scaleY: number; offsetY: number; scaleX?: number; rotation?: number } {
+  switch (expression) {
+    case 'happy':
+      return { scaleY: 0.3, offsetY: 2 }; // Squinted happy eyes
+    case 'sad':
+      return { scaleY: 0.7, offsetY: 1 };
+    case 'surprised':
+      return { scaleY: 1.3, offsetY: 0 };
+    case 'angry':
+      return { scaleY: 0.6, offsetY: 0 };
+    case 'confused':
+      return { scaleY: 0.9, offsetY: 0, rotation: 5 }; // Slightly tilted eyes
+    case 'sleepy':
+      return { scaleY: 0.2, offsetY: 2 }; // Almost closed eyes
+    case 'excited':
+      return { scaleY: 1.2, offsetY: -1 }; // Wide excited eyes
+    default:
+      return { scaleY: 1, offsetY: 0 };
+  }
+}
+
+export function getBrowOffset(expression: string): number {
+  switch (expression) {
+    case 'happy':
+      return -1.5;
+    case 'sad':
+      return 1.5;
+    case 'surprised':
+      return -3;
+    case 'angry':
+      return 0;
+    case 'confused':
+      return -1; // One brow raised effect
+    case 'sleepy':
+      return 2; // Droopy brows
+    case 'excited':
+      return -2.5; // Raised excited brows
+    default:
+      return 0;
+  }
+}
+
+// Recolor a part's shape from the character creator palette, based on the part name
+export function applyCustomColors(shape: SpriteShape, partId: string, customColors?: RigColors): SpriteShape {
+  if (!customColors) return shape;
+
+  // Skip group type shapes as they don't have fill
+  if (shape.type === 'group') return shape;
+
+  // Map part IDs to custom color categories
+  const skinParts = ['head', 'face', 'leftHand', 'rightHand', 'neck'];
+  const hairParts = ['hair', 'hairBack'];
+  const clothingParts = ['body', 'torso', 'chest', 'shirt'];
+  const secondaryParts = ['leftLeg', 'rightLeg', 'pants', 'shorts', 'leftSleeve', 'rightSleeve'];
+  const eyeParts = ['leftPupil', 'rightPupil', 'leftIris', 'rightIris'];
+
+  let newFill = shape.fill;
+
+  if (skinParts.some(p => partId.toLowerCase().includes(p.toLowerCase()))) {
+    newFill = customColors.skin;
+  } else if (hairParts.some(p => partId.toLowerCase().includes(p.toLowerCase()))) {
+    newFill = customColors.hair;
+  } else if (eyeParts.some(p => partId.toLowerCase().includes(p.toLowerCase()))) {
+    newFill = customColors.eyes;
+  } else if (clothingParts.some(p => partId.toLowerCase().includes(p.toLowerCase()))) {
+    newFill = customColors.primary;
+  } else if (secondaryParts.some(p => partId.toLowerCase().includes(p.toLowerCase()))) {
+    newFill = customColors.secondary;
+  }
+
+  return { ...shape, fill: newFill };
+}
+
+/**
+ * Part transforms for an animation at an exact time (ms since the clip started),
+ * with IK applied the way RiggedCharacter applies it.
+ * Pure, so the same time always gives the same pose.
+ */
+export function getRigPose(
+  rig: CharacterRig,
+  animation: string,
+  isTalking: boolean,
+  timeMs: number,
+  ik: IKOptions = {}
+): PartTransforms {
+  const state = createAnimationState(rig.id);
+  state.currentClip = getAnimationForAction(isTalking ? 'talk' : animation, rig.category === 'animal');
+  return applyIK(rig, updateAnimationState(state, timeMs).partTransforms, ik);
+}
+
+/**
+ * Draw a rig in its own coordinate space (0..rig.width x 0..rig.height),
+ * i.e. the SVG viewBox RiggedCharacter uses.
+ */
+export function drawRig(ctx: CanvasRenderingContext2D, rig: CharacterRig, options: RigDrawOptions = {}): void {
+  const rigId = rig.id.toLowerCase();
+  const context: PartContext = {
+    ctx,
+    rig,
+    partTransforms: options.partTransforms || {},
+    expression: options.expression || 'neutral',
+    customColors: options.customColors,
+    showExplorerGear: !!options.showExplorerGear,
+    showBallProp: !!options.showBallProp,
+    isKiara: rigId === 'kiara',
+    isJayden: rigId === 'jayden',
+    createPath: options.createPath || ((d) => new Path2D(d)),
+  };
+  drawPart(context, rig.rootPartId);
+}
+
+interface PartContext {
+  ctx: CanvasRenderingContext2D;
+  rig: CharacterRig;
+  partTransforms: PartTransforms;
+  expression: string;
+  customColors?: RigColors;
+  showExplorerGear: boolean;
+  showBallProp: boolean;
+  isKiara: boolean;
+  isJayden: boolean;
+  createPath: (d: string) => Path2D;
+}
+
+// Same order as the SVG transform: translate, rotate (degrees), scale
+function applyPartTransform(ctx: CanvasRenderingContext2D, part: SpritePart, anim: Partial<Transform>): void {
+  const base = part.defaultTransform;
+  ctx.translate(base.position.x + (anim.position?.x || 0), base.position.y + (anim.position?.y || 0));
+  ctx.rotate(((base.rotation + (anim.rotation || 0)) * Math.PI) / 180);
+  ctx.scale(base.scale.x * (anim.scale?.x || 1), base.scale.y * (anim.scale?.y || 1));
+}
+
+function drawPart(context: PartContext, partId: string): void {
+  const { ctx, rig, expression, customColors } = context;
+  const part = rig.parts[partId];
+  if (!part) return;
+
+  const animTransform = context.partTransforms[part.id] || {};
+
+  ctx.save();
+  applyPartTransform(ctx, part, animTransform);
+
+  if (part.id === 'mouth') {
+    const mouthShape = animTransform.mouthShape || 'closed';
+    const isOpen = mouthShape === 'oh' || mouthShape === 'open' || mouthShape === 'wide';
+    const path = context.createPath(getMouthPath(mouthShape, expression));
+    if (isOpen) {
+      ctx.fillStyle = '#8B0000';
+      ctx.fill(path);
+    }
+    ctx.strokeStyle = '#333';
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.stroke(path);
+    ctx.restore();
+    return;
+  }
+
+  // Expression-aware eyebrows
+  if (part.id === 'leftBrow' || part.id === 'rightBrow') {
+    ctx.translate(0, getBrowOffset(expression));
+    drawShape(context, applyCustomColors(part.shape, part.id, customColors));
+    ctx.restore();
+    return;
+  }
+
+  // Expression-aware eyes (squash/stretched per emotion)
+  if (part.id === 'leftEye' || part.id === 'rightEye') {
+    const eyeModifier = getEyeModifier(expression);
+    ctx.scale(1, eyeModifier.scaleY);
+    ctx.translate(0, eyeModifier.offsetY);
+  }
+
+  drawShape(context, applyCustomColors(part.shape, part.id, customColors));
+
+  // Body: subtle jersey stripe for Jayden
+  if (part.id === 'body' && context.isJayden && !customColors) {
+    drawShape(context, { type: 'rect', x: -24, y: 18, width: 48, height: 10, rx: 4, fill: '#1D4ED8' });
+  }
+
+  // Right hand: simple props when enabled
+  if (part.id === 'rightHand' && !customColors) {
+    if (context.isKiara && context.showExplorerGear) {
+      drawShape(context, { type: 'rect', x: -4, y: 12, width: 18, height: 10, rx: 2, fill: '#F97316' });
+      drawShape(context, { type: 'path', d: 'M -3 12 L -8 4', fill: 'none', stroke: '#F97316', strokeWidth: 2 });
+    }
+    if (context.isJayden && context.showBallProp) {
+      drawShape(context, { type: 'ellipse', cx: 4, cy: 14, rx: 8, ry: 8, fill: '#FBBF24', stroke: '#F59E0B', strokeWidth: 2 });
+    }
+  }
+
+  part.children.forEach((childId) => drawPart(context, childId));
+  ctx.restore();
+}
+
+function paint(ctx: CanvasRenderingContext2D, fill: string, stroke?: string, strokeWidth?: number, path?: Path2D): void {
+  if (fill && fill !== 'none') {
+    ctx.fillStyle = fill;
+    if (path) ctx.fill(path);
+    else ctx.fill();
+  }
+  if (stroke && stroke !== 'none') {
+    ctx.strokeStyle = stroke;
+    ctx.lineWidth = strokeWidth ?? 1;
+    if (path) ctx.stroke(path);
+    else ctx.stroke();
+  }
+}
+
+function drawShape(context: PartContext, shape: SpriteShape): void {
+  const { ctx } = context;
+
+  switch (shape.type) {
+    case 'ellipse':
+      ctx.beginPath();
+      ctx.ellipse(shape.cx, shape.cy, Math.abs(shape.rx), Math.abs(shape.ry), 0, 0, Math.PI * 2);
+      paint(ctx, shape.fill, shape.stroke, shape.strokeWidth);
+      break;
+    case 'rect':
+      ctx.beginPath();
+      if (shape.rx) ctx.roundRect(shape.x, shape.y, shape.width, shape.height, shape.rx);
+      else ctx.rect(shape.x, shape.y, shape.width, shape.height);
+      paint(ctx, shape.fill, shape.stroke);
+      break;
+    case 'path':
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      paint(ctx, shape.fill, shape.stroke, shape.strokeWidth, context.createPath(shape.d));
+      break;
+    case 'polygon': {
+      const points = shape.points.trim().split(/[\s,]+/).map(Number);
+      ctx.beginPath();
+      for (let i = 0; i + 1 < points.length; i += 2) {
+        if (i === 0) ctx.moveTo(points[i], points[i + 1]);
+        else ctx.lineTo(points[i], points[i + 1]);
+      }
+      ctx.closePath();
+      paint(ctx, shape.fill, shape.stroke);
+      break;
+    }
+    case 'group':
+      shape.children.forEach((child) => drawShape(context, child));
+      break;
+  }
+}
+
+// Parse the color stops of a CSS linear-gradient (positions as 0-1)
+export function parseGradientStops(gradient: string): { offset: number; color: string }[] {
+  const stops: { offset: number; color: string }[] = [];
+  const stopPattern = /(#[0-9a-fA-F]{3,8}|rgba?\([^)]*\))\s+(\d+(?:\.\d+)?)%/g;
+  let match: RegExpExecArray | null;
+  while ((match = stopPattern.exec(gradient))) {
+    stops.push({ color: match[1], offset: Math.min(1, Number(match[2]) / 100) });
+  }
+  return stops;
+}
+
+/**
+ * Draw a scene background the way the editor stage shows it:
+ * sky gradient, fading ground band and (outdoors) a glowing sun.
+ */
+export function drawSceneBackground(ctx: CanvasRenderingContext2D, backgroundId: string, width: number, height: number): void {
+  const config = getBackgroundConfig(backgroundId);
+
+  const sky = ctx.createLinearGradient(0, 0, 0, height);
+  parseGradientStops(config.gradient).forEach((stop) => sky.addColorStop(stop.offset, stop.color));
+  ctx.fillStyle = sky;
+  ctx.fillRect(0, 0, width, height);
+
+  // Ground: bottom 22%, fading upwards at 80% opacity
+  const groundTop = height * 0.78;
+  const ground = ctx.createLinearGradient(0, height, 0, groundTop);
+  ground.addColorStop(0, config.groundColor);
+  ground.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  ctx.save();
+  ctx.globalAlpha = 0.8;
+  ctx.fillStyle = ground;
+  ctx.fillRect(0, groundTop, width, height - groundTop);
+  ctx.restore();
+
+  if (hasSun(backgroundId)) {
+    const unit = width / STAGE_REFERENCE_WIDTH;
+    const radius = 20 * unit;
+    const cx = width * 0.85 - radius;
+    const cy = height * 0.1 + radius;
+
+    ctx.save();
+    ctx.shadowColor = 'rgba(255, 255, 200, 0.4)';
+    ctx.shadowBlur = 30 * unit;
+    ctx.fillStyle = '#FEF08A';
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  }
+}
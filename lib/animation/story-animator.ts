@@ -1,6 +1,7 @@
 // Story Animator - Converts story scenes to animated sequences with proper animations
 
-import { CharacterRig, CHARACTER_RIGS, getCharacterRig } from '../utils/sprite-system';
+import { CharacterRig } from '../utils/sprite-system';
+import { getCharacterRegistry } from '../utils/character-registry';
 import { AnimationClip, ANIMATION_PRESETS, getAnimationForAction } from './keyframe-animation';
 import { EditableCharacter, EditableScene } from '@/components/editors/InteractiveSceneEditor';
 import type { AIGeneratedScene } from '../ai/ai-types';
@@ -39,6 +40,8 @@ const ACTION_ANIMATION_MAP: Record<string, {
   
   // Interaction actions
   'wave': { animation: 'wave', expression: 'happy' },
+  'reach': { animation: 'reach', expression: 'neutral' },
+  'point': { animation: 'reach', expression: 'neutral' },
   'talk': { animation: 'talk', expression: 'neutral' },
   'dance': { animation: 'dance', expression: 'happy' },
   'play': { animation: 'dance', expression: 'happy' },
@@ -91,47 +94,8 @@ const EXPRESSION_MAP: Record<string, 'neutral' | 'happy' | 'sad' | 'surprised' |
 
 // Find best matching character rig for a name
 function findCharacterRig(name: string): CharacterRig | undefined {
-  const lowerName = name.toLowerCase();
-  
-  // Direct match
-  let rig = getCharacterRig(lowerName);
-  if (rig) return rig;
-  
-  // Try to match by name similarity
-  rig = CHARACTER_RIGS.find(r => 
-    r.name.toLowerCase().includes(lowerName) ||
-    lowerName.includes(r.name.toLowerCase())
-  );
-  if (rig) return rig;
-  
-  // Default based on common names
-  const nameDefaults: Record<string, string> = {
-    'kiara': 'kiara',
-    'jayden': 'jayden',
-    'luna': 'luna',
-    'max': 'max',
-    'emma': 'emma',
-    'whiskers': 'whiskers',
-    'buddy': 'buddy',
-    'cotton': 'cotton',
-    'cat': 'whiskers',
-    'dog': 'buddy',
-    'bunny': 'cotton',
-    'rabbit': 'cotton',
-    'girl': 'kiara',
-    'boy': 'jayden',
-    'kid': 'kiara',
-    'child': 'kiara',
-  };
-  
-  for (const [key, rigId] of Object.entries(nameDefaults)) {
-    if (lowerName.includes(key)) {
-      return getCharacterRig(rigId);
-    }
-  }
-  
-  // Return first human character as default
-  return CHARACTER_RIGS.find(r => r.category === 'child') || CHARACTER_RIGS[0];
+  const registry = getCharacterRegistry();
+  return registry.getRig(name) || registry.getRig(registry.getDefault().id);
 }
 
 // Convert story scene to editable scene
@@ -238,6 +202,7 @@ export function analyzeNarrationForActions(narration: string): {
     'run': 'walk',
     'jump': 'jump',
     'wave': 'wave',
+    'reach': 'reach',
     'dance': 'dance',
     'sit': 'sit',
     'play': 'dance',
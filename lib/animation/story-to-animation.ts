@@ -13,6 +13,7 @@ import { EditableScene, EditableCharacter } from '@/components/editors/Interacti
 import { TransitionType } from '@/components/shared/SceneTransition';
 import { CameraState, suggestCameraForScene, DEFAULT_CAMERA_STATE } from './camera-system';
 import { MusicMood, analyzeSceneForAudio } from '../audio/auto-sound-generator';
+import { getCharacterRegistry } from '../utils/character-registry';
 import { MotionCurve, getMotionCurveForAction } from './animation-interpolation';
 
 // Story script structure
@@ -424,22 +425,8 @@ function convertSceneScriptToEditable(
 
 // Map character names to available rigs
 function mapCharacterNameToRig(name: string): string {
-  const nameMap: Record<string, string> = {
-    'luna': 'luna',
-    'max': 'max',
-    'emma': 'emma',
-    'whiskers': 'whiskers',
-    'buddy': 'buddy',
-    'cotton': 'cotton',
-    'girl': 'luna',
-    'boy': 'max',
-    'cat': 'whiskers',
-    'dog': 'buddy',
-    'bunny': 'cotton',
-    'rabbit': 'cotton',
-  };
-  
-  return nameMap[name.toLowerCase()] || 'luna';
+  const registry = getCharacterRegistry();
+  return registry.getRig(name)?.id || registry.getDefault().id;
 }
 
 // Generate camera sequence for scene
@@ -28,55 +28,57 @@ interface SoundDefinition {
   generator: (ctx: AudioContext, destination: AudioNode) => AudioNode[];
 }
 
+// Source of randomness for chirp timing and noise, so exports can pass a seeded one
+type RandomSource = () => number;
+
 // Create bird chirp sound
-function createBirdChirp(ctx: AudioContext, destination: AudioNode, frequency: number = 2000): AudioNode[] {
+function createBirdChirp(ctx: BaseAudioContext, destination: AudioNode, frequency: number = 2000, time: number = ctx.currentTime): AudioNode[] {
   const oscillator = ctx.createOscillator();
   const gainNode = ctx.createGain();
   
   oscillator.type = 'sine';
-  oscillator.frequency.setValueAtTime(frequency, ctx.currentTime);
-  oscillator.frequency.exponentialRampToValueAtTime(frequency * 1.5, ctx.currentTime + 0.1);
-  oscillator.frequency.exponentialRampToValueAtTime(frequency * 0.8, ctx.currentTime + 0.2);
+  oscillator.frequency.setValueAtTime(frequency, time);
+  oscillator.frequency.exponentialRampToValueAtTime(frequency * 1.5, time + 0.1);
+  oscillator.frequency.exponentialRampToValueAtTime(frequency * 0.8, time + 0.2);
   
-  gainNode.gain.setValueAtTime(0, ctx.currentTime);
-  gainNode.gain.linearRampToValueAtTime(0.1, ctx.currentTime + 0.02);
-  gainNode.gain.linearRampToValueAtTime(0, ctx.currentTime + 0.2);
+  gainNode.gain.setValueAtTime(0, time);
+  gainNode.gain.linearRampToValueAtTime(0.1, time + 0.02);
+  gainNode.gain.linearRampToValueAtTime(0, time + 0.2);
   
   oscillator.connect(gainNode);
   gainNode.connect(destination);
   
-  oscillator.start(ctx.currentTime);
-  oscillator.stop(ctx.currentTime + 0.3);
+  oscillator.start(time);
+  oscillator.stop(time + 0.3);
   
   return [oscillator, gainNode];
 }
 
 // Create cricket sound
-function createCricketChirp(ctx: AudioContext, destination: AudioNode): AudioNode[] {
+function createCricketChirp(ctx: BaseAudioContext, destination: AudioNode, time: number = ctx.currentTime): AudioNode[] {
   const oscillator = ctx.createOscillator();
   const gainNode = ctx.createGain();
   
   oscillator.type = 'square';
-  oscillator.frequency.setValueAtTime(4000, ctx.currentTime);
+  oscillator.frequency.setValueAtTime(4000, time);
   
   // Rapid on-off pattern
-  const now = ctx.currentTime;
   for (let i = 0; i < 6; i++) {
-    gainNode.gain.setValueAtTime(0.03, now + i * 0.05);
-    gainNode.gain.setValueAtTime(0, now + i * 0.05 + 0.02);
+    gainNode.gain.setValueAtTime(0.03, time + i * 0.05);
+    gainNode.gain.setValueAtTime(0, time + i * 0.05 + 0.02);
   }
   
   oscillator.connect(gainNode);
   gainNode.connect(destination);
   
-  oscillator.start(ctx.currentTime);
-  oscillator.stop(ctx.currentTime + 0.4);
+  oscillator.start(time);
+  oscillator.stop(time + 0.4);
   
   return [oscillator, gainNode];
 }
 
 // Create wave sound using filtered noise
-function createWaveSound(ctx: AudioContext, destination: AudioNode): AudioNode[] {
+function createWaveSound(ctx: BaseAudioContext, destination: AudioNode, time: number = ctx.currentTime, random: RandomSource = Math.random): AudioNode[] {
   const bufferSize = ctx.sampleRate * 2;
   const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
   const data = buffer.getChannelData(0);
@@ -84,7 +86,7 @@ function createWaveSound(ctx: AudioContext, destination: AudioNode): AudioNode[]
   // Generate pink noise
   let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
   for (let i = 0; i < bufferSize; i++) {
-    const white = Math.random() * 2 - 1;
+    const white = random() * 2 - 1;
     b0 = 0.99886 * b0 + white * 0.0555179;
     b1 = 0.99332 * b1 + white * 0.0750759;
     b2 = 0.96900 * b2 + white * 0.1538520;
@@ -101,37 +103,43 @@ function createWaveSound(ctx: AudioContext, destination: AudioNode): AudioNode[]
   
   const filter = ctx.createBiquadFilter();
   filter.type = 'lowpass';
-  filter.frequency.setValueAtTime(500, ctx.currentTime);
+  filter.frequency.setValueAtTime(500, time);
   
   const gainNode = ctx.createGain();
-  gainNode.gain.setValueAtTime(0.15, ctx.currentTime);
+  gainNode.gain.setValueAtTime(0.15, time);
   
   // Wave modulation
   const lfo = ctx.createOscillator();
   const lfoGain = ctx.createGain();
-  lfo.frequency.setValueAtTime(0.1, ctx.currentTime);
-  lfoGain.gain.setValueAtTime(0.1, ctx.currentTime);
+  lfo.frequency.setValueAtTime(0.1, time);
+  lfoGain.gain.setValueAtTime(0.1, time);
   lfo.connect(lfoGain);
   lfoGain.connect(gainNode.gain);
-  lfo.start();
+  lfo.start(time);
   
   source.connect(filter);
   filter.connect(gainNode);
   gainNode.connect(destination);
-  source.start();
+  source.start(time);
   
   return [source, filter, gainNode, lfo, lfoGain];
 }
 
 // Create wind sound
-function createWindSound(ctx: AudioContext, destination: AudioNode): AudioNode[] {
+function createWindSound(
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  time: number = ctx.currentTime,
+  random: RandomSource = Math.random,
+  level: number = 0.08
+): AudioNode[] {
   const bufferSize = ctx.sampleRate * 3;
   const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
   const data = buffer.getChannelData(0);
   
   // Generate noise
   for (let i = 0; i < bufferSize; i++) {
-    data[i] = (Math.random() * 2 - 1) * 0.5;
+    data[i] = (random() * 2 - 1) * 0.5;
   }
   
   const source = ctx.createBufferSource();
@@ -140,37 +148,37 @@ function createWindSound(ctx: AudioContext, destination: AudioNode): AudioNode[]
   
   const filter = ctx.createBiquadFilter();
   filter.type = 'bandpass';
-  filter.frequency.setValueAtTime(400, ctx.currentTime);
-  filter.Q.setValueAtTime(0.5, ctx.currentTime);
+  filter.frequency.setValueAtTime(400, time);
+  filter.Q.setValueAtTime(0.5, time);
   
   const gainNode = ctx.createGain();
-  gainNode.gain.setValueAtTime(0.08, ctx.currentTime);
+  gainNode.gain.setValueAtTime(level, time);
   
   // Slow modulation for wind gusts
   const lfo = ctx.createOscillator();
   const lfoGain = ctx.createGain();
-  lfo.frequency.setValueAtTime(0.05, ctx.currentTime);
-  lfoGain.gain.setValueAtTime(0.05, ctx.currentTime);
+  lfo.frequency.setValueAtTime(0.05, time);
+  lfoGain.gain.setValueAtTime(0.05, time);
   lfo.connect(lfoGain);
   lfoGain.connect(gainNode.gain);
-  lfo.start();
+  lfo.start(time);
   
   source.connect(filter);
   filter.connect(gainNode);
   gainNode.connect(destination);
-  source.start();
+  source.start(time);
   
   return [source, filter, gainNode, lfo, lfoGain];
 }
 
 // Create gentle rain sound
-function createRainSound(ctx: AudioContext, destination: AudioNode): AudioNode[] {
+function createRainSound(ctx: BaseAudioContext, destination: AudioNode, time: number = ctx.currentTime, random: RandomSource = Math.random): AudioNode[] {
   const bufferSize = ctx.sampleRate * 2;
   const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
   const data = buffer.getChannelData(0);
   
   for (let i = 0; i < bufferSize; i++) {
-    data[i] = (Math.random() * 2 - 1) * 0.3;
+    data[i] = (random() * 2 - 1) * 0.3;
   }
   
   const source = ctx.createBufferSource();
@@ -179,39 +187,167 @@ function createRainSound(ctx: AudioContext, destination: AudioNode): AudioNode[]
   
   const filter = ctx.createBiquadFilter();
   filter.type = 'highpass';
-  filter.frequency.setValueAtTime(1000, ctx.currentTime);
+  filter.frequency.setValueAtTime(1000, time);
   
   const gainNode = ctx.createGain();
-  gainNode.gain.setValueAtTime(0.1, ctx.currentTime);
+  gainNode.gain.setValueAtTime(0.1, time);
   
   source.connect(filter);
   filter.connect(gainNode);
   gainNode.connect(destination);
-  source.start();
+  source.start(time);
   
   return [source, filter, gainNode];
 }
 
 // Create soft music box tone for bedroom
-function createMusicBoxTone(ctx: AudioContext, destination: AudioNode, note: number): AudioNode[] {
+function createMusicBoxTone(ctx: BaseAudioContext, destination: AudioNode, note: number, time: number = ctx.currentTime): AudioNode[] {
   const oscillator = ctx.createOscillator();
   const gainNode = ctx.createGain();
   
   oscillator.type = 'sine';
-  oscillator.frequency.setValueAtTime(note, ctx.currentTime);
+  oscillator.frequency.setValueAtTime(note, time);
   
-  gainNode.gain.setValueAtTime(0.1, ctx.currentTime);
-  gainNode.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 2);
+  gainNode.gain.setValueAtTime(0.1, time);
+  gainNode.gain.exponentialRampToValueAtTime(0.001, time + 2);
   
   oscillator.connect(gainNode);
   gainNode.connect(destination);
   
-  oscillator.start(ctx.currentTime);
-  oscillator.stop(ctx.currentTime + 2);
+  oscillator.start(time);
+  oscillator.stop(time + 2);
   
   return [oscillator, gainNode];
 }
 
+// Create a very subtle clock tick
+function createClockTick(ctx: BaseAudioContext, destination: AudioNode, time: number = ctx.currentTime): AudioNode[] {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.frequency.setValueAtTime(800, time);
+  gain.gain.setValueAtTime(0.02, time);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+  osc.connect(gain);
+  gain.connect(destination);
+  osc.start(time);
+  osc.stop(time + 0.05);
+
+  return [osc, gain];
+}
+
+// A sound that repeats every minInterval-maxInterval ms, firing with the given chance
+interface AmbientEventLayer {
+  minInterval: number;
+  maxInterval: number;
+  chance: number;
+  play: (ctx: BaseAudioContext, destination: AudioNode, time: number, random: RandomSource, index: number) => AudioNode[];
+}
+
+interface AmbientLayers {
+  // Continuous loops (wind, waves, rain)
+  beds: ((ctx: BaseAudioContext, destination: AudioNode, time: number, random: RandomSource) => AudioNode[])[];
+  events: AmbientEventLayer[];
+}
+
+const MUSIC_BOX_NOTES = [523.25, 587.33, 659.25, 698.46, 783.99, 880.00]; // C5 to A5
+
+// Layers that make up each ambient sound type
+const AMBIENT_LAYERS: Record<AmbientSoundType, AmbientLayers> = {
+  // Birds chirping randomly over a light wind
+  meadow: {
+    beds: [(ctx, dest, time, random) => createWindSound(ctx, dest, time, random)],
+    events: [
+      { minInterval: 2000, maxInterval: 5000, chance: 0.7, play: (ctx, dest, time, random) => createBirdChirp(ctx, dest, 1800 + random() * 800, time) },
+    ],
+  },
+  park: {
+    beds: [(ctx, dest, time, random) => createWindSound(ctx, dest, time, random)],
+    events: [
+      { minInterval: 2000, maxInterval: 5000, chance: 0.7, play: (ctx, dest, time, random) => createBirdChirp(ctx, dest, 1800 + random() * 800, time) },
+    ],
+  },
+  // Birds, crickets (more frequent) and rustling leaves
+  forest: {
+    beds: [(ctx, dest, time, random) => createWindSound(ctx, dest, time, random)],
+    events: [
+      { minInterval: 3000, maxInterval: 7000, chance: 0.5, play: (ctx, dest, time, random) => createBirdChirp(ctx, dest, 1500 + random() * 500, time) },
+      { minInterval: 1000, maxInterval: 3000, chance: 0.6, play: (ctx, dest, time) => createCricketChirp(ctx, dest, time) },
+    ],
+  },
+  // Waves with seagulls occasionally
+  beach: {
+    beds: [(ctx, dest, time, random) => createWaveSound(ctx, dest, time, random)],
+    events: [
+      { minInterval: 5000, maxInterval: 10000, chance: 0.3, play: (ctx, dest, time, random) => createBirdChirp(ctx, dest, 800 + random() * 400, time) },
+    ],
+  },
+  // Crickets, an occasional owl hoot (low frequency bird) and gentle wind
+  night: {
+    beds: [(ctx, dest, time, random) => createWindSound(ctx, dest, time, random, 0.03)],
+    events: [
+      { minInterval: 800, maxInterval: 2300, chance: 1, play: (ctx, dest, time) => createCricketChirp(ctx, dest, time) },
+      { minInterval: 8000, maxInterval: 15000, chance: 0.2, play: (ctx, dest, time, random) => createBirdChirp(ctx, dest, 300 + random() * 100, time) },
+    ],
+  },
+  // Soft music box melody and a very subtle clock
+  bedroom: {
+    beds: [],
+    events: [
+      { minInterval: 3000, maxInterval: 3000, chance: 1, play: (ctx, dest, time, random, index) => createMusicBoxTone(ctx, dest, MUSIC_BOX_NOTES[index % MUSIC_BOX_NOTES.length], time) },
+      { minInterval: 1000, maxInterval: 1000, chance: 1, play: (ctx, dest, time) => createClockTick(ctx, dest, time) },
+    ],
+  },
+  rain: {
+    beds: [(ctx, dest, time, random) => createRainSound(ctx, dest, time, random)],
+    events: [],
+  },
+  wind: {
+    beds: [(ctx, dest, time, random) => createWindSound(ctx, dest, time, random, 0.15)],
+    events: [],
+  },
+};
+
+// Pick the repeat interval for an event layer, in ms
+function getLayerInterval(layer: AmbientEventLayer, random: RandomSource): number {
+  return layer.minInterval + random() * (layer.maxInterval - layer.minInterval);
+}
+
+/**
+ * Schedule an ambient bed into any audio context between startTime and
+ * startTime + duration (seconds). Exports use this with an OfflineAudioContext
+ * and a seeded random source so the mix comes out the same every time.
+ */
+export function scheduleAmbientSounds(
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  type: AmbientSoundType,
+  startTime: number,
+  duration: number,
+  random: RandomSource = Math.random
+): void {
+  const layers = AMBIENT_LAYERS[type];
+  const endTime = startTime + duration;
+  if (!layers || duration <= 0) return;
+
+  layers.beds.forEach((bed) => {
+    bed(ctx, destination, startTime, random).forEach((node) => {
+      if (node instanceof AudioScheduledSourceNode) {
+        node.stop(endTime);
+      }
+    });
+  });
+
+  layers.events.forEach((layer) => {
+    const interval = getLayerInterval(layer, random) / 1000;
+    let index = 0;
+    for (let time = startTime + interval; time < endTime; time += interval) {
+      if (random() < layer.chance) {
+        layer.play(ctx, destination, time, random, index++);
+      }
+    }
+  });
+}
+
 // Ambient sound controller class
 export class AmbientSoundController {
   private audioContext: AudioContext | null = null;
@@ -298,127 +434,22 @@ export class AmbientSoundController {
       this.masterGain.gain.linearRampToValueAtTime(0.5, ctx.currentTime + 1);
     }
 
-    switch (type) {
-      case 'meadow':
-      case 'park':
-        // Birds chirping randomly
-        const birdInterval = setInterval(() => {
-          if (this.isPlaying && Math.random() > 0.3) {
-            const freq = 1800 + Math.random() * 800;
-            createBirdChirp(ctx, dest, freq);
-          }
-        }, 2000 + Math.random() * 3000);
-        this.intervalIds.push(birdInterval);
-        
-        // Light wind
-        const windNodes = createWindSound(ctx, dest);
-        this.activeNodes.push(...windNodes);
-        break;
-
-      case 'forest':
-        // Birds
-        const forestBirdInterval = setInterval(() => {
-          if (this.isPlaying && Math.random() > 0.5) {
-            createBirdChirp(ctx, dest, 1500 + Math.random() * 500);
-          }
-        }, 3000 + Math.random() * 4000);
-        this.intervalIds.push(forestBirdInterval);
-        
-        // Crickets (more frequent)
-        const cricketInterval = setInterval(() => {
-          if (this.isPlaying && Math.random() > 0.4) {
-            createCricketChirp(ctx, dest);
-          }
-        }, 1000 + Math.random() * 2000);
-        this.intervalIds.push(cricketInterval);
-        
-        // Rustling leaves (wind)
-        const rustleNodes = createWindSound(ctx, dest);
-        this.activeNodes.push(...rustleNodes);
-        break;
-
-      case 'beach':
-        // Waves
-        const waveNodes = createWaveSound(ctx, dest);
-        this.activeNodes.push(...waveNodes);
-        
-        // Seagulls occasionally
-        const seagullInterval = setInterval(() => {
-          if (this.isPlaying && Math.random() > 0.7) {
-            createBirdChirp(ctx, dest, 800 + Math.random() * 400);
-          }
-        }, 5000 + Math.random() * 5000);
-        this.intervalIds.push(seagullInterval);
-        break;
-
-      case 'night':
-        // Crickets
-        const nightCricketInterval = setInterval(() => {
-          if (this.isPlaying) {
-            createCricketChirp(ctx, dest);
-          }
-        }, 800 + Math.random() * 1500);
-        this.intervalIds.push(nightCricketInterval);
-        
-        // Occasional owl hoot (low frequency bird)
-        const owlInterval = setInterval(() => {
-          if (this.isPlaying && Math.random() > 0.8) {
-            createBirdChirp(ctx, dest, 300 + Math.random() * 100);
-          }
-        }, 8000 + Math.random() * 7000);
-        this.intervalIds.push(owlInterval);
-        
-        // Gentle wind
-        const nightWindNodes = createWindSound(ctx, dest);
-        if (nightWindNodes[2] instanceof GainNode) {
-          nightWindNodes[2].gain.setValueAtTime(0.03, ctx.currentTime);
-        }
-        this.activeNodes.push(...nightWindNodes);
-        break;
-
-      case 'bedroom':
-        // Soft music box melody
-        const notes = [523.25, 587.33, 659.25, 698.46, 783.99, 880.00]; // C5 to A5
-        let noteIndex = 0;
-        const musicBoxInterval = setInterval(() => {
-          if (this.isPlaying) {
-            const note = notes[noteIndex % notes.length];
-            createMusicBoxTone(ctx, dest, note);
-            noteIndex++;
-          }
-        }, 3000);
-        this.intervalIds.push(musicBoxInterval);
-        
-        // Clock ticking (very subtle)
-        const tickInterval = setInterval(() => {
-          if (this.isPlaying) {
-            const osc = ctx.createOscillator();
-            const gain = ctx.createGain();
-            osc.frequency.setValueAtTime(800, ctx.currentTime);
-            gain.gain.setValueAtTime(0.02, ctx.currentTime);
-            gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.05);
-            osc.connect(gain);
-            gain.connect(dest);
-            osc.start();
-            osc.stop(ctx.currentTime + 0.05);
-          }
-        }, 1000);
-        this.intervalIds.push(tickInterval);
-        break;
-
-      case 'rain':
-        const rainNodes = createRainSound(ctx, dest);
-        this.activeNodes.push(...rainNodes);
-        break;
-
-      case 'wind':
-        const strongWindNodes = createWindSound(ctx, dest);
-        if (strongWindNodes[2] instanceof GainNode) {
-          strongWindNodes[2].gain.setValueAtTime(0.15, ctx.currentTime);
+    const layers = AMBIENT_LAYERS[type];
+    if (!layers) return;
+
+    layers.beds.forEach((bed) => {
+      this.activeNodes.push(...bed(ctx, dest, ctx.currentTime, Math.random));
+    });
+
+    layers.events.forEach((layer) => {
+      let index = 0;
+      const intervalId = setInterval(() => {
+        if (this.isPlaying && Math.random() < layer.chance) {
+          layer.play(ctx, dest, ctx.currentTime, Math.random, index++);
         }
-        this.activeNodes.push(...strongWindNodes);
-        break;
-    }
+      }, getLayerInterval(layer, Math.random));
+      this.intervalIds.push(intervalId);
+    });
   }
 
   stop(fadeOut: boolean = true) {
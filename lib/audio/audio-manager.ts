@@ -3,8 +3,9 @@
  * Handles narration TTS, background music, SFX, and volume mixing
  */
 
-import { AudioController, getAudioController, generateLipSync, LipSyncData } from './audio-system';
-import { AmbientSoundController, getAmbientSoundController } from './ambient-sounds';
+import { AudioController, getAudioController } from './audio-system';
+import { LipSyncData, generateLipSync } from './lip-sync';
+import { AmbientSoundController, AmbientSoundType, getAmbientSoundController } from './ambient-sounds';
 
 export interface AudioSettings {
   masterVolume: number;
@@ -15,6 +16,15 @@ export interface AudioSettings {
   narratorVoice: string | null;
 }
 
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  masterVolume: 0.8,
+  narrationVolume: 1.0,
+  musicVolume: 0.3,
+  sfxVolume: 0.5,
+  autoNarration: true,
+  narratorVoice: null,
+};
+
 export interface SceneAudioConfig {
   narration: string;
   mood: 'happy' | 'sad' | 'exciting' | 'calm' | 'mysterious' | 'neutral';
@@ -33,7 +43,7 @@ const MOOD_MUSIC_CONFIG: Record<string, { tempo: number; key: string; style: str
 };
 
 // Background to ambient sound mapping
-const BACKGROUND_AMBIENT: Record<string, string> = {
+const BACKGROUND_AMBIENT: Record<string, AmbientSoundType> = {
   meadow: 'meadow',
   forest: 'forest',
   beach: 'beach',
@@ -70,14 +80,7 @@ export class AudioManager {
   private musicOscillators: OscillatorNode[] = [];
   private currentMood: string = 'neutral';
   
-  private settings: AudioSettings = {
-    masterVolume: 0.8,
-    narrationVolume: 1.0,
-    musicVolume: 0.3,
-    sfxVolume: 0.5,
-    autoNarration: true,
-    narratorVoice: null,
-  };
+  private settings: AudioSettings = { ...DEFAULT_AUDIO_SETTINGS };
 
   constructor() {
     this.audioController = getAudioController();
@@ -138,7 +141,7 @@ export class AudioManager {
   ): Promise<LipSyncData> {
     if (!this.settings.autoNarration) {
       onComplete?.();
-      return { frames: [], totalDuration: 0 };
+      return { duration: 0, frames: [] };
     }
 
     const lipSyncData = generateLipSync(text);
@@ -238,11 +241,11 @@ export class AudioManager {
 
   // Play ambient sounds based on background
   async playAmbientSound(background: string): Promise<void> {
-    const ambientType = BACKGROUND_AMBIENT[background] || 'meadow';
+    const ambientType = getAmbientTypeForBackground(background);
     
     if (this.ambientController) {
       this.ambientController.setVolume(this.settings.sfxVolume * this.settings.masterVolume * 0.5);
-      this.ambientController.play(ambientType as any, true); // fadeIn = true
+      this.ambientController.play(ambientType, true); // fadeIn = true
     }
   }
 
@@ -428,6 +431,11 @@ export function detectActionsForSFX(narration: string): string[] {
   return actions;
 }
 
+// Ambient sound type for a scene background (meadow when there is no match)
+export function getAmbientTypeForBackground(background: string): AmbientSoundType {
+  return BACKGROUND_AMBIENT[background] || 'meadow';
+}
+
 // Detect mood from narration text
 export function detectMoodFromNarration(narration: string): string {
   const lowerNarration = narration.toLowerCase();
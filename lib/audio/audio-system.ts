@@ -1,152 +1,35 @@
 // Audio System - Handles narration, dialogue, and lip-sync
 
 import { MouthShape } from '../animation/keyframe-animation';
+import { LipSyncData, generateLipSync, getMouthShapeAtTime } from './lip-sync';
+import { getCloudTTSService } from './cloud-tts';
 
-// Phoneme to mouth shape mapping
-const PHONEME_TO_MOUTH: Record<string, MouthShape> = {
-  // Vowels
-  'a': 'wide',
-  'e': 'ee',
-  'i': 'ee',
-  'o': 'oh',
-  'u': 'oh',
-  // Consonants that show teeth
-  'f': 'ee',
-  'v': 'ee',
-  's': 'ee',
-  'z': 'ee',
-  'th': 'ee',
-  // Lip consonants
-  'b': 'closed',
-  'p': 'closed',
-  'm': 'closed',
-  // Open mouth consonants
-  'l': 'open',
-  'n': 'open',
-  'd': 'open',
-  't': 'open',
-  'r': 'open',
-  // Wide mouth
-  'w': 'oh',
-  'y': 'ee',
-  'k': 'open',
-  'g': 'open',
-  'h': 'open',
-  'j': 'open',
-  'ch': 'open',
-  'sh': 'open',
-};
-
-// Simple phoneme extraction from text
-function extractPhonemes(text: string): string[] {
-  const phonemes: string[] = [];
-  const lowerText = text.toLowerCase();
-  
-  let i = 0;
-  while (i < lowerText.length) {
-    const char = lowerText[i];
-    const nextChar = lowerText[i + 1];
-    
-    // Check for digraphs
-    if (nextChar) {
-      const digraph = char + nextChar;
-      if (digraph === 'th' || digraph === 'ch' || digraph === 'sh') {
-        phonemes.push(digraph);
-        i += 2;
-        continue;
-      }
-    }
-    
-    // Single character
-    if (/[a-z]/.test(char)) {
-      phonemes.push(char);
-    } else if (char === ' ' || char === ',' || char === '.') {
-      phonemes.push('pause');
-    }
-    
-    i++;
-  }
-  
-  return phonemes;
-}
-
-// Generate lip-sync data from text
-export interface LipSyncFrame {
-  time: number;
-  mouthShape: MouthShape;
-  duration: number;
-}
-
-export interface LipSyncData {
-  frames: LipSyncFrame[];
-  totalDuration: number;
+// Options for AudioController.speak
+export interface SpeakOptions {
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  // TTS voice id (see TTS_VOICES); used when a cloud TTS provider is configured
+  voice?: string;
+  onStart?: () => void;
+  onEnd?: () => void;
+  onMouthShapeChange?: (shape: MouthShape) => void;
 }
 
-export function generateLipSync(
-  text: string,
-  speechRate: number = 0.9,
-  wordsPerMinute: number = 150
-): LipSyncData {
-  const phonemes = extractPhonemes(text);
-  const frames: LipSyncFrame[] = [];
-  
-  // Calculate timing based on speech rate
-  const basePhonemeLength = (60 / wordsPerMinute / 4) * 1000 / speechRate; // ms per phoneme
-  const pauseLength = basePhonemeLength * 2;
-  
-  let currentTime = 0;
-  
-  for (const phoneme of phonemes) {
-    if (phoneme === 'pause') {
-      frames.push({
-        time: currentTime,
-        mouthShape: 'closed',
-        duration: pauseLength,
-      });
-      currentTime += pauseLength;
-    } else {
-      const mouthShape = PHONEME_TO_MOUTH[phoneme] || 'open';
-      frames.push({
-        time: currentTime,
-        mouthShape,
-        duration: basePhonemeLength,
-      });
-      currentTime += basePhonemeLength;
-    }
-  }
-  
-  // Add closing frame
-  frames.push({
-    time: currentTime,
-    mouthShape: 'closed',
-    duration: 100,
-  });
-  
-  return {
-    frames,
-    totalDuration: currentTime + 100,
-  };
-}
-
-// Get mouth shape at a specific time
-export function getMouthShapeAtTime(lipSync: LipSyncData, time: number): MouthShape {
-  for (let i = lipSync.frames.length - 1; i >= 0; i--) {
-    if (time >= lipSync.frames[i].time) {
-      return lipSync.frames[i].mouthShape;
-    }
-  }
-  return 'closed';
-}
-
-// Audio controller for managing speech synthesis
+// Audio controller for managing speech synthesis.
+// With a cloud TTS provider configured, lines play as TTS audio and mouths follow the
+// lip sync computed from that audio; otherwise the browser speaks and mouths follow the text.
 export class AudioController {
   private utterance: SpeechSynthesisUtterance | null = null;
+  private audio: HTMLAudioElement | null = null;
   private lipSyncData: LipSyncData | null = null;
   private startTime: number = 0;
   private isPlaying: boolean = false;
   private onMouthShapeChange: ((shape: MouthShape) => void) | null = null;
   private animationFrame: number | null = null;
   private selectedVoice: SpeechSynthesisVoice | null = null;
+  // Bumped by every speak/stop, so a slow TTS request can't start after it was cancelled
+  private speechId: number = 0;
   
   constructor() {
     // Load voices
@@ -170,24 +53,69 @@ export class AudioController {
     ) || voices.find(v => v.lang.startsWith('en')) || voices[0];
   }
   
-  speak(
-    text: string,
-    options: {
-      rate?: number;
-      pitch?: number;
-      volume?: number;
-      onStart?: () => void;
-      onEnd?: () => void;
-      onMouthShapeChange?: (shape: MouthShape) => void;
-    } = {}
-  ): void {
-    if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+  speak(text: string, options: SpeakOptions = {}): void {
+    if (typeof window === 'undefined') {
       console.warn('Speech synthesis not available');
       return;
     }
     
     // Cancel any existing speech
     this.stop();
+    const speechId = this.speechId;
+    this.onMouthShapeChange = options.onMouthShapeChange || null;
+    
+    if (getCloudTTSService().getAvailableProvider() !== 'browser') {
+      void this.speakWithCloudTTS(text, options, speechId);
+    } else {
+      this.speakWithBrowser(text, options);
+    }
+  }
+  
+  private async speakWithCloudTTS(text: string, options: SpeakOptions, speechId: number): Promise<void> {
+    const { volume = 0.8, voice, onStart, onEnd } = options;
+    // Same request the video export makes, so both share the cached audio and lip sync
+    const result = await getCloudTTSService().synthesize(text, { voice });
+    if (speechId !== this.speechId) return;
+    
+    // The provider failed over to the browser voice
+    if (!result.audioUrl) {
+      this.speakWithBrowser(text, options);
+      return;
+    }
+    
+    const audio = new Audio(result.audioUrl);
+    audio.volume = volume;
+    this.audio = audio;
+    this.lipSyncData = result.lipSync;
+    
+    audio.onplay = () => {
+      this.isPlaying = true;
+      this.startLipSyncAnimation();
+      onStart?.();
+    };
+    
+    audio.onended = () => {
+      this.isPlaying = false;
+      this.stopLipSyncAnimation();
+      this.onMouthShapeChange?.('closed');
+      onEnd?.();
+    };
+    
+    audio.play().catch((error) => {
+      // Autoplay blocked or unplayable audio: let the browser voice read it instead
+      console.warn('TTS audio playback failed, using browser speech:', error);
+      if (speechId === this.speechId) {
+        this.audio = null;
+        this.speakWithBrowser(text, options);
+      }
+    });
+  }
+  
+  private speakWithBrowser(text: string, options: SpeakOptions): void {
+    if (!('speechSynthesis' in window)) {
+      console.warn('Speech synthesis not available');
+      return;
+    }
     
     const {
       rate = 0.9,
@@ -195,12 +123,10 @@ export class AudioController {
       volume = 0.8,
       onStart,
       onEnd,
-      onMouthShapeChange,
     } = options;
     
     // Generate lip sync data
-    this.lipSyncData = generateLipSync(text, rate);
-    this.onMouthShapeChange = onMouthShapeChange || null;
+    this.lipSyncData = generateLipSync(text, undefined, rate);
     
     // Create utterance
     this.utterance = new SpeechSynthesisUtterance(text);
@@ -239,9 +165,10 @@ export class AudioController {
     const animate = () => {
       if (!this.isPlaying || !this.lipSyncData) return;
       
-      const elapsed = performance.now() - this.startTime;
-      const mouthShape = getMouthShapeAtTime(this.lipSyncData, elapsed);
-      this.onMouthShapeChange?.(mouthShape);
+      // TTS audio is followed by its own clock, so mouths stay on the words if it stalls
+      const elapsed = this.audio ? this.audio.currentTime * 1000 : performance.now() - this.startTime;
+      const { shape } = getMouthShapeAtTime(this.lipSyncData, elapsed);
+      this.onMouthShapeChange?.(shape);
       
       this.animationFrame = requestAnimationFrame(animate);
     };
@@ -257,6 +184,12 @@ export class AudioController {
   }
   
   stop(): void {
+    this.speechId++;
+    if (this.audio) {
+      this.audio.onended = null;
+      this.audio.pause();
+      this.audio = null;
+    }
     if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
       window.speechSynthesis.cancel();
     }
@@ -266,7 +199,9 @@ export class AudioController {
   }
   
   pause(): void {
-    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
+    if (this.audio) {
+      this.audio.pause();
+    } else if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
       window.speechSynthesis.pause();
     }
     this.isPlaying = false;
@@ -274,7 +209,11 @@ export class AudioController {
   }
   
   resume(): void {
-    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
+    if (this.audio) {
+      void this.audio.play();
+      this.isPlaying = true;
+      this.startLipSyncAnimation();
+    } else if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
       window.speechSynthesis.resume();
       this.isPlaying = true;
       this.startLipSyncAnimation();
@@ -302,6 +241,7 @@ export interface DialogueLine {
   text: string;
   emotion?: 'neutral' | 'happy' | 'sad' | 'surprised' | 'angry';
   delay?: number; // Delay before this line starts (ms)
+  voice?: string; // TTS voice id, e.g. from the character registry
 }
 
 export interface DialogueSequence {
@@ -354,6 +294,7 @@ export class DialoguePlayer {
       this.onLineStart?.(line, this.currentLineIndex);
       
       this.audioController.speak(line.text, {
+        voice: line.voice,
         onMouthShapeChange: (shape) => {
           this.onMouthShapeChange?.(line.characterId, shape);
         },
@@ -277,50 +277,53 @@ export class SoundSynthesizer {
   playSound(event: SoundEvent): void {
     if (!this.audioContext || !this.masterGain) return;
     
-    const ctx = this.audioContext;
-    const now = ctx.currentTime;
-    const startTime = now + event.time / 1000;
+    this.scheduleSound(this.audioContext, this.masterGain, event, this.audioContext.currentTime);
+  }
+  
+  /**
+   * Schedule a sound effect into any audio context; event.time is relative to offset
+   * (seconds). Exports use this to mix SFX into an OfflineAudioContext.
+   */
+  scheduleSound(ctx: BaseAudioContext, destination: AudioNode, event: SoundEvent, offset: number): void {
+    const startTime = offset + event.time / 1000;
     const duration = event.duration / 1000;
     
     switch (event.type) {
       case 'footstep':
-        this.playFootstep(startTime, duration, event);
+        this.playFootstep(ctx, destination, startTime, duration, event);
         break;
       case 'jump':
       case 'whoosh':
-        this.playWhoosh(startTime, duration, event);
+        this.playWhoosh(ctx, destination, startTime, duration, event);
         break;
       case 'land':
-        this.playImpact(startTime, duration, event);
+        this.playImpact(ctx, destination, startTime, duration, event);
         break;
       case 'pop':
-        this.playPop(startTime, duration, event);
+        this.playPop(ctx, destination, startTime, duration, event);
         break;
       case 'bird':
-        this.playBirdChirp(startTime, duration, event);
+        this.playBirdChirp(ctx, destination, startTime, duration, event);
         break;
       case 'cricket':
-        this.playCricket(startTime, duration, event);
+        this.playCricket(ctx, destination, startTime, duration, event);
         break;
       case 'wave':
-        this.playWave(startTime, duration, event);
+        this.playWave(ctx, destination, startTime, duration, event);
         break;
       case 'wind':
-        this.playWind(startTime, duration, event);
+        this.playWind(ctx, destination, startTime, duration, event);
         break;
       case 'magic':
-        this.playMagic(startTime, duration, event);
+        this.playMagic(ctx, destination, startTime, duration, event);
         break;
       case 'chime':
-        this.playChime(startTime, duration, event);
+        this.playChime(ctx, destination, startTime, duration, event);
         break;
     }
   }
   
-  private playFootstep(startTime: number, duration: number, event: SoundEvent): void {
-    if (!this.audioContext || !this.masterGain) return;
-    
-    const ctx = this.audioContext;
+  private playFootstep(ctx: BaseAudioContext, destination: AudioNode, startTime: number, duration: number, event: SoundEvent): void {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     const filter = ctx.createBiquadFilter();
@@ -337,16 +340,13 @@ export class SoundSynthesizer {
     
     osc.connect(filter);
     filter.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(destination);
     
     osc.start(startTime);
     osc.stop(startTime + duration);
   }
   
-  private playWhoosh(startTime: number, duration: number, event: SoundEvent): void {
-    if (!this.audioContext || !this.masterGain) return;
-    
-    const ctx = this.audioContext;
+  private playWhoosh(ctx: BaseAudioContext, destination: AudioNode, startTime: number, duration: number, event: SoundEvent): void {
     const bufferSize = ctx.sampleRate * duration;
     const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
     const data = buffer.getChannelData(0);
@@ -370,15 +370,12 @@ export class SoundSynthesizer {
     
     source.connect(filter);
     filter.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(destination);
     
     source.start(startTime);
   }
   
-  private playImpact(startTime: number, duration: number, event: SoundEvent): void {
-    if (!this.audioContext || !this.masterGain) return;
-    
-    const ctx = this.audioContext;
+  private playImpact(ctx: BaseAudioContext, destination: AudioNode, startTime: number, duration: number, event: SoundEvent): void {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     
@@ -390,16 +387,13 @@ export class SoundSynthesizer {
     gain.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
     
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(destination);
     
     osc.start(startTime);
     osc.stop(startTime + duration);
   }
   
-  private playPop(startTime: number, duration: number, event: SoundEvent): void {
-    if (!this.audioContext || !this.masterGain) return;
-    
-    const ctx = this.audioContext;
+  private playPop(ctx: BaseAudioContext, destination: AudioNode, startTime: number, duration: number, event: SoundEvent): void {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     
@@ -411,16 +405,13 @@ export class SoundSynthesizer {
     gain.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
     
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(destination);
     
     osc.start(startTime);
     osc.stop(startTime + duration);
   }
   
-  private playBirdChirp(startTime: number, duration: number, event: SoundEvent): void {
-    if (!this.audioContext || !this.masterGain) return;
-    
-    const ctx = this.audioContext;
+  private playBirdChirp(ctx: BaseAudioContext, destination: AudioNode, startTime: number, duration: number, event: SoundEvent): void {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     
@@ -437,16 +428,13 @@ export class SoundSynthesizer {
     gain.gain.linearRampToValueAtTime(0, startTime + duration);
     
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(destination);
     
     osc.start(startTime);
     osc.stop(startTime + duration);
   }
   
-  private playCricket(startTime: number, duration: number, event: SoundEvent): void {
-    if (!this.audioContext || !this.masterGain) return;
-    
-    const ctx = this.audioContext;
+  private playCricket(ctx: BaseAudioContext, destination: AudioNode, startTime: number, duration: number, event: SoundEvent): void {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     
@@ -461,16 +449,13 @@ export class SoundSynthesizer {
     }
     
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(destination);
     
     osc.start(startTime);
     osc.stop(startTime + duration);
   }
   
-  private playWave(startTime: number, duration: number, event: SoundEvent): void {
-    if (!this.audioContext || !this.masterGain) return;
-    
-    const ctx = this.audioContext;
+  private playWave(ctx: BaseAudioContext, destination: AudioNode, startTime: number, duration: number, event: SoundEvent): void {
     const bufferSize = ctx.sampleRate * duration;
     const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
     const data = buffer.getChannelData(0);
@@ -494,15 +479,12 @@ export class SoundSynthesizer {
     
     source.connect(filter);
     filter.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(destination);
     
     source.start(startTime);
   }
   
-  private playWind(startTime: number, duration: number, event: SoundEvent): void {
-    if (!this.audioContext || !this.masterGain) return;
-    
-    const ctx = this.audioContext;
+  private playWind(ctx: BaseAudioContext, destination: AudioNode, startTime: number, duration: number, event: SoundEvent): void {
     const bufferSize = ctx.sampleRate * duration;
     const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
     const data = buffer.getChannelData(0);
@@ -524,15 +506,12 @@ export class SoundSynthesizer {
     
     source.connect(filter);
     filter.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(destination);
     
     source.start(startTime);
   }
   
-  private playMagic(startTime: number, duration: number, event: SoundEvent): void {
-    if (!this.audioContext || !this.masterGain) return;
-    
-    const ctx = this.audioContext;
+  private playMagic(ctx: BaseAudioContext, destination: AudioNode, startTime: number, duration: number, event: SoundEvent): void {
     
     // Multiple oscillators for sparkle effect
     for (let i = 0; i < 5; i++) {
@@ -549,17 +528,14 @@ export class SoundSynthesizer {
       gain.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
       
       osc.connect(gain);
-      gain.connect(this.masterGain);
+      gain.connect(destination);
       
       osc.start(startTime + i * 0.05);
       osc.stop(startTime + duration);
     }
   }
   
-  private playChime(startTime: number, duration: number, event: SoundEvent): void {
-    if (!this.audioContext || !this.masterGain) return;
-    
-    const ctx = this.audioContext;
+  private playChime(ctx: BaseAudioContext, destination: AudioNode, startTime: number, duration: number, event: SoundEvent): void {
     const frequencies = [523, 659, 784, 1047]; // C5, E5, G5, C6
     
     frequencies.forEach((freq, i) => {
@@ -574,9 +550,7 @@ export class SoundSynthesizer {
       gain.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
       
       osc.connect(gain);
-      if (this.masterGain) {
-        gain.connect(this.masterGain);
-      }
+      gain.connect(destination);
       
       osc.start(startTime + i * 0.1);
       osc.stop(startTime + duration);
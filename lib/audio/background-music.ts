@@ -225,64 +225,164 @@ export class MusicGenerator {
     this.currentNodes = [];
   }
 
+  /**
+   * Schedule a track into any audio context between startTime and startTime + duration
+   * (seconds). Used by exports to mix the mood music into an OfflineAudioContext.
+   */
+  scheduleTrack(
+    ctx: BaseAudioContext,
+    destination: AudioNode,
+    trackId: string,
+    startTime: number,
+    duration: number
+  ): void {
+    const track = MUSIC_TRACKS.find(t => t.id === trackId);
+    if (!track || duration <= 0) return;
+
+    const endTime = startTime + duration;
+    let barStart = startTime;
+    while (barStart < endTime) {
+      barStart += this.scheduleBar(ctx, destination, track, barStart, endTime);
+    }
+  }
+
   // Generate music based on mood
   private generateMusicForMood(track: MusicTrack): void {
     const ctx = this.getContext();
     if (!this.masterGain) return;
 
-    const beatDuration = 60 / track.bpm;
-    
+    const masterGain = this.masterGain;
+    const playLoop = () => {
+      if (!this.isPlaying) return;
+
+      const loopDuration = this.scheduleBar(ctx, masterGain, track, ctx.currentTime);
+      setTimeout(playLoop, loopDuration * 1000);
+    };
+
+    playLoop();
+  }
+
+  // Schedule one loop of the mood pattern at `now`; returns the loop length in seconds
+  private scheduleBar(
+    ctx: BaseAudioContext,
+    destination: AudioNode,
+    track: MusicTrack,
+    now: number,
+    endTime: number = Infinity
+  ): number {
+    const beat = 60 / track.bpm;
+
     // Get scale based on key
     const isMinor = track.key.includes('m');
-    const rootNote = track.key.replace('m', '');
+    const root = track.key.replace('m', '');
     const scale = isMinor ? SCALES.minor : SCALES.major;
 
-    // Generate pattern based on mood
+    const note = (frequency: number, startTime: number, duration: number, type: OscillatorType, volume: number) => {
+      if (startTime >= endTime) return;
+      this.createNote(ctx, destination, frequency, startTime, Math.min(duration, endTime - startTime), type, volume);
+    };
+    const freq = (degree: number, octave?: number) => this.getFrequency(root, scale, degree, octave);
+
     switch (track.mood) {
+      // Happy pattern - bouncy, major key arpeggios
       case 'happy':
-        this.playHappyPattern(ctx, beatDuration, rootNote, scale);
-        break;
+        [0, 2, 4, 2, 0, 4, 2, 4].forEach((degree, i) => {
+          note(freq(degree), now + i * beat, beat * 0.8, 'triangle', 0.2);
+          // Add harmony
+          if (i % 2 === 0) {
+            note(freq(degree + 2), now + i * beat, beat * 0.8, 'sine', 0.1);
+          }
+        });
+        return beat * 8;
+
+      // Sad pattern - slow, minor key
       case 'sad':
-        this.playSadPattern(ctx, beatDuration, rootNote, scale);
-        break;
+        [0, 2, 0, -1, 0, 2, 4, 2].forEach((degree, i) => {
+          note(freq(degree, 3), now + i * beat, beat * 1.5, 'sine', 0.15);
+        });
+        return beat * 8;
+
+      // Adventure pattern - driving rhythm
       case 'adventure':
-        this.playAdventurePattern(ctx, beatDuration, rootNote, scale);
-        break;
+        // Bass
+        note(freq(0, 2), now, beat * 2, 'sawtooth', 0.15);
+        note(freq(4, 2), now + beat * 2, beat * 2, 'sawtooth', 0.15);
+        // Melody
+        [0, 2, 4, 7].forEach((degree, i) => {
+          note(freq(degree, 4), now + i * beat, beat * 0.5, 'square', 0.1);
+        });
+        return beat * 4;
+
+      // Calm pattern - ambient pads
       case 'calm':
-        this.playCalmPattern(ctx, beatDuration, rootNote, scale);
-        break;
+        // Long sustained notes
+        note(freq(0, 3), now, beat * 8, 'sine', 0.1);
+        note(freq(4, 3), now, beat * 8, 'sine', 0.08);
+        note(freq(2, 4), now + beat * 8, beat * 8, 'sine', 0.1);
+        return beat * 16;
+
+      // Mystery pattern - dissonant, sparse
       case 'mystery':
-        this.playMysteryPattern(ctx, beatDuration, rootNote, scale);
-        break;
+        // Sparse, eerie notes
+        note(freq(0, 3), now, beat * 4, 'sine', 0.12);
+        note(freq(6, 4), now + beat * 2, beat * 2, 'triangle', 0.08);
+        note(freq(3, 4), now + beat * 5, beat * 3, 'sine', 0.1);
+        return beat * 8;
+
+      // Exciting pattern - fast arpeggios
       case 'exciting':
-        this.playExcitingPattern(ctx, beatDuration, rootNote, scale);
-        break;
+        [0, 2, 4, 7, 4, 2, 0, 2].forEach((degree, i) => {
+          note(freq(degree, 4), now + i * beat * 0.5, beat * 0.4, 'square', 0.12);
+        });
+        return beat * 4;
+
+      // Romantic pattern - gentle, flowing
       case 'romantic':
-        this.playRomanticPattern(ctx, beatDuration, rootNote, scale);
-        break;
+        [0, 4, 7, 4, 2, 4, 0, 2].forEach((degree, i) => {
+          note(freq(degree, 4), now + i * beat, beat * 1.2, 'sine', 0.15);
+        });
+        return beat * 8;
+
+      // Scary pattern - low drones, dissonance
       case 'scary':
-        this.playScaryPattern(ctx, beatDuration, rootNote, scale);
-        break;
+        // Low drone
+        note(freq(0, 2), now, beat * 8, 'sawtooth', 0.08);
+        // Dissonant notes
+        note(freq(1, 4), now + beat * 3, beat * 2, 'sine', 0.06);
+        note(freq(6, 3), now + beat * 5, beat * 3, 'triangle', 0.07);
+        return beat * 8;
+
+      // Funny pattern - bouncy, quirky
       case 'funny':
-        this.playFunnyPattern(ctx, beatDuration, rootNote, scale);
-        break;
+        // Quirky melody
+        [0, 4, 2, 7, 0, 2, 4, 0].forEach((degree, i) => {
+          note(freq(degree, 4 + (i % 2)), now + i * beat * 0.5, beat * 0.3, 'square', 0.1);
+        });
+        return beat * 4;
+
+      // Epic pattern - powerful, building
       case 'epic':
-        this.playEpicPattern(ctx, beatDuration, rootNote, scale);
-        break;
+        // Power chords
+        [0, 0, 5, 4].forEach((degree, i) => {
+          const time = now + i * beat * 2;
+          note(freq(degree, 2), time, beat * 1.8, 'sawtooth', 0.12);
+          note(freq(degree + 4, 2), time, beat * 1.8, 'sawtooth', 0.1);
+          note(freq(degree, 3), time, beat * 1.8, 'square', 0.08);
+        });
+        return beat * 8;
     }
   }
 
   // Create an oscillator with envelope
   private createNote(
-    ctx: AudioContext,
+    ctx: BaseAudioContext,
+    destination: AudioNode,
     frequency: number,
     startTime: number,
     duration: number,
     type: OscillatorType = 'sine',
     volume: number = 0.3
   ): void {
-    if (!this.masterGain || !this.isPlaying) return;
-
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
 
@@ -296,12 +396,15 @@ export class MusicGenerator {
     gain.gain.linearRampToValueAtTime(0, startTime + duration);
 
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(destination);
 
     osc.start(startTime);
     osc.stop(startTime + duration);
 
-    this.currentNodes.push(osc, gain);
+    // Only live playback needs to be able to stop its notes
+    if (destination === this.masterGain) {
+      this.currentNodes.push(osc, gain);
+    }
   }
 
   // Get frequency for a scale degree
@@ -311,207 +414,6 @@ export class MusicGenerator {
     return rootFreq * Math.pow(2, semitones / 12);
   }
 
-  // Happy pattern - bouncy, major key arpeggios
-  private playHappyPattern(ctx: AudioContext, beat: number, root: string, scale: number[]): void {
-    const loopDuration = beat * 8;
-    const pattern = [0, 2, 4, 2, 0, 4, 2, 4];
-    
-    const playLoop = () => {
-      if (!this.isPlaying) return;
-      
-      const now = ctx.currentTime;
-      pattern.forEach((degree, i) => {
-        this.createNote(ctx, this.getFrequency(root, scale, degree), now + i * beat, beat * 0.8, 'triangle', 0.2);
-        // Add harmony
-        if (i % 2 === 0) {
-          this.createNote(ctx, this.getFrequency(root, scale, degree + 2), now + i * beat, beat * 0.8, 'sine', 0.1);
-        }
-      });
-      
-      setTimeout(playLoop, loopDuration * 1000);
-    };
-    
-    playLoop();
-  }
-
-  // Sad pattern - slow, minor key
-  private playSadPattern(ctx: AudioContext, beat: number, root: string, scale: number[]): void {
-    const loopDuration = beat * 8;
-    const pattern = [0, 2, 0, -1, 0, 2, 4, 2];
-    
-    const playLoop = () => {
-      if (!this.isPlaying) return;
-      
-      const now = ctx.currentTime;
-      pattern.forEach((degree, i) => {
-        this.createNote(ctx, this.getFrequency(root, scale, degree, 3), now + i * beat, beat * 1.5, 'sine', 0.15);
-      });
-      
-      setTimeout(playLoop, loopDuration * 1000);
-    };
-    
-    playLoop();
-  }
-
-  // Adventure pattern - driving rhythm
-  private playAdventurePattern(ctx: AudioContext, beat: number, root: string, scale: number[]): void {
-    const loopDuration = beat * 4;
-    
-    const playLoop = () => {
-      if (!this.isPlaying) return;
-      
-      const now = ctx.currentTime;
-      // Bass
-      this.createNote(ctx, this.getFrequency(root, scale, 0, 2), now, beat * 2, 'sawtooth', 0.15);
-      this.createNote(ctx, this.getFrequency(root, scale, 4, 2), now + beat * 2, beat * 2, 'sawtooth', 0.15);
-      // Melody
-      [0, 2, 4, 7].forEach((degree, i) => {
-        this.createNote(ctx, this.getFrequency(root, scale, degree, 4), now + i * beat, beat * 0.5, 'square', 0.1);
-      });
-      
-      setTimeout(playLoop, loopDuration * 1000);
-    };
-    
-    playLoop();
-  }
-
-  // Calm pattern - ambient pads
-  private playCalmPattern(ctx: AudioContext, beat: number, root: string, scale: number[]): void {
-    const loopDuration = beat * 16;
-    
-    const playLoop = () => {
-      if (!this.isPlaying) return;
-      
-      const now = ctx.currentTime;
-      // Long sustained notes
-      this.createNote(ctx, this.getFrequency(root, scale, 0, 3), now, beat * 8, 'sine', 0.1);
-      this.createNote(ctx, this.getFrequency(root, scale, 4, 3), now, beat * 8, 'sine', 0.08);
-      this.createNote(ctx, this.getFrequency(root, scale, 2, 4), now + beat * 8, beat * 8, 'sine', 0.1);
-      
-      setTimeout(playLoop, loopDuration * 1000);
-    };
-    
-    playLoop();
-  }
-
-  // Mystery pattern - dissonant, sparse
-  private playMysteryPattern(ctx: AudioContext, beat: number, root: string, scale: number[]): void {
-    const loopDuration = beat * 8;
-    
-    const playLoop = () => {
-      if (!this.isPlaying) return;
-      
-      const now = ctx.currentTime;
-      // Sparse, eerie notes
-      this.createNote(ctx, this.getFrequency(root, scale, 0, 3), now, beat * 4, 'sine', 0.12);
-      this.createNote(ctx, this.getFrequency(root, scale, 6, 4), now + beat * 2, beat * 2, 'triangle', 0.08);
-      this.createNote(ctx, this.getFrequency(root, scale, 3, 4), now + beat * 5, beat * 3, 'sine', 0.1);
-      
-      setTimeout(playLoop, loopDuration * 1000);
-    };
-    
-    playLoop();
-  }
-
-  // Exciting pattern - fast arpeggios
-  private playExcitingPattern(ctx: AudioContext, beat: number, root: string, scale: number[]): void {
-    const loopDuration = beat * 4;
-    const pattern = [0, 2, 4, 7, 4, 2, 0, 2];
-    
-    const playLoop = () => {
-      if (!this.isPlaying) return;
-      
-      const now = ctx.currentTime;
-      pattern.forEach((degree, i) => {
-        this.createNote(ctx, this.getFrequency(root, scale, degree, 4), now + i * beat * 0.5, beat * 0.4, 'square', 0.12);
-      });
-      
-      setTimeout(playLoop, loopDuration * 1000);
-    };
-    
-    playLoop();
-  }
-
-  // Romantic pattern - gentle, flowing
-  private playRomanticPattern(ctx: AudioContext, beat: number, root: string, scale: number[]): void {
-    const loopDuration = beat * 8;
-    
-    const playLoop = () => {
-      if (!this.isPlaying) return;
-      
-      const now = ctx.currentTime;
-      [0, 4, 7, 4, 2, 4, 0, 2].forEach((degree, i) => {
-        this.createNote(ctx, this.getFrequency(root, scale, degree, 4), now + i * beat, beat * 1.2, 'sine', 0.15);
-      });
-      
-      setTimeout(playLoop, loopDuration * 1000);
-    };
-    
-    playLoop();
-  }
-
-  // Scary pattern - low drones, dissonance
-  private playScaryPattern(ctx: AudioContext, beat: number, root: string, scale: number[]): void {
-    const loopDuration = beat * 8;
-    
-    const playLoop = () => {
-      if (!this.isPlaying) return;
-      
-      const now = ctx.currentTime;
-      // Low drone
-      this.createNote(ctx, this.getFrequency(root, scale, 0, 2), now, beat * 8, 'sawtooth', 0.08);
-      // Dissonant notes
-      this.createNote(ctx, this.getFrequency(root, scale, 1, 4), now + beat * 3, beat * 2, 'sine', 0.06);
-      this.createNote(ctx, this.getFrequency(root, scale, 6, 3), now + beat * 5, beat * 3, 'triangle', 0.07);
-      
-      setTimeout(playLoop, loopDuration * 1000);
-    };
-    
-    playLoop();
-  }
-
-  // Funny pattern - bouncy, quirky
-  private playFunnyPattern(ctx: AudioContext, beat: number, root: string, scale: number[]): void {
-    const loopDuration = beat * 4;
-    
-    const playLoop = () => {
-      if (!this.isPlaying) return;
-      
-      const now = ctx.currentTime;
-      // Quirky melody
-      [0, 4, 2, 7, 0, 2, 4, 0].forEach((degree, i) => {
-        const freq = this.getFrequency(root, scale, degree, 4 + (i % 2));
-        this.createNote(ctx, freq, now + i * beat * 0.5, beat * 0.3, 'square', 0.1);
-      });
-      
-      setTimeout(playLoop, loopDuration * 1000);
-    };
-    
-    playLoop();
-  }
-
-  // Epic pattern - powerful, building
-  private playEpicPattern(ctx: AudioContext, beat: number, root: string, scale: number[]): void {
-    const loopDuration = beat * 8;
-    
-    const playLoop = () => {
-      if (!this.isPlaying) return;
-      
-      const now = ctx.currentTime;
-      // Power chords
-      [0, 0, 5, 4].forEach((degree, i) => {
-        const time = now + i * beat * 2;
-        this.createNote(ctx, this.getFrequency(root, scale, degree, 2), time, beat * 1.8, 'sawtooth', 0.12);
-        this.createNote(ctx, this.getFrequency(root, scale, degree + 4, 2), time, beat * 1.8, 'sawtooth', 0.1);
-        this.createNote(ctx, this.getFrequency(root, scale, degree, 3), time, beat * 1.8, 'square', 0.08);
-      });
-      
-      setTimeout(playLoop, loopDuration * 1000);
-    };
-    
-    playLoop();
-  }
-
   // Get current track
   getCurrentTrack(): MusicTrack | null {
     if (!this.currentTrackId) return null;
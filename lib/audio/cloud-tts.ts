@@ -1,8 +1,12 @@
 /**
  * Cloud TTS Integration
- * Supports ElevenLabs, Google Cloud TTS, and browser fallback
+ * Supports ElevenLabs, Google Cloud TTS, and browser fallback.
+ * Results carry lip sync computed from the returned audio (from the text for the
+ * browser voice), cached with the audio so playback and export share it.
  */
 
+import { LipSyncData, generateLipSync, generateLipSyncFromAudioData } from './lip-sync';
+
 export type TTSProvider = 'elevenlabs' | 'google' | 'browser';
 
 export interface TTSVoice {
@@ -26,6 +30,7 @@ export interface TTSResult {
   audioUrl: string;
   duration: number;
   provider: TTSProvider;
+  lipSync: LipSyncData;
 }
 
 // Available voices
@@ -50,14 +55,8 @@ export const TTS_VOICES: TTSVoice[] = [
   { id: 'browser-default', name: 'Browser Default', provider: 'browser', language: 'en', gender: 'neutral' },
 ];
 
-// Voice mapping for characters
-export const CHARACTER_VOICE_MAP: Record<string, string> = {
-  kiara: 'domi',
-  jayden: 'josh',
-  milo: 'antoni',
-  luna: 'bella',
-  narrator: 'rachel',
-};
+// Narration voice; character voices come from the character registry
+export const NARRATOR_VOICE = 'rachel';
 
 /**
  * Cloud TTS Service
@@ -157,13 +156,7 @@ class CloudTTSService {
       }
 
       const blob = await response.blob();
-      const audioUrl = URL.createObjectURL(blob);
-      
-      // Estimate duration (rough: ~150 words per minute)
-      const wordCount = text.split(/\s+/).length;
-      const duration = (wordCount / 150) * 60 * 1000 / (options.speed || 1);
-
-      return { audioUrl, duration, provider: 'elevenlabs' };
+      return this.createAudioResult(blob, text, options, 'elevenlabs');
     } catch (error) {
       console.warn('ElevenLabs failed, falling back to browser TTS:', error);
       return this.synthesizeBrowser(text, options);
@@ -202,19 +195,35 @@ class CloudTTSService {
       const data = await response.json();
       const audioContent = data.audioContent;
       const audioBlob = base64ToBlob(audioContent, 'audio/mp3');
-      const audioUrl = URL.createObjectURL(audioBlob);
-
-      // Estimate duration
-      const wordCount = text.split(/\s+/).length;
-      const duration = (wordCount / 150) * 60 * 1000 / (options.speed || 1);
-
-      return { audioUrl, duration, provider: 'google' };
+      return this.createAudioResult(audioBlob, text, options, 'google');
     } catch (error) {
       console.warn('Google TTS failed, falling back to browser TTS:', error);
       return this.synthesizeBrowser(text, options);
     }
   }
 
+  /**
+   * Result for provider audio: the real duration and lip sync come from the decoded
+   * audio, with word-count estimates where it can't be decoded
+   */
+  private async createAudioResult(
+    blob: Blob,
+    text: string,
+    options: TTSOptions,
+    provider: TTSProvider
+  ): Promise<TTSResult> {
+    const audioUrl = URL.createObjectURL(blob);
+    const lipSync = await generateLipSyncFromAudioData(await blob.arrayBuffer(), text);
+    if (lipSync) {
+      return { audioUrl, duration: lipSync.duration, provider, lipSync };
+    }
+
+    // Estimate duration (rough: ~150 words per minute)
+    const wordCount = text.split(/\s+/).length;
+    const duration = (wordCount / 150) * 60 * 1000 / (options.speed || 1);
+    return { audioUrl, duration, provider, lipSync: generateLipSync(text, duration) };
+  }
+
   /**
    * Browser TTS (fallback)
    */
@@ -225,10 +234,12 @@ class CloudTTSService {
     return new Promise((resolve) => {
       if (typeof window === 'undefined' || !window.speechSynthesis) {
         // Return silent audio for SSR
+        const duration = text.split(/\s+/).length * 400;
         resolve({
           audioUrl: '',
-          duration: text.split(/\s+/).length * 400,
+          duration,
           provider: 'browser',
+          lipSync: generateLipSync(text, duration),
         });
         return;
       }
@@ -256,6 +267,7 @@ class CloudTTSService {
         audioUrl: '', // Browser TTS doesn't provide URL
         duration,
         provider: 'browser',
+        lipSync: generateLipSync(text, duration),
       });
     });
   }
@@ -1,12 +1,13 @@
 // Lip Sync System - Sync mouth animations to narration
+// Mouth shapes come from the spoken audio when there is any: an energy envelope
+// finds where the mouth moves, and the spectrum (vowel formant regions, fricative
+// hiss) picks the viseme. When the text is known, its phonemes are spread over the
+// voiced parts of the audio so the shapes follow the words at the speaker's pace.
+// Without audio, shapes are timed from the text alone.
 
-export type MouthShape = 
-  | 'closed'      // M, B, P - lips together
-  | 'open'        // A, I - mouth open
-  | 'wide'        // E - wide smile
-  | 'round'       // O, U - rounded lips
-  | 'half'        // neutral, consonants
-  | 'smile';      // happy expression
+import type { MouthShape } from '../animation/keyframe-animation';
+
+export type { MouthShape };
 
 export interface LipSyncFrame {
   time: number;      // ms from start
@@ -22,130 +23,126 @@ export interface LipSyncData {
 // Phoneme to mouth shape mapping
 const PHONEME_SHAPES: Record<string, MouthShape> = {
   // Vowels
-  'a': 'open',
-  'e': 'wide',
-  'i': 'wide',
-  'o': 'round',
-  'u': 'round',
-  
-  // Consonants
+  'a': 'wide',
+  'e': 'ee',
+  'i': 'ee',
+  'o': 'oh',
+  'u': 'oh',
+  // Consonants that show teeth
+  'f': 'ee',
+  'v': 'ee',
+  's': 'ee',
+  'z': 'ee',
+  'th': 'ee',
+  // Lip consonants
   'b': 'closed',
-  'm': 'closed',
   'p': 'closed',
-  'f': 'half',
-  'v': 'half',
-  'th': 'half',
-  's': 'half',
-  'z': 'half',
-  'sh': 'half',
-  'ch': 'half',
-  'j': 'half',
-  'n': 'half',
-  'l': 'half',
-  'r': 'half',
-  't': 'half',
-  'd': 'half',
-  'k': 'half',
-  'g': 'half',
-  'w': 'round',
-  'y': 'wide',
+  'm': 'closed',
+  // Open mouth consonants
+  'l': 'open',
+  'n': 'open',
+  'd': 'open',
+  't': 'open',
+  'r': 'open',
+  // Rounded
+  'w': 'oh',
+  'y': 'ee',
+  'k': 'open',
+  'g': 'open',
   'h': 'open',
+  'j': 'open',
+  'ch': 'open',
+  'sh': 'open',
 };
 
+// Analysis step; mouths are tracked at 100 frames per second
+const ANALYSIS_HOP_MS = 10;
+// Shapes held for less than this are merged into their neighbours (mouths can't move that fast)
+const MIN_SHAPE_MS = 50;
+// Frames quieter than the loudest speech by more than this are silence
+const SILENCE_RANGE_DB = 35;
+// Rate decoded audio is analysed at; speech detail tops out well below its Nyquist
+const ANALYSIS_SAMPLE_RATE = 22050;
+
 // Simple text-to-phoneme approximation
 function textToPhonemes(text: string): string[] {
   const phonemes: string[] = [];
   const lowerText = text.toLowerCase();
-  
+
   let i = 0;
   while (i < lowerText.length) {
     const char = lowerText[i];
     const nextChar = lowerText[i + 1];
-    
+
     // Check for digraphs
-    if (char === 't' && nextChar === 'h') {
-      phonemes.push('th');
-      i += 2;
-      continue;
+    if (nextChar) {
+      const digraph = char + nextChar;
+      if (digraph === 'th' || digraph === 'ch' || digraph === 'sh') {
+        phonemes.push(digraph);
+        i += 2;
+        continue;
+      }
     }
-    if (char === 's' && nextChar === 'h') {
-      phonemes.push('sh');
-      i += 2;
-      continue;
-    }
-    if (char === 'c' && nextChar === 'h') {
-      phonemes.push('ch');
-      i += 2;
-      continue;
-    }
-    
+
     // Single characters
     if (/[a-z]/.test(char)) {
       phonemes.push(char);
-    } else if (char === ' ') {
+    } else if (char === ' ' || char === ',' || char === '.') {
       phonemes.push(' ');
     }
-    
+
     i++;
   }
-  
+
   return phonemes;
 }
 
-// Generate lip sync data from text
+/**
+ * Lip sync timed from text alone. Phonemes are spread over `duration` (ms) when
+ * it is known, otherwise timed from the speech rate (1 = 150 words per minute).
+ */
 export function generateLipSync(
   text: string,
-  duration: number, // total duration in ms
-  wordsPerMinute: number = 150
+  duration?: number,
+  speechRate: number = 0.9
 ): LipSyncData {
   const phonemes = textToPhonemes(text);
   const frames: LipSyncFrame[] = [];
-  
-  // Calculate timing
-  const wordCount = text.split(/\s+/).length;
-  const actualDuration = Math.min(duration, (wordCount / wordsPerMinute) * 60 * 1000);
-  const phonemeDuration = actualDuration / phonemes.length;
-  
+
+  // Word gaps count double
+  const weight = phonemes.reduce((sum, phoneme) => sum + (phoneme === ' ' ? 2 : 1), 0);
+  const phonemeDuration = duration && weight > 0
+    ? duration / weight
+    : (60 / 150 / 4) * 1000 / speechRate;
+
   let currentTime = 0;
-  let lastShape: MouthShape = 'closed';
-  
+  let lastShape: MouthShape | null = null;
+
   for (const phoneme of phonemes) {
-    if (phoneme === ' ') {
-      // Brief pause between words
-      frames.push({
-        time: currentTime,
-        shape: 'half',
-        intensity: 0.3,
-      });
-      currentTime += phonemeDuration * 0.5;
-      continue;
-    }
-    
-    const shape = PHONEME_SHAPES[phoneme] || 'half';
-    const isVowel = 'aeiou'.includes(phoneme);
-    
-    // Add transition frame if shape changes significantly
+    const isPause = phoneme === ' ';
+    const shape = isPause ? 'closed' : PHONEME_SHAPES[phoneme] || 'open';
+
     if (shape !== lastShape) {
       frames.push({
         time: currentTime,
         shape,
-        intensity: isVowel ? 0.8 : 0.5,
+        intensity: isPause || shape === 'closed' ? 0 : 'aeiou'.includes(phoneme) ? 0.8 : 0.5,
       });
     }
-    
+
     lastShape = shape;
-    currentTime += phonemeDuration;
+    currentTime += isPause ? phonemeDuration * 2 : phonemeDuration;
   }
-  
+
   // End with closed mouth
   frames.push({
     time: currentTime,
     shape: 'closed',
     intensity: 0,
   });
-  
+
   return {
-    duration: actualDuration,
+    duration: duration ?? currentTime,
     frames,
   };
 }
@@ -158,11 +155,17 @@ export function getMouthShapeAtTime(
   if (lipSyncData.frames.length === 0) {
     return { shape: 'closed', intensity: 0 };
   }
-  
+
+  // If before the first frame or past the last one
+  const lastFrame = lipSyncData.frames[lipSyncData.frames.length - 1];
+  if (time < lipSyncData.frames[0].time || time >= lastFrame.time) {
+    return { shape: 'closed', intensity: 0 };
+  }
+
   // Find the current frame
   let currentFrame = lipSyncData.frames[0];
-  let nextFrame = lipSyncData.frames[1];
-  
+  let nextFrame = lastFrame;
+
   for (let i = 0; i < lipSyncData.frames.length - 1; i++) {
     if (lipSyncData.frames[i].time <= time && lipSyncData.frames[i + 1].time > time) {
       currentFrame = lipSyncData.frames[i];
@@ -170,67 +173,242 @@ export function getMouthShapeAtTime(
       break;
     }
   }
-  
-  // If past the last frame
-  if (time >= lipSyncData.frames[lipSyncData.frames.length - 1].time) {
-    return { shape: 'closed', intensity: 0 };
-  }
-  
+
   // Interpolate intensity
   const frameProgress = (time - currentFrame.time) / (nextFrame.time - currentFrame.time);
   const intensity = currentFrame.intensity + (nextFrame.intensity - currentFrame.intensity) * frameProgress;
-  
+
   return {
     shape: currentFrame.shape,
     intensity: Math.max(0, Math.min(1, intensity)),
   };
 }
 
-// Generate lip sync from audio analysis (simplified)
+// Lip sync from decoded audio (all channels mixed down), aligned to `text` when given
 export function generateLipSyncFromAudio(
   audioBuffer: AudioBuffer,
-  sensitivity: number = 0.5
+  text?: string
 ): LipSyncData {
-  const frames: LipSyncFrame[] = [];
-  const data = audioBuffer.getChannelData(0);
-  const sampleRate = audioBuffer.sampleRate;
-  const frameRate = 30; // frames per second
-  const samplesPerFrame = Math.floor(sampleRate / frameRate);
-  
-  for (let i = 0; i < data.length; i += samplesPerFrame) {
-    // Calculate RMS amplitude for this frame
-    let sum = 0;
-    const end = Math.min(i + samplesPerFrame, data.length);
-    for (let j = i; j < end; j++) {
-      sum += data[j] * data[j];
+  const samples = new Float32Array(audioBuffer.length);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      samples[i] += data[i] / audioBuffer.numberOfChannels;
     }
-    const rms = Math.sqrt(sum / (end - i));
-    
-    // Map amplitude to mouth shape
-    const intensity = Math.min(1, rms / sensitivity);
-    let shape: MouthShape = 'closed';
-    
-    if (intensity > 0.7) {
-      shape = 'open';
-    } else if (intensity > 0.5) {
-      shape = 'wide';
-    } else if (intensity > 0.3) {
-      shape = 'half';
-    } else if (intensity > 0.1) {
-      shape = 'round';
+  }
+  return analyzeSpeechAudio(samples, audioBuffer.sampleRate, text);
+}
+
+/**
+ * Decode encoded speech (mp3, wav, ...) and compute its lip sync. Returns null where
+ * audio can't be decoded (no Web Audio, e.g. on the server) or the data is invalid.
+ */
+export async function generateLipSyncFromAudioData(
+  data: ArrayBuffer,
+  text?: string
+): Promise<LipSyncData | null> {
+  if (typeof OfflineAudioContext === 'undefined') return null;
+  try {
+    // decodeAudioData resamples to the context's rate; the context itself never renders
+    const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(data.slice(0));
+    return generateLipSyncFromAudio(buffer, text);
+  } catch (error) {
+    console.warn('Lip sync audio decode failed:', error);
+    return null;
+  }
+}
+
+interface AudioFrameFeatures {
+  level: number;     // dB
+  back: number;      // share of the voice band's energy below 1 kHz (both formants low: o, u)
+  front: number;     // share of the voice band's energy in 1500-4000 Hz (spread lips, e/i)
+  hiss: number;      // share of energy above 4 kHz (s, f, sh, th)
+}
+
+/**
+ * Lip sync from raw mono samples. Silence closes the mouth; in speech, loudness
+ * sets how far it opens and the spectrum picks the shape: a strong high second
+ * formant means spread lips (e, i), both formants low rounded ones (o, u), and
+ * hiss shows teeth.
+ * With `text`, the text's visemes are used instead, timed across the voiced audio.
+ */
+export function analyzeSpeechAudio(samples: Float32Array, sampleRate: number, text?: string): LipSyncData {
+  const duration = (samples.length / sampleRate) * 1000;
+  const features = extractAudioFeatures(samples, sampleRate);
+  if (features.length === 0) return { duration, frames: [] };
+
+  // Adapt to the recording: speech level from the loud frames, silence relative to it
+  const levels = features.map((frame) => frame.level).sort((a, b) => a - b);
+  const peak = levels[Math.floor((levels.length - 1) * 0.95)];
+  const floor = levels[Math.floor((levels.length - 1) * 0.1)];
+  const threshold = Math.max(floor + 6, peak - SILENCE_RANGE_DB);
+  const intensities = features.map((frame) =>
+    frame.level <= threshold ? 0 : Math.min(1, (frame.level - threshold) / Math.max(1, peak - threshold))
+  );
+
+  const textShapes = text ? alignTextToVoicing(text, intensities) : null;
+  const shapes = features.map((frame, i) => {
+    const intensity = intensities[i];
+    if (intensity < 0.08) return 'closed';
+    const shape = textShapes?.[i] ?? classifyFrame(frame, intensity);
+    // Text says which viseme; the audio says how wide an open vowel goes
+    if (shape === 'open' && intensity > 0.7) return 'wide';
+    if (shape === 'wide' && intensity < 0.35) return 'open';
+    return shape;
+  });
+
+  return { duration, frames: collapseFrames(smoothShapes(shapes), intensities, duration) };
+}
+
+function classifyFrame(frame: AudioFrameFeatures, intensity: number): MouthShape {
+  if (frame.hiss > 0.45) return 'ee';
+  // Quiet voiced frames are mostly nasals and lip consonants (m, n, b)
+  if (intensity < 0.2) return frame.front > 0.3 ? 'ee' : 'closed';
+  if (frame.front > 0.3) return 'ee';
+  if (frame.back > 0.8) return 'oh';
+  return intensity > 0.6 ? 'wide' : 'open';
+}
+
+// Level, formant-region balance and hiss for each analysis hop
+function extractAudioFeatures(samples: Float32Array, sampleRate: number): AudioFrameFeatures[] {
+  const hop = Math.max(1, Math.round((sampleRate * ANALYSIS_HOP_MS) / 1000));
+  const size = 2 ** Math.max(6, Math.floor(Math.log2(sampleRate * 0.025)));
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+
+  const binHz = sampleRate / size;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const features: AudioFrameFeatures[] = [];
+
+  for (let start = 0; start < samples.length; start += hop) {
+    let sumSquares = 0;
+    for (let i = 0; i < size; i++) {
+      const sample = start + i < samples.length ? samples[start + i] : 0;
+      sumSquares += sample * sample;
+      re[i] = sample * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    let lowEnergy = 0;
+    let voiceEnergy = 0;
+    let frontEnergy = 0;
+    let hissEnergy = 0;
+    let total = 0;
+    for (let bin = 1; bin < size / 2; bin++) {
+      const hz = bin * binHz;
+      const power = re[bin] * re[bin] + im[bin] * im[bin];
+      total += power;
+      if (hz >= 4000) {
+        hissEnergy += power;
+      } else if (hz >= 250) {
+        voiceEnergy += power;
+        if (hz < 1000) {
+          lowEnergy += power;
+        } else if (hz >= 1500) {
+          frontEnergy += power;
+        }
+      }
     }
-    
-    frames.push({
-      time: (i / sampleRate) * 1000,
-      shape,
-      intensity,
+
+    features.push({
+      level: 10 * Math.log10(sumSquares / size + 1e-12),
+      back: voiceEnergy > 0 ? lowEnergy / voiceEnergy : 0,
+      front: voiceEnergy > 0 ? frontEnergy / voiceEnergy : 0,
+      hiss: total > 0 ? hissEnergy / total : 0,
     });
   }
-  
-  return {
-    duration: (data.length / sampleRate) * 1000,
-    frames,
-  };
+
+  return features;
+}
+
+/**
+ * Viseme per analysis frame from the text, or null for frames without speech.
+ * Phonemes are laid end to end over the voiced frames only, so pauses in the
+ * audio become pauses between words however fast or slow the voice speaks.
+ */
+function alignTextToVoicing(text: string, intensities: number[]): (MouthShape | null)[] {
+  const phonemes = textToPhonemes(text).filter((phoneme) => phoneme !== ' ');
+  const voiced = intensities.map((intensity) => intensity >= 0.08);
+  const voicedCount = voiced.filter(Boolean).length;
+  if (phonemes.length === 0 || voicedCount === 0) return intensities.map(() => null);
+
+  let voicedIndex = 0;
+  return voiced.map((isVoiced) => {
+    if (!isVoiced) return null;
+    const phoneme = phonemes[Math.min(phonemes.length - 1, Math.floor((voicedIndex++ / voicedCount) * phonemes.length))];
+    return PHONEME_SHAPES[phoneme] || 'open';
+  });
+}
+
+// Drop shapes held for fewer than MIN_SHAPE_MS, keeping the longer neighbour
+function smoothShapes(shapes: MouthShape[]): MouthShape[] {
+  const minFrames = Math.ceil(MIN_SHAPE_MS / ANALYSIS_HOP_MS);
+  const result = shapes.slice();
+  let runStart = 0;
+  for (let i = 1; i <= result.length; i++) {
+    if (i < result.length && result[i] === result[runStart]) continue;
+    if (i - runStart < minFrames && runStart > 0) {
+      for (let j = runStart; j < i; j++) result[j] = result[runStart - 1];
+    }
+    runStart = i;
+  }
+  return result;
+}
+
+// One frame per change of shape, carrying the loudest intensity of its run
+function collapseFrames(shapes: MouthShape[], intensities: number[], duration: number): LipSyncFrame[] {
+  const frames: LipSyncFrame[] = [];
+  shapes.forEach((shape, i) => {
+    const last = frames[frames.length - 1];
+    if (last && last.shape === shape) {
+      if (shape !== 'closed') last.intensity = Math.max(last.intensity, intensities[i]);
+    } else {
+      frames.push({ time: i * ANALYSIS_HOP_MS, shape, intensity: shape === 'closed' ? 0 : intensities[i] });
+    }
+  });
+  frames.push({ time: duration, shape: 'closed', intensity: 0 });
+  return frames;
+}
+
+// In-place radix-2 FFT; re/im lengths must be a power of two
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let length = 2; length <= n; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += length) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k;
+        const b = a + length / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
 }
 
 // Mouth shape to CSS/SVG properties
@@ -240,7 +418,7 @@ export function mouthShapeToStyle(shape: MouthShape, intensity: number): {
   borderRadius: string;
 } {
   const baseIntensity = 0.3 + intensity * 0.7;
-  
+
   switch (shape) {
     case 'closed':
       return {
@@ -257,18 +435,18 @@ export function mouthShapeToStyle(shape: MouthShape, intensity: number): {
     case 'wide':
       return {
         scaleX: 1.2 * baseIntensity,
-        scaleY: 0.5 * baseIntensity,
+        scaleY: 0.8 * baseIntensity,
         borderRadius: '40%',
       };
-    case 'round':
+    case 'oh':
       return {
         scaleX: 0.6 * baseIntensity,
         scaleY: 0.8 * baseIntensity,
         borderRadius: '50%',
       };
-    case 'half':
+    case 'ee':
       return {
-        scaleX: 0.9 * baseIntensity,
+        scaleX: 1.1 * baseIntensity,
         scaleY: 0.4 * baseIntensity,
         borderRadius: '45%',
       };
@@ -298,6 +476,11 @@ export class LipSyncManager {
     this.lipSyncData.set(characterId, data);
   }
 
+  // Use lip sync computed elsewhere, e.g. the one cached with a TTS result
+  setLipSync(characterId: string, data: LipSyncData): void {
+    this.lipSyncData.set(characterId, data);
+  }
+
   // Start lip sync for a character
   startLipSync(characterId: string): void {
     const data = this.lipSyncData.get(characterId);
@@ -329,7 +512,7 @@ export class LipSyncManager {
   isTalking(characterId: string): boolean {
     const active = this.activeCharacters.get(characterId);
     if (!active) return false;
-    
+
     const elapsed = Date.now() - active.startTime;
     return elapsed < active.data.duration;
   }
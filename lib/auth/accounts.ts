@@ -0,0 +1,110 @@
+// User accounts: email/password sign-up and sign-in, and accounts from OAuth/OIDC providers
+
+import { prisma } from '@/lib/database/prisma';
+import { MIN_PASSWORD_LENGTH, hashPassword, verifyPassword } from './passwords';
+import { toAuthUser, type AuthUser } from './session';
+import type { OAuthProfile } from './oauth';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_NAME_LENGTH = 80;
+
+// Sign-up or sign-in refused; `status` is the HTTP status to answer with
+export class AccountError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'AccountError';
+    this.status = status;
+  }
+}
+
+export function normalizeEmail(email: unknown): string | null {
+  if (typeof email !== 'string') return null;
+  const normalized = email.trim().toLowerCase();
+  return EMAIL_PATTERN.test(normalized) ? normalized : null;
+}
+
+// Password sign-up can be turned off once the studio's first account exists
+export function isSignupAllowed(): boolean {
+  return process.env.AUTH_ALLOW_SIGNUP !== 'false';
+}
+
+/**
+ * Create a user. The first account on a deployment becomes the owner of every
+ * project saved before accounts existed.
+ */
+async function createUser(data: { email: string; name: string; passwordHash?: string | null }, provider?: OAuthProfile & { provider: string }) {
+  return prisma.$transaction(async (tx: typeof prisma) => {
+    const isFirstUser = (await tx.user.count()) === 0;
+    const user = await tx.user.create({
+      data: {
+        email: data.email,
+        name: data.name.slice(0, MAX_NAME_LENGTH),
+        passwordHash: data.passwordHash ?? null,
+        accounts: provider
+          ? { create: { provider: provider.provider, providerAccountId: provider.providerAccountId } }
+          : undefined,
+      },
+    });
+    if (isFirstUser) {
+      await tx.project.updateMany({ where: { ownerId: null }, data: { ownerId: user.id } });
+    }
+    return user;
+  });
+}
+
+export async function registerWithPassword(input: { email?: unknown; password?: unknown; name?: unknown }): Promise<AuthUser> {
+  const email = normalizeEmail(input.email);
+  if (!email) throw new AccountError('A valid email is required');
+  if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+    throw new AccountError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (!isSignupAllowed() && (await prisma.user.count()) > 0) {
+    throw new AccountError('Sign-up is disabled. Ask a studio owner to add you.', 403);
+  }
+  if (await prisma.user.findUnique({ where: { email }, select: { id: true } })) {
+    throw new AccountError('An account with this email already exists', 409);
+  }
+
+  const name = typeof input.name === 'string' && input.name.trim() ? input.name.trim() : email.split('@')[0];
+  return toAuthUser(await createUser({ email, name, passwordHash: hashPassword(input.password) }));
+}
+
+export async function signInWithPassword(input: { email?: unknown; password?: unknown }): Promise<AuthUser> {
+  const email = normalizeEmail(input.email);
+  const user = email ? await prisma.user.findUnique({ where: { email } }) : null;
+  // Same answer for an unknown email and a wrong password
+  if (!user?.passwordHash || typeof input.password !== 'string' || !verifyPassword(input.password, user.passwordHash)) {
+    throw new AccountError('Incorrect email or password', 401);
+  }
+  return toAuthUser(user);
+}
+
+/**
+ * User for a provider sign-in: the account already linked to it, else the user
+ * with the same (provider-verified) email, linked now, else a new user
+ */
+export async function findOrCreateOAuthUser(provider: string, profile: OAuthProfile): Promise<AuthUser> {
+  const linked = await prisma.authAccount.findUnique({
+    where: { provider_providerAccountId: { provider, providerAccountId: profile.providerAccountId } },
+    include: { user: true },
+  });
+  if (linked) return toAuthUser(linked.user);
+
+  const email = normalizeEmail(profile.email);
+  if (!email) throw new AccountError('The provider did not return an email address');
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing) {
+    if (!profile.emailVerified) {
+      throw new AccountError('An account with this email already exists. Sign in with your password instead.', 409);
+    }
+    await prisma.authAccount.create({
+      data: { provider, providerAccountId: profile.providerAccountId, userId: existing.id },
+    });
+    return toAuthUser(existing);
+  }
+
+  return toAuthUser(await createUser({ email, name: profile.name || email.split('@')[0] }, { ...profile, provider }));
+}
@@ -0,0 +1,81 @@
+/**
+ * Browser side of accounts: the signed-in user and the sign-in/out calls
+ * against /api/auth. Session cookies are httpOnly, so the session is only
+ * ever read through GET /api/auth/session.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { AuthUser } from './session';
+
+export interface AuthProviderSummary {
+  id: string;
+  name: string;
+}
+
+export interface AuthSessionState {
+  user: AuthUser | null;
+  providers: AuthProviderSummary[];
+  signupAllowed: boolean;
+}
+
+async function postAuth(path: string, body?: unknown): Promise<AuthUser | null> {
+  const response = await fetch(`/api/auth/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data.user ?? null;
+}
+
+export function signIn(email: string, password: string): Promise<AuthUser | null> {
+  return postAuth('login', { email, password });
+}
+
+export function register(email: string, password: string, name?: string): Promise<AuthUser | null> {
+  return postAuth('register', { email, password, name });
+}
+
+export async function signOut(): Promise<void> {
+  await postAuth('logout');
+}
+
+// Full-page navigation: the provider redirects back to /api/auth/oauth/<id>/callback
+export function signInWithProvider(providerId: string): void {
+  window.location.href = `/api/auth/oauth/${encodeURIComponent(providerId)}`;
+}
+
+export async function fetchAuthSession(): Promise<AuthSessionState> {
+  const response = await fetch('/api/auth/session', { cache: 'no-store' });
+  const data = await response.json();
+  if (!response.ok || !data.success) throw new Error(data.error || 'Failed to read session');
+  return { user: data.user ?? null, providers: data.providers ?? [], signupAllowed: !!data.signupAllowed };
+}
+
+/**
+ * The signed-in user (null when signed out). `isLoading` stays true until the
+ * first session check finishes, so pages don't flash a sign-in prompt.
+ */
+export function useCurrentUser() {
+  const [session, setSession] = useState<AuthSessionState>({ user: null, providers: [], signupAllowed: false });
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSession(await fetchAuthSession());
+    } catch (error) {
+      console.warn('Session check failed:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { ...session, isLoading, refresh };
+}
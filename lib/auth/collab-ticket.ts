@@ -0,0 +1,56 @@
+// Collaboration tickets: short-lived HMAC-signed proof of who is joining which
+// project room. The Next app issues them; the standalone collaboration server
+// checks them with the same AUTH_SECRET, without a database.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { ProjectRole } from './roles';
+
+export const COLLAB_TICKET_TTL_MS = 60 * 1000;
+
+export interface CollaborationIdentity {
+  userId: string;
+  name: string;
+  projectId: string;
+  role: ProjectRole;
+}
+
+interface TicketPayload extends CollaborationIdentity {
+  exp: number;
+}
+
+function getSecret(secret?: string): string {
+  const value = secret ?? process.env.AUTH_SECRET;
+  if (!value) throw new Error('AUTH_SECRET is not set');
+  return value;
+}
+
+const sign = (data: string, secret: string) => createHmac('sha256', secret).update(data).digest('base64url');
+
+export function createCollaborationTicket(identity: CollaborationIdentity, secret?: string, now: number = Date.now()): string {
+  const payload: TicketPayload = { ...identity, exp: now + COLLAB_TICKET_TTL_MS };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data, getSecret(secret))}`;
+}
+
+// The identity in a ticket, or null if it is forged, expired or for another project
+export function verifyCollaborationTicket(
+  ticket: string,
+  projectId: string,
+  secret?: string,
+  now: number = Date.now()
+): CollaborationIdentity | null {
+  const [data, signature] = ticket.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data, getSecret(secret)));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(new Uint8Array(expected), new Uint8Array(actual))) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as TicketPayload;
+    if (payload.projectId !== projectId || typeof payload.exp !== 'number' || payload.exp <= now) return null;
+    return { userId: payload.userId, name: payload.name, projectId: payload.projectId, role: payload.role };
+  } catch {
+    return null;
+  }
+}
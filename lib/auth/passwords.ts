@@ -0,0 +1,20 @@
+// Password hashing (scrypt), shared by user accounts and share links
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Stored as "<salt>:<hash>"
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(new Uint8Array(actual), new Uint8Array(expected));
+}
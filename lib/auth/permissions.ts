@@ -0,0 +1,100 @@
+// Per-project roles. The project's owner (Project.ownerId) is always 'owner';
+// everyone else gets the role of their ProjectMember row.
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+import { requireUser, type AuthUser } from './session';
+import { hasProjectRole, isProjectRole, type ProjectRole } from './roles';
+
+export { PROJECT_ROLES, hasProjectRole, isProjectRole, type ProjectRole } from './roles';
+
+export type ProjectAccess =
+  | { user: AuthUser; role: ProjectRole; response?: undefined }
+  | { user?: undefined; role?: undefined; response: NextResponse };
+
+// Prisma filter for the projects a user can open
+export function accessibleProjectsWhere(userId: string) {
+  return { OR: [{ ownerId: userId }, { members: { some: { userId } } }] };
+}
+
+/**
+ * A user's role on a project, or null when they have none. `project` is null
+ * when the project doesn't exist.
+ */
+export async function getProjectRole(
+  projectId: string,
+  userId: string
+): Promise<{ project: { id: string; ownerId: string | null } | null; role: ProjectRole | null }> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { id: true, ownerId: true, members: { where: { userId }, select: { role: true } } },
+  });
+  if (!project) return { project: null, role: null };
+  if (project.ownerId === userId) return { project, role: 'owner' };
+  const memberRole = project.members[0]?.role;
+  return { project, role: isProjectRole(memberRole) ? memberRole : null };
+}
+
+/**
+ * Check that the signed-in user has at least `required` on a project. Projects
+ * they can't see at all answer 404, so their ids don't leak.
+ */
+export async function authorizeProject(projectId: string, required: ProjectRole): Promise<ProjectAccess> {
+  const auth = await requireUser();
+  if (auth.response) return auth;
+
+  const { project, role } = await getProjectRole(projectId, auth.user.id);
+  if (!project || !role) {
+    return { response: NextResponse.json({ success: false, error: 'Project not found' }, { status: 404 }) };
+  }
+  if (!hasProjectRole(role, required)) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: `This needs ${required} access to the project` },
+        { status: 403 }
+      ),
+    };
+  }
+  return { user: auth.user, role };
+}
+
+export interface ProjectMemberSummary {
+  userId: string;
+  name: string;
+  email: string;
+  role: ProjectRole;
+  isOwner: boolean; // The project's owner, who can't be removed
+  addedAt: string | null;
+}
+
+// Everyone with access to a project: the owner first, then members by when they were added
+export async function listProjectMembers(projectId: string): Promise<ProjectMemberSummary[]> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      owner: { select: { id: true, name: true, email: true } },
+      members: {
+        include: { user: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+  if (!project) return [];
+
+  const owner: ProjectMemberSummary[] = project.owner
+    ? [{ userId: project.owner.id, name: project.owner.name, email: project.owner.email, role: 'owner', isOwner: true, addedAt: null }]
+    : [];
+  return [
+    ...owner,
+    ...project.members
+      .filter((member: any) => member.userId !== project.owner?.id)
+      .map((member: any) => ({
+        userId: member.userId,
+        name: member.user.name,
+        email: member.user.email,
+        role: isProjectRole(member.role) ? member.role : 'viewer',
+        isOwner: false,
+        addedAt: new Date(member.createdAt).toISOString(),
+      })),
+  ];
+}
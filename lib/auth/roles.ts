@@ -0,0 +1,15 @@
+// Project roles, shared by the API and the editor (no server imports here)
+
+export type ProjectRole = 'viewer' | 'editor' | 'owner';
+
+// Weakest first: each role can do everything the ones before it can
+export const PROJECT_ROLES: ProjectRole[] = ['viewer', 'editor', 'owner'];
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return PROJECT_ROLES.includes(value as ProjectRole);
+}
+
+// Whether `role` allows what `required` allows
+export function hasProjectRole(role: ProjectRole | null, required: ProjectRole): boolean {
+  return role !== null && PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(required);
+}
@@ -0,0 +1,96 @@
+// Sessions: a random token in an httpOnly cookie, stored hashed in the Session table
+
+import { createHash, randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { NextResponse, type NextRequest } from 'next/server';
+import { prisma } from '@/lib/database/prisma';
+
+export const SESSION_COOKIE = 'cartoon_session';
+export const SESSION_TTL_DAYS = 30;
+export const OAUTH_STATE_COOKIE = 'cartoon_oauth';
+
+// The signed-in user as the API and the editor see it
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export type UserResult = { user: AuthUser; response?: undefined } | { user?: undefined; response: NextResponse };
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export function toAuthUser(row: any): AuthUser {
+  return { id: row.id, email: row.email, name: row.name };
+}
+
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  await prisma.session.create({ data: { tokenHash: hashToken(token), userId, expiresAt } });
+  return { token, expiresAt };
+}
+
+export function setSessionCookie(response: NextResponse, session: { token: string; expiresAt: Date }): void {
+  response.cookies.set(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: session.expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
+
+// Sign-in response: the user, with a new session cookie set
+export async function signInResponse(user: AuthUser, init?: ResponseInit): Promise<NextResponse> {
+  const response = NextResponse.json({ success: true, user }, init);
+  setSessionCookie(response, await createSession(user.id));
+  return response;
+}
+
+// Callback URL registered with an OAuth provider (NEXT_PUBLIC_BASE_URL when behind a proxy)
+export function getOAuthRedirectUri(request: NextRequest, providerId: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+  return `${baseUrl.replace(/\/$/, '')}/api/auth/oauth/${providerId}/callback`;
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+export function getSessionToken(): string | null {
+  return cookies().get(SESSION_COOKIE)?.value || null;
+}
+
+/**
+ * User of the request's session cookie, or null when signed out or the session
+ * has expired (expired sessions are deleted here)
+ */
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  const token = getSessionToken();
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+  if (!session) return null;
+  if (new Date(session.expiresAt).getTime() <= Date.now()) {
+    await prisma.session.delete({ where: { id: session.id } }).catch(() => undefined);
+    return null;
+  }
+  return toAuthUser(session.user);
+}
+
+// Signed-in user, or a 401 response for the route to return
+export async function requireUser(): Promise<UserResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { response: NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 }) };
+  }
+  return { user };
+}
@@ -0,0 +1,389 @@
+// Project Bundle - single-file (.cartoon) project export/import between machines
+// A bundle is JSON: the project in the shape POST /api/projects saves, the user
+// rigs its scenes use, and every image/audio file it points at embedded as a
+// data URL, so it opens without the original database, localStorage or URLs.
+
+import {
+  readEditableScene,
+  type SaveProjectPayload,
+  type StoredProject,
+} from './project-serializer';
+import type { EditableScene } from '@/components/editors/InteractiveSceneEditor';
+import type { SavedProject } from '@/lib/utils/auto-save';
+import { CharacterRig, isBuiltInRigId } from '@/lib/utils/sprite-system';
+import { RigFile, createRigFile, parseRigFile } from '@/lib/utils/rig-format';
+
+export const PROJECT_BUNDLE_FORMAT = 'cartoon-studio-project';
+export const PROJECT_BUNDLE_EXTENSION = '.cartoon';
+
+/**
+ * Version of the bundle file.
+ * 0 - unbundled project JSON: an autosave, or a project as returned by GET /api/projects/[id]
+ * 1 - project, user rigs and embedded assets
+ */
+export const PROJECT_BUNDLE_VERSION = 1;
+
+// Project fields that hold an embedded asset are written as `cartoon-asset:<id>`
+const ASSET_REF_PREFIX = 'cartoon-asset:';
+
+export interface BundleAsset {
+  mimeType: string;
+  data: string; // base64 data URL
+  source?: string; // URL the asset was embedded from
+}
+
+export interface ProjectBundle {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Omit<SaveProjectPayload, 'id'>;
+  rigs: RigFile[];
+  assets: Record<string, BundleAsset>;
+}
+
+/**
+ * Result of reading a bundle. `project` is null when the file can't be opened
+ * at all; otherwise `errors` lists what was defaulted, dropped or left unresolved.
+ */
+export interface BundleImportResult {
+  project: SaveProjectPayload | null;
+  rigs: CharacterRig[];
+  errors: string[];
+}
+
+export interface EmbedAssetsOptions {
+  baseUrl?: string; // Resolves relative URLs (needed on the server)
+  // Only fetch URLs on `baseUrl`'s origin, without following redirects. The server
+  // sets this so a project can't make it fetch (and hand back) internal addresses.
+  sameOriginOnly?: boolean;
+  fetchAsset?: typeof fetch;
+}
+
+type AudioTrackPayload = NonNullable<SaveProjectPayload['audioTracks']>[number];
+
+const AUDIO_TRACK_TYPES: AudioTrackPayload['type'][] = ['narration', 'music', 'sfx'];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// -------- Export --------
+
+// User rigs (not built-in ones) that the project's scenes place
+export function getProjectRigIds(project: Pick<SaveProjectPayload, 'scenes'>): string[] {
+  const ids = project.scenes.flatMap((scene) => scene.characters.map((character) => character.rigId));
+  return Array.from(new Set(ids)).filter((id) => !isBuiltInRigId(id));
+}
+
+/**
+ * Bundle a project with the user rigs it uses. Assets are still referenced by
+ * URL; embedBundleAssets makes the bundle self-contained.
+ */
+export function createProjectBundle(project: SaveProjectPayload, rigs: (CharacterRig | RigFile)[]): ProjectBundle {
+  const { id: _id, ...rest } = project;
+  const usedRigIds = new Set(getProjectRigIds(project));
+  return {
+    format: PROJECT_BUNDLE_FORMAT,
+    version: PROJECT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: rest,
+    rigs: rigs
+      .map((rig) => ('format' in rig ? rig : createRigFile(rig)))
+      .filter((file) => usedRigIds.has(file.rig.id)),
+    assets: {},
+  };
+}
+
+// Project in the shape the projects API saves, from the shape it loads
+export function storedProjectToPayload(project: StoredProject): SaveProjectPayload {
+  return {
+    id: project.id,
+    title: project.title,
+    description: project.description ?? undefined,
+    coverImage: project.coverImage,
+    storyProvider: project.storyProvider,
+    scenes: project.scenes,
+    sceneTransitions: project.sceneTransitions,
+    branchingStory: project.branchingStory,
+    customBackgrounds: project.customBackgrounds,
+    audioTracks: (project.audioTracks || []).map((track: any) => ({
+      type: track.type,
+      url: track.url ?? null,
+      text: track.text ?? null,
+      startTime: track.startTime,
+      duration: track.duration,
+      volume: track.volume,
+    })),
+    settings: project.settings
+      ? {
+          resolutionWidth: project.settings.resolutionWidth,
+          resolutionHeight: project.settings.resolutionHeight,
+          fps: project.settings.fps,
+          defaultSceneDuration: project.settings.defaultSceneDuration,
+          autoNarration: project.settings.autoNarration,
+          narratorVoice: project.settings.narratorVoice ?? null,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Rewrite every asset URL of a project: the cover image, AI character art,
+ * custom backgrounds and audio track files
+ */
+function mapProjectAssets<T extends Omit<SaveProjectPayload, 'id'>>(project: T, map: (url: string) => string | undefined): T {
+  const mapUrl = <V extends string | null | undefined>(url: V) => (url ? map(url) : url);
+  return {
+    ...project,
+    coverImage: mapUrl(project.coverImage),
+    scenes: project.scenes.map((scene) => ({
+      ...scene,
+      characters: scene.characters.map((character) =>
+        character.aiGeneratedImage ? { ...character, aiGeneratedImage: mapUrl(character.aiGeneratedImage) } : character
+      ),
+    })),
+    customBackgrounds: project.customBackgrounds
+      ? Object.fromEntries(
+          Object.entries(project.customBackgrounds)
+            .map(([id, url]) => [id, mapUrl(url)])
+            .filter((entry): entry is [string, string] => !!entry[1])
+        )
+      : project.customBackgrounds,
+    audioTracks: project.audioTracks?.map((track) => (track.url ? { ...track, url: mapUrl(track.url) } : track)),
+  };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+async function fetchAsset(url: string, options: EmbedAssetsOptions): Promise<BundleAsset> {
+  const dataUrl = /^data:([^;,]*)[;,]/.exec(url);
+  if (dataUrl) {
+    return { mimeType: dataUrl[1] || 'application/octet-stream', data: url };
+  }
+
+  let href = options.baseUrl ? new URL(url, options.baseUrl).toString() : url;
+  if (options.sameOriginOnly) {
+    if (!options.baseUrl) throw new Error('no base URL to embed from');
+    const base = new URL(options.baseUrl);
+    const resolved = new URL(url, base);
+    if (resolved.origin !== base.origin) throw new Error('external URL left as a link');
+    href = resolved.toString();
+  }
+  const response = await (options.fetchAsset ?? fetch)(href, options.sameOriginOnly ? { redirect: 'error' } : undefined);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const mimeType = response.headers.get('content-type')?.split(';')[0].trim() || 'application/octet-stream';
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  return { mimeType, data: `data:${mimeType};base64,${toBase64(bytes)}`, source: url };
+}
+
+/**
+ * Download every asset the project points at into the bundle, so it no longer
+ * depends on the original URLs. Assets that can't be fetched stay as URLs and
+ * are reported in `errors`.
+ */
+export async function embedBundleAssets(
+  bundle: ProjectBundle,
+  options: EmbedAssetsOptions = {}
+): Promise<{ bundle: ProjectBundle; errors: string[] }> {
+  const errors: string[] = [];
+  const urls = new Set<string>();
+  mapProjectAssets(bundle.project, (url) => {
+    if (!url.startsWith(ASSET_REF_PREFIX)) urls.add(url);
+    return url;
+  });
+
+  const assets = { ...bundle.assets };
+  const refs = new Map<string, string>();
+  let nextId = Object.keys(assets).length + 1;
+  for (const url of Array.from(urls)) {
+    try {
+      const id = `asset-${nextId++}`;
+      assets[id] = await fetchAsset(url, options);
+      refs.set(url, `${ASSET_REF_PREFIX}${id}`);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      errors.push(`Could not embed ${url.slice(0, 80)}: ${reason}`);
+    }
+  }
+
+  return {
+    bundle: {
+      ...bundle,
+      project: mapProjectAssets(bundle.project, (url) => refs.get(url) ?? url),
+      assets,
+    },
+    errors,
+  };
+}
+
+export function getBundleFileName(title: string): string {
+  const slug = title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'project'}${PROJECT_BUNDLE_EXTENSION}`;
+}
+
+// -------- Import --------
+
+// 0 -> 1: wrap an autosave or API project in a bundle
+function bundleUnbundledProject(raw: Record<string, any>): Record<string, any> {
+  const project = raw as Partial<StoredProject> & Partial<SavedProject>;
+  const exportedAt = project.updatedAt ?? (project.lastSaved ? new Date(project.lastSaved).toISOString() : undefined);
+  return {
+    format: PROJECT_BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: exportedAt ?? new Date().toISOString(),
+    project: storedProjectToPayload({
+      customBackgrounds: {},
+      sceneTransitions: {},
+      branchingStory: null,
+      audioTracks: [],
+      settings: null,
+      ...project,
+    } as StoredProject),
+    rigs: [],
+    assets: {},
+  };
+}
+
+// Upgrade steps, keyed by the version they upgrade from
+const BUNDLE_MIGRATIONS: Record<number, (bundle: Record<string, any>) => Record<string, any>> = {
+  0: bundleUnbundledProject,
+};
+
+// Track ids are database keys, so imported tracks get new ones
+function readAudioTrack(raw: unknown): AudioTrackPayload | null {
+  if (!isRecord(raw) || !AUDIO_TRACK_TYPES.includes(raw.type)) return null;
+  return {
+    type: raw.type,
+    url: typeof raw.url === 'string' ? raw.url : null,
+    text: typeof raw.text === 'string' ? raw.text : null,
+    startTime: isFiniteNumber(raw.startTime) ? raw.startTime : 0,
+    duration: isFiniteNumber(raw.duration) ? raw.duration : 0,
+    volume: isFiniteNumber(raw.volume) ? raw.volume : 1,
+  };
+}
+
+/**
+ * Read a .cartoon bundle (or an older unbundled project JSON), upgrade it to the
+ * current version and check it. Embedded assets are resolved back to data URLs.
+ */
+export function parseProjectBundle(data: unknown): BundleImportResult {
+  const failed = (error: string): BundleImportResult => ({ project: null, rigs: [], errors: [error] });
+
+  if (!isRecord(data)) return failed('Project file must be a JSON object');
+
+  let bundle: Record<string, any> = data;
+  if (bundle.format === undefined) {
+    if (!Array.isArray(bundle.scenes)) return failed('Not a project file');
+    bundle = { ...bundle, version: 0 };
+  } else if (bundle.format !== PROJECT_BUNDLE_FORMAT) {
+    return failed(`Unknown file format "${String(bundle.format)}"`);
+  } else if (!isFiniteNumber(bundle.version) || bundle.version < 1) {
+    return failed('Project file has no valid version');
+  }
+  if (bundle.version > PROJECT_BUNDLE_VERSION) {
+    return failed(`Project file version ${bundle.version} is newer than this app supports (${PROJECT_BUNDLE_VERSION})`);
+  }
+
+  for (let version = bundle.version; version < PROJECT_BUNDLE_VERSION; version++) {
+    bundle = BUNDLE_MIGRATIONS[version](bundle);
+  }
+
+  const rawProject = bundle.project;
+  if (!isRecord(rawProject) || !Array.isArray(rawProject.scenes)) return failed('Project file has no scenes');
+
+  const errors: string[] = [];
+  const scenes = rawProject.scenes
+    .map((scene: unknown, index: number) => readEditableScene(scene, index, errors))
+    .filter((scene: EditableScene | null): scene is EditableScene => scene !== null);
+  if (scenes.length === 0) return failed('Project file has no scenes');
+
+  const assets: Record<string, unknown> = isRecord(bundle.assets) ? bundle.assets : {};
+  const { id: _id, ...unresolved } = {
+    ...(rawProject as SaveProjectPayload),
+    title: typeof rawProject.title === 'string' && rawProject.title.trim() ? rawProject.title : 'Imported Project',
+    scenes,
+    sceneTransitions: isRecord(rawProject.sceneTransitions) ? rawProject.sceneTransitions : {},
+    customBackgrounds: isRecord(rawProject.customBackgrounds) ? rawProject.customBackgrounds : {},
+    audioTracks: (Array.isArray(rawProject.audioTracks) ? rawProject.audioTracks : [])
+      .map(readAudioTrack)
+      .filter((track: AudioTrackPayload | null): track is AudioTrackPayload => track !== null),
+  };
+  const project: SaveProjectPayload = mapProjectAssets(unresolved, (url) => {
+    if (!url.startsWith(ASSET_REF_PREFIX)) return url;
+    const id = url.slice(ASSET_REF_PREFIX.length);
+    const asset = assets[id];
+    if (isRecord(asset) && typeof asset.data === 'string' && asset.data.startsWith('data:')) return asset.data;
+    errors.push(`Missing embedded asset "${id}"`);
+    return undefined;
+  });
+
+  const rigs: CharacterRig[] = [];
+  for (const file of Array.isArray(bundle.rigs) ? bundle.rigs : []) {
+    const result = parseRigFile(file);
+    const name = isRecord(file) && isRecord(file.rig) ? file.rig.id ?? 'unnamed' : 'unnamed';
+    errors.push(...result.errors.map((error) => `Rig "${name}": ${error}`));
+    if (result.rig) rigs.push(result.rig);
+  }
+
+  return { project, rigs, errors };
+}
+
+/**
+ * Give an imported project new scene and character ids (they are database keys),
+ * updating the transitions and story graph that refer to its scenes
+ */
+export function reassignProjectIds(project: SaveProjectPayload, stamp = Date.now()): SaveProjectPayload {
+  const sceneIds = new Map<string, string>();
+  const scenes = project.scenes.map((scene, sceneIndex) => {
+    const id = `scene-${stamp}-${sceneIndex}`;
+    sceneIds.set(scene.id, id);
+    return {
+      ...scene,
+      id,
+      characters: scene.characters.map((character, index) => ({ ...character, id: `char-${stamp}-${sceneIndex}-${index}` })),
+    };
+  });
+
+  const sceneTransitions = project.sceneTransitions
+    ? Object.fromEntries(
+        Object.entries(project.sceneTransitions)
+          .filter(([sceneId]) => sceneIds.has(sceneId))
+          .map(([sceneId, transition]) => [sceneIds.get(sceneId)!, transition])
+      )
+    : project.sceneTransitions;
+
+  const branchingStory = project.branchingStory
+    ? {
+        ...project.branchingStory,
+        nodes: project.branchingStory.nodes.map((node) =>
+          node.sceneId && sceneIds.has(node.sceneId) ? { ...node, sceneId: sceneIds.get(node.sceneId) } : node
+        ),
+      }
+    : project.branchingStory;
+
+  return { ...project, scenes, sceneTransitions, branchingStory };
+}
+
+/**
+ * Point the project's characters at renamed rigs (old rig id -> new rig id)
+ */
+export function remapProjectRigIds(project: SaveProjectPayload, rigIds: Map<string, string>): SaveProjectPayload {
+  if (rigIds.size === 0) return project;
+  return {
+    ...project,
+    scenes: project.scenes.map((scene) => ({
+      ...scene,
+      characters: scene.characters.map((character) =>
+        rigIds.has(character.rigId) ? { ...character, rigId: rigIds.get(character.rigId)! } : character
+      ),
+    })),
+  };
+}
@@ -0,0 +1,287 @@
+// Project revisions - a snapshot of the project written on every save, so earlier
+// versions can be listed, compared scene by scene, restored or forked
+
+import { prisma } from './prisma';
+import {
+  PROJECT_SCHEMA_VERSION,
+  pickCustomBackgrounds,
+  pickSceneTransitions,
+  toProjectWriteData,
+  type EditableScenePayload,
+  type SaveProjectPayload,
+} from './project-serializer';
+import { parseProjectBundle } from './project-bundle';
+import { deserializeBranchingStory, serializeBranchingStory } from '@/lib/utils/story-branching';
+
+export const MAX_REVISION_LABEL_LENGTH = 120;
+
+// The saved project without its id (revisions belong to a project already)
+export type RevisionSnapshot = Omit<SaveProjectPayload, 'id' | 'revisionLabel'>;
+
+export interface RevisionSummary {
+  id: string;
+  projectId: string;
+  number: number;
+  label: string | null;
+  author: string | null;
+  schemaVersion: number;
+  createdAt: string;
+  title: string;
+  sceneCount: number;
+}
+
+export interface RevisionOptions {
+  label?: string | null;
+  author?: string | null; // name of the signed-in user saving
+  ownerId?: string | null; // owner when the save creates the project
+}
+
+export interface SavedRevision {
+  id: string; // project id
+  revision: number;
+}
+
+export type SceneChange = 'added' | 'removed' | 'modified' | 'moved';
+
+export interface SceneDiff {
+  sceneId: string;
+  title: string;
+  change: SceneChange;
+  fromIndex: number | null;
+  toIndex: number | null;
+  fields: string[]; // scene fields that differ (modified scenes only)
+  characters: { added: string[]; removed: string[]; changed: string[] };
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  project: string[]; // project-level fields that differ
+  scenes: SceneDiff[]; // only scenes that changed, in `to` order, then removed ones
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * JSON with object keys sorted, so two values compare equal after a round trip
+ * through a JSONB column (which doesn't keep key order)
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, item) =>
+    isRecord(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : item
+  );
+}
+
+// Missing, null, empty lists and empty objects all mean "nothing set"
+const isEmpty = (value: unknown) =>
+  value == null || (Array.isArray(value) ? value.length === 0 : isRecord(value) && Object.keys(value).length === 0);
+
+const same = (a: unknown, b: unknown) =>
+  isEmpty(a) ? isEmpty(b) : !isEmpty(b) && canonicalJson(a) === canonicalJson(b);
+
+// Snapshot stored for a save, normalized the same way the project row is written
+export function toRevisionSnapshot(body: SaveProjectPayload): RevisionSnapshot {
+  const { id: _id, revisionLabel: _label, ...project } = body;
+  const story = deserializeBranchingStory(body.branchingStory);
+  return JSON.parse(
+    JSON.stringify({
+      ...project,
+      sceneTransitions: pickSceneTransitions(body.scenes, body.sceneTransitions),
+      branchingStory: story ? serializeBranchingStory(story) : null,
+      customBackgrounds: pickCustomBackgrounds(body.scenes, body.customBackgrounds),
+    })
+  );
+}
+
+/**
+ * Read a stored snapshot back as a project payload. Snapshots written by older
+ * schema versions are upgraded; `errors` lists anything that was defaulted.
+ */
+export function readRevisionSnapshot(row: any): { project: SaveProjectPayload | null; errors: string[] } {
+  const { project, errors } = parseProjectBundle(row.snapshotJson);
+  return { project, errors };
+}
+
+export function toRevisionSummary(row: any): RevisionSummary {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    number: row.number,
+    label: row.label ?? null,
+    author: row.author ?? null,
+    schemaVersion: row.schemaVersion,
+    createdAt: new Date(row.createdAt).toISOString(),
+    title: row.title,
+    sceneCount: row.sceneCount,
+  };
+}
+
+// Revision columns without the snapshot, for listing
+export const REVISION_SUMMARY_SELECT = {
+  id: true,
+  projectId: true,
+  number: true,
+  label: true,
+  author: true,
+  schemaVersion: true,
+  createdAt: true,
+  title: true,
+  sceneCount: true,
+};
+
+// Trimmed label, or null for a blank one
+export function normalizeRevisionLabel(label: unknown): string | null {
+  if (typeof label !== 'string') return null;
+  return label.trim().slice(0, MAX_REVISION_LABEL_LENGTH) || null;
+}
+
+/**
+ * Create or overwrite a project and record the saved state as its next revision.
+ * Must run inside a transaction (`db` is the transaction client). A save that
+ * changes nothing since the latest revision and has no label doesn't add one.
+ */
+export async function writeProjectRevision(
+  db: typeof prisma,
+  body: SaveProjectPayload,
+  options: RevisionOptions = {}
+): Promise<SavedRevision> {
+  const data = toProjectWriteData(body);
+  let projectId = body.id;
+
+  if (!projectId) {
+    const created = await db.project.create({ data: { ...data, ownerId: options.ownerId ?? null }, select: { id: true } });
+    projectId = created.id as string;
+  } else {
+    await db.scene.deleteMany({ where: { projectId } });
+    await db.audioTrack.deleteMany({ where: { projectId } });
+    await db.projectSettings.deleteMany({ where: { projectId } });
+    await db.project.upsert({
+      where: { id: projectId },
+      update: data,
+      create: { id: projectId, ...data, ownerId: options.ownerId ?? null },
+    });
+  }
+
+  const snapshot = toRevisionSnapshot(body);
+  const label = normalizeRevisionLabel(options.label);
+  const latest = await db.projectRevision.findFirst({
+    where: { projectId },
+    orderBy: { number: 'desc' },
+    select: { number: true, snapshotJson: true },
+  });
+
+  if (latest && !label && canonicalJson(latest.snapshotJson) === canonicalJson(snapshot)) {
+    return { id: projectId, revision: latest.number };
+  }
+
+  const number = (latest?.number ?? 0) + 1;
+  await db.projectRevision.create({
+    data: {
+      projectId,
+      number,
+      label,
+      author: options.author?.trim() || null,
+      title: body.title,
+      sceneCount: body.scenes.length,
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      snapshotJson: snapshot as any,
+    },
+  });
+  return { id: projectId, revision: number };
+}
+
+// Save a project and its revision in one transaction
+export function saveProjectWithRevision(body: SaveProjectPayload, options: RevisionOptions = {}): Promise<SavedRevision> {
+  return prisma.$transaction((tx: typeof prisma) => writeProjectRevision(tx, body, options));
+}
+
+const SCENE_FIELDS: [string, (scene: EditableScenePayload) => unknown][] = [
+  ['title', (scene) => scene.title],
+  ['narration', (scene) => scene.narration],
+  ['background', (scene) => scene.background],
+  ['duration', (scene) => scene.duration],
+  ['mood', (scene) => scene.mood],
+  ['camera', (scene) => [scene.cameraZoom ?? 1, scene.cameraPanX ?? 0, scene.cameraPanY ?? 0]],
+  ['camera keyframes', (scene) => scene.cameraKeyframes],
+  ['dialogue', (scene) => scene.dialogue],
+  ['props', (scene) => scene.props],
+];
+
+const PROJECT_FIELDS: [string, (project: SaveProjectPayload) => unknown][] = [
+  ['title', (project) => project.title],
+  ['description', (project) => project.description || null],
+  ['cover image', (project) => project.coverImage],
+  ['story provider', (project) => project.storyProvider],
+  ['transitions', (project) => project.sceneTransitions],
+  ['branching story', (project) => project.branchingStory],
+  ['custom backgrounds', (project) => project.customBackgrounds],
+  ['audio tracks', (project) => project.audioTracks],
+  ['settings', (project) => project.settings],
+];
+
+function diffCharacters(from: EditableScenePayload, to: EditableScenePayload): SceneDiff['characters'] {
+  const before = new Map(from.characters.map((character) => [character.id, character]));
+  const after = new Map(to.characters.map((character) => [character.id, character]));
+  return {
+    added: to.characters.filter((character) => !before.has(character.id)).map((character) => character.name),
+    removed: from.characters.filter((character) => !after.has(character.id)).map((character) => character.name),
+    changed: to.characters
+      .filter((character) => before.has(character.id) && !same(before.get(character.id), character))
+      .map((character) => character.name),
+  };
+}
+
+/**
+ * Compare two saved states of a project. Scenes are matched by id, so a scene
+ * that was moved shows up as moved rather than as removed and added again.
+ */
+export function diffProjects(
+  from: SaveProjectPayload,
+  to: SaveProjectPayload,
+  numbers: { from: number; to: number }
+): RevisionDiff {
+  const fromIndex = new Map(from.scenes.map((scene, index) => [scene.id, index]));
+  const toIds = new Set(to.scenes.map((scene) => scene.id));
+  const noCharacters = { added: [], removed: [], changed: [] };
+
+  // Order only counts as changed when a scene's neighbours among the kept scenes change
+  const keptFrom = from.scenes.filter((scene) => toIds.has(scene.id)).map((scene) => scene.id);
+  const keptTo = to.scenes.filter((scene) => fromIndex.has(scene.id)).map((scene) => scene.id);
+
+  const scenes: SceneDiff[] = [];
+  to.scenes.forEach((scene, index) => {
+    const previousIndex = fromIndex.get(scene.id);
+    if (previousIndex === undefined) {
+      scenes.push({ sceneId: scene.id, title: scene.title, change: 'added', fromIndex: null, toIndex: index, fields: [], characters: noCharacters });
+      return;
+    }
+
+    const previous = from.scenes[previousIndex];
+    const fields = SCENE_FIELDS.filter(([, read]) => !same(read(previous), read(scene))).map(([name]) => name);
+    const characters = diffCharacters(previous, scene);
+    if (characters.added.length || characters.removed.length || characters.changed.length) fields.push('characters');
+    const moved = keptFrom.indexOf(scene.id) !== keptTo.indexOf(scene.id);
+
+    if (fields.length > 0) {
+      scenes.push({ sceneId: scene.id, title: scene.title, change: 'modified', fromIndex: previousIndex, toIndex: index, fields: moved ? [...fields, 'order'] : fields, characters });
+    } else if (moved) {
+      scenes.push({ sceneId: scene.id, title: scene.title, change: 'moved', fromIndex: previousIndex, toIndex: index, fields: [], characters: noCharacters });
+    }
+  });
+
+  from.scenes.forEach((scene, index) => {
+    if (!toIds.has(scene.id)) {
+      scenes.push({ sceneId: scene.id, title: scene.title, change: 'removed', fromIndex: index, toIndex: null, fields: [], characters: noCharacters });
+    }
+  });
+
+  return {
+    from: numbers.from,
+    to: numbers.to,
+    project: PROJECT_FIELDS.filter(([, read]) => !same(read(from), read(to))).map(([name]) => name),
+    scenes,
+  };
+}
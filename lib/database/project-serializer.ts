@@ -0,0 +1,412 @@
+// Project persistence model shared by the projects API routes
+
+import type {
+  EditableScene,
+  EditableCharacter,
+  CustomCharacterColors,
+  CustomCharacterAccessories,
+} from '@/components/editors/InteractiveSceneEditor';
+import type { TransitionConfig } from '@/lib/utils/scene-transitions';
+import {
+  deserializeBranchingStory,
+  serializeBranchingStory,
+  type SerializedBranchingStory,
+} from '@/lib/utils/story-branching';
+
+/**
+ * Version of the stored project shape.
+ * 1 - flat Scene/Character columns only (no props, camera keyframes, transitions or custom looks)
+ * 2 - full editable scene model
+ * 3 - branching story graph
+ * 4 - custom (AI-generated) backgrounds
+ */
+export const PROJECT_SCHEMA_VERSION = 4;
+
+export type EditableCharacterPayload = {
+  id: string;
+  rigId: string;
+  name: string;
+  x: number;
+  y: number;
+  scale: number;
+  flipX: boolean;
+  animation: string;
+  expression: string;
+  isTalking?: boolean;
+  zIndex?: number;
+  outfitExplorer?: boolean;
+  propBall?: boolean;
+  pinFeet?: boolean;
+  customColors?: CustomCharacterColors;
+  customAccessories?: CustomCharacterAccessories;
+  customOutfit?: string;
+  aiGeneratedImage?: string;
+  useAICharacter?: boolean;
+};
+
+export type EditableScenePayload = {
+  id: string;
+  title: string;
+  narration: string;
+  background: string;
+  characters: EditableCharacterPayload[];
+  duration: number;
+  cameraZoom?: number;
+  cameraPanX?: number;
+  cameraPanY?: number;
+  dialogue?: { speaker: string; text: string }[];
+  mood?: string;
+  props?: any[];
+  cameraKeyframes?: any[];
+};
+
+export type SaveProjectPayload = {
+  id?: string;
+  title: string;
+  description?: string;
+  coverImage?: string | null;
+  storyProvider?: string | null;
+  scenes: EditableScenePayload[];
+  sceneTransitions?: Record<string, TransitionConfig>;
+  branchingStory?: SerializedBranchingStory | null;
+  customBackgrounds?: Record<string, string>;
+  audioTracks?: {
+    id?: string;
+    type: 'narration' | 'music' | 'sfx';
+    url?: string | null;
+    text?: string | null;
+    startTime: number;
+    duration: number;
+    volume: number;
+  }[];
+  settings?: {
+    resolutionWidth: number;
+    resolutionHeight: number;
+    fps: number;
+    defaultSceneDuration: number;
+    autoNarration: boolean;
+    narratorVoice?: string | null;
+  };
+  revisionLabel?: string; // Names the revision this save creates
+};
+
+// Project as returned to the editor by GET /api/projects/[id]
+export interface StoredProject {
+  id: string;
+  title: string;
+  description: string | null;
+  coverImage: string | null;
+  storyProvider: string | null;
+  schemaVersion: number;
+  createdAt: string;
+  updatedAt: string;
+  scenes: EditableScene[];
+  sceneTransitions: Record<string, TransitionConfig>;
+  branchingStory: SerializedBranchingStory | null;
+  customBackgrounds: Record<string, string>;
+  audioTracks: any[];
+  settings: any | null;
+}
+
+const EXPRESSIONS: EditableCharacter['expression'][] = ['neutral', 'happy', 'sad', 'surprised', 'angry'];
+
+// Prisma create input for a single scene (with nested characters)
+export function toSceneCreateData(scene: EditableScenePayload, index: number) {
+  return {
+    id: scene.id,
+    title: scene.title,
+    background: scene.background,
+    narration: scene.narration,
+    duration: scene.duration,
+    cameraZoom: scene.cameraZoom ?? 1,
+    cameraPanX: scene.cameraPanX ?? 0,
+    cameraPanY: scene.cameraPanY ?? 0,
+    orderIndex: index,
+    mood: scene.mood,
+    dialogueJson: scene.dialogue ? (scene.dialogue as any) : undefined,
+    propsJson: scene.props ? (scene.props as any) : undefined,
+    cameraKeyframesJson: scene.cameraKeyframes ? (scene.cameraKeyframes as any) : undefined,
+    characters: {
+      create: scene.characters?.map((char) => ({
+        id: char.id,
+        rigId: char.rigId,
+        name: char.name,
+        x: char.x,
+        y: char.y,
+        scale: char.scale,
+        flipX: char.flipX,
+        animation: char.animation,
+        expression: char.expression,
+        isTalking: !!char.isTalking,
+        zIndex: char.zIndex ?? 0,
+        outfitExplorer: char.outfitExplorer ?? null,
+        propBall: char.propBall ?? null,
+        pinFeet: char.pinFeet ?? null,
+        customColorsJson: char.customColors ? (char.customColors as any) : undefined,
+        customAccessoriesJson: char.customAccessories ? (char.customAccessories as any) : undefined,
+        customOutfit: char.customOutfit ?? null,
+        aiGeneratedImage: char.aiGeneratedImage ?? null,
+        useAICharacter: !!char.useAICharacter,
+      })) ?? [],
+    },
+  };
+}
+
+// Only keep transitions for scenes that are part of the saved project
+export function pickSceneTransitions(
+  scenes: EditableScenePayload[],
+  transitions?: Record<string, TransitionConfig>
+): Record<string, TransitionConfig> {
+  if (!transitions) return {};
+  const sceneIds = new Set(scenes.map((scene) => scene.id));
+  const picked: Record<string, TransitionConfig> = {};
+  for (const [sceneId, transition] of Object.entries(transitions)) {
+    if (sceneIds.has(sceneId) && transition && typeof transition.type === 'string') {
+      picked[sceneId] = transition;
+    }
+  }
+  return picked;
+}
+
+// Only keep custom backgrounds that a saved scene uses (background id -> image URL)
+export function pickCustomBackgrounds(
+  scenes: EditableScenePayload[],
+  backgrounds?: Record<string, string>
+): Record<string, string> {
+  if (!backgrounds) return {};
+  const used = new Set(scenes.map((scene) => scene.background));
+  const picked: Record<string, string> = {};
+  for (const [backgroundId, url] of Object.entries(backgrounds)) {
+    if (used.has(backgroundId) && typeof url === 'string' && url) {
+      picked[backgroundId] = url;
+    }
+  }
+  return picked;
+}
+
+/**
+ * Normalize a branching story for storage. An empty object clears the graph,
+ * since the column is always written with a JSON value.
+ */
+export function toBranchingJson(raw: unknown): SerializedBranchingStory | Record<string, never> {
+  const story = deserializeBranchingStory(raw);
+  return story ? serializeBranchingStory(story) : {};
+}
+
+// Stored branching graph of a Project row, if it has one
+export function readBranchingStory(row: any): SerializedBranchingStory | null {
+  if ((row.schemaVersion ?? 1) < 3) return null;
+  const story = deserializeBranchingStory(row.branchingJson);
+  return story ? serializeBranchingStory(story) : null;
+}
+
+// Stored custom backgrounds of a Project row
+function readCustomBackgrounds(row: any): Record<string, string> {
+  if ((row.schemaVersion ?? 1) < 4) return {};
+  const raw = row.backgroundsJson;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  return Object.fromEntries(
+    Object.entries(raw).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
+
+/**
+ * Project columns and nested rows written when a project is created or saved
+ * over. Used as both the create and the update input.
+ */
+export function toProjectWriteData(body: SaveProjectPayload) {
+  const settings = body.settings;
+  return {
+    title: body.title,
+    description: body.description,
+    coverImage: body.coverImage ?? null,
+    storyProvider: body.storyProvider ?? null,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    transitionsJson: pickSceneTransitions(body.scenes, body.sceneTransitions) as any,
+    branchingJson: toBranchingJson(body.branchingStory) as any,
+    backgroundsJson: pickCustomBackgrounds(body.scenes, body.customBackgrounds) as any,
+    scenes: { create: body.scenes.map((scene, index) => toSceneCreateData(scene, index)) },
+    audioTracks: {
+      create: (body.audioTracks || []).map((track) => ({
+        id: track.id,
+        type: track.type,
+        url: track.url,
+        text: track.text,
+        startTime: track.startTime,
+        duration: track.duration,
+        volume: track.volume,
+      })),
+    },
+    settings: settings
+      ? {
+          create: {
+            resolutionWidth: settings.resolutionWidth,
+            resolutionHeight: settings.resolutionHeight,
+            fps: settings.fps,
+            defaultSceneDuration: settings.defaultSceneDuration,
+            autoNarration: settings.autoNarration,
+            narratorVoice: settings.narratorVoice ?? null,
+          },
+        }
+      : undefined,
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+function readEditableCharacter(raw: unknown, errors: string[], where: string): EditableCharacter | null {
+  if (!isRecord(raw) || typeof raw.rigId !== 'string' || !raw.rigId) {
+    errors.push(`${where}: dropped a character without a rig`);
+    return null;
+  }
+  const character: EditableCharacter = {
+    ...(raw as EditableCharacter),
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `char-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: typeof raw.name === 'string' ? raw.name : raw.rigId,
+    x: isFiniteNumber(raw.x) ? raw.x : 50,
+    y: isFiniteNumber(raw.y) ? raw.y : 70,
+    scale: isFiniteNumber(raw.scale) ? raw.scale : 1,
+    flipX: !!raw.flipX,
+    animation: typeof raw.animation === 'string' ? raw.animation : 'idle',
+    expression: EXPRESSIONS.includes(raw.expression) ? raw.expression : 'neutral',
+    isTalking: !!raw.isTalking,
+    zIndex: isFiniteNumber(raw.zIndex) ? raw.zIndex : 0,
+  };
+  const defaulted = (['id', 'name', 'x', 'y', 'scale', 'expression'] as const).filter((key) => character[key] !== raw[key]);
+  if (defaulted.length > 0) {
+    errors.push(`${where}: reset ${defaulted.join(', ')} of character "${character.name}"`);
+  }
+  return character;
+}
+
+/**
+ * Check a scene from a file or local storage. Missing or invalid fields are
+ * defaulted; characters without a rig are dropped. Returns null when `raw`
+ * isn't a scene at all. Everything changed is reported in `errors`.
+ */
+export function readEditableScene(raw: unknown, index: number, errors: string[]): EditableScene | null {
+  const where = `Scene ${index + 1}`;
+  if (!isRecord(raw)) {
+    errors.push(`${where}: not a scene, dropped`);
+    return null;
+  }
+
+  const scene: EditableScene = {
+    ...(raw as EditableScene),
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `scene-${Date.now()}-${index}`,
+    title: typeof raw.title === 'string' ? raw.title : where,
+    narration: typeof raw.narration === 'string' ? raw.narration : '',
+    background: typeof raw.background === 'string' && raw.background ? raw.background : 'meadow',
+    duration: isFiniteNumber(raw.duration) && raw.duration > 0 ? raw.duration : 5000,
+    characters: (Array.isArray(raw.characters) ? raw.characters : [])
+      .map((character: unknown) => readEditableCharacter(character, errors, where))
+      .filter((character: EditableCharacter | null): character is EditableCharacter => character !== null),
+  };
+
+  if (!Array.isArray(raw.characters)) errors.push(`${where}: character list was missing`);
+  if (raw.props !== undefined && !Array.isArray(raw.props)) {
+    errors.push(`${where}: dropped invalid props`);
+    delete scene.props;
+  }
+  if (raw.cameraKeyframes !== undefined && !Array.isArray(raw.cameraKeyframes)) {
+    errors.push(`${where}: dropped invalid camera keyframes`);
+    delete scene.cameraKeyframes;
+  }
+  if (raw.dialogue !== undefined && !Array.isArray(raw.dialogue)) {
+    errors.push(`${where}: dropped invalid dialogue`);
+    delete scene.dialogue;
+  }
+  return scene;
+}
+
+function characterRowToEditable(row: any, schemaVersion: number): EditableCharacter {
+  const character: EditableCharacter = {
+    id: row.id,
+    rigId: row.rigId,
+    name: row.name,
+    x: row.x,
+    y: row.y,
+    scale: row.scale ?? 1,
+    flipX: !!row.flipX,
+    animation: row.animation || 'idle',
+    expression: EXPRESSIONS.includes(row.expression) ? row.expression : 'neutral',
+    isTalking: !!row.isTalking,
+    zIndex: row.zIndex ?? 0,
+  };
+
+  // Version 1 rows never stored custom looks
+  if (schemaVersion < 2) return character;
+
+  if (row.outfitExplorer != null) character.outfitExplorer = row.outfitExplorer;
+  if (row.propBall != null) character.propBall = row.propBall;
+  if (row.pinFeet != null) character.pinFeet = row.pinFeet;
+  if (row.customColorsJson) character.customColors = row.customColorsJson;
+  if (row.customAccessoriesJson) character.customAccessories = row.customAccessoriesJson;
+  if (row.customOutfit) character.customOutfit = row.customOutfit;
+  if (row.aiGeneratedImage) character.aiGeneratedImage = row.aiGeneratedImage;
+  if (row.useAICharacter) character.useAICharacter = true;
+
+  return character;
+}
+
+function sceneRowToEditable(row: any, schemaVersion: number): EditableScene & { mood?: string } {
+  const scene: EditableScene & { mood?: string } = {
+    id: row.id,
+    title: row.title,
+    narration: row.narration,
+    background: row.background,
+    duration: row.duration,
+    cameraZoom: row.cameraZoom ?? 1,
+    cameraPanX: row.cameraPanX ?? 0,
+    cameraPanY: row.cameraPanY ?? 0,
+    characters: (row.characters || []).map((c: any) => characterRowToEditable(c, schemaVersion)),
+  };
+
+  if (row.mood) scene.mood = row.mood;
+  if (Array.isArray(row.dialogueJson)) scene.dialogue = row.dialogueJson;
+  if (schemaVersion >= 2) {
+    scene.props = Array.isArray(row.propsJson) ? row.propsJson : [];
+    scene.cameraKeyframes = Array.isArray(row.cameraKeyframesJson) ? row.cameraKeyframesJson : [];
+  }
+
+  return scene;
+}
+
+/**
+ * Convert a Project row (with scenes, characters, audio tracks and settings included)
+ * into the editor model. Rows written by older schema versions load with defaults
+ * for the fields they never stored.
+ */
+export function projectRowToStored(row: any): StoredProject {
+  const schemaVersion: number = row.schemaVersion ?? 1;
+  const scenes = [...(row.scenes || [])]
+    .sort((a: any, b: any) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0))
+    .map((scene: any) => sceneRowToEditable(scene, schemaVersion));
+
+  const rawTransitions = schemaVersion >= 2 ? row.transitionsJson : null;
+  const sceneTransitions: Record<string, TransitionConfig> =
+    rawTransitions && typeof rawTransitions === 'object' && !Array.isArray(rawTransitions)
+      ? rawTransitions
+      : {};
+
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? null,
+    coverImage: row.coverImage ?? null,
+    storyProvider: row.storyProvider ?? null,
+    schemaVersion,
+    createdAt: new Date(row.createdAt).toISOString(),
+    updatedAt: new Date(row.updatedAt).toISOString(),
+    scenes,
+    sceneTransitions,
+    branchingStory: readBranchingStory(row),
+    customBackgrounds: readCustomBackgrounds(row),
+    audioTracks: row.audioTracks || [],
+    settings: row.settings ?? null,
+  };
+}
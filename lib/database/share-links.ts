@@ -0,0 +1,72 @@
+// Share link helpers (token generation, password hashing, link status)
+
+import { randomBytes } from 'crypto';
+import { hashPassword, verifyPassword } from '@/lib/auth/passwords';
+
+export const DEFAULT_SHARE_EXPIRY_DAYS = 7;
+export const MAX_SHARE_EXPIRY_DAYS = 90;
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export interface ShareLinkSummary {
+  id: string;
+  token: string;
+  url: string;
+  projectId: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  hasPassword: boolean;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+  createdBy: string | null; // name of the user who created the link
+  status: ShareLinkStatus;
+}
+
+export function generateShareToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+// Clamp the requested lifetime so links can't be made effectively permanent
+export function resolveShareExpiry(expiresInDays?: number, now: Date = new Date()): Date {
+  const days =
+    typeof expiresInDays === 'number' && Number.isFinite(expiresInDays) && expiresInDays > 0
+      ? Math.min(expiresInDays, MAX_SHARE_EXPIRY_DAYS)
+      : DEFAULT_SHARE_EXPIRY_DAYS;
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// Share passwords are hashed like account passwords
+export const hashSharePassword = hashPassword;
+export const verifySharePassword = verifyPassword;
+
+export function getShareLinkStatus(
+  link: { expiresAt: Date | string; revokedAt?: Date | string | null },
+  now: Date = new Date()
+): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (new Date(link.expiresAt).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+export function buildShareUrl(projectId: string, token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+  return `${baseUrl}/view/${projectId}?token=${token}`;
+}
+
+export function toShareLinkSummary(link: any): ShareLinkSummary {
+  return {
+    id: link.id,
+    token: link.token,
+    url: buildShareUrl(link.projectId, link.token),
+    projectId: link.projectId,
+    expiresAt: new Date(link.expiresAt).toISOString(),
+    revokedAt: link.revokedAt ? new Date(link.revokedAt).toISOString() : null,
+    hasPassword: !!link.passwordHash,
+    viewCount: link.viewCount ?? 0,
+    lastViewedAt: link.lastViewedAt ? new Date(link.lastViewedAt).toISOString() : null,
+    createdAt: new Date(link.createdAt).toISOString(),
+    createdBy: link.createdBy?.name ?? null,
+    status: getShareLinkStatus(link),
+  };
+}
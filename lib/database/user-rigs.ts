@@ -0,0 +1,54 @@
+// User rig persistence shared by the rigs, render and share API routes
+
+import { prisma } from './prisma';
+import { CharacterRig, isBuiltInRigId, registerUserRigs } from '@/lib/utils/sprite-system';
+import { RIG_FILE_VERSION, RigFile, createRigFile, parseRigFile } from '@/lib/utils/rig-format';
+
+interface UserRigRow {
+  rigId: string;
+  rigJson: unknown;
+  updatedAt: Date;
+}
+
+export function userRigRowToRig(row: UserRigRow): CharacterRig | null {
+  return parseRigFile(row.rigJson).rig;
+}
+
+// Only the user who added a rig may replace or delete it; rigs stored before
+// creators were recorded have none and stay as they are
+export function canChangeUserRig(row: { createdById: string | null }, userId: string): boolean {
+  return row.createdById === userId;
+}
+
+export function toUserRigData(rig: CharacterRig) {
+  return {
+    name: rig.name,
+    category: rig.category,
+    version: RIG_FILE_VERSION,
+    rigJson: createRigFile(rig) as unknown as object,
+  };
+}
+
+/**
+ * Stored user rigs as rig files, optionally only those with the given ids
+ * (built-in ids are skipped, they never come from the database)
+ */
+export async function loadUserRigFiles(rigIds?: string[]): Promise<RigFile[]> {
+  const ids = rigIds?.filter((id) => !isBuiltInRigId(id));
+  if (ids && ids.length === 0) return [];
+
+  const rows: UserRigRow[] = await prisma.userRig.findMany({
+    where: ids ? { rigId: { in: Array.from(new Set(ids)) } } : undefined,
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows
+    .map(userRigRowToRig)
+    .filter((rig): rig is CharacterRig => rig !== null)
+    .map(createRigFile);
+}
+
+// Make the stored rigs a project uses resolvable on the server (headless rendering)
+export async function registerStoredRigs(rigIds: string[]): Promise<void> {
+  const files = await loadUserRigFiles(rigIds);
+  registerUserRigs(files.map((file) => file.rig));
+}
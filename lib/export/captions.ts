@@ -0,0 +1,213 @@
+// Captions - turns scene narration and dialogue into timed cues and SRT / WebVTT files.
+// With the export soundtrack's speech cues, each line shows exactly while its audio
+// plays. Without audio, lines are timed from their length the same way the mixer
+// lays them out: narration at the start of the scene, then each dialogue line in
+// turn, cut off at the end of the scene.
+
+import type { SceneRenderData } from './video-export-engine';
+import type { SpeechCue } from './export-audio';
+import { getSceneFrameCount } from './frame-renderer';
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export interface CaptionCue {
+  start: number; // ms
+  end: number; // ms
+  text: string;
+  speaker?: string;
+}
+
+export interface CaptionOptions {
+  // Align scene starts to frame boundaries like the exporter does
+  fps?: number;
+  // Longest cue before narration is split into another chunk
+  maxChars?: number;
+  // Lines as the export soundtrack plays them, by scene id (see ExportAudioMixer.getSpeechCues)
+  speech?: Record<string, SpeechCue[]>;
+}
+
+interface TimedLine {
+  text: string;
+  speaker?: string;
+  start: number; // ms from the scene start
+  duration: number; // ms
+}
+
+// Pause between spoken lines; the export soundtrack leaves the same gap
+export const SPOKEN_LINE_GAP_MS = 250;
+
+// Two lines of ~42 characters, the usual limit for readable subtitles
+const DEFAULT_MAX_CHARS = 84;
+// Same speaking rate calculateSceneDuration assumes
+const WORDS_PER_MINUTE = 130;
+const MIN_CUE_DURATION = 800;
+
+// Keyed by the scene's speech cues when there are some, by the scene otherwise
+const sceneCaptionCache: WeakMap<object, CaptionCue[]> = new WeakMap();
+
+// Rough time it takes to say a line out loud (ms)
+export function estimateSpeechDuration(text: string): number {
+  const words = text.split(/\s+/).filter((w) => w.length > 0).length;
+  return Math.max(MIN_CUE_DURATION, (words / WORDS_PER_MINUTE) * 60 * 1000);
+}
+
+/**
+ * Cues for one scene, timed from the start of the scene. Pass the scene's speech
+ * cues to follow the soundtrack; lines are estimated from their text otherwise.
+ */
+export function buildSceneCaptions(
+  scene: SceneRenderData,
+  maxChars: number = DEFAULT_MAX_CHARS,
+  speech?: SpeechCue[]
+): CaptionCue[] {
+  const lines: TimedLine[] = speech
+    ? speech.map((cue) => ({ text: cue.text.trim(), speaker: cue.label, start: cue.start, duration: cue.duration }))
+    : estimateLineTimings(scene);
+
+  const cues: CaptionCue[] = [];
+
+  for (const line of lines) {
+    const lineEnd = Math.min(line.start + line.duration, scene.duration);
+    const chunks = splitCaptionText(line.text, maxChars);
+    const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+    // Share the line's time between its chunks by length
+    let chunkStart = line.start;
+    for (const chunk of chunks) {
+      if (chunkStart >= lineEnd) break;
+      const chunkEnd = Math.min(chunkStart + (line.duration * chunk.length) / totalChars, lineEnd);
+      cues.push({ start: Math.round(chunkStart), end: Math.round(chunkEnd), text: chunk, speaker: line.speaker });
+      chunkStart = chunkEnd;
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * Cues for a whole story, timed from the start of the video
+ */
+export function buildCaptionCues(scenes: SceneRenderData[], options: CaptionOptions = {}): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let sceneStart = 0;
+
+  for (const scene of scenes) {
+    for (const cue of buildSceneCaptions(scene, options.maxChars, options.speech?.[scene.id])) {
+      cues.push({ ...cue, start: sceneStart + cue.start, end: sceneStart + cue.end });
+    }
+    sceneStart += options.fps
+      ? (getSceneFrameCount(scene, options.fps) * 1000) / options.fps
+      : scene.duration;
+  }
+
+  return cues;
+}
+
+// Cue showing at a given time, if any
+export function getCaptionAt(cues: CaptionCue[], time: number): CaptionCue | null {
+  return cues.find((cue) => time >= cue.start && time < cue.end) || null;
+}
+
+// Cached per scene object (or its speech cues), for burning captions in frame by frame
+export function getSceneCaptions(scene: SceneRenderData, speech?: SpeechCue[]): CaptionCue[] {
+  const cacheKey: object = speech || scene;
+  let cues = sceneCaptionCache.get(cacheKey);
+  if (!cues) {
+    cues = buildSceneCaptions(scene, DEFAULT_MAX_CHARS, speech);
+    sceneCaptionCache.set(cacheKey, cues);
+  }
+  return cues;
+}
+
+// Text of a cue as shown on screen, with the speaker label for dialogue
+export function getCueDisplayText(cue: CaptionCue): string {
+  return cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+}
+
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${getCueDisplayText(cue)}\n`)
+    .join('\n');
+}
+
+export function formatWebVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map((cue) => {
+      const text = cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}` : escapeVtt(cue.text);
+      return `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${text}\n`;
+    })
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+export function generateCaptions(scenes: SceneRenderData[], format: CaptionFormat, options: CaptionOptions = {}): string {
+  const cues = buildCaptionCues(scenes, options);
+  return format === 'vtt' ? formatWebVtt(cues) : formatSrt(cues);
+}
+
+// Narration first, then each dialogue line, each as long as it takes to say (no audio)
+function estimateLineTimings(scene: SceneRenderData): TimedLine[] {
+  const texts: { text: string; speaker?: string }[] = [];
+  if (scene.narration.trim()) {
+    texts.push({ text: scene.narration.trim() });
+  }
+  for (const line of scene.dialogue || []) {
+    if (line.text?.trim()) {
+      texts.push({ text: line.text.trim(), speaker: line.speaker || undefined });
+    }
+  }
+
+  const lines: TimedLine[] = [];
+  let cursor = 0;
+  for (const { text, speaker } of texts) {
+    if (cursor >= scene.duration) break;
+    const duration = estimateSpeechDuration(text);
+    lines.push({ text, speaker, start: cursor, duration });
+    cursor += duration + SPOKEN_LINE_GAP_MS;
+  }
+  return lines;
+}
+
+// Split at sentence ends first, then between words, so no chunk exceeds maxChars
+function splitCaptionText(text: string, maxChars: number): string[] {
+  const sentences = text.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) || [text];
+  const chunks: string[] = [];
+  let current = '';
+
+  const push = () => {
+    if (current) chunks.push(current);
+    current = '';
+  };
+
+  for (const sentence of sentences.map((s) => s.trim()).filter(Boolean)) {
+    if (current && `${current} ${sentence}`.length <= maxChars) {
+      current = `${current} ${sentence}`;
+      continue;
+    }
+    push();
+
+    for (const word of sentence.split(/\s+/)) {
+      if (current && `${current} ${word}`.length > maxChars) {
+        push();
+      }
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  push();
+
+  return chunks;
+}
+
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,345 @@
+// Export Audio - builds the soundtrack of an exported video.
+// Narration and dialogue use the configured TTS provider (word tones when it can't
+// return audio), and the mood music, ambient beds and action SFX come from the same
+// generators the player uses. Each source goes through its own bus so the
+// AudioSettings volumes apply. Everything is scheduled at absolute context times, so
+// one mixer drives both a live AudioContext and an OfflineAudioContext.
+// The mixer also reports when each line plays and its lip sync (see getSpeechCues),
+// so the frame renderer moves the speakers' mouths and times captions with the soundtrack.
+
+import { NARRATOR_VOICE, TTS_VOICES, getCloudTTSService } from '@/lib/audio/cloud-tts';
+import { type LipSyncData, generateLipSync } from '@/lib/audio/lip-sync';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
+import { DEFAULT_AUDIO_SETTINGS, getAmbientTypeForBackground, type AudioSettings } from '@/lib/audio/audio-manager';
+import { getMusicGenerator, suggestMusicForScene } from '@/lib/audio/background-music';
+import { scheduleAmbientSounds } from '@/lib/audio/ambient-sounds';
+import { analyzeSceneForAudio, getSoundSynthesizer } from '@/lib/audio/auto-sound-generator';
+import type { SceneRenderData } from './video-export-engine';
+import { SPOKEN_LINE_GAP_MS, estimateSpeechDuration } from './captions';
+// Fade applied to music and ambience at scene cuts (seconds)
+const SEGMENT_FADE = 0.3;
+// Same level the live ambient controller plays at
+const AMBIENT_LEVEL = 0.5;
+// Sample rate for decoding TTS when only the line lengths are needed
+const DECODE_SAMPLE_RATE = 48000;
+
+interface SpokenLine {
+  text: string;
+  voice: string;
+  // Lowercased names of the characters who say it
+  speakers: string[];
+  // Speaker name as written in the dialogue, for caption labels (none for narration)
+  label?: string;
+}
+
+interface FetchedSpeech {
+  bytes: ArrayBuffer;
+  lipSync: LipSyncData;
+}
+
+// When a line is heard in a scene and how the speakers' mouths move
+export interface SpeechCue {
+  text: string;
+  label?: string; // dialogue speaker as written, for captions
+  speakers: string[]; // lowercased character names
+  start: number; // ms from the scene start
+  duration: number; // ms
+  lipSync: LipSyncData;
+}
+
+// Fetched TTS audio by voice + text; shared by every export in the session (successes only)
+const ttsAudioCache: Map<string, Promise<FetchedSpeech | null>> = new Map();
+
+export class ExportAudioMixer {
+  private ctx: BaseAudioContext;
+  private settings: AudioSettings;
+  private narrationBus: GainNode;
+  private musicBus: GainNode;
+  private sfxBus: GainNode;
+  private speech: Map<string, { buffer: AudioBuffer; lipSync: LipSyncData }> = new Map();
+
+  constructor(ctx: BaseAudioContext, destination: AudioNode, settings: Partial<AudioSettings> = {}) {
+    this.ctx = ctx;
+    this.settings = { ...DEFAULT_AUDIO_SETTINGS, ...settings };
+
+    const master = ctx.createGain();
+    master.gain.value = this.settings.masterVolume;
+    master.connect(destination);
+
+    this.narrationBus = this.createBus(master, this.settings.narrationVolume);
+    this.musicBus = this.createBus(master, this.settings.musicVolume);
+    this.sfxBus = this.createBus(master, this.settings.sfxVolume);
+  }
+
+  /**
+   * Fetch and decode the TTS audio for every narration and dialogue line.
+   * Lines the provider can't voice fall back to word tones when scheduled.
+   */
+  async prepare(scenes: SceneRenderData[]): Promise<void> {
+    const lines = scenes.flatMap((scene) => this.getSpokenLines(scene));
+
+    await Promise.all(
+      lines.map(async (line) => {
+        const key = getLineKey(line);
+        if (this.speech.has(key)) return;
+
+        const fetched = await fetchSpeech(line);
+        if (!fetched) return;
+
+        try {
+          // decodeAudioData detaches its input, so decode a copy of the cached bytes
+          const buffer = await this.ctx.decodeAudioData(fetched.bytes.slice(0));
+          this.speech.set(key, { buffer, lipSync: fetched.lipSync });
+        } catch (error) {
+          console.warn('Export TTS decode failed:', line.text.slice(0, 40), error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Schedule a scene's narration, dialogue, music, ambience and SFX starting at
+   * startTime (seconds); nothing plays past the end of the scene.
+   */
+  scheduleScene(scene: SceneRenderData, startTime: number): void {
+    const duration = scene.duration / 1000;
+    const endTime = startTime + duration;
+
+    for (const { line, start, duration: lineDuration } of this.getLineTimings(scene)) {
+      this.scheduleLine(line, startTime + start / 1000, lineDuration / 1000);
+    }
+
+    const track = suggestMusicForScene(scene.narration)[0];
+    if (track) {
+      getMusicGenerator().scheduleTrack(this.ctx, this.createSegment(this.musicBus, startTime, endTime, 1), track.id, startTime, duration);
+    }
+
+    scheduleAmbientSounds(
+      this.ctx,
+      this.createSegment(this.sfxBus, startTime, endTime, AMBIENT_LEVEL),
+      getAmbientTypeForBackground(scene.background),
+      startTime,
+      duration,
+      createSeededRandom(scene.id)
+    );
+
+    const { characterSounds } = analyzeSceneForAudio(
+      scene.background,
+      scene.characters.map((char) => ({ action: char.animation, position: char.x / 100 })),
+      scene.narration,
+      scene.duration
+    );
+    const synthesizer = getSoundSynthesizer();
+    characterSounds
+      .filter((event) => event.time + event.duration <= scene.duration)
+      .forEach((event) => synthesizer.scheduleSound(this.ctx, this.sfxBus, event, startTime));
+  }
+
+  private createBus(destination: AudioNode, volume: number): GainNode {
+    const bus = this.ctx.createGain();
+    bus.gain.value = volume;
+    bus.connect(destination);
+    return bus;
+  }
+
+  // Per-scene gain that fades in and out so loops don't click at scene cuts
+  private createSegment(bus: GainNode, startTime: number, endTime: number, level: number): GainNode {
+    const segment = this.ctx.createGain();
+    const fade = Math.min(SEGMENT_FADE, (endTime - startTime) / 2);
+    segment.gain.setValueAtTime(0, startTime);
+    segment.gain.linearRampToValueAtTime(level, startTime + fade);
+    segment.gain.setValueAtTime(level, endTime - fade);
+    segment.gain.linearRampToValueAtTime(0, endTime);
+    segment.connect(bus);
+    return segment;
+  }
+
+  /**
+   * Every line the scene's soundtrack plays (call after prepare), with the lip sync
+   * of its TTS audio, or one timed from the text for lines voiced with word tones
+   */
+  getSpeechCues(scene: SceneRenderData): SpeechCue[] {
+    return this.getLineTimings(scene).map(({ line, start, duration }) => ({
+      text: line.text,
+      label: line.label,
+      speakers: line.speakers,
+      start,
+      duration,
+      lipSync: this.speech.get(getLineKey(line))?.lipSync || generateLipSync(line.text, duration),
+    }));
+  }
+
+  // Narration first, then each dialogue line in turn; nothing runs past the scene (ms)
+  private getLineTimings(scene: SceneRenderData): { line: SpokenLine; start: number; duration: number }[] {
+    const timings: { line: SpokenLine; start: number; duration: number }[] = [];
+    let cursor = 0;
+    for (const line of this.getSpokenLines(scene)) {
+      if (cursor >= scene.duration) break;
+      const speech = this.speech.get(getLineKey(line));
+      // Lines without audio take the length the captions assume, so they stay in step
+      const length = speech ? speech.buffer.duration * 1000 : estimateSpeechDuration(line.text);
+      const duration = Math.min(length, scene.duration - cursor);
+      timings.push({ line, start: cursor, duration });
+      cursor += duration + SPOKEN_LINE_GAP_MS;
+    }
+    return timings;
+  }
+
+  private scheduleLine(line: SpokenLine, startTime: number, duration: number): void {
+    const speech = this.speech.get(getLineKey(line));
+
+    if (!speech) {
+      scheduleSpeechTones(this.ctx, this.narrationBus, line.text, startTime, duration * 1000);
+      return;
+    }
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = speech.buffer;
+    source.connect(this.narrationBus);
+    source.start(startTime);
+
+    if (duration < speech.buffer.duration) {
+      source.stop(startTime + duration);
+    }
+  }
+
+  private getSpokenLines(scene: SceneRenderData): SpokenLine[] {
+    const lines: SpokenLine[] = [];
+    if (scene.narration.trim()) {
+      // Characters shown talking mouth the narration
+      const speakers = scene.characters
+        .filter((char) => char.isTalking || char.animation === 'talk')
+        .map((char) => char.name.toLowerCase());
+      lines.push({ text: scene.narration, voice: this.getNarratorVoice(), speakers });
+    }
+
+    const registry = getCharacterRegistry();
+    for (const line of scene.dialogue || []) {
+      if (!line.text?.trim()) continue;
+      const speaker = (line.speaker || '').toLowerCase();
+      const character = scene.characters.find((char) => char.name.toLowerCase() === speaker);
+      const voice = (character && registry.getVoice(character.rigId)) || registry.getVoice(speaker) || this.getNarratorVoice();
+      lines.push({ text: line.text, voice, speakers: character ? [speaker] : [], label: line.speaker || undefined });
+    }
+
+    return lines;
+  }
+
+  private getNarratorVoice(): string {
+    const voice = this.settings.narratorVoice;
+    return voice && TTS_VOICES.some((v) => v.id === voice) ? voice : NARRATOR_VOICE;
+  }
+}
+
+// Speech cues of every scene, by scene id
+export function getSpeechCueMap(mixer: ExportAudioMixer, scenes: SceneRenderData[]): Record<string, SpeechCue[]> {
+  return Object.fromEntries(scenes.map((scene) => [scene.id, mixer.getSpeechCues(scene)]));
+}
+
+/**
+ * Speech cues as an export with these settings would play them, without mixing
+ * anything; fetched TTS is cached, so a following export reuses it
+ */
+export async function prepareSpeechCues(
+  scenes: SceneRenderData[],
+  settings?: Partial<AudioSettings>
+): Promise<Record<string, SpeechCue[]>> {
+  // Only used to decode the TTS audio, so one silent sample is enough
+  const ctx = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  const mixer = new ExportAudioMixer(ctx, ctx.destination, settings);
+  await mixer.prepare(scenes);
+  return getSpeechCueMap(mixer, scenes);
+}
+
+function getLineKey(line: SpokenLine): string {
+  return `${line.voice}:${line.text}`;
+}
+
+function fetchSpeech(line: SpokenLine): Promise<FetchedSpeech | null> {
+  const key = getLineKey(line);
+  let pending = ttsAudioCache.get(key);
+
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const result = await getCloudTTSService().synthesize(line.text, { voice: line.voice });
+        // The browser provider speaks live and has no audio to mix
+        if (!result.audioUrl) return null;
+        const response = await fetch(result.audioUrl);
+        return response.ok ? { bytes: await response.arrayBuffer(), lipSync: result.lipSync } : null;
+      } catch (error) {
+        console.warn('Export TTS failed:', line.text.slice(0, 40), error);
+        return null;
+      }
+    })();
+    ttsAudioCache.set(key, pending);
+    // Only keep audio; a line that failed or had none is tried again by the next export
+    void pending.then((fetched) => {
+      if (!fetched && ttsAudioCache.get(key) === pending) ttsAudioCache.delete(key);
+    });
+  }
+
+  return pending;
+}
+
+// Speech-rhythm tones (one per word) for lines without TTS audio
+function scheduleSpeechTones(
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  text: string,
+  startTime: number,
+  duration: number
+): void {
+  const words = text.split(/\s+/).filter(w => w.length > 0);
+  if (words.length === 0) return;
+
+  const wordDuration = Math.min(duration / words.length, 400);
+  const pauseDuration = 100;
+
+  words.forEach((word, i) => {
+    // One tone per word, followed by a small pause
+    const toneDuration = Math.max(wordDuration - pauseDuration, 50);
+    const toneStart = startTime + (i * wordDuration) / 1000;
+    const toneEnd = toneStart + toneDuration / 1000;
+
+    const oscillator = ctx.createOscillator();
+    const wordGain = ctx.createGain();
+
+    // Vary frequency based on word characteristics
+    const baseFreq = 180 + (word.length * 10) % 100;
+    oscillator.type = 'sine';
+
+    // Add slight frequency variation for natural sound
+    oscillator.frequency.setValueAtTime(baseFreq, toneStart);
+    oscillator.frequency.linearRampToValueAtTime(baseFreq + 20, toneStart + toneDuration / 2000);
+    oscillator.frequency.linearRampToValueAtTime(baseFreq - 10, toneEnd);
+
+    // Envelope for natural speech-like sound
+    wordGain.gain.setValueAtTime(0, toneStart);
+    wordGain.gain.linearRampToValueAtTime(0.045, toneStart + 0.02);
+    wordGain.gain.linearRampToValueAtTime(0.03, toneStart + toneDuration / 2000);
+    wordGain.gain.linearRampToValueAtTime(0, toneEnd);
+
+    oscillator.connect(wordGain);
+    wordGain.connect(destination);
+
+    oscillator.start(toneStart);
+    oscillator.stop(toneEnd);
+  });
+}
+
+// Small deterministic PRNG (mulberry32) seeded from a string, so ambience is
+// identical every time the same scene is exported
+function createSeededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
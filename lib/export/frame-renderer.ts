@@ -0,0 +1,355 @@
+// Frame Renderer - draws a scene at an exact frame index onto any 2D canvas context
+// Shared by the browser export engine and the headless render queue, so the same
+// frame index always produces the same picture (no wall-clock time, no Math.random).
+
+import type { SceneRenderData } from './video-export-engine';
+import type { SpeechCue } from './export-audio';
+import { getMouthShapeAtTime } from '@/lib/audio/lip-sync';
+import { getCharacterRegistry } from '@/lib/utils/character-registry';
+import { STAGE_REFERENCE_WIDTH, drawRig, drawSceneBackground, getRigPose } from '@/lib/animation/rig-rasterizer';
+import { getCaptionAt, getCueDisplayText, getSceneCaptions } from './captions';
+
+export interface FrameRenderOptions {
+  width: number;
+  height: number;
+  fps: number;
+  showNarration?: boolean;
+  // Show the timed caption cue (with speaker labels) instead of the whole narration
+  burnInCaptions?: boolean;
+  // Preloaded AI character images keyed by URL (see collectCharacterImageUrls)
+  images?: Map<string, CanvasImageSource>;
+  // Path2D constructor where there is no global one (Node)
+  createPath?: (d: string) => Path2D;
+  // Spoken lines by scene id (ExportAudioMixer.getSpeechCues); speakers' mouths follow their lip sync
+  speech?: Record<string, SpeechCue[]>;
+}
+
+export interface FramePosition {
+  sceneIndex: number;
+  frameInScene: number;
+  sceneFrameCount: number;
+}
+
+// Fallback color for characters the registry doesn't know
+const DEFAULT_CHARACTER_COLOR = '#FFA500';
+
+export function getSceneFrameCount(scene: SceneRenderData, fps: number): number {
+  return Math.max(1, Math.ceil((scene.duration / 1000) * fps));
+}
+
+export function getTotalFrameCount(scenes: SceneRenderData[], fps: number): number {
+  return scenes.reduce((sum, scene) => sum + getSceneFrameCount(scene, fps), 0);
+}
+
+// Map a frame index on the whole timeline to a scene and a frame inside it
+export function locateFrame(scenes: SceneRenderData[], fps: number, frame: number): FramePosition | null {
+  let start = 0;
+  for (let sceneIndex = 0; sceneIndex < scenes.length; sceneIndex++) {
+    const sceneFrameCount = getSceneFrameCount(scenes[sceneIndex], fps);
+    if (frame < start + sceneFrameCount) {
+      return { sceneIndex, frameInScene: frame - start, sceneFrameCount };
+    }
+    start += sceneFrameCount;
+  }
+  return null;
+}
+
+/**
+ * Draw one frame of a scene. `progress` is the 0-1 position inside the scene,
+ * normally frameInScene / sceneFrameCount.
+ */
+export function renderSceneFrame(
+  ctx: CanvasRenderingContext2D,
+  scene: SceneRenderData,
+  progress: number,
+  options: FrameRenderOptions
+): void {
+  const { width, height } = options;
+
+  const sceneTime = progress * scene.duration;
+
+  ctx.clearRect(0, 0, width, height);
+
+  // Apply camera transform
+  ctx.save();
+  const zoom = scene.cameraZoom || 1;
+  const panX = (scene.cameraPanX || 0) * width * 0.1;
+  const panY = (scene.cameraPanY || 0) * height * 0.1;
+
+  ctx.translate(width / 2, height / 2);
+  ctx.scale(zoom, zoom);
+  ctx.translate(-width / 2 + panX, -height / 2 + panY);
+
+  drawSceneBackground(ctx, scene.background, width, height);
+
+  const speech = options.speech?.[scene.id];
+  for (const char of scene.characters) {
+    drawCharacter(ctx, char, progress, sceneTime, options, speech);
+  }
+
+  ctx.restore();
+
+  if (options.showNarration === false) return;
+
+  if (options.burnInCaptions) {
+    const cue = getCaptionAt(getSceneCaptions(scene, speech), sceneTime);
+    if (cue) {
+      drawNarrationOverlay(ctx, getCueDisplayText(cue), width, height);
+    }
+  } else if (scene.narration) {
+    drawNarrationOverlay(ctx, scene.narration, width, height);
+  }
+}
+
+// Render the frame at a timeline index; returns false past the end of the story
+export function renderTimelineFrame(
+  ctx: CanvasRenderingContext2D,
+  scenes: SceneRenderData[],
+  frame: number,
+  options: FrameRenderOptions
+): boolean {
+  const position = locateFrame(scenes, options.fps, frame);
+  if (!position) return false;
+  renderSceneFrame(
+    ctx,
+    scenes[position.sceneIndex],
+    position.frameInScene / position.sceneFrameCount,
+    options
+  );
+  return true;
+}
+
+// Every AI character image a render needs, so callers can load them up front
+export function collectCharacterImageUrls(scenes: SceneRenderData[]): string[] {
+  const urls = new Set<string>();
+  scenes.forEach((scene) =>
+    scene.characters.forEach((char) => {
+      if (char.useAICharacter && char.aiGeneratedImage) urls.add(char.aiGeneratedImage);
+    })
+  );
+  return Array.from(urls);
+}
+
+// Characters stand with their feet at (x%, y%), sized like on the editor stage
+function drawCharacter(
+  ctx: CanvasRenderingContext2D,
+  char: SceneRenderData['characters'][0],
+  progress: number,
+  sceneTime: number,
+  options: FrameRenderOptions,
+  speech?: SpeechCue[]
+): void {
+  const rig = getCharacterRegistry().getRig(char.rigId);
+  const image = char.useAICharacter && char.aiGeneratedImage ? options.images?.get(char.aiGeneratedImage) : undefined;
+
+  if (!rig && !image) {
+    drawFallbackCharacter(ctx, char, progress, options.width, options.height);
+    return;
+  }
+
+  const boxWidth = rig?.width ?? 120;
+  const boxHeight = rig?.height ?? 180;
+  const scale = char.scale * 0.8 * (options.width / STAGE_REFERENCE_WIDTH);
+
+  ctx.save();
+  ctx.translate((char.x / 100) * options.width, (char.y / 100) * options.height);
+  if (char.flipX) {
+    ctx.scale(-1, 1);
+  }
+  ctx.scale(scale, scale);
+  ctx.translate(-boxWidth / 2, -boxHeight);
+
+  if (image) {
+    drawContainedImage(ctx, image, boxWidth, boxHeight);
+  } else if (rig) {
+    const pose = getRigPose(rig, char.animation, !!char.isTalking, sceneTime, { pinFeet: char.pinFeet });
+    const mouthShape = getSpokenMouthShape(char.name, sceneTime, speech);
+    if (mouthShape) {
+      pose.mouth = { ...pose.mouth, mouthShape };
+    }
+    drawRig(ctx, rig, {
+      partTransforms: pose,
+      expression: char.expression,
+      customColors: char.customColors,
+      showExplorerGear: char.outfitExplorer,
+      showBallProp: char.propBall,
+      createPath: options.createPath,
+    });
+  }
+
+  ctx.restore();
+}
+
+// Mouth shape for a character who speaks in the scene: their lip sync while a line
+// of theirs plays, closed between lines. Undefined for characters who never speak.
+function getSpokenMouthShape(name: string, sceneTime: number, speech?: SpeechCue[]) {
+  const speaker = name.toLowerCase();
+  const cues = speech?.filter((cue) => cue.speakers.includes(speaker));
+  if (!cues || cues.length === 0) return undefined;
+
+  const cue = cues.find((c) => sceneTime >= c.start && sceneTime < c.start + c.duration);
+  return cue ? getMouthShapeAtTime(cue.lipSync, sceneTime - cue.start).shape : 'closed';
+}
+
+function drawContainedImage(ctx: CanvasRenderingContext2D, image: CanvasImageSource, boxWidth: number, boxHeight: number): void {
+  const source = image as { width: number; height: number };
+  const ratio = Math.min(boxWidth / source.width, boxHeight / source.height);
+  const drawWidth = source.width * ratio;
+  const drawHeight = source.height * ratio;
+  ctx.drawImage(image, (boxWidth - drawWidth) / 2, boxHeight - drawHeight, drawWidth, drawHeight);
+}
+
+// Simple cartoon blob for characters without a rig
+function drawFallbackCharacter(
+  ctx: CanvasRenderingContext2D,
+  char: SceneRenderData['characters'][0],
+  progress: number,
+  canvasWidth: number,
+  canvasHeight: number
+): void {
+  const color = getCharacterRegistry().getColor(char.rigId) || DEFAULT_CHARACTER_COLOR;
+
+  // Calculate position
+  const x = (char.x / 100) * canvasWidth;
+  const y = (char.y / 100) * canvasHeight;
+  const scale = char.scale * 0.8;
+  const baseSize = Math.min(canvasWidth, canvasHeight) * 0.15;
+
+  ctx.save();
+  ctx.translate(x, y);
+  if (char.flipX) {
+    ctx.scale(-1, 1);
+  }
+  ctx.scale(scale, scale);
+
+  // Apply animation bounce
+  let bounceY = 0;
+  if (char.animation === 'walk' || char.animation === 'jump' || char.animation === 'dance') {
+    bounceY = Math.sin(progress * Math.PI * 4) * 10;
+  }
+
+  // Draw body (simple cartoon style)
+  ctx.fillStyle = color;
+
+  // Body
+  ctx.beginPath();
+  ctx.ellipse(0, bounceY, baseSize * 0.4, baseSize * 0.5, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Head
+  ctx.beginPath();
+  ctx.arc(0, -baseSize * 0.5 + bounceY, baseSize * 0.35, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Eyes
+  ctx.fillStyle = '#FFFFFF';
+  ctx.beginPath();
+  ctx.ellipse(-baseSize * 0.12, -baseSize * 0.55 + bounceY, baseSize * 0.1, baseSize * 0.12, 0, 0, Math.PI * 2);
+  ctx.ellipse(baseSize * 0.12, -baseSize * 0.55 + bounceY, baseSize * 0.1, baseSize * 0.12, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Pupils
+  ctx.fillStyle = '#000000';
+  ctx.beginPath();
+  ctx.arc(-baseSize * 0.12, -baseSize * 0.55 + bounceY, baseSize * 0.05, 0, Math.PI * 2);
+  ctx.arc(baseSize * 0.12, -baseSize * 0.55 + bounceY, baseSize * 0.05, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Mouth based on expression
+  drawMouth(ctx, char.expression, baseSize, bounceY);
+
+  // Draw name label
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = `bold ${baseSize * 0.15}px Arial`;
+  ctx.textAlign = 'center';
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = 3;
+  ctx.strokeText(char.name, 0, baseSize * 0.7 + bounceY);
+  ctx.fillText(char.name, 0, baseSize * 0.7 + bounceY);
+
+  ctx.restore();
+}
+
+function drawMouth(ctx: CanvasRenderingContext2D, expression: string, baseSize: number, bounceY: number): void {
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = 3;
+  ctx.lineCap = 'round';
+
+  const mouthY = -baseSize * 0.35 + bounceY;
+
+  switch (expression) {
+    case 'happy':
+    case 'excited':
+      ctx.beginPath();
+      ctx.arc(0, mouthY, baseSize * 0.12, 0, Math.PI);
+      ctx.stroke();
+      break;
+    case 'sad':
+      ctx.beginPath();
+      ctx.arc(0, mouthY + baseSize * 0.1, baseSize * 0.12, Math.PI, 0);
+      ctx.stroke();
+      break;
+    case 'surprised':
+      ctx.beginPath();
+      ctx.ellipse(0, mouthY, baseSize * 0.08, baseSize * 0.1, 0, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+    case 'angry':
+      ctx.beginPath();
+      ctx.moveTo(-baseSize * 0.1, mouthY);
+      ctx.lineTo(baseSize * 0.1, mouthY);
+      ctx.stroke();
+      break;
+    default: // neutral
+      ctx.beginPath();
+      ctx.moveTo(-baseSize * 0.08, mouthY);
+      ctx.lineTo(baseSize * 0.08, mouthY);
+      ctx.stroke();
+  }
+}
+
+export function drawNarrationOverlay(ctx: CanvasRenderingContext2D, text: string, width: number, height: number): void {
+  const padding = 20;
+  const maxWidth = width * 0.8;
+  const fontSize = Math.max(16, Math.min(24, width / 40));
+
+  ctx.font = `${fontSize}px Arial`;
+
+  // Word wrap
+  const words = text.split(' ');
+  const lines: string[] = [];
+  let currentLine = '';
+
+  for (const word of words) {
+    const testLine = currentLine ? `${currentLine} ${word}` : word;
+    const metrics = ctx.measureText(testLine);
+    if (metrics.width > maxWidth && currentLine) {
+      lines.push(currentLine);
+      currentLine = word;
+    } else {
+      currentLine = testLine;
+    }
+  }
+  if (currentLine) {
+    lines.push(currentLine);
+  }
+
+  const lineHeight = fontSize * 1.4;
+  const boxHeight = lines.length * lineHeight + padding * 2;
+  const boxY = height - boxHeight - 20;
+
+  // Draw semi-transparent background
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.beginPath();
+  ctx.roundRect((width - maxWidth - padding * 2) / 2, boxY, maxWidth + padding * 2, boxHeight, 10);
+  ctx.fill();
+
+  // Draw text
+  ctx.fillStyle = '#FFFFFF';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+
+  for (let i = 0; i < lines.length; i++) {
+    ctx.fillText(lines[i], width / 2, boxY + padding + i * lineHeight);
+  }
+}
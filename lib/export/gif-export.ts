@@ -1,5 +1,8 @@
 // GIF Export and Thumbnail Generation utilities
 
+import type { SceneRenderData } from './video-export-engine';
+import { renderSceneFrame } from './frame-renderer';
+
 export interface GifExportOptions {
   width: number;
   height: number;
@@ -68,14 +71,34 @@ export async function captureFrame(
   }
 }
 
-// Generate thumbnail for a scene
+// Draw a scene with the shared rig/background rasterizer (no narration box)
+export function renderSceneToCanvas(scene: SceneRenderData, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    renderSceneFrame(ctx, scene, 0, { width, height, fps: 1, showNarration: false });
+  }
+  return canvas;
+}
+
+function isSceneRenderData(value: unknown): value is SceneRenderData {
+  return !!value && typeof value === 'object' && 'characters' in value && 'background' in value;
+}
+
+// Generate thumbnail for a scene (scene data is rasterized directly; elements are captured)
 export async function generateSceneThumbnail(
-  sceneElement: HTMLElement | null,
+  scene: SceneRenderData | HTMLElement | null,
   options: Partial<ThumbnailOptions> = {}
 ): Promise<string> {
   const opts = { ...DEFAULT_THUMBNAIL_OPTIONS, ...options };
 
-  if (!sceneElement) {
+  if (isSceneRenderData(scene)) {
+    return renderSceneToCanvas(scene, opts.width, opts.height).toDataURL(`image/${opts.format}`, opts.quality);
+  }
+
+  if (!scene) {
     // Return placeholder
     const canvas = document.createElement('canvas');
     canvas.width = opts.width;
@@ -91,7 +114,7 @@ export async function generateSceneThumbnail(
     return canvas.toDataURL(`image/${opts.format}`, opts.quality);
   }
 
-  return captureFrame(sceneElement, opts);
+  return captureFrame(scene, opts);
 }
 
 // GIF creation using a custom LZW-based GIF encoder
@@ -428,7 +451,7 @@ export async function copyToClipboard(text: string): Promise<boolean> {
 
 // Generate project cover image from first scene
 export async function generateCoverImage(
-  firstSceneElement: HTMLElement | null,
+  firstScene: SceneRenderData | HTMLElement | null,
   projectTitle: string
 ): Promise<string> {
   const canvas = document.createElement('canvas');
@@ -447,11 +470,18 @@ export async function generateCoverImage(
   ctx.fillStyle = gradient;
   ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-  // Try to capture scene
-  if (firstSceneElement) {
+  if (isSceneRenderData(firstScene)) {
+    const x = (canvas.width - 800) / 2;
+    const y = 50;
+    ctx.drawImage(renderSceneToCanvas(firstScene, 800, 450), x, y);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+    ctx.lineWidth = 4;
+    ctx.strokeRect(x, y, 800, 450);
+  } else if (firstScene) {
+    // Try to capture scene
     try {
       const html2canvas = (await import('html2canvas')).default;
-      const sceneCanvas = await html2canvas(firstSceneElement, {
+      const sceneCanvas = await html2canvas(firstScene, {
         width: 800,
         height: 450,
         scale: 1,
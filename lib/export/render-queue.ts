@@ -0,0 +1,418 @@
+/**
+ * Headless Render Queue
+ * Renders SceneRenderData frame-by-frame in Node with an offscreen canvas, writes a PNG
+ * sequence to disk and optionally encodes it to WebM/MP4 with ffmpeg.
+ * Jobs run one at a time so renders never compete for the CPU.
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Path2D, createCanvas, loadImage } from '@napi-rs/canvas';
+import type { SceneRenderData } from './video-export-engine';
+import { collectCharacterImageUrls, getTotalFrameCount, renderTimelineFrame } from './frame-renderer';
+
+export type RenderFormat = 'png' | 'webm' | 'mp4';
+
+export type RenderJobStatus = 'queued' | 'rendering' | 'encoding' | 'complete' | 'failed' | 'cancelled';
+
+export interface RenderJobOptions {
+  format: RenderFormat;
+  fps: number;
+  width: number;
+  height: number;
+}
+
+export interface RenderJob {
+  id: string;
+  projectId: string | null;
+  userId: string | null; // Who queued it; only they can see, cancel or download it
+  status: RenderJobStatus;
+  progress: number; // 0-100
+  currentFrame: number;
+  totalFrames: number;
+  sceneCount: number;
+  options: RenderJobOptions;
+  message: string;
+  outputPath: string | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export const DEFAULT_RENDER_OPTIONS: RenderJobOptions = {
+  format: 'webm',
+  fps: 30,
+  width: 1280,
+  height: 720,
+};
+
+const MAX_RENDER_DIMENSION = 3840;
+const MAX_RENDER_FPS = 60;
+const MAX_FINISHED_JOBS = 50;
+// 20 minutes at 30 fps; every frame is a PNG on disk until encoding
+export const MAX_RENDER_FRAMES = 36000;
+// Queued or running jobs per user, so one user can't hold the shared queue
+export const MAX_ACTIVE_JOBS_PER_USER = 3;
+
+const VIDEO_CODECS: Record<Exclude<RenderFormat, 'png'>, string[]> = {
+  webm: ['-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', '32'],
+  mp4: ['-c:v', 'libx264', '-preset', 'medium', '-crf', '23', '-movflags', '+faststart'],
+};
+
+export function getRenderOutputRoot(): string {
+  return process.env.RENDER_OUTPUT_DIR || path.join(process.cwd(), 'renders');
+}
+
+function getJobDir(jobId: string): string {
+  return path.join(getRenderOutputRoot(), jobId);
+}
+
+// Delete a job's frames and output; failures are logged, never thrown
+async function removeJobOutput(jobId: string): Promise<void> {
+  try {
+    await fs.rm(getJobDir(jobId), { recursive: true, force: true });
+  } catch (error) {
+    console.error('Render cleanup error:', error);
+  }
+}
+
+// Fill in defaults and clamp anything that would make a job unreasonably large
+export function resolveRenderOptions(options: Partial<RenderJobOptions> = {}): RenderJobOptions {
+  const format: RenderFormat = options.format === 'png' || options.format === 'mp4' ? options.format : 'webm';
+  const clamp = (value: unknown, fallback: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.min(Math.round(value), max) : fallback;
+
+  return {
+    format,
+    fps: clamp(options.fps, DEFAULT_RENDER_OPTIONS.fps, MAX_RENDER_FPS),
+    // Video encoders want even dimensions
+    width: clamp(options.width, DEFAULT_RENDER_OPTIONS.width, MAX_RENDER_DIMENSION) & ~1,
+    height: clamp(options.height, DEFAULT_RENDER_OPTIONS.height, MAX_RENDER_DIMENSION) & ~1,
+  };
+}
+
+// A job refused before it was queued; `status` is the HTTP status to answer with
+export class RenderLimitError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'RenderLimitError';
+    this.status = status;
+  }
+}
+
+interface QueuedRender {
+  job: RenderJob;
+  scenes: SceneRenderData[];
+  cancelled: boolean;
+  encoder: AbortController | null; // Stops ffmpeg when the job is cancelled while encoding
+}
+
+export class RenderQueue {
+  private jobs: Map<string, QueuedRender> = new Map();
+  private pending: string[] = [];
+  private running = false;
+
+  /**
+   * Add a render job; it starts as soon as every earlier job has finished.
+   * Throws RenderLimitError for jobs over MAX_RENDER_FRAMES, or when the user
+   * already has MAX_ACTIVE_JOBS_PER_USER jobs waiting or rendering.
+   */
+  enqueue(
+    scenes: SceneRenderData[],
+    options: RenderJobOptions,
+    projectId: string | null = null,
+    userId: string | null = null
+  ): RenderJob {
+    const totalFrames = getTotalFrameCount(scenes, options.fps);
+    if (!Number.isFinite(totalFrames) || totalFrames > MAX_RENDER_FRAMES) {
+      throw new RenderLimitError(
+        `Render is too long: ${totalFrames} frames at ${options.fps} fps (at most ${MAX_RENDER_FRAMES})`,
+        413
+      );
+    }
+    if (userId && this.countActiveJobs(userId) >= MAX_ACTIVE_JOBS_PER_USER) {
+      throw new RenderLimitError(
+        `You already have ${MAX_ACTIVE_JOBS_PER_USER} renders waiting or in progress`,
+        429
+      );
+    }
+
+    const job: RenderJob = {
+      id: randomUUID(),
+      projectId,
+      userId,
+      status: 'queued',
+      progress: 0,
+      currentFrame: 0,
+      totalFrames,
+      sceneCount: scenes.length,
+      options,
+      message: 'Waiting in queue...',
+      outputPath: null,
+      error: null,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+    };
+
+    this.jobs.set(job.id, { job, scenes, cancelled: false, encoder: null });
+    this.pending.push(job.id);
+    this.pruneFinishedJobs();
+    void this.processNext();
+
+    return { ...job };
+  }
+
+  private countActiveJobs(userId: string): number {
+    return Array.from(this.jobs.values()).filter(
+      (entry) => entry.job.userId === userId && !entry.job.finishedAt
+    ).length;
+  }
+
+  getJob(jobId: string): RenderJob | null {
+    const entry = this.jobs.get(jobId);
+    return entry ? { ...entry.job } : null;
+  }
+
+  listJobs(): RenderJob[] {
+    return Array.from(this.jobs.values())
+      .map((entry) => ({ ...entry.job }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * 1-based position in the queue (0 when the job is not waiting)
+   */
+  getQueuePosition(jobId: string): number {
+    return this.pending.indexOf(jobId) + 1;
+  }
+
+  /**
+   * Cancel a queued or running job. Returns false if the job already finished.
+   */
+  cancel(jobId: string): boolean {
+    const entry = this.jobs.get(jobId);
+    if (!entry || ['complete', 'failed', 'cancelled'].includes(entry.job.status)) {
+      return false;
+    }
+
+    entry.cancelled = true;
+    entry.encoder?.abort();
+    if (entry.job.status === 'queued') {
+      this.pending = this.pending.filter((id) => id !== jobId);
+      this.finish(entry, 'cancelled', 'Cancelled');
+    }
+    return true;
+  }
+
+  private async processNext(): Promise<void> {
+    if (this.running) return;
+    const jobId = this.pending.shift();
+    if (!jobId) return;
+
+    const entry = this.jobs.get(jobId);
+    if (!entry) {
+      void this.processNext();
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.render(entry);
+    } catch (error) {
+      await removeJobOutput(entry.job.id);
+      if (entry.cancelled) {
+        this.finish(entry, 'cancelled', 'Cancelled');
+      } else {
+        console.error('Render job error:', error);
+        this.finish(entry, 'failed', 'Render failed', error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      this.running = false;
+      void this.processNext();
+    }
+  }
+
+  private async render(entry: QueuedRender): Promise<void> {
+    const { job, scenes } = entry;
+    const { width, height, fps, format } = job.options;
+
+    const jobDir = getJobDir(job.id);
+    const framesDir = path.join(jobDir, 'frames');
+    await fs.mkdir(framesDir, { recursive: true });
+
+    job.status = 'rendering';
+    job.startedAt = new Date().toISOString();
+    job.message = 'Rendering frames...';
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d') as unknown as CanvasRenderingContext2D;
+    const images = await loadCharacterImages(scenes);
+    const createPath = (d: string) => new Path2D(d) as unknown as globalThis.Path2D;
+
+    for (let frame = 0; frame < job.totalFrames; frame++) {
+      if (entry.cancelled) {
+        await removeJobOutput(job.id);
+        this.finish(entry, 'cancelled', 'Cancelled');
+        return;
+      }
+
+      renderTimelineFrame(ctx, scenes, frame, { width, height, fps, images, createPath });
+      const png = await canvas.encode('png');
+      await fs.writeFile(path.join(framesDir, frameFileName(frame)), new Uint8Array(png));
+
+      job.currentFrame = frame + 1;
+      job.progress = Math.round((job.currentFrame / job.totalFrames) * (format === 'png' ? 100 : 90));
+      job.message = `Rendered frame ${job.currentFrame} of ${job.totalFrames}`;
+
+      // Let the server handle requests between frames
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    if (format === 'png') {
+      job.outputPath = framesDir;
+      this.finish(entry, 'complete', 'Image sequence ready');
+      return;
+    }
+
+    if (entry.cancelled) {
+      await removeJobOutput(job.id);
+      this.finish(entry, 'cancelled', 'Cancelled');
+      return;
+    }
+
+    job.status = 'encoding';
+    job.message = `Encoding ${format.toUpperCase()}...`;
+
+    const outputPath = path.join(jobDir, `render.${format}`);
+    entry.encoder = new AbortController();
+    try {
+      await encodeFrames(framesDir, outputPath, format, fps, entry.encoder.signal);
+    } finally {
+      entry.encoder = null;
+    }
+    // Cancelled just as ffmpeg finished
+    if (entry.cancelled) {
+      await removeJobOutput(job.id);
+      this.finish(entry, 'cancelled', 'Cancelled');
+      return;
+    }
+    await fs.rm(framesDir, { recursive: true, force: true });
+
+    job.outputPath = outputPath;
+    this.finish(entry, 'complete', 'Render complete');
+  }
+
+  private finish(entry: QueuedRender, status: RenderJobStatus, message: string, error: string | null = null): void {
+    entry.job.status = status;
+    entry.job.message = message;
+    entry.job.error = error;
+    entry.job.finishedAt = new Date().toISOString();
+    if (status === 'complete') {
+      entry.job.progress = 100;
+    }
+  }
+
+  // Keep memory and disk bounded; a pruned job's files can no longer be downloaded
+  private pruneFinishedJobs(): void {
+    const finished = this.listJobs().filter((job) => job.finishedAt);
+    finished.slice(MAX_FINISHED_JOBS).forEach((job) => {
+      this.jobs.delete(job.id);
+      void removeJobOutput(job.id);
+    });
+  }
+}
+
+const IMAGE_DATA_URL = /^data:image\/[\w.+-]+((?:;[^,;]*)*),([\s\S]*)$/;
+
+/**
+ * Bytes of a `data:image/...` URL, or null for anything else. Scenes come from
+ * the request, and loadImage would read a local path or fetch a URL (following
+ * redirects) for them, so only inline images are decoded.
+ */
+function decodeImageDataUrl(url: string): Buffer | null {
+  const match = IMAGE_DATA_URL.exec(url);
+  if (!match) return null;
+  try {
+    return match[1].split(';').includes('base64')
+      ? Buffer.from(match[2], 'base64')
+      : Buffer.from(decodeURIComponent(match[2]));
+  } catch {
+    return null;
+  }
+}
+
+// AI character images (data URLs only); anything else, or a failed decode, falls back to the rig
+async function loadCharacterImages(scenes: SceneRenderData[]): Promise<Map<string, CanvasImageSource>> {
+  const images = new Map<string, CanvasImageSource>();
+  await Promise.all(
+    collectCharacterImageUrls(scenes).map(async (url) => {
+      const bytes = decodeImageDataUrl(url);
+      if (!bytes) {
+        console.warn('Render skipped a non-data image URL:', url.slice(0, 80));
+        return;
+      }
+      try {
+        images.set(url, (await loadImage(bytes)) as unknown as CanvasImageSource);
+      } catch (error) {
+        console.warn('Render image load failed:', url.slice(0, 80));
+      }
+    })
+  );
+  return images;
+}
+
+function frameFileName(frame: number): string {
+  return `frame-${String(frame + 1).padStart(6, '0')}.png`;
+}
+
+// Encode the PNG sequence with ffmpeg (FFMPEG_PATH or ffmpeg on PATH); aborting `signal` kills it
+function encodeFrames(
+  framesDir: string,
+  outputPath: string,
+  format: Exclude<RenderFormat, 'png'>,
+  fps: number,
+  signal: AbortSignal
+): Promise<void> {
+  const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
+  const args = [
+    '-y',
+    '-framerate', String(fps),
+    '-i', path.join(framesDir, 'frame-%06d.png'),
+    ...VIDEO_CODECS[format],
+    '-pix_fmt', 'yuv420p',
+    outputPath,
+  ];
+
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(ffmpegPath, args, { stdio: ['ignore', 'ignore', 'pipe'], signal });
+    let stderr = '';
+
+    ffmpeg.stderr.on('data', (chunk) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    ffmpeg.on('error', (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === 'ENOENT'
+          ? new Error(`ffmpeg not found at "${ffmpegPath}". Install ffmpeg, set FFMPEG_PATH, or render with format "png".`)
+          : error
+      );
+    });
+    ffmpeg.on('close', (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim().split('\n').pop() || ''}`));
+    });
+  });
+}
+
+// Singleton queue (kept on globalThis so dev-mode reloads don't start a second worker)
+const globalForRender = globalThis as unknown as { renderQueue?: RenderQueue };
+
+export const renderQueue = globalForRender.renderQueue ?? new RenderQueue();
+
+globalForRender.renderQueue = renderQueue;
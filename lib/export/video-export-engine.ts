@@ -1,5 +1,19 @@
 // Video Export Engine - Canvas capture + MediaRecorder for real video export
-// With proper audio synthesis that routes to MediaRecorder
+// The soundtrack (TTS, music, ambience, SFX) is mixed by ExportAudioMixer and routed to MediaRecorder.
+// Frame-accurate mode steps time per frame instead and encodes with WebCodecs,
+// mixing audio offline, so output doesn't depend on how busy the tab is.
+
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from 'webm-muxer';
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import {
+  collectCharacterImageUrls,
+  getSceneFrameCount,
+  getTotalFrameCount,
+  locateFrame,
+  renderSceneFrame,
+} from './frame-renderer';
+import { ExportAudioMixer, getSpeechCueMap, type SpeechCue } from './export-audio';
+import type { AudioSettings } from '@/lib/audio/audio-manager';
 
 export interface ExportOptions {
   format: 'webm' | 'mp4' | 'gif';
@@ -9,6 +23,12 @@ export interface ExportOptions {
   height: number;
   includeAudio: boolean;
   aspectRatio?: '16:9' | '9:16' | '1:1';
+  // 'realtime' records the canvas live; 'frame-accurate' renders each frame at its exact timestamp
+  mode?: 'realtime' | 'frame-accurate';
+  // Bus volumes and narrator voice for the soundtrack (AudioManager defaults otherwise)
+  audioSettings?: Partial<AudioSettings>;
+  // Burn timed narration/dialogue captions into the picture instead of the full narration
+  burnInCaptions?: boolean;
 }
 
 export interface ExportProgress {
@@ -33,145 +53,58 @@ export interface SceneRenderData {
     flipX: boolean;
     animation: string;
     expression: string;
+    isTalking?: boolean;
+    outfitExplorer?: boolean;
+    propBall?: boolean;
+    pinFeet?: boolean;
+    customColors?: { primary: string; secondary: string; skin: string; hair: string; eyes: string };
+    aiGeneratedImage?: string;
+    useAICharacter?: boolean;
   }[];
+  dialogue?: { speaker: string; text: string }[];
   cameraZoom?: number;
   cameraPanX?: number;
   cameraPanY?: number;
 }
 
-// Audio synthesis for video export - creates tones to represent speech rhythm
-class AudioSynthesizer {
-  private audioContext: AudioContext;
-  private destination: MediaStreamAudioDestinationNode;
-  private gainNode: GainNode;
-
-  constructor(audioContext: AudioContext, destination: MediaStreamAudioDestinationNode) {
-    this.audioContext = audioContext;
-    this.destination = destination;
-    this.gainNode = audioContext.createGain();
-    this.gainNode.gain.value = 0.3;
-    this.gainNode.connect(destination);
-  }
-
-  // Generate speech-like audio based on text (simple tone patterns)
-  async speakText(text: string, duration: number): Promise<void> {
-    const words = text.split(/\s+/).filter(w => w.length > 0);
-    if (words.length === 0) return;
-
-    const wordDuration = Math.min(duration / words.length, 400);
-    const pauseDuration = 100;
-
-    for (let i = 0; i < words.length; i++) {
-      const word = words[i];
-      // Create a tone for each word
-      await this.playWordTone(word, wordDuration - pauseDuration);
-      // Small pause between words
-      await this.wait(pauseDuration);
-    }
-  }
-
-  private async playWordTone(word: string, duration: number): Promise<void> {
-    const oscillator = this.audioContext.createOscillator();
-    const wordGain = this.audioContext.createGain();
-    
-    // Vary frequency based on word characteristics
-    const baseFreq = 180 + (word.length * 10) % 100;
-    oscillator.type = 'sine';
-    oscillator.frequency.value = baseFreq;
-    
-    // Add slight frequency variation for natural sound
-    oscillator.frequency.setValueAtTime(baseFreq, this.audioContext.currentTime);
-    oscillator.frequency.linearRampToValueAtTime(baseFreq + 20, this.audioContext.currentTime + duration / 2000);
-    oscillator.frequency.linearRampToValueAtTime(baseFreq - 10, this.audioContext.currentTime + duration / 1000);
-    
-    // Envelope for natural speech-like sound
-    wordGain.gain.setValueAtTime(0, this.audioContext.currentTime);
-    wordGain.gain.linearRampToValueAtTime(0.15, this.audioContext.currentTime + 0.02);
-    wordGain.gain.linearRampToValueAtTime(0.1, this.audioContext.currentTime + duration / 2000);
-    wordGain.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + duration / 1000);
-    
-    oscillator.connect(wordGain);
-    wordGain.connect(this.gainNode);
-    
-    oscillator.start();
-    oscillator.stop(this.audioContext.currentTime + duration / 1000);
-    
-    await this.wait(duration);
-  }
-
-  // Play background ambient tone
-  async playAmbient(duration: number, mood: string = 'neutral'): Promise<void> {
-    const oscillator = this.audioContext.createOscillator();
-    const ambientGain = this.audioContext.createGain();
-    
-    const moodFreqs: Record<string, number> = {
-      happy: 440,
-      sad: 220,
-      exciting: 523,
-      calm: 330,
-      neutral: 261,
-    };
-    
-    oscillator.type = 'sine';
-    oscillator.frequency.value = moodFreqs[mood] || 261;
-    ambientGain.gain.value = 0.02; // Very quiet ambient
-    
-    oscillator.connect(ambientGain);
-    ambientGain.connect(this.gainNode);
-    
-    oscillator.start();
-    
-    setTimeout(() => {
-      ambientGain.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.5);
-      setTimeout(() => oscillator.stop(), 500);
-    }, duration - 500);
-  }
-
-  private wait(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-}
-
 const QUALITY_PRESETS = {
   low: { bitrate: 1000000, audioBitrate: 64000 },
   medium: { bitrate: 2500000, audioBitrate: 128000 },
   high: { bitrate: 5000000, audioBitrate: 192000 },
 };
 
+// Offline mix rate (Opus only accepts 48 kHz)
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+
+// Seconds between forced keyframes in frame-accurate exports
+const KEYFRAME_INTERVAL = 2;
+
+// Common surface of the WebM and MP4 muxers
+interface ChunkMuxer {
+  target: { buffer: ArrayBuffer };
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void;
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata): void;
+  finalize(): void;
+}
+
 const ASPECT_RATIOS = {
   '16:9': { width: 1920, height: 1080 },
   '9:16': { width: 1080, height: 1920 },
   '1:1': { width: 1080, height: 1080 },
 };
 
-// Background color mapping
-const BACKGROUND_COLORS: Record<string, string> = {
-  meadow: '#90EE90',
-  forest: '#228B22',
-  beach: '#F4A460',
-  night: '#1a1a2e',
-  park: '#7CFC00',
-  bedroom: '#E6E6FA',
-  default: '#87CEEB',
-};
-
-// Character color mapping for simple rendering
-const CHARACTER_COLORS: Record<string, string> = {
-  luna: '#FFB6C1',
-  milo: '#87CEEB',
-  coco: '#DEB887',
-  pip: '#98FB98',
-  default: '#FFA500',
-};
-
 export class VideoExportEngine {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
+  private images: Map<string, CanvasImageSource> = new Map();
   private mediaRecorder: MediaRecorder | null = null;
   private recordedChunks: Blob[] = [];
   private audioContext: AudioContext | null = null;
   private audioDestination: MediaStreamAudioDestinationNode | null = null;
-  private audioSynthesizer: AudioSynthesizer | null = null;
+  private audioMixer: ExportAudioMixer | null = null;
+  // Spoken lines of the soundtrack by scene id, for lip sync
+  private speech: Record<string, SpeechCue[]> = {};
   private onProgress: (progress: ExportProgress) => void;
 
   constructor(
@@ -191,6 +124,8 @@ export class VideoExportEngine {
     options: ExportOptions
   ): Promise<Blob> {
     this.onProgress({ phase: 'preparing', progress: 0, message: 'Initializing export...' });
+    this.speech = {};
+    await this.loadImages(scenes);
 
     // Apply aspect ratio if specified
     if (options.aspectRatio && ASPECT_RATIOS[options.aspectRatio]) {
@@ -202,11 +137,21 @@ export class VideoExportEngine {
       this.canvas.height = options.height;
     }
 
+    if (options.mode === 'frame-accurate') {
+      if (!VideoExportEngine.supportsFrameAccurate()) {
+        throw new Error('Frame-accurate export needs WebCodecs, which this browser does not support');
+      }
+      return this.exportFrameAccurate(scenes, options);
+    }
+
     // Setup audio context if needed
     if (options.includeAudio) {
       this.audioContext = new AudioContext();
       this.audioDestination = this.audioContext.createMediaStreamDestination();
-      this.audioSynthesizer = new AudioSynthesizer(this.audioContext, this.audioDestination);
+      this.audioMixer = new ExportAudioMixer(this.audioContext, this.audioDestination, options.audioSettings);
+      this.onProgress({ phase: 'preparing', progress: 2, message: 'Preparing narration audio...' });
+      await this.audioMixer.prepare(scenes);
+      this.speech = getSpeechCueMap(this.audioMixer, scenes);
     }
 
     // Get canvas stream
@@ -281,6 +226,250 @@ export class VideoExportEngine {
     });
   }
 
+  // Load AI character images before rendering; characters whose image fails fall back to their rig
+  async loadImages(scenes: SceneRenderData[]): Promise<void> {
+    const urls = collectCharacterImageUrls(scenes).filter((url) => !this.images.has(url));
+    await Promise.all(
+      urls.map(
+        (url) =>
+          new Promise<void>((resolve) => {
+            const image = new Image();
+            image.crossOrigin = 'anonymous';
+            image.onload = () => {
+              this.images.set(url, image);
+              resolve();
+            };
+            image.onerror = () => resolve();
+            image.src = url;
+          })
+      )
+    );
+  }
+
+  // WebCodecs + OfflineAudioContext are required for frame-accurate export
+  static supportsFrameAccurate(): boolean {
+    return (
+      typeof VideoEncoder !== 'undefined' &&
+      typeof VideoFrame !== 'undefined' &&
+      typeof AudioEncoder !== 'undefined' &&
+      typeof OfflineAudioContext !== 'undefined'
+    );
+  }
+
+  /**
+   * Render frame N at exactly N / fps seconds and encode it with that timestamp.
+   * Audio is mixed up front in an OfflineAudioContext using the same frame-aligned
+   * scene start times, so A/V stay in sync however long rendering takes.
+   */
+  private async exportFrameAccurate(scenes: SceneRenderData[], options: ExportOptions): Promise<Blob> {
+    const { width, height } = this.canvas;
+    const { fps } = options;
+    const preset = QUALITY_PRESETS[options.quality];
+    const container = options.format === 'mp4' ? 'mp4' : 'webm';
+    const totalFrames = getTotalFrameCount(scenes, fps);
+    const frameDuration = 1_000_000 / fps; // microseconds
+
+    let audioBuffer: AudioBuffer | null = null;
+    if (options.includeAudio) {
+      this.onProgress({ phase: 'preparing', progress: 2, message: 'Mixing audio...' });
+      audioBuffer = await this.renderOfflineAudio(scenes, fps, totalFrames / fps, options.audioSettings);
+    }
+
+    const videoCodec = await this.pickVideoCodec(container, width, height, preset.bitrate, fps);
+    const audioCodec = audioBuffer ? await this.pickAudioCodec(container, preset.audioBitrate) : null;
+
+    const muxer: ChunkMuxer =
+      container === 'mp4'
+        ? new Mp4Muxer({
+            target: new Mp4Target(),
+            video: { codec: videoCodec.muxer as 'avc' | 'vp9', width, height },
+            audio: audioCodec
+              ? { codec: audioCodec.muxer as 'aac' | 'opus', numberOfChannels: AUDIO_CHANNELS, sampleRate: AUDIO_SAMPLE_RATE }
+              : undefined,
+            fastStart: 'in-memory',
+          })
+        : new WebmMuxer({
+            target: new WebmTarget(),
+            video: { codec: videoCodec.muxer, width, height, frameRate: fps },
+            audio: audioCodec
+              ? { codec: audioCodec.muxer, numberOfChannels: AUDIO_CHANNELS, sampleRate: AUDIO_SAMPLE_RATE }
+              : undefined,
+          });
+
+    let encodeError: Error | null = null;
+    const videoEncoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: (error) => { encodeError = error; },
+    });
+    videoEncoder.configure({ codec: videoCodec.codec, width, height, bitrate: preset.bitrate, framerate: fps });
+
+    // Close the encoder even when rendering throws, so it doesn't hold on to the codec
+    try {
+      for (let frame = 0; frame < totalFrames; frame++) {
+        if (encodeError) throw encodeError;
+
+        const position = locateFrame(scenes, fps, frame)!;
+        renderSceneFrame(this.ctx, scenes[position.sceneIndex], position.frameInScene / position.sceneFrameCount, {
+          width,
+          height,
+          fps,
+          images: this.images,
+          burnInCaptions: options.burnInCaptions,
+          speech: this.speech,
+        });
+
+        const videoFrame = new VideoFrame(this.canvas, {
+          timestamp: Math.round(frame * frameDuration),
+          duration: Math.round(frameDuration),
+        });
+        videoEncoder.encode(videoFrame, { keyFrame: frame % (fps * KEYFRAME_INTERVAL) === 0 });
+        videoFrame.close();
+
+        // Keep the encoder queue short so memory stays flat on long stories
+        while (videoEncoder.encodeQueueSize > 8) {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+
+        if (frame % fps === 0) {
+          this.onProgress({
+            phase: 'rendering',
+            progress: 5 + Math.round((frame / totalFrames) * 85),
+            currentScene: position.sceneIndex + 1,
+            totalScenes: scenes.length,
+            message: `Rendering frame ${frame + 1} of ${totalFrames}...`,
+          });
+        }
+      }
+
+      await videoEncoder.flush();
+    } finally {
+      if (videoEncoder.state !== 'closed') videoEncoder.close();
+    }
+
+    if (audioBuffer && audioCodec) {
+      this.onProgress({ phase: 'encoding', progress: 92, message: 'Encoding audio...' });
+      await this.encodeAudio(audioBuffer, audioCodec.codec, preset.audioBitrate, muxer);
+    }
+    if (encodeError) throw encodeError;
+
+    this.onProgress({ phase: 'encoding', progress: 95, message: 'Finalizing video...' });
+    muxer.finalize();
+
+    const blob = new Blob([muxer.target.buffer], { type: container === 'mp4' ? 'video/mp4' : 'video/webm' });
+    this.onProgress({ phase: 'complete', progress: 100, message: 'Export complete!' });
+    return blob;
+  }
+
+  // Mix the whole soundtrack ahead of time; scenes start on their first frame
+  private async renderOfflineAudio(
+    scenes: SceneRenderData[],
+    fps: number,
+    durationSeconds: number,
+    settings?: Partial<AudioSettings>
+  ): Promise<AudioBuffer> {
+    const offline = new OfflineAudioContext(
+      AUDIO_CHANNELS,
+      Math.max(1, Math.ceil(durationSeconds * AUDIO_SAMPLE_RATE)),
+      AUDIO_SAMPLE_RATE
+    );
+    const mixer = new ExportAudioMixer(offline, offline.destination, settings);
+    await mixer.prepare(scenes);
+    this.speech = getSpeechCueMap(mixer, scenes);
+
+    let startFrame = 0;
+    for (const scene of scenes) {
+      mixer.scheduleScene(scene, startFrame / fps);
+      startFrame += getSceneFrameCount(scene, fps);
+    }
+
+    return offline.startRendering();
+  }
+
+  private async encodeAudio(buffer: AudioBuffer, codec: string, bitrate: number, muxer: ChunkMuxer): Promise<void> {
+    let encodeError: Error | null = null;
+    const audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: (error) => { encodeError = error; },
+    });
+    audioEncoder.configure({ codec, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS, bitrate });
+
+    try {
+      // Feed one second of planar samples at a time
+      const chunkFrames = AUDIO_SAMPLE_RATE;
+      for (let offset = 0; offset < buffer.length; offset += chunkFrames) {
+        const frames = Math.min(chunkFrames, buffer.length - offset);
+        const planes = new Float32Array(frames * AUDIO_CHANNELS);
+        for (let channel = 0; channel < AUDIO_CHANNELS; channel++) {
+          planes.set(buffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+        }
+
+        const data = new AudioData({
+          format: 'f32-planar',
+          sampleRate: AUDIO_SAMPLE_RATE,
+          numberOfFrames: frames,
+          numberOfChannels: AUDIO_CHANNELS,
+          timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1_000_000),
+          data: planes,
+        });
+        audioEncoder.encode(data);
+        data.close();
+      }
+
+      await audioEncoder.flush();
+    } finally {
+      if (audioEncoder.state !== 'closed') audioEncoder.close();
+    }
+    if (encodeError) throw encodeError;
+  }
+
+  private async pickVideoCodec(
+    container: 'webm' | 'mp4',
+    width: number,
+    height: number,
+    bitrate: number,
+    framerate: number
+  ): Promise<{ codec: string; muxer: string }> {
+    const candidates =
+      container === 'mp4'
+        ? [
+            { codec: 'avc1.640028', muxer: 'avc' },
+            { codec: 'avc1.42001f', muxer: 'avc' },
+            { codec: 'vp09.00.10.08', muxer: 'vp9' },
+          ]
+        : [
+            { codec: 'vp09.00.10.08', muxer: 'V_VP9' },
+            { codec: 'vp8', muxer: 'V_VP8' },
+          ];
+
+    for (const candidate of candidates) {
+      const support = await VideoEncoder.isConfigSupported({ codec: candidate.codec, width, height, bitrate, framerate });
+      if (support.supported) return candidate;
+    }
+    throw new Error(`No supported ${container.toUpperCase()} video encoder for ${width}x${height}`);
+  }
+
+  private async pickAudioCodec(container: 'webm' | 'mp4', bitrate: number): Promise<{ codec: string; muxer: string } | null> {
+    const candidates =
+      container === 'mp4'
+        ? [
+            { codec: 'mp4a.40.2', muxer: 'aac' },
+            { codec: 'opus', muxer: 'opus' },
+          ]
+        : [{ codec: 'opus', muxer: 'A_OPUS' }];
+
+    for (const candidate of candidates) {
+      const support = await AudioEncoder.isConfigSupported({
+        codec: candidate.codec,
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfChannels: AUDIO_CHANNELS,
+        bitrate,
+      });
+      if (support.supported) return candidate;
+    }
+    // Export silently rather than failing the whole video
+    return null;
+  }
+
   private getMimeType(format: string): string {
     // Check browser support
     const webmCodecs = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
@@ -331,12 +520,9 @@ export class VideoExportEngine {
         message: `Rendering scene ${sceneIndex + 1} of ${scenes.length}...`,
       });
 
-      // Start audio for this scene (narration + ambient)
-      let audioPromise: Promise<void> | null = null;
-      if (options.includeAudio && scene.narration) {
-        audioPromise = this.speakNarration(scene.narration, sceneDuration);
-        // Also play ambient background audio
-        this.playAmbientAudio(sceneDuration, 'neutral');
+      // Start the soundtrack for this scene
+      if (this.audioMixer && this.audioContext) {
+        this.audioMixer.scheduleScene(scene, this.audioContext.currentTime);
       }
 
       // Render frames for this scene
@@ -357,338 +543,20 @@ export class VideoExportEngine {
     progress: number,
     options: ExportOptions
   ): Promise<void> {
-    const { width, height } = this.canvas;
-    const ctx = this.ctx;
-
-    // Clear canvas
-    ctx.clearRect(0, 0, width, height);
-
-    // Apply camera transform
-    ctx.save();
-    const zoom = scene.cameraZoom || 1;
-    const panX = (scene.cameraPanX || 0) * width * 0.1;
-    const panY = (scene.cameraPanY || 0) * height * 0.1;
-    
-    ctx.translate(width / 2, height / 2);
-    ctx.scale(zoom, zoom);
-    ctx.translate(-width / 2 + panX, -height / 2 + panY);
-
-    // Draw background
-    this.drawBackground(scene.background, width, height);
-
-    // Draw characters
-    for (const char of scene.characters) {
-      this.drawCharacter(char, progress, width, height);
-    }
-
-    ctx.restore();
-
-    // Draw narration text overlay
-    if (scene.narration) {
-      this.drawNarrationOverlay(scene.narration, width, height);
-    }
-  }
-
-  private drawBackground(backgroundId: string, width: number, height: number): void {
-    const ctx = this.ctx;
-    const bgColor = BACKGROUND_COLORS[backgroundId] || BACKGROUND_COLORS.default;
-
-    // Draw gradient background
-    const gradient = ctx.createLinearGradient(0, 0, 0, height);
-    gradient.addColorStop(0, this.lightenColor(bgColor, 30));
-    gradient.addColorStop(1, bgColor);
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, width, height);
-
-    // Add simple ground
-    ctx.fillStyle = this.darkenColor(bgColor, 20);
-    ctx.fillRect(0, height * 0.7, width, height * 0.3);
-
-    // Add simple decorations based on background type
-    this.drawBackgroundDecorations(backgroundId, width, height);
-  }
-
-  private drawBackgroundDecorations(bgId: string, width: number, height: number): void {
-    const ctx = this.ctx;
-
-    switch (bgId) {
-      case 'meadow':
-      case 'park':
-        // Draw simple flowers
-        for (let i = 0; i < 10; i++) {
-          const x = (width / 10) * i + Math.random() * 50;
-          const y = height * 0.75 + Math.random() * 50;
-          ctx.fillStyle = ['#FF69B4', '#FFD700', '#FF6347'][i % 3];
-          ctx.beginPath();
-          ctx.arc(x, y, 8, 0, Math.PI * 2);
-          ctx.fill();
-        }
-        break;
-
-      case 'forest':
-        // Draw simple trees
-        for (let i = 0; i < 5; i++) {
-          const x = (width / 5) * i + 50;
-          const y = height * 0.7;
-          ctx.fillStyle = '#8B4513';
-          ctx.fillRect(x - 10, y - 80, 20, 80);
-          ctx.fillStyle = '#228B22';
-          ctx.beginPath();
-          ctx.moveTo(x, y - 150);
-          ctx.lineTo(x - 50, y - 50);
-          ctx.lineTo(x + 50, y - 50);
-          ctx.closePath();
-          ctx.fill();
-        }
-        break;
-
-      case 'beach':
-        // Draw waves
-        ctx.fillStyle = '#4169E1';
-        for (let i = 0; i < 3; i++) {
-          ctx.beginPath();
-          ctx.moveTo(0, height * 0.8 + i * 20);
-          for (let x = 0; x <= width; x += 50) {
-            ctx.quadraticCurveTo(
-              x + 25,
-              height * 0.8 + i * 20 - 10,
-              x + 50,
-              height * 0.8 + i * 20
-            );
-          }
-          ctx.lineTo(width, height);
-          ctx.lineTo(0, height);
-          ctx.closePath();
-          ctx.globalAlpha = 0.3 + i * 0.2;
-          ctx.fill();
-        }
-        ctx.globalAlpha = 1;
-        break;
-
-      case 'night':
-        // Draw stars
-        ctx.fillStyle = '#FFFFFF';
-        for (let i = 0; i < 50; i++) {
-          const x = Math.random() * width;
-          const y = Math.random() * height * 0.6;
-          const size = Math.random() * 3 + 1;
-          ctx.beginPath();
-          ctx.arc(x, y, size, 0, Math.PI * 2);
-          ctx.fill();
-        }
-        // Draw moon
-        ctx.fillStyle = '#FFFACD';
-        ctx.beginPath();
-        ctx.arc(width * 0.8, height * 0.2, 50, 0, Math.PI * 2);
-        ctx.fill();
-        break;
-
-      case 'bedroom':
-        // Draw window
-        ctx.fillStyle = '#87CEEB';
-        ctx.fillRect(width * 0.6, height * 0.1, width * 0.25, height * 0.3);
-        ctx.strokeStyle = '#8B4513';
-        ctx.lineWidth = 8;
-        ctx.strokeRect(width * 0.6, height * 0.1, width * 0.25, height * 0.3);
-        // Draw bed
-        ctx.fillStyle = '#DEB887';
-        ctx.fillRect(width * 0.1, height * 0.5, width * 0.35, height * 0.25);
-        ctx.fillStyle = '#FF69B4';
-        ctx.fillRect(width * 0.1, height * 0.5, width * 0.1, height * 0.15);
-        break;
-    }
-  }
-
-  private drawCharacter(
-    char: SceneRenderData['characters'][0],
-    progress: number,
-    canvasWidth: number,
-    canvasHeight: number
-  ): void {
-    const ctx = this.ctx;
-    const color = CHARACTER_COLORS[char.rigId] || CHARACTER_COLORS.default;
-
-    // Calculate position
-    const x = (char.x / 100) * canvasWidth;
-    const y = (char.y / 100) * canvasHeight;
-    const scale = char.scale * 0.8;
-    const baseSize = Math.min(canvasWidth, canvasHeight) * 0.15;
-
-    ctx.save();
-    ctx.translate(x, y);
-    if (char.flipX) {
-      ctx.scale(-1, 1);
-    }
-    ctx.scale(scale, scale);
-
-    // Apply animation bounce
-    let bounceY = 0;
-    if (char.animation === 'walk' || char.animation === 'jump' || char.animation === 'dance') {
-      bounceY = Math.sin(progress * Math.PI * 4) * 10;
-    }
-
-    // Draw body (simple cartoon style)
-    ctx.fillStyle = color;
-    
-    // Body
-    ctx.beginPath();
-    ctx.ellipse(0, bounceY, baseSize * 0.4, baseSize * 0.5, 0, 0, Math.PI * 2);
-    ctx.fill();
-
-    // Head
-    ctx.beginPath();
-    ctx.arc(0, -baseSize * 0.5 + bounceY, baseSize * 0.35, 0, Math.PI * 2);
-    ctx.fill();
-
-    // Eyes
-    ctx.fillStyle = '#FFFFFF';
-    ctx.beginPath();
-    ctx.ellipse(-baseSize * 0.12, -baseSize * 0.55 + bounceY, baseSize * 0.1, baseSize * 0.12, 0, 0, Math.PI * 2);
-    ctx.ellipse(baseSize * 0.12, -baseSize * 0.55 + bounceY, baseSize * 0.1, baseSize * 0.12, 0, 0, Math.PI * 2);
-    ctx.fill();
-
-    // Pupils
-    ctx.fillStyle = '#000000';
-    ctx.beginPath();
-    ctx.arc(-baseSize * 0.12, -baseSize * 0.55 + bounceY, baseSize * 0.05, 0, Math.PI * 2);
-    ctx.arc(baseSize * 0.12, -baseSize * 0.55 + bounceY, baseSize * 0.05, 0, Math.PI * 2);
-    ctx.fill();
-
-    // Mouth based on expression
-    this.drawMouth(char.expression, baseSize, bounceY);
-
-    // Draw name label
-    ctx.fillStyle = '#FFFFFF';
-    ctx.font = `bold ${baseSize * 0.15}px Arial`;
-    ctx.textAlign = 'center';
-    ctx.strokeStyle = '#000000';
-    ctx.lineWidth = 3;
-    ctx.strokeText(char.name, 0, baseSize * 0.7 + bounceY);
-    ctx.fillText(char.name, 0, baseSize * 0.7 + bounceY);
-
-    ctx.restore();
-  }
-
-  private drawMouth(expression: string, baseSize: number, bounceY: number): void {
-    const ctx = this.ctx;
-    ctx.strokeStyle = '#000000';
-    ctx.lineWidth = 3;
-    ctx.lineCap = 'round';
-
-    const mouthY = -baseSize * 0.35 + bounceY;
-
-    switch (expression) {
-      case 'happy':
-      case 'excited':
-        ctx.beginPath();
-        ctx.arc(0, mouthY, baseSize * 0.12, 0, Math.PI);
-        ctx.stroke();
-        break;
-      case 'sad':
-        ctx.beginPath();
-        ctx.arc(0, mouthY + baseSize * 0.1, baseSize * 0.12, Math.PI, 0);
-        ctx.stroke();
-        break;
-      case 'surprised':
-        ctx.beginPath();
-        ctx.ellipse(0, mouthY, baseSize * 0.08, baseSize * 0.1, 0, 0, Math.PI * 2);
-        ctx.stroke();
-        break;
-      case 'angry':
-        ctx.beginPath();
-        ctx.moveTo(-baseSize * 0.1, mouthY);
-        ctx.lineTo(baseSize * 0.1, mouthY);
-        ctx.stroke();
-        break;
-      default: // neutral
-        ctx.beginPath();
-        ctx.moveTo(-baseSize * 0.08, mouthY);
-        ctx.lineTo(baseSize * 0.08, mouthY);
-        ctx.stroke();
-    }
-  }
-
-  private drawNarrationOverlay(text: string, width: number, height: number): void {
-    const ctx = this.ctx;
-    const padding = 20;
-    const maxWidth = width * 0.8;
-    const fontSize = Math.max(16, Math.min(24, width / 40));
-
-    ctx.font = `${fontSize}px Arial`;
-    
-    // Word wrap
-    const words = text.split(' ');
-    const lines: string[] = [];
-    let currentLine = '';
-
-    for (const word of words) {
-      const testLine = currentLine ? `${currentLine} ${word}` : word;
-      const metrics = ctx.measureText(testLine);
-      if (metrics.width > maxWidth && currentLine) {
-        lines.push(currentLine);
-        currentLine = word;
-      } else {
-        currentLine = testLine;
-      }
-    }
-    if (currentLine) {
-      lines.push(currentLine);
-    }
-
-    const lineHeight = fontSize * 1.4;
-    const boxHeight = lines.length * lineHeight + padding * 2;
-    const boxY = height - boxHeight - 20;
-
-    // Draw semi-transparent background
-    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    ctx.beginPath();
-    ctx.roundRect((width - maxWidth - padding * 2) / 2, boxY, maxWidth + padding * 2, boxHeight, 10);
-    ctx.fill();
-
-    // Draw text
-    ctx.fillStyle = '#FFFFFF';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'top';
-
-    for (let i = 0; i < lines.length; i++) {
-      ctx.fillText(lines[i], width / 2, boxY + padding + i * lineHeight);
-    }
-  }
-
-  private async speakNarration(text: string, duration: number): Promise<void> {
-    if (!this.audioSynthesizer) return;
-    
-    // Use our audio synthesizer which properly routes to MediaRecorder
-    await this.audioSynthesizer.speakText(text, duration);
-  }
-
-  private async playAmbientAudio(duration: number, mood: string = 'neutral'): Promise<void> {
-    if (!this.audioSynthesizer) return;
-    await this.audioSynthesizer.playAmbient(duration, mood);
+    renderSceneFrame(this.ctx, scene, progress, {
+      width: this.canvas.width,
+      height: this.canvas.height,
+      fps: options.fps,
+      images: this.images,
+      burnInCaptions: options.burnInCaptions,
+      speech: this.speech,
+    });
   }
 
   private waitFrame(fps: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, 1000 / fps));
   }
 
-  private lightenColor(color: string, percent: number): string {
-    const num = parseInt(color.replace('#', ''), 16);
-    const amt = Math.round(2.55 * percent);
-    const R = Math.min(255, (num >> 16) + amt);
-    const G = Math.min(255, ((num >> 8) & 0x00ff) + amt);
-    const B = Math.min(255, (num & 0x0000ff) + amt);
-    return `#${((1 << 24) + (R << 16) + (G << 8) + B).toString(16).slice(1)}`;
-  }
-
-  private darkenColor(color: string, percent: number): string {
-    const num = parseInt(color.replace('#', ''), 16);
-    const amt = Math.round(2.55 * percent);
-    const R = Math.max(0, (num >> 16) - amt);
-    const G = Math.max(0, ((num >> 8) & 0x00ff) - amt);
-    const B = Math.max(0, (num & 0x0000ff) - amt);
-    return `#${((1 << 24) + (R << 16) + (G << 8) + B).toString(16).slice(1)}`;
-  }
-
   cleanup(): void {
     if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
       this.mediaRecorder.stop();
@@ -750,6 +618,7 @@ export async function exportAsGif(
 
   // Create a simple render engine for GIF frames
   const engine = new VideoExportEngine(options.width, options.height, () => {});
+  await engine.loadImages(scenes);
 
   for (let sceneIndex = 0; sceneIndex < scenes.length; sceneIndex++) {
     const scene = scenes[sceneIndex];
@@ -794,11 +663,21 @@ export async function exportAsGif(
   return blob;
 }
 
+// Scene lengths (ms) a render accepts; anything else is clamped into range
+const DEFAULT_RENDER_SCENE_DURATION = 5000;
+const MIN_RENDER_SCENE_DURATION = 500;
+const MAX_RENDER_SCENE_DURATION = 2 * 60 * 1000;
+
+function clampSceneDuration(duration: unknown): number {
+  if (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0) return DEFAULT_RENDER_SCENE_DURATION;
+  return Math.min(MAX_RENDER_SCENE_DURATION, Math.max(MIN_RENDER_SCENE_DURATION, duration));
+}
+
 // Helper to convert EditableScene to SceneRenderData
 export function editableSceneToRenderData(scene: any): SceneRenderData {
   return {
     id: scene.id,
-    duration: scene.duration || 5000,
+    duration: clampSceneDuration(scene.duration),
     background: scene.background || 'meadow',
     narration: scene.narration || '',
     characters: (scene.characters || []).map((c: any) => ({
@@ -810,7 +689,15 @@ export function editableSceneToRenderData(scene: any): SceneRenderData {
       flipX: c.flipX ?? false,
       animation: c.animation || 'idle',
       expression: c.expression || 'neutral',
+      isTalking: !!c.isTalking,
+      outfitExplorer: c.outfitExplorer,
+      propBall: c.propBall,
+      pinFeet: !!c.pinFeet,
+      customColors: c.customColors,
+      aiGeneratedImage: c.aiGeneratedImage,
+      useAICharacter: !!c.useAICharacter,
     })),
+    dialogue: Array.isArray(scene.dialogue) ? scene.dialogue : undefined,
     cameraZoom: scene.cameraZoom,
     cameraPanX: scene.cameraPanX,
     cameraPanY: scene.cameraPanY,
@@ -1,6 +1,25 @@
 // Auto-save system for project persistence
 
 import type { EditableScene } from '@/components/editors/InteractiveSceneEditor';
+import type { TransitionConfig } from '@/lib/utils/scene-transitions';
+import {
+  deserializeBranchingStory,
+  serializeBranchingStory,
+  type SerializedBranchingStory,
+} from '@/lib/utils/story-branching';
+import { readEditableScene } from '@/lib/database/project-serializer';
+import { getProjectStore, type StorageUsage } from './project-storage';
+
+/**
+ * Version of the auto-saved project shape, stored in SavedProject.version.
+ * 1 - scenes, title and cover image
+ * 2 - branching story
+ * 3 - scene transitions, custom backgrounds and story provider
+ * Saves from before versioning used `version` as a save counter (2, or more after
+ * a restore). Upgrade steps only add fields and validation fills any that are
+ * still missing, so reading such a save as a later version loses nothing.
+ */
+export const AUTOSAVE_VERSION = 3;
 
 export interface AutoSaveConfig {
   enabled: boolean;
@@ -16,10 +35,54 @@ export interface SavedProject {
   characterRoleLabels: Record<string, string>;
   characterRoleDescriptions: Record<string, string>;
   coverImage?: string;
+  storyProvider?: string | null;
+  branchingStory?: SerializedBranchingStory | null;
+  sceneTransitions?: Record<string, TransitionConfig>;
+  customBackgrounds?: Record<string, string>;
   lastSaved: number;
   version: number;
 }
 
+/**
+ * Result of reading an auto-save or backup. `project` is null when nothing
+ * usable could be recovered; otherwise `fixes` lists the upgrades and repairs
+ * that were applied.
+ */
+export interface AutoSaveCheck {
+  project: SavedProject | null;
+  savedVersion: number;
+  fixes: string[];
+}
+
+export interface AutoSaveBackup {
+  key: string;
+  timestamp: number;
+  project: SavedProject;
+  savedVersion: number;
+  fixes: string[];
+}
+
+// A backup that couldn't be read, kept aside so it neither loads nor gets pruned
+export interface QuarantinedBackup {
+  key: string;
+  timestamp: number;
+  source: string;
+  reasons: string[];
+  size: number;
+}
+
+// Project data the auto-save manager keeps up to date
+interface AutoSaveData {
+  projectTitle: string;
+  scenes: EditableScene[];
+  projectId?: string;
+  coverImage?: string;
+  storyProvider?: string;
+  branchingStory?: SerializedBranchingStory | null;
+  sceneTransitions?: Record<string, TransitionConfig>;
+  customBackgrounds?: Record<string, string>;
+}
+
 export interface AutoSaveState {
   lastSaveTime: number | null;
   isSaving: boolean;
@@ -36,6 +99,121 @@ const DEFAULT_CONFIG: AutoSaveConfig = {
 
 const STORAGE_KEY = 'cartoon-studio-autosave';
 const BACKUP_KEY_PREFIX = 'cartoon-studio-backup-';
+const QUARANTINE_KEY_PREFIX = 'cartoon-studio-quarantine-';
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Upgrade steps, keyed by the version they upgrade from
+const AUTOSAVE_MIGRATIONS: Record<number, (project: Record<string, any>) => Record<string, any>> = {
+  1: (project) => ({ ...project, branchingStory: project.branchingStory ?? null }),
+  2: (project) => ({ sceneTransitions: {}, customBackgrounds: {}, storyProvider: null, ...project }),
+};
+
+const toStringRecord = (value: unknown): Record<string, string> =>
+  isRecord(value)
+    ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    : {};
+
+/**
+ * Upgrade a saved project to the current version and repair what can be
+ * repaired: invalid scenes and characters are defaulted or dropped, and
+ * transitions or a branching story that no longer fit the scenes are removed.
+ */
+export function checkSavedProject(data: unknown): AutoSaveCheck {
+  if (!isRecord(data)) {
+    return { project: null, savedVersion: 0, fixes: ['Not a saved project'] };
+  }
+
+  const fixes: string[] = [];
+  const hasVersion = typeof data.version === 'number' && data.version >= 1;
+  const savedVersion = hasVersion ? Math.floor(data.version) : 1;
+  if (!hasVersion) fixes.push('Missing version, read as version 1');
+
+  let raw: Record<string, any> = data;
+  for (let version = savedVersion; version < AUTOSAVE_VERSION; version++) {
+    raw = AUTOSAVE_MIGRATIONS[version](raw);
+  }
+  if (savedVersion < AUTOSAVE_VERSION) fixes.push(`Upgraded from version ${savedVersion}`);
+
+  if (!Array.isArray(raw.scenes)) {
+    return { project: null, savedVersion, fixes: [...fixes, 'Scene list is missing'] };
+  }
+  const scenes = raw.scenes
+    .map((scene: unknown, index: number) => readEditableScene(scene, index, fixes))
+    .filter((scene: EditableScene | null): scene is EditableScene => scene !== null);
+  if (scenes.length === 0) {
+    return { project: null, savedVersion, fixes: [...fixes, 'No usable scenes'] };
+  }
+  const sceneIds = new Set(scenes.map((scene) => scene.id));
+
+  let branchingStory: SerializedBranchingStory | null = null;
+  if (raw.branchingStory != null) {
+    const story = deserializeBranchingStory(raw.branchingStory);
+    if (story) branchingStory = serializeBranchingStory(story);
+    else fixes.push('Dropped an unreadable branching story');
+  }
+
+  const sceneTransitions: Record<string, TransitionConfig> = {};
+  for (const [sceneId, transition] of Object.entries(isRecord(raw.sceneTransitions) ? raw.sceneTransitions : {})) {
+    if (sceneIds.has(sceneId) && isRecord(transition) && typeof transition.type === 'string') {
+      sceneTransitions[sceneId] = transition as TransitionConfig;
+    } else {
+      fixes.push(`Dropped an invalid transition for "${sceneId}"`);
+    }
+  }
+
+  const title = typeof raw.title === 'string' && raw.title.trim() ? raw.title : 'Untitled Project';
+  if (title !== raw.title) fixes.push('Title was missing');
+
+  return {
+    project: {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : `local-${Date.now()}`,
+      title,
+      scenes,
+      characterRoleLabels: toStringRecord(raw.characterRoleLabels),
+      characterRoleDescriptions: toStringRecord(raw.characterRoleDescriptions),
+      coverImage: typeof raw.coverImage === 'string' ? raw.coverImage : undefined,
+      storyProvider: typeof raw.storyProvider === 'string' ? raw.storyProvider : null,
+      branchingStory,
+      sceneTransitions,
+      customBackgrounds: toStringRecord(raw.customBackgrounds),
+      lastSaved: typeof raw.lastSaved === 'number' ? raw.lastSaved : 0,
+      version: AUTOSAVE_VERSION,
+    },
+    savedVersion,
+    fixes,
+  };
+}
+
+// Move unreadable data out of the way, keeping it for manual recovery
+async function quarantine(key: string, data: string, reasons: string[]): Promise<void> {
+  try {
+    const store = await getProjectStore();
+    await store.write(
+      `${QUARANTINE_KEY_PREFIX}${Date.now()}-${key}`,
+      JSON.stringify({ source: key, reasons, data })
+    );
+    await store.remove([key]);
+  } catch (error) {
+    console.warn(`Failed to quarantine ${key}:`, error);
+  }
+}
+
+// Read and check a stored project; data that can't be recovered is quarantined
+async function readStoredProject(key: string): Promise<AutoSaveCheck | null> {
+  const data = await (await getProjectStore()).read(key);
+  if (data === null) return null;
+
+  let check: AutoSaveCheck;
+  try {
+    check = checkSavedProject(JSON.parse(data));
+  } catch {
+    check = { project: null, savedVersion: 0, fixes: ['Not valid JSON'] };
+  }
+  if (!check.project) await quarantine(key, data, check.fixes);
+  return check;
+}
 
 // Get auto-save config from localStorage
 export function getAutoSaveConfig(): AutoSaveConfig {
@@ -66,21 +244,22 @@ export function saveAutoSaveConfig(config: Partial<AutoSaveConfig>): void {
   }
 }
 
-// Save project to localStorage
-export function saveProjectLocally(project: SavedProject): boolean {
+// Save project to local storage (IndexedDB when available)
+export async function saveProjectLocally(project: SavedProject): Promise<boolean> {
   if (typeof window === 'undefined') return false;
   
   try {
     const projectData = {
       ...project,
       lastSaved: Date.now(),
-      version: (project.version || 0) + 1,
+      version: AUTOSAVE_VERSION,
     };
     
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(projectData));
+    const store = await getProjectStore();
+    await store.write(STORAGE_KEY, JSON.stringify(projectData));
     
     // Create backup
-    createBackup(projectData);
+    await createBackup(projectData);
     
     return true;
   } catch (error) {
@@ -89,15 +268,12 @@ export function saveProjectLocally(project: SavedProject): boolean {
   }
 }
 
-// Load project from localStorage
-export function loadProjectLocally(): SavedProject | null {
+// Load project from local storage
+export async function loadProjectLocally(): Promise<SavedProject | null> {
   if (typeof window === 'undefined') return null;
   
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      return JSON.parse(stored);
-    }
+    return (await readStoredProject(STORAGE_KEY))?.project ?? null;
   } catch (error) {
     console.warn('Failed to load project:', error);
   }
@@ -106,53 +282,48 @@ export function loadProjectLocally(): SavedProject | null {
 }
 
 // Create a backup
-function createBackup(project: SavedProject): void {
+async function createBackup(project: SavedProject): Promise<void> {
   if (typeof window === 'undefined') return;
   
   try {
     const config = getAutoSaveConfig();
     const backupKey = `${BACKUP_KEY_PREFIX}${Date.now()}`;
+    const store = await getProjectStore();
     
     // Save new backup
-    localStorage.setItem(backupKey, JSON.stringify(project));
+    await store.write(backupKey, JSON.stringify(project));
     
     // Clean up old backups
-    const backupKeys = Object.keys(localStorage)
-      .filter(key => key.startsWith(BACKUP_KEY_PREFIX))
-      .sort()
-      .reverse();
+    const backupKeys = (await store.keys(BACKUP_KEY_PREFIX)).sort().reverse();
     
     // Remove excess backups
-    while (backupKeys.length > config.maxBackups) {
-      const oldKey = backupKeys.pop();
-      if (oldKey) {
-        localStorage.removeItem(oldKey);
-      }
-    }
+    await store.remove(backupKeys.slice(config.maxBackups));
   } catch (error) {
     console.warn('Failed to create backup:', error);
   }
 }
 
-// Get list of backups
-export function getBackups(): { key: string; timestamp: number; project: SavedProject }[] {
+/**
+ * Restorable backups, newest first, with what had to be upgraded or repaired.
+ * Backups that can't be recovered are quarantined.
+ */
+export async function getBackups(): Promise<AutoSaveBackup[]> {
   if (typeof window === 'undefined') return [];
   
-  const backups: { key: string; timestamp: number; project: SavedProject }[] = [];
+  const backups: AutoSaveBackup[] = [];
   
   try {
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key?.startsWith(BACKUP_KEY_PREFIX)) {
-        const timestamp = parseInt(key.replace(BACKUP_KEY_PREFIX, ''), 10);
-        const data = localStorage.getItem(key);
-        if (data) {
-          backups.push({
-            key,
-            timestamp,
-            project: JSON.parse(data),
-          });
-        }
+    const store = await getProjectStore();
+    for (const key of await store.keys(BACKUP_KEY_PREFIX)) {
+      const check = await readStoredProject(key);
+      if (check?.project) {
+        backups.push({
+          key,
+          timestamp: parseInt(key.replace(BACKUP_KEY_PREFIX, ''), 10),
+          project: check.project,
+          savedVersion: check.savedVersion,
+          fixes: check.fixes,
+        });
       }
     }
   } catch (error) {
@@ -162,16 +333,49 @@ export function getBackups(): { key: string; timestamp: number; project: SavedPr
   return backups.sort((a, b) => b.timestamp - a.timestamp);
 }
 
+// Backups and auto-saves that couldn't be recovered, newest first
+export async function getQuarantinedBackups(): Promise<QuarantinedBackup[]> {
+  if (typeof window === 'undefined') return [];
+
+  const entries: QuarantinedBackup[] = [];
+  try {
+    const store = await getProjectStore();
+    for (const key of await store.keys(QUARANTINE_KEY_PREFIX)) {
+      const data = (await store.read(key)) ?? '';
+      let entry: any = null;
+      try {
+        entry = JSON.parse(data);
+      } catch {
+        // Kept as-is below
+      }
+      entries.push({
+        key,
+        timestamp: parseInt(key.replace(QUARANTINE_KEY_PREFIX, ''), 10),
+        source: typeof entry?.source === 'string' ? entry.source : 'unknown',
+        reasons: Array.isArray(entry?.reasons) ? entry.reasons : [],
+        size: typeof entry?.data === 'string' ? entry.data.length : data.length,
+      });
+    }
+  } catch (error) {
+    console.warn('Failed to get quarantined backups:', error);
+  }
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function deleteQuarantinedBackup(key: string): Promise<void> {
+  if (typeof window === 'undefined' || !key.startsWith(QUARANTINE_KEY_PREFIX)) return;
+  await (await getProjectStore()).remove([key]);
+}
+
 // Restore from backup
-export function restoreFromBackup(backupKey: string): SavedProject | null {
+export async function restoreFromBackup(backupKey: string): Promise<SavedProject | null> {
   if (typeof window === 'undefined') return null;
   
   try {
-    const data = localStorage.getItem(backupKey);
-    if (data) {
-      const project = JSON.parse(data);
+    const project = (await readStoredProject(backupKey))?.project;
+    if (project) {
       // Save as current project
-      saveProjectLocally(project);
+      await saveProjectLocally(project);
       return project;
     }
   } catch (error) {
@@ -182,61 +386,57 @@ export function restoreFromBackup(backupKey: string): SavedProject | null {
 }
 
 // Clear all auto-save data
-export function clearAutoSaveData(): void {
+export async function clearAutoSaveData(): Promise<void> {
   if (typeof window === 'undefined') return;
   
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    const store = await getProjectStore();
     
-    // Remove all backups
-    const keysToRemove: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key?.startsWith(BACKUP_KEY_PREFIX)) {
-        keysToRemove.push(key);
-      }
-    }
-    keysToRemove.forEach(key => localStorage.removeItem(key));
+    // Remove the auto-save and all backups, including quarantined ones
+    await store.remove([
+      STORAGE_KEY,
+      ...(await store.keys(BACKUP_KEY_PREFIX)),
+      ...(await store.keys(QUARANTINE_KEY_PREFIX)),
+    ]);
   } catch (error) {
     console.warn('Failed to clear auto-save data:', error);
   }
 }
 
 // Check if there's unsaved work
-export function hasUnsavedWork(): boolean {
+export async function hasUnsavedWork(): Promise<boolean> {
   if (typeof window === 'undefined') return false;
   
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    return !!stored;
+    return (await (await getProjectStore()).read(STORAGE_KEY)) !== null;
   } catch {
     return false;
   }
 }
 
+// Space used by auto-saves and backups, and how much the browser allows
+export async function getAutoSaveStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    return await (await getProjectStore()).getUsage();
+  } catch (error) {
+    console.warn('Failed to read storage usage:', error);
+    return null;
+  }
+}
+
 // Auto-save manager class
 export class AutoSaveManager {
   private config: AutoSaveConfig & { onSave?: (timestamp: Date) => void };
-  private data: {
-    projectTitle: string;
-    scenes: EditableScene[];
-    projectId?: string;
-    coverImage?: string;
-    storyProvider?: string;
-  };
+  private data: AutoSaveData;
   private saveTimeout: ReturnType<typeof setTimeout> | null = null;
   private intervalId: ReturnType<typeof setInterval> | null = null;
   private lastSavedHash: string = '';
   private onSaveCallback: ((timestamp: Date) => void) | null = null;
 
   constructor(
-    data: {
-      projectTitle: string;
-      scenes: EditableScene[];
-      projectId?: string;
-      coverImage?: string;
-      storyProvider?: string;
-    },
+    data: AutoSaveData,
     config: Partial<AutoSaveConfig> & { onSave?: (timestamp: Date) => void } = {}
   ) {
     this.data = data;
@@ -245,13 +445,7 @@ export class AutoSaveManager {
   }
 
   // Update data to save
-  updateData(data: Partial<{
-    projectTitle: string;
-    scenes: EditableScene[];
-    projectId?: string;
-    coverImage?: string;
-    storyProvider?: string;
-  }>) {
+  updateData(data: Partial<AutoSaveData>) {
     this.data = { ...this.data, ...data };
   }
 
@@ -264,7 +458,7 @@ export class AutoSaveManager {
     
     // Set up interval
     this.intervalId = setInterval(() => {
-      this.save();
+      void this.save();
     }, this.config.intervalMs);
   }
 
@@ -289,12 +483,12 @@ export class AutoSaveManager {
     }
     
     this.saveTimeout = setTimeout(() => {
-      this.save();
+      void this.save();
     }, this.config.debounceMs);
   }
 
   // Immediate save
-  save() {
+  async save() {
     if (!this.config.enabled) return;
     if (!this.data.scenes || this.data.scenes.length === 0) return;
 
@@ -311,11 +505,15 @@ export class AutoSaveManager {
       characterRoleLabels: {},
       characterRoleDescriptions: {},
       coverImage: this.data.coverImage,
+      storyProvider: this.data.storyProvider ?? null,
+      branchingStory: this.data.branchingStory ?? null,
+      sceneTransitions: this.data.sceneTransitions ?? {},
+      customBackgrounds: this.data.customBackgrounds ?? {},
       lastSaved: Date.now(),
-      version: 1,
+      version: AUTOSAVE_VERSION,
     };
     
-    const success = saveProjectLocally(project);
+    const success = await saveProjectLocally(project);
     
     if (success) {
       this.lastSavedHash = currentHash;
@@ -0,0 +1,35 @@
+// Scene background definitions shared by the editor stage and the canvas rasterizer
+
+export interface BackgroundConfig {
+  gradient: string; // CSS linear-gradient, top to bottom
+  groundColor: string;
+}
+
+// Background configurations - expanded list
+export const BACKGROUNDS: Record<string, BackgroundConfig> = {
+  meadow: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #ADD8E6 40%, #90EE90 100%)', groundColor: '#7CFC00' },
+  forest: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #98D8C8 50%, #228B22 100%)', groundColor: '#228B22' },
+  beach: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #87CEEB 40%, #00CED1 60%, #F4A460 100%)', groundColor: '#F4A460' },
+  night: { gradient: 'linear-gradient(180deg, #0f0c29 0%, #302b63 50%, #24243e 100%)', groundColor: '#1a1a2e' },
+  bedroom: { gradient: 'linear-gradient(180deg, #E6E6FA 0%, #DDA0DD 50%, #D2B48C 100%)', groundColor: '#D2B48C' },
+  park: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #B0E0E6 50%, #90EE90 100%)', groundColor: '#7CFC00' },
+  castle: { gradient: 'linear-gradient(180deg, #B0C4DE 0%, #778899 50%, #696969 100%)', groundColor: '#808080' },
+  space: { gradient: 'linear-gradient(180deg, #000428 0%, #004e92 50%, #000428 100%)', groundColor: '#1a1a2e' },
+  underwater: { gradient: 'linear-gradient(180deg, #00CED1 0%, #008B8B 50%, #006666 100%)', groundColor: '#004d4d' },
+  mountain: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #B0C4DE 40%, #8B7355 100%)', groundColor: '#6B4423' },
+  city: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #B0C4DE 60%, #708090 100%)', groundColor: '#505050' },
+  farm: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #F5DEB3 50%, #DAA520 100%)', groundColor: '#8B4513' },
+  playground: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #ADD8E6 50%, #90EE90 100%)', groundColor: '#228B22' },
+  library: { gradient: 'linear-gradient(180deg, #DEB887 0%, #D2B48C 50%, #8B4513 100%)', groundColor: '#654321' },
+  kitchen: { gradient: 'linear-gradient(180deg, #FFFAF0 0%, #FFF8DC 50%, #FAEBD7 100%)', groundColor: '#D2B48C' },
+  garden: { gradient: 'linear-gradient(180deg, #87CEEB 0%, #98FB98 50%, #228B22 100%)', groundColor: '#006400' },
+};
+
+export function getBackgroundConfig(backgroundId: string): BackgroundConfig {
+  return BACKGROUNDS[backgroundId] || BACKGROUNDS.meadow;
+}
+
+// Backgrounds that show a sun in the sky
+export function hasSun(backgroundId: string): boolean {
+  return backgroundId !== 'night' && backgroundId !== 'bedroom';
+}
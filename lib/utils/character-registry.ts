@@ -0,0 +1,518 @@
+/**
+ * Character Registry
+ * One list of every character the studio knows, with stable ids, aliases and
+ * what each character can do: which rig, legacy template, animated character or
+ * sprite draws it, which expressions it has, the TTS voice it speaks with and the
+ * persona AI prompts use. Editors, AI generation, TTS and export resolve
+ * characters here instead of keeping their own name lists.
+ */
+
+import { CharacterRig, getCharacterRig, getUserRigs } from './sprite-system';
+import { CHARACTER_SPRITES, type CharacterSprite } from './sprites';
+import { CHARACTER_TEMPLATES, EXPRESSION_CONFIGS } from './templates';
+import { ANIMATED_CHARACTERS, type AnimatedCharacter } from './characters';
+import type { CharacterTemplate } from './types';
+
+export type CharacterCategory = 'child' | 'adult' | 'animal' | 'fantasy' | 'robot';
+
+export interface CharacterPersona {
+  description: string;
+  traits: string[];
+  voiceStyle: string;
+}
+
+export interface CharacterCapabilities {
+  rigId?: string; // sprite-system rig (scene editor, playback, export)
+  templateId?: string; // CHARACTER_TEMPLATES entry (legacy canvas editor)
+  animatedId?: string; // ANIMATED_CHARACTERS entry (animation stage)
+  spriteId?: string; // CHARACTER_SPRITES sheet
+  expressions: string[];
+  voiceId?: string; // TTS_VOICES id
+  persona?: CharacterPersona;
+}
+
+export interface CharacterDefinition {
+  id: string;
+  name: string;
+  category: CharacterCategory;
+  description: string;
+  aliases: string[];
+  avatar: string;
+  tagline: string;
+  color: string;
+  source: 'built-in' | 'user';
+  capabilities: CharacterCapabilities;
+}
+
+// Expressions RiggedCharacter can show
+export const RIG_EXPRESSIONS = ['neutral', 'happy', 'sad', 'surprised', 'angry'];
+
+const TEMPLATE_EXPRESSIONS = Object.keys(EXPRESSION_CONFIGS);
+
+const BUILT_IN_CHARACTERS: CharacterDefinition[] = [
+  {
+    id: 'kiara',
+    name: 'Kiara',
+    category: 'child',
+    description: 'An energetic girl who loves to sing and dance',
+    aliases: ['girl', 'kid', 'child'],
+    avatar: '👧🏽',
+    tagline: 'Musical',
+    color: '#FFB800',
+    source: 'built-in',
+    capabilities: {
+      rigId: 'kiara',
+      expressions: RIG_EXPRESSIONS,
+      voiceId: 'domi',
+      persona: {
+        description: 'An energetic girl who loves music, dancing and exploring with her friends',
+        traits: ['energetic', 'musical', 'cheerful', 'brave'],
+        voiceStyle: 'bright and bubbly',
+      },
+    },
+  },
+  {
+    id: 'jayden',
+    name: 'Jayden',
+    category: 'child',
+    description: 'A playful boy who loves soccer and exploring',
+    aliases: ['boy'],
+    avatar: '👦🏻',
+    tagline: 'Sporty',
+    color: '#00C2FF',
+    source: 'built-in',
+    capabilities: {
+      rigId: 'jayden',
+      expressions: RIG_EXPRESSIONS,
+      voiceId: 'josh',
+      persona: {
+        description: 'A playful boy who loves soccer and never says no to an adventure',
+        traits: ['sporty', 'playful', 'helpful', 'curious'],
+        voiceStyle: 'lively and friendly',
+      },
+    },
+  },
+  {
+    id: 'luna',
+    name: 'Luna',
+    category: 'child',
+    description: 'A curious and brave girl who loves adventures',
+    aliases: ['char-girl'],
+    avatar: '👧🏼',
+    tagline: 'Brave',
+    color: '#FF6B9D',
+    source: 'built-in',
+    capabilities: {
+      rigId: 'luna',
+      templateId: 'luna',
+      animatedId: 'char-girl',
+      expressions: RIG_EXPRESSIONS,
+      voiceId: 'bella',
+      persona: {
+        description: 'A curious and adventurous young girl with a love for exploration',
+        traits: ['curious', 'brave', 'kind', 'imaginative'],
+        voiceStyle: 'cheerful and enthusiastic',
+      },
+    },
+  },
+  {
+    id: 'max',
+    name: 'Max',
+    category: 'child',
+    description: 'A friendly and adventurous boy',
+    aliases: ['char-boy'],
+    avatar: '👦🏾',
+    tagline: 'Kind',
+    color: '#3498DB',
+    source: 'built-in',
+    capabilities: {
+      rigId: 'max',
+      templateId: 'max',
+      animatedId: 'char-boy',
+      expressions: RIG_EXPRESSIONS,
+      voiceId: 'josh',
+      persona: {
+        description: 'A playful and energetic boy who loves sports and games',
+        traits: ['energetic', 'friendly', 'competitive', 'loyal'],
+        voiceStyle: 'excited and upbeat',
+      },
+    },
+  },
+  {
+    id: 'emma',
+    name: 'Emma',
+    category: 'child',
+    description: 'A creative girl who loves to paint',
+    aliases: [],
+    avatar: '👧🏻',
+    tagline: 'Creative',
+    color: '#9B59B6',
+    source: 'built-in',
+    capabilities: {
+      rigId: 'emma',
+      expressions: RIG_EXPRESSIONS,
+      voiceId: 'domi',
+      persona: {
+        description: 'A thoughtful and creative girl who loves art and nature',
+        traits: ['creative', 'gentle', 'observant', 'caring'],
+        voiceStyle: 'soft and warm',
+      },
+    },
+  },
+  {
+    id: 'whiskers',
+    name: 'Whiskers',
+    category: 'animal',
+    description: 'A playful orange cat',
+    aliases: ['cat', 'kitty', 'char-cat'],
+    avatar: '🐱',
+    tagline: 'Playful',
+    color: '#FF9F43',
+    source: 'built-in',
+    capabilities: {
+      rigId: 'whiskers',
+      animatedId: 'char-cat',
+      expressions: RIG_EXPRESSIONS,
+      voiceId: 'sam',
+      persona: {
+        description: 'A clever and mischievous cat with a heart of gold',
+        traits: ['clever', 'playful', 'independent', 'affectionate'],
+        voiceStyle: 'sly but friendly',
+      },
+    },
+  },
+  {
+    id: 'buddy',
+    name: 'Buddy',
+    category: 'animal',
+    description: 'A loyal and friendly dog',
+    aliases: ['dog', 'puppy'],
+    avatar: '🐕',
+    tagline: 'Loyal',
+    color: '#A0522D',
+    source: 'built-in',
+    capabilities: {
+      rigId: 'buddy',
+      expressions: RIG_EXPRESSIONS,
+      voiceId: 'arnold',
+      persona: {
+        description: 'A loyal and friendly dog who loves everyone',
+        traits: ['loyal', 'happy', 'protective', 'silly'],
+        voiceStyle: 'eager and joyful',
+      },
+    },
+  },
+  {
+    id: 'cotton',
+    name: 'Cotton',
+    category: 'animal',
+    description: 'A fluffy white bunny',
+    aliases: ['bunny', 'rabbit'],
+    avatar: '🐰',
+    tagline: 'Gentle',
+    color: '#FFB6C1',
+    source: 'built-in',
+    capabilities: {
+      rigId: 'cotton',
+      expressions: RIG_EXPRESSIONS,
+      voiceId: 'bella',
+      persona: {
+        description: 'A fluffy and gentle bunny who loves carrots and cuddles',
+        traits: ['gentle', 'shy', 'sweet', 'cuddly'],
+        voiceStyle: 'quiet and adorable',
+      },
+    },
+  },
+  {
+    id: 'milo',
+    name: 'Milo',
+    category: 'animal',
+    description: 'A wise old owl',
+    aliases: ['owl'],
+    avatar: '🦉',
+    tagline: 'Wise',
+    color: '#87CEEB',
+    source: 'built-in',
+    capabilities: {
+      expressions: [],
+      voiceId: 'antoni',
+      persona: {
+        description: 'A wise and patient owl who loves to teach',
+        traits: ['wise', 'patient', 'helpful', 'knowledgeable'],
+        voiceStyle: 'calm and thoughtful',
+      },
+    },
+  },
+  {
+    id: 'coco',
+    name: 'Coco',
+    category: 'animal',
+    description: 'A colorful parrot',
+    aliases: ['parrot'],
+    avatar: '🦜',
+    tagline: 'Chatty',
+    color: '#DEB887',
+    source: 'built-in',
+    capabilities: {
+      expressions: [],
+      voiceId: 'domi',
+      persona: {
+        description: 'A cheerful and colorful parrot who loves to sing',
+        traits: ['musical', 'colorful', 'talkative', 'entertaining'],
+        voiceStyle: 'melodic and expressive',
+      },
+    },
+  },
+  {
+    id: 'pip',
+    name: 'Pip',
+    category: 'animal',
+    description: 'A tiny mouse with big dreams',
+    aliases: ['mouse'],
+    avatar: '🐭',
+    tagline: 'Plucky',
+    color: '#1DD1A1',
+    source: 'built-in',
+    capabilities: {
+      templateId: 'pip',
+      expressions: TEMPLATE_EXPRESSIONS,
+      voiceId: 'sam',
+      persona: {
+        description: 'A tiny but brave mouse with big dreams',
+        traits: ['brave', 'determined', 'resourceful', 'optimistic'],
+        voiceStyle: 'small but confident',
+      },
+    },
+  },
+  {
+    id: 'robo',
+    name: 'Robo',
+    category: 'robot',
+    description: 'A friendly robot',
+    aliases: ['robot'],
+    avatar: '🤖',
+    tagline: 'Techy',
+    color: '#A29BFE',
+    source: 'built-in',
+    capabilities: {
+      templateId: 'robo',
+      expressions: TEMPLATE_EXPRESSIONS,
+      voiceId: 'arnold',
+    },
+  },
+  {
+    id: 'bella',
+    name: 'Bella',
+    category: 'fantasy',
+    description: 'A magical fairy',
+    aliases: ['fairy'],
+    avatar: '🧚',
+    tagline: 'Magical',
+    color: '#FF9F43',
+    source: 'built-in',
+    capabilities: {
+      templateId: 'bella',
+      expressions: TEMPLATE_EXPRESSIONS,
+      voiceId: 'bella',
+    },
+  },
+  {
+    id: 'dino',
+    name: 'Dino',
+    category: 'animal',
+    description: 'A friendly little dinosaur',
+    aliases: ['dinosaur'],
+    avatar: '🦕',
+    tagline: 'Stompy',
+    color: '#00CEC9',
+    source: 'built-in',
+    capabilities: {
+      templateId: 'dino',
+      expressions: TEMPLATE_EXPRESSIONS,
+      voiceId: 'josh',
+    },
+  },
+  // Sprite sheets drawn from the SVG files in /public
+  ...CHARACTER_SPRITES.map((sprite): CharacterDefinition => ({
+    id: sprite.id,
+    name: sprite.name,
+    category: sprite.category,
+    description: sprite.description,
+    aliases: [],
+    avatar: '🖼️',
+    tagline: 'Sprite',
+    color: sprite.colors.primary,
+    source: 'built-in',
+    capabilities: {
+      spriteId: sprite.id,
+      expressions: sprite.expressions.map((expression) => expression.id),
+    },
+  })),
+];
+
+// Characters for imported rigs; the rig id is the character id
+function userRigToCharacter(rig: CharacterRig): CharacterDefinition {
+  return {
+    id: rig.id,
+    name: rig.name,
+    category: rig.category,
+    description: rig.description,
+    aliases: [],
+    avatar: '🎨',
+    tagline: 'Custom',
+    color: rig.colors.primary,
+    source: 'user',
+    capabilities: {
+      rigId: rig.id,
+      expressions: RIG_EXPRESSIONS,
+    },
+  };
+}
+
+function findById<T extends { id: string }>(items: T[], id: string | undefined): T | undefined {
+  return id ? items.find((item) => item.id === id) : undefined;
+}
+
+function matchesKey(character: CharacterDefinition, key: string): boolean {
+  const { rigId, templateId, animatedId, spriteId } = character.capabilities;
+  return [character.id, character.name, ...character.aliases, rigId, templateId, animatedId, spriteId]
+    .some((value) => value?.toLowerCase() === key);
+}
+
+export class CharacterRegistry {
+  /**
+   * Built-in characters followed by characters for imported rigs. An imported rig
+   * named after a built-in character without a rig (e.g. "robo") becomes that character's rig.
+   */
+  getAll(): CharacterDefinition[] {
+    const userRigs = getUserRigs();
+    const claimed = new Set<string>();
+    const builtIn = BUILT_IN_CHARACTERS.map((character) => {
+      const rig = character.capabilities.rigId
+        ? undefined
+        : userRigs.find((userRig) => userRig.id.toLowerCase() === character.id);
+      if (!rig) return character;
+      claimed.add(rig.id);
+      return { ...character, capabilities: { ...character.capabilities, rigId: rig.id, expressions: RIG_EXPRESSIONS } };
+    });
+    return [...builtIn, ...userRigs.filter((rig) => !claimed.has(rig.id)).map(userRigToCharacter)];
+  }
+
+  /**
+   * Look a character up by id, name, alias or any of its capability ids (case-insensitive)
+   */
+  get(key: string): CharacterDefinition | undefined {
+    const lowerKey = key.trim().toLowerCase();
+    if (!lowerKey) return undefined;
+    const characters = this.getAll();
+    return characters.find((character) => character.id === lowerKey)
+      || characters.find((character) => matchesKey(character, lowerKey));
+  }
+
+  /**
+   * Like get, but also matches free-form names from stories ("Luna the Brave",
+   * "the little cat") by their words
+   */
+  resolve(name: string): CharacterDefinition | undefined {
+    const direct = this.get(name);
+    if (direct) return direct;
+    // Names beat aliases, so "Kid Luna" is Luna rather than the "kid" alias
+    const words = name.toLowerCase().split(/[^a-z0-9-]+/).filter(Boolean);
+    const characters = this.getAll();
+    const byName = characters.find((character) =>
+      words.some((word) => character.id === word || character.name.toLowerCase() === word)
+    );
+    if (byName) return byName;
+    for (const word of words) {
+      const character = this.get(word);
+      if (character) return character;
+    }
+    return undefined;
+  }
+
+  /**
+   * The character new scenes and unknown names fall back to
+   */
+  getDefault(): CharacterDefinition {
+    return BUILT_IN_CHARACTERS[0];
+  }
+
+  getRig(key: string): CharacterRig | undefined {
+    const rigId = this.resolve(key)?.capabilities.rigId;
+    return rigId ? getCharacterRig(rigId) : undefined;
+  }
+
+  /**
+   * Rigs of every character that has one, in registry order (editor pickers)
+   */
+  getRigs(): CharacterRig[] {
+    return this.getAll()
+      .map((character) => character.capabilities.rigId && getCharacterRig(character.capabilities.rigId))
+      .filter((rig): rig is CharacterRig => !!rig);
+  }
+
+  /**
+   * Legacy canvas template of a character (AnimationCanvas, SceneEditor)
+   */
+  getTemplate(key: string): CharacterTemplate | undefined {
+    return findById(CHARACTER_TEMPLATES, this.resolve(key)?.capabilities.templateId);
+  }
+
+  /**
+   * GSAP-animated character of a character (AnimationStage, playback)
+   */
+  getAnimatedCharacter(key: string): AnimatedCharacter | undefined {
+    return findById(ANIMATED_CHARACTERS, this.resolve(key)?.capabilities.animatedId);
+  }
+
+  /**
+   * Animated characters of every character that has one, in registry order (demo library)
+   */
+  getAnimatedCharacters(): AnimatedCharacter[] {
+    return this.getAll()
+      .map((character) => findById(ANIMATED_CHARACTERS, character.capabilities.animatedId))
+      .filter((animated): animated is AnimatedCharacter => !!animated);
+  }
+
+  getSprite(key: string): CharacterSprite | undefined {
+    return findById(CHARACTER_SPRITES, this.resolve(key)?.capabilities.spriteId);
+  }
+
+  /**
+   * Sprite sheets of every character that has one, in registry order (template gallery)
+   */
+  getSprites(): CharacterSprite[] {
+    return this.getAll()
+      .map((character) => findById(CHARACTER_SPRITES, character.capabilities.spriteId))
+      .filter((sprite): sprite is CharacterSprite => !!sprite);
+  }
+
+  /**
+   * Built-in characters AI stories may cast: they have a rig to draw them and a persona to write them
+   */
+  getCast(): CharacterDefinition[] {
+    return BUILT_IN_CHARACTERS.filter((character) => character.capabilities.rigId && character.capabilities.persona);
+  }
+
+  getPersona(key: string): CharacterPersona | undefined {
+    return this.resolve(key)?.capabilities.persona;
+  }
+
+  getVoice(key: string): string | undefined {
+    return this.resolve(key)?.capabilities.voiceId;
+  }
+
+  getColor(key: string): string | undefined {
+    return this.resolve(key)?.color;
+  }
+}
+
+// Singleton
+let characterRegistry: CharacterRegistry | null = null;
+
+export function getCharacterRegistry(): CharacterRegistry {
+  if (!characterRegistry) {
+    characterRegistry = new CharacterRegistry();
+  }
+  return characterRegistry;
+}
@@ -1139,29 +1139,9 @@ export const ANIMATED_CHARACTERS: AnimatedCharacter[] = [
   },
 ];
 
-// Get character by ID or name
+// Get character by ID; names and aliases resolve through getCharacterRegistry().getAnimatedCharacter
 export function getCharacterById(id: string): AnimatedCharacter | undefined {
-  // First try direct ID match
-  let char = ANIMATED_CHARACTERS.find(c => c.id === id);
-  if (char) return char;
-  
-  // Try name match (case insensitive)
-  char = ANIMATED_CHARACTERS.find(c => c.name.toLowerCase() === id.toLowerCase());
-  if (char) return char;
-  
-  // Try partial match
-  const idLower = id.toLowerCase();
-  if (idLower.includes('luna') || idLower.includes('girl')) {
-    return ANIMATED_CHARACTERS.find(c => c.id === 'char-girl');
-  }
-  if (idLower.includes('max') || idLower.includes('boy')) {
-    return ANIMATED_CHARACTERS.find(c => c.id === 'char-boy');
-  }
-  if (idLower.includes('whiskers') || idLower.includes('cat')) {
-    return ANIMATED_CHARACTERS.find(c => c.id === 'char-cat');
-  }
-  
-  return undefined;
+  return ANIMATED_CHARACTERS.find(c => c.id === id);
 }
 
 // Get all characters
@@ -0,0 +1,500 @@
+/**
+ * Collaboration Server
+ * Node WebSocket server for CollaborationManager: project rooms, message relay,
+ * server-enforced resource locks and sync snapshots for late joiners. With an
+ * `authenticate` hook, identities come from it instead of the connection URL and
+ * viewers can watch but not edit.
+ */
+
+import type { IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import type {
+  CollaborationMessage,
+  CollaboratorPresence,
+  EditOperation,
+  ResourceLock,
+} from './collaboration';
+import type { CollaborationIdentity } from '../auth/collab-ticket';
+
+export interface CollaborationServerOptions {
+  port?: number;
+  host?: string;
+  path?: string;
+  lockTtlMs?: number; // Default lock lifetime when the client doesn't ask for one
+  maxLockTtlMs?: number; // Upper bound for a single lock
+  lockSweepIntervalMs?: number;
+  heartbeatIntervalMs?: number; // Ping interval used to drop dead sockets
+  maxOperationLog?: number; // Edits kept per room for late joiners
+  // Who is connecting (null refuses the connection). Without it, the `userId` query parameter is trusted.
+  authenticate?: (request: IncomingMessage, projectId: string) => CollaborationIdentity | null;
+}
+
+// Payload of a 'sync' message sent by the server
+export interface SyncSnapshot {
+  projectId: string;
+  document: any | null;
+  documentUpdatedAt: number | null;
+  operations: EditOperation[];
+  collaborators: CollaboratorPresence[];
+  locks: ResourceLock[];
+}
+
+interface RoomClient {
+  userId: string;
+  name: string | null; // Verified display name, when authenticated
+  canEdit: boolean;
+  socket: WebSocket;
+  presence: CollaboratorPresence | null;
+  isAlive: boolean;
+}
+
+interface Room {
+  projectId: string;
+  clients: Map<string, RoomClient>;
+  locks: Map<string, ResourceLock>;
+  document: any | null;
+  documentUpdatedAt: number | null;
+  operations: EditOperation[];
+}
+
+export const SERVER_SENDER_ID = 'server';
+
+const DEFAULT_OPTIONS: Required<Omit<CollaborationServerOptions, 'host' | 'path' | 'authenticate'>> = {
+  port: 3001,
+  lockTtlMs: 30000,
+  maxLockTtlMs: 120000,
+  lockSweepIntervalMs: 1000,
+  heartbeatIntervalMs: 15000,
+  maxOperationLog: 500,
+};
+
+export class CollaborationServer {
+  private wss: WebSocketServer | null = null;
+  private rooms: Map<string, Room> = new Map();
+  private options: Required<Omit<CollaborationServerOptions, 'host' | 'path' | 'authenticate'>> &
+    Pick<CollaborationServerOptions, 'host' | 'path' | 'authenticate'>;
+  private sweepInterval: ReturnType<typeof setInterval> | null = null;
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: CollaborationServerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start listening. Resolves with the bound port (useful when port is 0).
+   */
+  start(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const wss = new WebSocketServer({
+        port: this.options.port,
+        host: this.options.host,
+        path: this.options.path,
+      });
+      this.wss = wss;
+
+      wss.on('connection', (socket, request) => this.handleConnection(socket, request));
+      wss.once('error', reject);
+      wss.once('listening', () => {
+        wss.off('error', reject);
+        this.sweepInterval = setInterval(() => this.sweepExpiredLocks(), this.options.lockSweepIntervalMs);
+        this.heartbeatInterval = setInterval(() => this.checkHeartbeats(), this.options.heartbeatIntervalMs);
+        const address = wss.address();
+        resolve(typeof address === 'object' && address ? address.port : this.options.port);
+      });
+    });
+  }
+
+  /**
+   * Stop the server and close every client connection
+   */
+  stop(): Promise<void> {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    const wss = this.wss;
+    this.wss = null;
+    if (!wss) return Promise.resolve();
+
+    wss.clients.forEach((client) => client.terminate());
+    this.rooms.clear();
+    return new Promise((resolve) => wss.close(() => resolve()));
+  }
+
+  /**
+   * Current room state (used by the snapshot sent to late joiners)
+   */
+  getSnapshot(projectId: string): SyncSnapshot | null {
+    const room = this.rooms.get(projectId);
+    if (!room) return null;
+    return this.buildSnapshot(room);
+  }
+
+  getRoomIds(): string[] {
+    return Array.from(this.rooms.keys());
+  }
+
+  // Connection handling
+
+  private handleConnection(socket: WebSocket, request: IncomingMessage): void {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const projectId = url.searchParams.get('projectId');
+    if (!projectId) {
+      socket.close(1008, 'projectId is required');
+      return;
+    }
+
+    const identity = this.options.authenticate ? this.options.authenticate(request, projectId) : null;
+    if (this.options.authenticate && !identity) {
+      socket.close(1008, 'Not allowed to join this project');
+      return;
+    }
+
+    const userId = identity ? identity.userId : url.searchParams.get('userId');
+    if (!userId) {
+      socket.close(1008, 'userId is required');
+      return;
+    }
+
+    const room = this.getOrCreateRoom(projectId);
+
+    // Same user reconnecting (e.g. a second tab) replaces the old socket
+    const existing = room.clients.get(userId);
+    if (existing) {
+      existing.socket.removeAllListeners('close');
+      existing.socket.terminate();
+    }
+
+    const client: RoomClient = {
+      userId,
+      name: identity?.name ?? null,
+      canEdit: !identity || identity.role !== 'viewer',
+      socket,
+      presence: existing?.presence ?? null,
+      isAlive: true,
+    };
+    room.clients.set(userId, client);
+
+    socket.on('pong', () => {
+      client.isAlive = true;
+    });
+
+    socket.on('message', (data) => {
+      let message: CollaborationMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (!message || typeof message.type !== 'string') return;
+      this.handleMessage(room, client, message);
+    });
+
+    socket.on('close', () => this.handleDisconnect(room, client));
+
+    // Late joiners get the full room state straight away
+    this.sendTo(client, this.createSyncMessage(room));
+
+    // Nobody has published a document yet: ask someone who has it
+    if (room.document === null) {
+      this.requestSnapshot(room, userId);
+    }
+  }
+
+  private handleDisconnect(room: Room, client: RoomClient): void {
+    if (room.clients.get(client.userId) !== client) return;
+    room.clients.delete(client.userId);
+
+    this.releaseLocksHeldBy(room, client.userId);
+
+    this.broadcast(room, {
+      type: 'presence',
+      senderId: client.userId,
+      timestamp: Date.now(),
+      payload: {
+        name: client.presence?.name,
+        color: client.presence?.color,
+        status: 'away',
+        currentScene: client.presence?.currentScene ?? 0,
+      },
+    });
+
+    if (room.clients.size === 0) {
+      this.rooms.delete(room.projectId);
+    }
+  }
+
+  private handleMessage(room: Room, client: RoomClient, message: CollaborationMessage): void {
+    // Never trust the sender id supplied by the client
+    const relayed: CollaborationMessage = {
+      type: message.type,
+      senderId: client.userId,
+      timestamp: Date.now(),
+      payload: message.payload ?? {},
+    };
+
+    // Viewers can follow along (presence, cursors, chat) but not change the document
+    const changesDocument =
+      message.type === 'edit' || message.type === 'lock' || message.type === 'unlock' ||
+      (message.type === 'sync' && relayed.payload.document !== undefined);
+    if (changesDocument && !client.canEdit) return;
+
+    switch (message.type) {
+      case 'presence':
+        this.handlePresence(room, client, relayed);
+        break;
+      case 'cursor':
+        this.broadcast(room, relayed, client.userId);
+        break;
+      case 'chat':
+        if (client.name) relayed.payload = { ...relayed.payload, userName: client.name };
+        this.broadcast(room, relayed, client.userId);
+        break;
+      case 'edit':
+        this.handleEdit(room, client, relayed);
+        break;
+      case 'lock':
+        this.handleLock(room, client, relayed);
+        break;
+      case 'unlock':
+        this.handleUnlock(room, client, relayed);
+        break;
+      case 'sync':
+        this.handleSync(room, client, relayed);
+        break;
+    }
+  }
+
+  private handlePresence(room: Room, client: RoomClient, message: CollaborationMessage): void {
+    const { name, color, status, currentScene } = message.payload;
+    client.presence = {
+      id: client.userId,
+      name: client.name || name || `User ${client.userId.slice(0, 4)}`,
+      color: color || '#888',
+      status: status || 'active',
+      currentScene: currentScene || 0,
+      lastActivity: message.timestamp,
+    };
+    this.broadcast(room, { ...message, payload: { ...message.payload, name: client.presence.name } }, client.userId);
+  }
+
+  private handleEdit(room: Room, client: RoomClient, message: CollaborationMessage): void {
+    const operation = message.payload as EditOperation;
+    if (!operation || typeof operation.id !== 'string') return;
+
+    // Edits on a resource locked by someone else are rejected
+    const lock = this.getActiveLock(room, operation.targetId);
+    if (lock && lock.lockedBy !== client.userId) {
+      this.sendTo(client, {
+        type: 'lock',
+        senderId: SERVER_SENDER_ID,
+        timestamp: Date.now(),
+        payload: lock,
+      });
+      return;
+    }
+
+    room.operations.push(operation);
+    if (room.operations.length > this.options.maxOperationLog) {
+      room.operations.splice(0, room.operations.length - this.options.maxOperationLog);
+    }
+
+    this.broadcast(room, message, client.userId);
+  }
+
+  private handleLock(room: Room, client: RoomClient, message: CollaborationMessage): void {
+    const request = message.payload as Partial<ResourceLock>;
+    if (!request || typeof request.resourceId !== 'string') return;
+
+    const now = Date.now();
+    const existing = this.getActiveLock(room, request.resourceId, now);
+
+    if (existing && existing.lockedBy !== client.userId) {
+      // Tell the requester who holds it so their requestLock resolves false
+      this.sendTo(client, {
+        type: 'lock',
+        senderId: SERVER_SENDER_ID,
+        timestamp: now,
+        payload: existing,
+      });
+      return;
+    }
+
+    const requestedTtl =
+      typeof request.expiresAt === 'number' && typeof request.lockedAt === 'number'
+        ? request.expiresAt - request.lockedAt
+        : this.options.lockTtlMs;
+    const ttl = Math.max(0, Math.min(requestedTtl, this.options.maxLockTtlMs));
+
+    const lock: ResourceLock = {
+      resourceId: request.resourceId,
+      resourceType: request.resourceType || 'scene',
+      lockedBy: client.userId,
+      lockedAt: now,
+      expiresAt: now + ttl,
+    };
+    room.locks.set(lock.resourceId, lock);
+
+    this.broadcast(room, {
+      type: 'lock',
+      senderId: SERVER_SENDER_ID,
+      timestamp: now,
+      payload: lock,
+    });
+  }
+
+  private handleUnlock(room: Room, client: RoomClient, message: CollaborationMessage): void {
+    const { resourceId } = message.payload;
+    const lock = room.locks.get(resourceId);
+    if (!lock || lock.lockedBy !== client.userId) return;
+    this.removeLock(room, resourceId);
+  }
+
+  /**
+   * Clients answer a sync request (or publish proactively) with { document }.
+   * The stored document replaces the edit log, which only covers newer edits.
+   */
+  private handleSync(room: Room, client: RoomClient, message: CollaborationMessage): void {
+    const { document } = message.payload;
+    if (document === undefined) {
+      this.sendTo(client, this.createSyncMessage(room));
+      return;
+    }
+
+    room.document = document;
+    room.documentUpdatedAt = message.timestamp;
+    room.operations = [];
+
+    // Anyone who joined before the document existed gets it now
+    room.clients.forEach((other) => {
+      if (other.userId !== client.userId) {
+        this.sendTo(other, this.createSyncMessage(room));
+      }
+    });
+  }
+
+  // Locks
+
+  private getActiveLock(room: Room, resourceId: string, now: number = Date.now()): ResourceLock | null {
+    const lock = room.locks.get(resourceId);
+    if (!lock) return null;
+    if (lock.expiresAt <= now) {
+      this.removeLock(room, resourceId);
+      return null;
+    }
+    return lock;
+  }
+
+  private removeLock(room: Room, resourceId: string): void {
+    if (!room.locks.delete(resourceId)) return;
+    this.broadcast(room, {
+      type: 'unlock',
+      senderId: SERVER_SENDER_ID,
+      timestamp: Date.now(),
+      payload: { resourceId },
+    });
+  }
+
+  private releaseLocksHeldBy(room: Room, userId: string): void {
+    Array.from(room.locks.values())
+      .filter((lock) => lock.lockedBy === userId)
+      .forEach((lock) => this.removeLock(room, lock.resourceId));
+  }
+
+  private sweepExpiredLocks(): void {
+    const now = Date.now();
+    this.rooms.forEach((room) => {
+      Array.from(room.locks.values())
+        .filter((lock) => lock.expiresAt <= now)
+        .forEach((lock) => this.removeLock(room, lock.resourceId));
+    });
+  }
+
+  // Helpers
+
+  private checkHeartbeats(): void {
+    this.rooms.forEach((room) => {
+      room.clients.forEach((client) => {
+        if (!client.isAlive) {
+          client.socket.terminate();
+          return;
+        }
+        client.isAlive = false;
+        client.socket.ping();
+      });
+    });
+  }
+
+  private getOrCreateRoom(projectId: string): Room {
+    let room = this.rooms.get(projectId);
+    if (!room) {
+      room = {
+        projectId,
+        clients: new Map(),
+        locks: new Map(),
+        document: null,
+        documentUpdatedAt: null,
+        operations: [],
+      };
+      this.rooms.set(projectId, room);
+    }
+    return room;
+  }
+
+  private requestSnapshot(room: Room, excludeUserId: string): void {
+    const source = Array.from(room.clients.values()).find((client) => client.userId !== excludeUserId);
+    if (!source) return;
+    this.sendTo(source, {
+      type: 'sync',
+      senderId: SERVER_SENDER_ID,
+      timestamp: Date.now(),
+      payload: { request: true },
+    });
+  }
+
+  private buildSnapshot(room: Room): SyncSnapshot {
+    const now = Date.now();
+    return {
+      projectId: room.projectId,
+      document: room.document,
+      documentUpdatedAt: room.documentUpdatedAt,
+      operations: [...room.operations],
+      collaborators: Array.from(room.clients.values())
+        .map((client) => client.presence)
+        .filter((presence): presence is CollaboratorPresence => presence !== null),
+      locks: Array.from(room.locks.values()).filter((lock) => lock.expiresAt > now),
+    };
+  }
+
+  private createSyncMessage(room: Room): CollaborationMessage {
+    return {
+      type: 'sync',
+      senderId: SERVER_SENDER_ID,
+      timestamp: Date.now(),
+      payload: this.buildSnapshot(room),
+    };
+  }
+
+  private broadcast(room: Room, message: CollaborationMessage, excludeUserId?: string): void {
+    room.clients.forEach((client) => {
+      if (client.userId !== excludeUserId) {
+        this.sendTo(client, message);
+      }
+    });
+  }
+
+  private sendTo(client: RoomClient, message: CollaborationMessage): void {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+export function createCollaborationServer(options?: CollaborationServerOptions): CollaborationServer {
+  return new CollaborationServer(options);
+}
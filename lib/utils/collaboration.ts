@@ -3,6 +3,16 @@
  * WebSocket-based sync with live cursors and presence
  */
 
+import type { EditableScene } from '@/components/editors/InteractiveSceneEditor';
+import {
+  SceneDocument,
+  diffScenes,
+  type DocOperation,
+  type SceneChange,
+  type SceneDocumentState,
+} from './scene-document';
+import type { ProjectRole } from '@/lib/auth/roles';
+
 export interface CollaboratorCursor {
   id: string;
   name: string;
@@ -48,6 +58,25 @@ export interface ResourceLock {
   expiresAt: number;
 }
 
+// Room state sent by the collaboration server when joining (and after a new document is published)
+export interface CollaborationSnapshot {
+  projectId: string;
+  document: any | null;
+  documentUpdatedAt: number | null;
+  operations: EditOperation[];
+  collaborators: CollaboratorPresence[];
+  locks: ResourceLock[];
+}
+
+export interface CollaborationChatMessage {
+  id: string;
+  senderId: string;
+  senderName: string;
+  color: string;
+  message: string;
+  timestamp: number;
+}
+
 // Collaboration colors for users
 const COLLABORATOR_COLORS = [
   '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4',
@@ -63,6 +92,7 @@ export class CollaborationManager {
   private userId: string;
   private userName: string;
   private userColor: string;
+  private role: ProjectRole | null = null;
   private projectId: string | null = null;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
@@ -74,6 +104,7 @@ export class CollaborationManager {
   private cursors: Map<string, CollaboratorCursor> = new Map();
   private locks: Map<string, ResourceLock> = new Map();
   private pendingOperations: EditOperation[] = [];
+  private document: SceneDocument | null = null;
   
   // Callbacks
   public onCollaboratorJoin: ((collaborator: CollaboratorPresence) => void) | null = null;
@@ -84,6 +115,8 @@ export class CollaborationManager {
   public onLockChange: ((lock: ResourceLock, acquired: boolean) => void) | null = null;
   public onConnectionChange: ((connected: boolean) => void) | null = null;
   public onSyncRequired: (() => void) | null = null;
+  public onSnapshot: ((snapshot: CollaborationSnapshot) => void) | null = null;
+  public onDocumentChange: ((scenes: EditableScene[], changes: SceneChange[]) => void) | null = null;
 
   constructor(userId?: string, userName?: string) {
     this.userId = userId || this.generateUserId();
@@ -92,22 +125,36 @@ export class CollaborationManager {
   }
 
   /**
-   * Connect to collaboration server
+   * Connect to collaboration server. The room is joined with a short-lived
+   * ticket for the signed-in user, so every (re)connect asks for a new one.
    */
   async connect(projectId: string, serverUrl?: string): Promise<boolean> {
+    // Queued edits and the merged document belong to the previous project's room
+    if (this.projectId !== projectId) {
+      this.detachDocument();
+      this.pendingOperations = [];
+    }
     this.projectId = projectId;
     
     const wsUrl = serverUrl || this.getDefaultServerUrl();
+    const ticket = await this.fetchTicket(projectId);
+    if (!ticket) {
+      this.onConnectionChange?.(false);
+      return false;
+    }
     
     return new Promise((resolve) => {
       try {
-        this.ws = new WebSocket(`${wsUrl}?projectId=${projectId}&userId=${this.userId}`);
+        this.ws = new WebSocket(
+          `${wsUrl}?projectId=${encodeURIComponent(projectId)}&ticket=${encodeURIComponent(ticket)}`
+        );
         
         this.ws.onopen = () => {
           console.log('Collaboration connected');
           this.reconnectAttempts = 0;
           this.startHeartbeat();
           this.sendPresence('active');
+          this.flushPendingOperations();
           this.onConnectionChange?.(true);
           resolve(true);
         };
@@ -135,7 +182,8 @@ export class CollaborationManager {
   }
 
   /**
-   * Disconnect from collaboration server
+   * Disconnect from collaboration server. The merged document is kept, so edits
+   * committed meanwhile are replayed when the same project is joined again.
    */
   disconnect(): void {
     this.stopHeartbeat();
@@ -171,14 +219,59 @@ export class CollaborationManager {
       timestamp: Date.now(),
     };
     
-    this.pendingOperations.push(fullOperation);
-    
-    this.send({
+    // Queue edits made while offline; they are replayed on reconnect
+    const sent = this.send({
       type: 'edit',
       senderId: this.userId,
       timestamp: fullOperation.timestamp,
       payload: fullOperation,
     });
+    if (!sent) {
+      this.pendingOperations.push(fullOperation);
+    }
+  }
+
+  /**
+   * Start merging scene edits through a replicated document seeded with the local scenes.
+   * A snapshot from the server replaces the seed when another collaborator already has one.
+   */
+  attachDocument(scenes: EditableScene[]): void {
+    // One replica per session, so the same user in two tabs never reuses operation ids
+    const replicaId = `${this.userId}-${Math.random().toString(36).substr(2, 6)}`;
+    this.document = SceneDocument.fromScenes(replicaId, scenes).document;
+  }
+
+  detachDocument(): void {
+    this.document = null;
+  }
+
+  hasDocument(): boolean {
+    return this.document !== null;
+  }
+
+  /**
+   * Record a local change to the scenes and broadcast it as merge operations
+   */
+  commitScenes(scenes: EditableScene[]): void {
+    if (!this.document) return;
+    const operations = this.document.applyLocalChange(scenes);
+    if (operations.length === 0) return;
+
+    const target = getOperationTarget(operations);
+    this.sendEdit({
+      type: target.type,
+      action: 'update',
+      targetId: target.sceneId ?? 'project',
+      sceneIndex: target.sceneId ? scenes.findIndex((scene) => scene.id === target.sceneId) : -1,
+      data: { operations },
+    });
+  }
+
+  /**
+   * Current merged scenes (null when no document is attached)
+   */
+  getScenes(): EditableScene[] | null {
+    return this.document ? this.document.getScenes() : null;
   }
 
   /**
@@ -193,6 +286,18 @@ export class CollaborationManager {
     });
   }
 
+  /**
+   * Publish the full project document so late joiners can start from it
+   */
+  publishSnapshot(document: any): void {
+    this.send({
+      type: 'sync',
+      senderId: this.userId,
+      timestamp: Date.now(),
+      payload: { document },
+    });
+  }
+
   /**
    * Request lock on a resource
    */
@@ -241,6 +346,13 @@ export class CollaborationManager {
     return Array.from(this.collaborators.values());
   }
 
+  /**
+   * Get the local user's identity
+   */
+  getLocalUser(): { id: string; name: string; color: string; role: ProjectRole | null } {
+    return { id: this.userId, name: this.userName, color: this.userColor, role: this.role };
+  }
+
   /**
    * Get all cursors
    */
@@ -298,11 +410,52 @@ export class CollaborationManager {
         this.handleUnlockMessage(message);
         break;
       case 'sync':
-        this.onSyncRequired?.();
+        this.handleSyncMessage(message);
         break;
     }
   }
 
+  private handleSyncMessage(message: CollaborationMessage): void {
+    const snapshot = message.payload as CollaborationSnapshot | { request?: boolean } | undefined;
+
+    // Server asks us for the document (or an older server without snapshots)
+    if (!snapshot || !('projectId' in snapshot)) {
+      if (this.document) {
+        this.publishSnapshot(this.document.toJSON());
+        this.document.acknowledge();
+      }
+      this.onSyncRequired?.();
+      return;
+    }
+
+    this.collaborators.clear();
+    snapshot.collaborators
+      .filter((collaborator) => collaborator.id !== this.userId)
+      .forEach((collaborator) => {
+        this.collaborators.set(collaborator.id, collaborator);
+        this.onCollaboratorJoin?.(collaborator);
+      });
+
+    this.locks.clear();
+    snapshot.locks.forEach((lock) => this.locks.set(lock.resourceId, lock));
+
+    // Adopt the shared document, then catch up on edits made since it was published
+    const documentState = snapshot.document as SceneDocumentState | null;
+    if (this.document && documentState?.version === 1) {
+      const operations: DocOperation[] = snapshot.operations.flatMap((operation) =>
+        Array.isArray(operation.data?.operations) ? operation.data.operations : []
+      );
+      const before = this.document.getScenes();
+      this.document.load(documentState);
+      this.document.applyRemote(operations);
+      this.document.acknowledge(operations);
+      const after = this.document.getScenes();
+      this.onDocumentChange?.(after, diffScenes(before, after));
+    }
+
+    this.onSnapshot?.(snapshot);
+  }
+
   private handleCursorMessage(message: CollaborationMessage): void {
     const { x, y, sceneIndex } = message.payload;
     const collaborator = this.collaborators.get(message.senderId);
@@ -347,9 +500,22 @@ export class CollaborationManager {
 
   private handleEditMessage(message: CollaborationMessage): void {
     const operation = message.payload as EditOperation;
+    if (this.document && Array.isArray(operation.data?.operations)) {
+      this.mergeOperations(operation.data.operations);
+    }
     this.onRemoteEdit?.(operation);
   }
 
+  private mergeOperations(operations: DocOperation[]): void {
+    if (!this.document) return;
+    const before = this.document.getScenes();
+    const after = this.document.applyRemote(operations);
+    const changes = diffScenes(before, after);
+    if (changes.length > 0) {
+      this.onDocumentChange?.(after, changes);
+    }
+  }
+
   private handleChatMessage(message: CollaborationMessage): void {
     const { message: text } = message.payload;
     this.onChatMessage?.(message.senderId, text);
@@ -370,10 +536,27 @@ export class CollaborationManager {
     }
   }
 
-  private send(message: CollaborationMessage): void {
+  private send(message: CollaborationMessage): boolean {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
+      return true;
     }
+    return false;
+  }
+
+  // Merge operations are idempotent, so replaying after a reconnect is safe
+  private flushPendingOperations(): void {
+    const pending = this.pendingOperations;
+    this.pendingOperations = [];
+    pending.forEach((operation) => {
+      const sent = this.send({
+        type: 'edit',
+        senderId: this.userId,
+        timestamp: Date.now(),
+        payload: operation,
+      });
+      if (!sent) this.pendingOperations.push(operation);
+    });
   }
 
   private sendPresence(status: CollaboratorPresence['status']): void {
@@ -421,17 +604,57 @@ export class CollaborationManager {
     }, delay);
   }
 
+  // Ticket for joining the project's room; adopts the signed-in user's identity
+  private async fetchTicket(projectId: string): Promise<string | null> {
+    try {
+      const response = await fetch(`/api/auth/collab-ticket?projectId=${encodeURIComponent(projectId)}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        console.error('Collaboration ticket refused:', data.error);
+        return null;
+      }
+      this.userId = data.user.id;
+      this.userName = data.user.name;
+      this.role = data.role;
+      return data.ticket;
+    } catch (error) {
+      console.error('Failed to get collaboration ticket:', error);
+      return null;
+    }
+  }
+
   private generateUserId(): string {
     return `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
   private getDefaultServerUrl(): string {
+    if (process.env.NEXT_PUBLIC_COLLAB_URL) return process.env.NEXT_PUBLIC_COLLAB_URL;
     const protocol = typeof window !== 'undefined' && window.location.protocol === 'https:' ? 'wss:' : 'ws:';
     const host = typeof window !== 'undefined' ? window.location.host : 'localhost:3000';
     return `${protocol}//${host}/api/collaboration`;
   }
 }
 
+// Classify a batch of merge operations for EditOperation consumers (and server locks)
+function getOperationTarget(operations: DocOperation[]): { type: EditOperation['type']; sceneId: string | null } {
+  const first = operations[0];
+  const path: any = first.path;
+  const sceneId: string | null = path.sceneId ?? (first.kind === 'insert' && path.seq === 'scenes' ? first.value : null);
+
+  if (operations.length > 0 && operations.every((operation) => (operation.path as any).seq === 'scenes')) {
+    return { type: 'scene', sceneId: null };
+  }
+  if (path.entity === 'character' || path.seq === 'characters') return { type: 'character', sceneId };
+  if (path.seq === 'narration' || path.seq === 'dialogue' || path.seq === 'dialogue-text' || path.entity === 'dialogue') {
+    return { type: 'narration', sceneId };
+  }
+  if (path.entity === 'scene' && ['cameraZoom', 'cameraPanX', 'cameraPanY', 'cameraKeyframes'].includes(path.field)) {
+    return { type: 'camera', sceneId };
+  }
+  if (path.entity === 'scene' && path.field === 'props') return { type: 'prop', sceneId };
+  return { type: 'scene', sceneId };
+}
+
 // Singleton instance
 let collaborationManager: CollaborationManager | null = null;
 
@@ -443,19 +666,42 @@ export function getCollaborationManager(userId?: string, userName?: string): Col
 }
 
 // React hook for collaboration
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+export interface SceneSyncOptions {
+  scenes: EditableScene[];
+  // Receives the merged scenes whenever collaborators' edits change them
+  onMerge: (scenes: EditableScene[], changes: SceneChange[]) => void;
+}
 
-export function useCollaboration(projectId: string | null, userName?: string) {
+export function useCollaboration(projectId: string | null, userName?: string, sceneSync?: SceneSyncOptions) {
   const [isConnected, setIsConnected] = useState(false);
   const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>([]);
   const [cursors, setCursors] = useState<CollaboratorCursor[]>([]);
+  const [messages, setMessages] = useState<CollaborationChatMessage[]>([]);
   
   const manager = getCollaborationManager(undefined, userName);
+  const [localUser, setLocalUser] = useState(() => manager.getLocalUser());
+  const sceneSyncRef = useRef(sceneSync);
+  sceneSyncRef.current = sceneSync;
 
   useEffect(() => {
     if (!projectId) return;
 
-    manager.onConnectionChange = setIsConnected;
+    manager.onConnectionChange = (connected) => {
+      setIsConnected(connected);
+      // Identity and role come from the ticket fetched on connect
+      setLocalUser(manager.getLocalUser());
+      // First join of this project: seed the document with our scenes until a snapshot replaces it
+      const scenes = sceneSyncRef.current?.scenes;
+      if (connected && scenes && !manager.hasDocument()) {
+        manager.attachDocument(scenes);
+      }
+    };
+
+    manager.onDocumentChange = (scenes, changes) => {
+      sceneSyncRef.current?.onMerge(scenes, changes);
+    };
     
     manager.onCollaboratorJoin = (collaborator) => {
       setCollaborators(prev => [...prev.filter(c => c.id !== collaborator.id), collaborator]);
@@ -470,6 +716,18 @@ export function useCollaboration(projectId: string | null, userName?: string) {
       setCursors(prev => [...prev.filter(c => c.id !== cursor.id), cursor]);
     };
 
+    manager.onChatMessage = (senderId, message) => {
+      const sender = manager.getCollaborators().find(c => c.id === senderId);
+      setMessages(prev => [...prev, {
+        id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        senderId,
+        senderName: sender?.name || `User ${senderId.slice(0, 4)}`,
+        color: sender?.color || '#888',
+        message,
+        timestamp: Date.now(),
+      }]);
+    };
+
     manager.connect(projectId);
 
     return () => {
@@ -477,6 +735,12 @@ export function useCollaboration(projectId: string | null, userName?: string) {
     };
   }, [projectId]);
 
+  // Every local scene change becomes merge operations (queued while offline)
+  const scenes = sceneSync?.scenes;
+  useEffect(() => {
+    if (projectId && scenes) manager.commitScenes(scenes);
+  }, [projectId, scenes]);
+
   const sendCursor = useCallback((x: number, y: number, sceneIndex: number) => {
     manager.sendCursor(x, y, sceneIndex);
   }, []);
@@ -487,12 +751,24 @@ export function useCollaboration(projectId: string | null, userName?: string) {
 
   const sendChat = useCallback((message: string) => {
     manager.sendChat(message);
+    // The server doesn't echo chat back to the sender
+    const localUser = manager.getLocalUser();
+    setMessages(prev => [...prev, {
+      id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      senderId: localUser.id,
+      senderName: localUser.name,
+      color: localUser.color,
+      message,
+      timestamp: Date.now(),
+    }]);
   }, []);
 
   return {
     isConnected,
+    localUser,
     collaborators,
     cursors,
+    messages,
     sendCursor,
     sendEdit,
     sendChat,
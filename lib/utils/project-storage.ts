@@ -0,0 +1,294 @@
+/**
+ * Local Project Storage
+ * Key/value store for auto-saves and backups. Uses IndexedDB when the browser
+ * has it, with embedded images (data URLs) kept once per content hash in a
+ * separate asset store, and falls back to localStorage otherwise. Existing
+ * localStorage saves move to IndexedDB the first time it opens.
+ */
+
+export type StorageBackend = 'indexeddb' | 'localstorage';
+
+export interface StorageUsage {
+  backend: StorageBackend;
+  used: number; // bytes
+  quota: number | null; // bytes, null when the browser doesn't say
+  assetCount: number; // distinct embedded assets (IndexedDB only)
+}
+
+// Values are JSON text; the store decides how to keep them
+export interface ProjectStore {
+  readonly backend: StorageBackend;
+  read(key: string): Promise<string | null>;
+  write(key: string, json: string): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+  keys(prefix: string): Promise<string[]>;
+  getUsage(): Promise<StorageUsage>;
+}
+
+const DB_NAME = 'cartoon-studio';
+const DB_VERSION = 1;
+const RECORD_STORE = 'records';
+const ASSET_STORE = 'assets';
+
+// localStorage keys that belong in this store (the auto-save config stays in localStorage)
+const MIGRATED_KEY_PREFIXES = ['cartoon-studio-backup-', 'cartoon-studio-quarantine-'];
+const MIGRATED_KEYS = ['cartoon-studio-autosave'];
+
+// Typical per-origin localStorage limit; browsers don't report it
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+// Data URLs at least this long are stored once in the asset store
+const MIN_ASSET_LENGTH = 1024;
+const ASSET_REF_PREFIX = 'stored-asset:';
+const DATA_URL_PATTERN = new RegExp(`"(data:[^"]{${MIN_ASSET_LENGTH},})"`, 'g');
+const ASSET_REF_PATTERN = new RegExp(`"${ASSET_REF_PREFIX}([0-9a-f]+)"`, 'g');
+
+interface StoredRecord {
+  key: string;
+  json: string; // with `stored-asset:<hash>` in place of each embedded asset
+}
+
+interface StoredAsset {
+  hash: string;
+  data: string;
+}
+
+// -------- localStorage --------
+
+class LocalProjectStore implements ProjectStore {
+  readonly backend = 'localstorage' as const;
+
+  async read(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async write(key: string, json: string): Promise<void> {
+    localStorage.setItem(key, json);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    keys.forEach((key) => localStorage.removeItem(key));
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+    return keys;
+  }
+
+  async getUsage(): Promise<StorageUsage> {
+    let used = 0;
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i) ?? '';
+      // UTF-16: two bytes per character
+      used += (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2;
+    }
+    return { backend: this.backend, used, quota: LOCAL_STORAGE_QUOTA, assetCount: 0 };
+  }
+}
+
+// -------- IndexedDB --------
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+// cyrb53, for browsers without crypto.subtle (insecure origins)
+function fallbackHash(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+}
+
+async function hashContent(text: string): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return fallbackHash(text);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Swap every large data URL in JSON text for a reference to its content hash.
+ * Base64 data URLs contain no characters JSON escapes, so the text can be
+ * rewritten without parsing it.
+ */
+async function extractAssets(json: string): Promise<{ json: string; assets: StoredAsset[] }> {
+  const dataUrls = new Set<string>();
+  json.replace(DATA_URL_PATTERN, (_match, dataUrl: string) => {
+    dataUrls.add(dataUrl);
+    return '';
+  });
+  if (dataUrls.size === 0) return { json, assets: [] };
+
+  const hashes = new Map<string, string>();
+  const assets: StoredAsset[] = [];
+  for (const data of Array.from(dataUrls)) {
+    const hash = await hashContent(data);
+    hashes.set(data, hash);
+    assets.push({ hash, data });
+  }
+  return {
+    json: json.replace(DATA_URL_PATTERN, (_match, dataUrl: string) => `"${ASSET_REF_PREFIX}${hashes.get(dataUrl)}"`),
+    assets,
+  };
+}
+
+function getAssetRefs(json: string): string[] {
+  const refs: string[] = [];
+  json.replace(ASSET_REF_PATTERN, (_match, hash: string) => {
+    refs.push(hash);
+    return '';
+  });
+  return refs;
+}
+
+class IndexedDBProjectStore implements ProjectStore {
+  readonly backend = 'indexeddb' as const;
+
+  constructor(private db: IDBDatabase) {}
+
+  static async open(): Promise<IndexedDBProjectStore> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RECORD_STORE)) db.createObjectStore(RECORD_STORE, { keyPath: 'key' });
+      if (!db.objectStoreNames.contains(ASSET_STORE)) db.createObjectStore(ASSET_STORE, { keyPath: 'hash' });
+    };
+    return new IndexedDBProjectStore(await promisify(request));
+  }
+
+  async read(key: string): Promise<string | null> {
+    const transaction = this.db.transaction([RECORD_STORE, ASSET_STORE], 'readonly');
+    const record = (await promisify(transaction.objectStore(RECORD_STORE).get(key))) as StoredRecord | undefined;
+    if (!record) return null;
+
+    const assets = new Map<string, string>();
+    for (const hash of getAssetRefs(record.json)) {
+      if (assets.has(hash)) continue;
+      const asset = (await promisify(transaction.objectStore(ASSET_STORE).get(hash))) as StoredAsset | undefined;
+      // A missing asset reads as an empty string, so the rest of the project still loads
+      assets.set(hash, asset?.data ?? '');
+    }
+    return record.json.replace(ASSET_REF_PATTERN, (_match, hash: string) => JSON.stringify(assets.get(hash) ?? ''));
+  }
+
+  async write(key: string, json: string): Promise<void> {
+    const extracted = await extractAssets(json);
+    const transaction = this.db.transaction([RECORD_STORE, ASSET_STORE], 'readwrite');
+    const assetStore = transaction.objectStore(ASSET_STORE);
+    // Same hash, same content: rewriting an asset another record shares is harmless
+    extracted.assets.forEach((asset) => assetStore.put(asset));
+    const record: StoredRecord = { key, json: extracted.json };
+    transaction.objectStore(RECORD_STORE).put(record);
+    // Assets only the overwritten version used are no longer needed
+    await this.deleteUnusedAssets(transaction);
+    await transactionDone(transaction);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const transaction = this.db.transaction([RECORD_STORE, ASSET_STORE], 'readwrite');
+    const recordStore = transaction.objectStore(RECORD_STORE);
+    keys.forEach((key) => recordStore.delete(key));
+    await this.deleteUnusedAssets(transaction);
+    await transactionDone(transaction);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const transaction = this.db.transaction(RECORD_STORE, 'readonly');
+    const keys = await promisify(transaction.objectStore(RECORD_STORE).getAllKeys());
+    return keys.map(String).filter((key) => key.startsWith(prefix));
+  }
+
+  async getUsage(): Promise<StorageUsage> {
+    const transaction = this.db.transaction([RECORD_STORE, ASSET_STORE], 'readonly');
+    const records = (await promisify(transaction.objectStore(RECORD_STORE).getAll())) as StoredRecord[];
+    const assets = (await promisify(transaction.objectStore(ASSET_STORE).getAll())) as StoredAsset[];
+    const counted =
+      records.reduce((sum, record) => sum + record.key.length + record.json.length, 0) +
+      assets.reduce((sum, asset) => sum + asset.hash.length + asset.data.length, 0);
+
+    // The browser's estimate covers the whole origin; use it when it's available
+    const estimate = typeof navigator !== 'undefined' && navigator.storage?.estimate
+      ? await navigator.storage.estimate().catch(() => null)
+      : null;
+    return {
+      backend: this.backend,
+      used: estimate?.usage ?? counted * 2,
+      quota: estimate?.quota ?? null,
+      assetCount: assets.length,
+    };
+  }
+
+  /**
+   * Move auto-saves and backups from localStorage into IndexedDB. Each key is
+   * removed from localStorage only after it has been written here.
+   */
+  async migrateFromLocalStorage(): Promise<number> {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && (MIGRATED_KEYS.includes(key) || MIGRATED_KEY_PREFIXES.some((prefix) => key.startsWith(prefix)))) {
+        keys.push(key);
+      }
+    }
+
+    for (const key of keys) {
+      const json = localStorage.getItem(key);
+      if (json === null) continue;
+      await this.write(key, json);
+      localStorage.removeItem(key);
+    }
+    return keys.length;
+  }
+
+  // Mark and sweep: drop assets no stored record refers to
+  private async deleteUnusedAssets(transaction: IDBTransaction): Promise<void> {
+    const records = (await promisify(transaction.objectStore(RECORD_STORE).getAll())) as StoredRecord[];
+    const used = new Set(records.flatMap((record) => getAssetRefs(record.json)));
+    const assetStore = transaction.objectStore(ASSET_STORE);
+    const hashes = await promisify(assetStore.getAllKeys());
+    hashes.map(String).filter((hash) => !used.has(hash)).forEach((hash) => assetStore.delete(hash));
+  }
+}
+
+// Singleton, opened once per page load
+let projectStore: Promise<ProjectStore> | null = null;
+
+export function getProjectStore(): Promise<ProjectStore> {
+  if (!projectStore) {
+    projectStore = (async () => {
+      if (typeof indexedDB === 'undefined') return new LocalProjectStore();
+      try {
+        const store = await IndexedDBProjectStore.open();
+        const migrated = await store.migrateFromLocalStorage();
+        if (migrated > 0) console.info(`Moved ${migrated} local save(s) to IndexedDB`);
+        return store;
+      } catch (error) {
+        console.warn('IndexedDB unavailable, auto-save will use localStorage:', error);
+        return new LocalProjectStore();
+      }
+    })();
+  }
+  return projectStore;
+}
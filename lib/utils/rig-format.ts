@@ -0,0 +1,836 @@
+// Rig File Format - JSON and layered-SVG import/export for CharacterRig
+// Lets illustrators deliver new characters as files instead of code. A rig file
+// carries parts, hierarchy, transforms/pivots, shapes and colors; a layered SVG
+// with one named <g> per part converts to the same structure.
+
+import { CharacterRig, SpritePart, SpriteShape, Transform, Vector2 } from './sprite-system';
+
+export const RIG_FILE_FORMAT = 'cartoon-studio-rig';
+export const RIG_FILE_VERSION = 1;
+
+export interface RigFile {
+  format: typeof RIG_FILE_FORMAT;
+  version: number;
+  rig: CharacterRig;
+  exportedAt: string;
+}
+
+/**
+ * Result of reading a rig. `rig` is null when the input can't be turned into a
+ * rig at all; otherwise `errors` lists what was defaulted, fixed or dropped.
+ */
+export interface RigImportResult {
+  rig: CharacterRig | null;
+  errors: string[];
+}
+
+export interface SVGRigOptions {
+  id?: string;
+  name?: string;
+  category?: CharacterRig['category'];
+}
+
+const RIG_CATEGORIES: CharacterRig['category'][] = ['child', 'adult', 'animal', 'fantasy'];
+const COLOR_KEYS: (keyof CharacterRig['colors'])[] = ['primary', 'secondary', 'skin', 'hair', 'eyes'];
+const DEFAULT_COLORS: CharacterRig['colors'] = {
+  primary: '#9B59B6',
+  secondary: '#8E44AD',
+  skin: '#FFDAB9',
+  hair: '#3B1C0A',
+  eyes: '#2C3E50',
+};
+
+// Parts whose fill is used for each rig color when an SVG doesn't say
+const COLOR_SOURCE_PARTS: Record<keyof CharacterRig['colors'], string[]> = {
+  primary: ['body', 'torso', 'shirt'],
+  secondary: ['leftLeg', 'rightLeg', 'pants', 'shorts'],
+  skin: ['head', 'face', 'leftHand', 'rightHand'],
+  hair: ['hair', 'hairBack'],
+  eyes: ['leftPupil', 'rightPupil', 'leftIris', 'rightIris', 'leftEye', 'rightEye'],
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Rig ids end up in URLs and file names
+export function toRigId(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// "left-arm", "Left Arm" and "left_arm" all become "leftArm", the id animations use
+export function toPartId(value: string): string {
+  const words = value.trim().split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words
+    .map((word, index) =>
+      index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join('');
+}
+
+// -------- JSON --------
+
+export function createRigFile(rig: CharacterRig): RigFile {
+  return {
+    format: RIG_FILE_FORMAT,
+    version: RIG_FILE_VERSION,
+    rig,
+    exportedAt: new Date().toISOString(),
+  };
+}
+
+export function exportRigJSON(rig: CharacterRig): string {
+  return JSON.stringify(createRigFile(rig), null, 2);
+}
+
+/**
+ * Read a rig file, or a bare CharacterRig object, and validate it
+ */
+export function parseRigFile(data: unknown): RigImportResult {
+  if (!isRecord(data)) {
+    return { rig: null, errors: ['Rig file must be a JSON object'] };
+  }
+
+  if (data.format === undefined) {
+    return validateRig(data);
+  }
+  if (data.format !== RIG_FILE_FORMAT) {
+    return { rig: null, errors: [`Unknown file format "${String(data.format)}"`] };
+  }
+  if (!isFiniteNumber(data.version) || data.version < 1) {
+    return { rig: null, errors: ['Rig file has no valid version'] };
+  }
+  if (data.version > RIG_FILE_VERSION) {
+    return { rig: null, errors: [`Rig file version ${data.version} is newer than this app supports (${RIG_FILE_VERSION})`] };
+  }
+  return validateRig(data.rig);
+}
+
+/**
+ * Check a rig's parts, hierarchy, transforms, shapes and colors. Missing or
+ * invalid values are defaulted and reported; a rig without a usable root part
+ * or with a cycle in its hierarchy can't be used.
+ */
+export function validateRig(raw: unknown): RigImportResult {
+  const errors: string[] = [];
+  if (!isRecord(raw)) {
+    return { rig: null, errors: ['Rig must be an object'] };
+  }
+
+  const id = typeof raw.id === 'string' ? toRigId(raw.id) : '';
+  if (!id) {
+    return { rig: null, errors: ['Rig needs a non-empty "id"'] };
+  }
+  if (id !== raw.id) {
+    errors.push(`Rig id "${raw.id}" was changed to "${id}"`);
+  }
+
+  let name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) {
+    name = id;
+    errors.push('Rig name is missing; using the id');
+  }
+
+  let category = raw.category as CharacterRig['category'];
+  if (!RIG_CATEGORIES.includes(category)) {
+    errors.push(`Category must be one of: ${RIG_CATEGORIES.join(', ')}; using "fantasy"`);
+    category = 'fantasy';
+  }
+
+  const width = isFiniteNumber(raw.width) && raw.width > 0 ? raw.width : 120;
+  const height = isFiniteNumber(raw.height) && raw.height > 0 ? raw.height : 180;
+  if (width !== raw.width || height !== raw.height) {
+    errors.push(`Width and height must be positive numbers; using ${width} x ${height}`);
+  }
+
+  const colors = { ...DEFAULT_COLORS };
+  const rawColors = isRecord(raw.colors) ? raw.colors : {};
+  COLOR_KEYS.forEach((key) => {
+    if (typeof rawColors[key] === 'string' && rawColors[key].trim()) {
+      colors[key] = rawColors[key].trim();
+    } else {
+      errors.push(`Color "${key}" is missing; using ${colors[key]}`);
+    }
+  });
+
+  if (!isRecord(raw.parts) || Object.keys(raw.parts).length === 0) {
+    return { rig: null, errors: [...errors, 'Rig needs a non-empty "parts" object'] };
+  }
+
+  const parts: Record<string, SpritePart> = {};
+  Object.entries(raw.parts).forEach(([key, rawPart]) => {
+    const part = validatePart(key, rawPart, errors);
+    if (part) parts[key] = part;
+  });
+
+  const rootPartId = typeof raw.rootPartId === 'string' ? raw.rootPartId : '';
+  if (!parts[rootPartId]) {
+    return { rig: null, errors: [...errors, `Root part "${rootPartId}" does not exist`] };
+  }
+  if (parts[rootPartId].parentId !== null) {
+    errors.push(`Root part "${rootPartId}" can't have a parent`);
+    parts[rootPartId] = { ...parts[rootPartId], parentId: null };
+  }
+
+  // Children decide what is drawn; keep parentId in line with them
+  Object.values(parts).forEach((part) => {
+    part.children = part.children.filter((childId) => {
+      if (!parts[childId]) {
+        errors.push(`Part "${part.id}" lists missing child "${childId}"`);
+        return false;
+      }
+      if (parts[childId].parentId !== part.id) {
+        errors.push(`Part "${childId}" is a child of "${part.id}" but names "${parts[childId].parentId}" as its parent`);
+        parts[childId].parentId = part.id;
+      }
+      return true;
+    });
+  });
+
+  const visited = new Set<string>();
+  const visit = (partId: string, path: Set<string>): boolean => {
+    if (path.has(partId)) return false;
+    if (visited.has(partId)) return true;
+    visited.add(partId);
+    path.add(partId);
+    const ok = parts[partId].children.every((childId) => visit(childId, path));
+    path.delete(partId);
+    return ok;
+  };
+  if (!visit(rootPartId, new Set())) {
+    return { rig: null, errors: [...errors, 'Part hierarchy has a cycle'] };
+  }
+  Object.keys(parts).forEach((partId) => {
+    if (!visited.has(partId)) {
+      errors.push(`Part "${partId}" is not connected to the root part and won't be drawn`);
+    }
+  });
+
+  return {
+    rig: {
+      id,
+      name,
+      category,
+      description: typeof raw.description === 'string' ? raw.description : '',
+      width,
+      height,
+      parts,
+      rootPartId,
+      colors,
+    },
+    errors,
+  };
+}
+
+function validatePart(key: string, raw: unknown, errors: string[]): SpritePart | null {
+  if (!isRecord(raw)) {
+    errors.push(`Part "${key}" must be an object and was dropped`);
+    return null;
+  }
+  if (raw.id !== key) {
+    errors.push(`Part "${key}" has id "${raw.id}"; using "${key}"`);
+  }
+
+  const rawShape = validateShape(raw.shape, `parts.${key}.shape`, errors);
+  return {
+    id: key,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : key,
+    zIndex: isFiniteNumber(raw.zIndex) ? raw.zIndex : 0,
+    parentId: typeof raw.parentId === 'string' ? raw.parentId : null,
+    children: Array.isArray(raw.children)
+      ? raw.children.filter((child: unknown): child is string => typeof child === 'string')
+      : [],
+    defaultTransform: validateTransform(raw.defaultTransform, key, errors),
+    shape: rawShape ?? { type: 'group', children: [] },
+  };
+}
+
+function validateTransform(raw: unknown, partId: string, errors: string[]): Transform {
+  const record = isRecord(raw) ? raw : {};
+  const vector = (value: unknown, fallback: Vector2, label: string): Vector2 => {
+    if (isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y)) {
+      return { x: value.x, y: value.y };
+    }
+    if (value !== undefined) {
+      errors.push(`Part "${partId}" has an invalid ${label}; using ${fallback.x}, ${fallback.y}`);
+    }
+    return fallback;
+  };
+
+  return {
+    position: vector(record.position, { x: 0, y: 0 }, 'position'),
+    rotation: isFiniteNumber(record.rotation) ? record.rotation : 0,
+    scale: vector(record.scale, { x: 1, y: 1 }, 'scale'),
+    pivot: vector(record.pivot, { x: 0.5, y: 0.5 }, 'pivot'),
+  };
+}
+
+function validateShape(raw: unknown, path: string, errors: string[]): SpriteShape | null {
+  if (!isRecord(raw)) {
+    errors.push(`${path} must be a shape object and was dropped`);
+    return null;
+  }
+
+  const numbers = (...keys: string[]): boolean => {
+    const missing = keys.filter((key) => !isFiniteNumber(raw[key]));
+    if (missing.length > 0) {
+      errors.push(`${path} (${raw.type}) needs numeric ${missing.join(', ')} and was dropped`);
+      return false;
+    }
+    return true;
+  };
+  const paint = {
+    fill: typeof raw.fill === 'string' ? raw.fill : 'none',
+    ...(typeof raw.stroke === 'string' ? { stroke: raw.stroke } : {}),
+  };
+  const strokeWidth = isFiniteNumber(raw.strokeWidth) ? { strokeWidth: raw.strokeWidth } : {};
+
+  switch (raw.type) {
+    case 'ellipse':
+      if (!numbers('cx', 'cy', 'rx', 'ry')) return null;
+      return { type: 'ellipse', cx: raw.cx, cy: raw.cy, rx: raw.rx, ry: raw.ry, ...paint, ...strokeWidth };
+    case 'rect':
+      if (!numbers('x', 'y', 'width', 'height')) return null;
+      return {
+        type: 'rect',
+        x: raw.x,
+        y: raw.y,
+        width: raw.width,
+        height: raw.height,
+        ...(isFiniteNumber(raw.rx) ? { rx: raw.rx } : {}),
+        ...paint,
+      };
+    case 'path':
+      if (typeof raw.d !== 'string' || !raw.d.trim()) {
+        errors.push(`${path} (path) needs a "d" string and was dropped`);
+        return null;
+      }
+      return { type: 'path', d: raw.d, ...paint, ...strokeWidth };
+    case 'polygon':
+      if (typeof raw.points !== 'string' || !raw.points.trim()) {
+        errors.push(`${path} (polygon) needs a "points" string and was dropped`);
+        return null;
+      }
+      return { type: 'polygon', points: raw.points, ...paint };
+    case 'group': {
+      const children = Array.isArray(raw.children) ? raw.children : [];
+      return {
+        type: 'group',
+        children: children
+          .map((child: unknown, index: number) => validateShape(child, `${path}.children[${index}]`, errors))
+          .filter((child: SpriteShape | null): child is SpriteShape => child !== null),
+      };
+    }
+    default:
+      errors.push(`${path} has unknown shape type "${String(raw.type)}" and was dropped`);
+      return null;
+  }
+}
+
+// -------- SVG export --------
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+function attributes(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${typeof value === 'number' ? formatNumber(value) : escapeAttribute(value!)}"`)
+    .join('');
+}
+
+function shapeToSVG(shape: SpriteShape, indent: string): string {
+  switch (shape.type) {
+    case 'ellipse':
+      return `${indent}<ellipse${attributes({ cx: shape.cx, cy: shape.cy, rx: shape.rx, ry: shape.ry, fill: shape.fill, stroke: shape.stroke, 'stroke-width': shape.strokeWidth })}/>`;
+    case 'rect':
+      return `${indent}<rect${attributes({ x: shape.x, y: shape.y, width: shape.width, height: shape.height, rx: shape.rx, fill: shape.fill, stroke: shape.stroke })}/>`;
+    case 'path':
+      return `${indent}<path${attributes({ d: shape.d, fill: shape.fill, stroke: shape.stroke, 'stroke-width': shape.strokeWidth })}/>`;
+    case 'polygon':
+      return `${indent}<polygon${attributes({ points: shape.points, fill: shape.fill, stroke: shape.stroke })}/>`;
+    case 'group':
+      return [`${indent}<g>`, ...shape.children.map((child) => shapeToSVG(child, `${indent}  `)), `${indent}</g>`].join('\n');
+  }
+}
+
+function partToSVG(rig: CharacterRig, partId: string, indent: string): string {
+  const part = rig.parts[partId];
+  if (!part) return '';
+  const { position, rotation, scale, pivot } = part.defaultTransform;
+  const transform = `translate(${formatNumber(position.x)} ${formatNumber(position.y)}) rotate(${formatNumber(rotation)}) scale(${formatNumber(scale.x)} ${formatNumber(scale.y)})`;
+
+  return [
+    `${indent}<g${attributes({ id: part.id, 'data-name': part.name, 'data-z': part.zIndex, 'data-pivot': `${formatNumber(pivot.x)} ${formatNumber(pivot.y)}`, transform })}>`,
+    shapeToSVG(part.shape, `${indent}  `),
+    ...part.children.map((childId) => partToSVG(rig, childId, `${indent}  `)),
+    `${indent}</g>`,
+  ].join('\n');
+}
+
+/**
+ * Layered SVG of a rig: one <g id="partId"> per part, nested like the hierarchy,
+ * with the rig's metadata and colors as data attributes so it imports back unchanged
+ */
+export function exportRigSVG(rig: CharacterRig): string {
+  const colorAttributes: Record<string, string> = {};
+  COLOR_KEYS.forEach((key) => {
+    colorAttributes[`data-color-${key}`] = rig.colors[key];
+  });
+
+  return [
+    `<svg${attributes({
+      xmlns: 'http://www.w3.org/2000/svg',
+      viewBox: `0 0 ${formatNumber(rig.width)} ${formatNumber(rig.height)}`,
+      width: rig.width,
+      height: rig.height,
+      'data-rig-id': rig.id,
+      'data-rig-name': rig.name,
+      'data-category': rig.category,
+      'data-description': rig.description || undefined,
+      'data-format-version': RIG_FILE_VERSION,
+      ...colorAttributes,
+    })}>`,
+    partToSVG(rig, rig.rootPartId, '  '),
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+// -------- SVG import --------
+
+interface XMLElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLElement[];
+}
+
+// Elements that never hold visible artwork
+const SKIPPED_ELEMENTS = new Set(['defs', 'title', 'desc', 'metadata', 'style', 'clipPath', 'mask', 'linearGradient', 'radialGradient', 'pattern', 'symbol', 'script', 'sodipodi:namedview']);
+
+/**
+ * Minimal XML reader for SVG files; enough for illustration tool output and
+ * usable without a DOM (imports also run on the server)
+ */
+function parseXML(text: string): { root: XMLElement | null; styles: string[] } {
+  const root: XMLElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XMLElement[] = [root];
+  const styles: string[] = [];
+  const tagPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>|([^<]+)/g;
+  const attributePattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'))?/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(text)) !== null) {
+    const parent = stack[stack.length - 1];
+    if (match[2]) {
+      if (stack.length > 1 && stack[stack.length - 1].name === match[2]) stack.pop();
+    } else if (match[3]) {
+      const element: XMLElement = { name: match[3], attributes: {}, children: [] };
+      let attribute: RegExpExecArray | null;
+      attributePattern.lastIndex = 0;
+      while ((attribute = attributePattern.exec(match[4] || '')) !== null) {
+        element.attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3] ?? '');
+      }
+      parent.children.push(element);
+      if (!match[5]) stack.push(element);
+    } else if ((match[1] !== undefined || match[6] !== undefined) && parent.name === 'style') {
+      styles.push(match[1] ?? decodeEntities(match[6]));
+    }
+  }
+
+  const svg = findElement(root, 'svg');
+  return { root: svg, styles };
+}
+
+function findElement(element: XMLElement, name: string): XMLElement | null {
+  for (const child of element.children) {
+    if (child.name === name || child.name.endsWith(`:${name}`)) return child;
+    const nested = findElement(child, name);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+// ".cls-1{fill:#fff;stroke:#000}" rules, as written by Illustrator
+function parseClassStyles(styles: string[]): Map<string, Record<string, string>> {
+  const classes = new Map<string, Record<string, string>>();
+  const rulePattern = /([^{}]+)\{([^}]*)\}/g;
+  styles.forEach((css) => {
+    let rule: RegExpExecArray | null;
+    while ((rule = rulePattern.exec(css)) !== null) {
+      const declarations = parseDeclarations(rule[2]);
+      rule[1].split(',').forEach((selector) => {
+        const className = selector.trim().match(/^\.([\w-]+)$/)?.[1];
+        if (className) classes.set(className, { ...classes.get(className), ...declarations });
+      });
+    }
+  });
+  return classes;
+}
+
+function parseDeclarations(css: string): Record<string, string> {
+  const declarations: Record<string, string> = {};
+  css.split(';').forEach((declaration) => {
+    const [property, ...value] = declaration.split(':');
+    if (property && value.length > 0) declarations[property.trim()] = value.join(':').trim();
+  });
+  return declarations;
+}
+
+type Matrix = [number, number, number, number, number, number];
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+function parseTransform(value: string | undefined): Matrix {
+  let matrix = IDENTITY;
+  if (!value) return matrix;
+
+  const pattern = /(matrix|translate|rotate|scale|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    const args = match[2].split(/[\s,]+/).filter(Boolean).map(Number);
+    let next: Matrix = IDENTITY;
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) next = args as Matrix;
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, args[0] || 0, args[1] || 0];
+        break;
+      case 'scale':
+        next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = ((args[0] || 0) * Math.PI) / 180;
+        const rotation: Matrix = [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0];
+        const [cx = 0, cy = 0] = args.slice(1);
+        next = multiply(multiply([1, 0, 0, 1, cx, cy], rotation), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((args[0] || 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(((args[0] || 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+}
+
+// Split a matrix into the translate/rotate/scale a part transform holds (skew is lost)
+function decomposeMatrix(m: Matrix): Pick<Transform, 'position' | 'rotation' | 'scale'> & { skewed: boolean } {
+  const scaleX = Math.hypot(m[0], m[1]);
+  const scaleY = scaleX === 0 ? 0 : (m[0] * m[3] - m[1] * m[2]) / scaleX;
+  const skew = scaleX === 0 ? 0 : (m[0] * m[2] + m[1] * m[3]) / scaleX;
+  return {
+    position: { x: m[4], y: m[5] },
+    rotation: (Math.atan2(m[1], m[0]) * 180) / Math.PI,
+    scale: { x: scaleX, y: scaleY },
+    skewed: Math.abs(skew) > 1e-6,
+  };
+}
+
+const isTranslation = (m: Matrix) => m[0] === 1 && m[1] === 0 && m[2] === 0 && m[3] === 1;
+
+interface SVGImportContext {
+  classes: Map<string, Record<string, string>>;
+  errors: string[];
+  parts: Record<string, SpritePart>;
+  order: number;
+}
+
+// Presentation value from the style attribute, a class rule or the attribute itself
+function getPaint(element: XMLElement, property: string, context: SVGImportContext): string | undefined {
+  const inline = element.attributes.style ? parseDeclarations(element.attributes.style)[property] : undefined;
+  if (inline) return inline;
+  for (const className of (element.attributes.class || '').split(/\s+/).filter(Boolean)) {
+    const value = context.classes.get(className)?.[property];
+    if (value) return value;
+  }
+  return element.attributes[property];
+}
+
+const toNumber = (value: string | undefined, fallback = 0) => {
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+function offsetPoints(points: string, dx: number, dy: number): string {
+  const values = points.trim().split(/[\s,]+/).map(Number);
+  const pairs: string[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    pairs.push(`${formatNumber(values[i] + dx)},${formatNumber(values[i + 1] + dy)}`);
+  }
+  return pairs.join(' ');
+}
+
+function elementToShape(element: XMLElement, offset: Vector2, context: SVGImportContext): SpriteShape | null {
+  const name = element.name.includes(':') ? element.name.split(':').pop()! : element.name;
+  const attrs = element.attributes;
+  const fill = getPaint(element, 'fill', context) ?? '#000000';
+  const stroke = getPaint(element, 'stroke', context);
+  const strokeWidthValue = getPaint(element, 'stroke-width', context);
+  const strokeWidth = strokeWidthValue !== undefined ? { strokeWidth: toNumber(strokeWidthValue, 1) } : {};
+  const paint = { fill, ...(stroke ? { stroke } : {}) };
+
+  const matrix = parseTransform(attrs.transform);
+  if (!isTranslation(matrix)) {
+    context.errors.push(`A <${name}> has a rotate/scale transform, which shapes can't keep; apply the transform in your editor or put the shape in its own part group`);
+  }
+  const dx = offset.x + matrix[4];
+  const dy = offset.y + matrix[5];
+
+  switch (name) {
+    case 'ellipse':
+    case 'circle':
+      return {
+        type: 'ellipse',
+        cx: toNumber(attrs.cx) + dx,
+        cy: toNumber(attrs.cy) + dy,
+        rx: toNumber(name === 'circle' ? attrs.r : attrs.rx),
+        ry: toNumber(name === 'circle' ? attrs.r : attrs.ry),
+        ...paint,
+        ...strokeWidth,
+      };
+    case 'rect':
+      return {
+        type: 'rect',
+        x: toNumber(attrs.x) + dx,
+        y: toNumber(attrs.y) + dy,
+        width: toNumber(attrs.width),
+        height: toNumber(attrs.height),
+        ...(attrs.rx !== undefined ? { rx: toNumber(attrs.rx) } : {}),
+        ...paint,
+      };
+    case 'polygon':
+      return { type: 'polygon', points: offsetPoints(attrs.points || '', dx, dy), ...paint };
+    case 'polyline':
+    case 'line': {
+      const points = name === 'line'
+        ? `${attrs.x1 || 0},${attrs.y1 || 0} ${attrs.x2 || 0},${attrs.y2 || 0}`
+        : attrs.points || '';
+      return { type: 'path', d: `M ${offsetPoints(points, dx, dy).replace(/ /g, ' L ')}`, fill: 'none', ...(stroke ? { stroke } : { stroke: fill }), ...strokeWidth };
+    }
+    case 'path': {
+      if (!attrs.d) return null;
+      if (dx !== 0 || dy !== 0) {
+        context.errors.push('A <path> inside a translated group kept its original coordinates; apply transforms in your editor or put the path in its own part group');
+      }
+      return { type: 'path', d: attrs.d, ...paint, ...strokeWidth };
+    }
+    default:
+      return null;
+  }
+}
+
+// Inkscape ids are generated ("g123"), so its layer label wins over the id
+const getPartKey = (element: XMLElement) =>
+  element.attributes['inkscape:label'] || element.attributes.id || element.attributes['data-name'];
+
+// Display name: the Illustrator layer name, the Inkscape label or the id
+const getPartLabel = (element: XMLElement) =>
+  element.attributes['data-name'] || element.attributes['inkscape:label'] || element.attributes.id;
+
+function uniquePartId(label: string, parts: Record<string, SpritePart>): string {
+  const base = toPartId(label) || 'part';
+  let id = base;
+  for (let n = 2; parts[id]; n++) id = `${base}${n}`;
+  return id;
+}
+
+/**
+ * Shapes of an element's children, turning every named group into a child part.
+ * Unnamed groups become group shapes; a translate on them is folded into their shapes.
+ */
+function collectShapes(element: XMLElement, parentId: string, offset: Vector2, context: SVGImportContext): SpriteShape[] {
+  const shapes: SpriteShape[] = [];
+
+  element.children.forEach((child) => {
+    const name = child.name.includes(':') ? child.name.split(':').pop()! : child.name;
+    if (SKIPPED_ELEMENTS.has(child.name) || SKIPPED_ELEMENTS.has(name)) return;
+    if (getPaint(child, 'display', context) === 'none') return;
+
+    if (name === 'g' || name === 'a') {
+      if (name === 'g' && getPartKey(child)) {
+        const partId = createPart(child, parentId, offset, context);
+        context.parts[parentId].children.push(partId);
+        return;
+      }
+      const matrix = parseTransform(child.attributes.transform);
+      if (!isTranslation(matrix)) {
+        context.errors.push('An unnamed group has a rotate/scale transform that was ignored; name the group to make it a part');
+      }
+      const children = collectShapes(child, parentId, { x: offset.x + matrix[4], y: offset.y + matrix[5] }, context);
+      if (children.length > 0) shapes.push({ type: 'group', children });
+      return;
+    }
+
+    const shape = elementToShape(child, offset, context);
+    if (shape) shapes.push(shape);
+  });
+
+  return shapes;
+}
+
+function createPart(element: XMLElement, parentId: string | null, offset: Vector2, context: SVGImportContext): string {
+  const label = getPartLabel(element) || 'root';
+  const id = uniquePartId(getPartKey(element) || label, context.parts);
+  const matrix = parseTransform(element.attributes.transform);
+  const { position, rotation, scale, skewed } = decomposeMatrix(matrix);
+  if (skewed) {
+    context.errors.push(`Part "${id}" has a skew transform, which parts can't keep`);
+  }
+
+  const [pivotX, pivotY] = (element.attributes['data-pivot'] || '').trim().split(/[\s,]+/).filter(Boolean).map(Number);
+  const zIndex = parseFloat(element.attributes['data-z'] ?? '');
+
+  context.parts[id] = {
+    id,
+    name: label,
+    zIndex: Number.isFinite(zIndex) ? zIndex : context.order++,
+    parentId,
+    children: [],
+    defaultTransform: {
+      position: { x: position.x + offset.x, y: position.y + offset.y },
+      rotation,
+      scale,
+      pivot: {
+        x: Number.isFinite(pivotX) ? pivotX : 0.5,
+        y: Number.isFinite(pivotY) ? pivotY : 0.5,
+      },
+    },
+    shape: { type: 'group', children: [] },
+  };
+
+  const shapes = collectShapes(element, id, { x: 0, y: 0 }, context);
+  context.parts[id].shape = shapes.length === 1 ? shapes[0] : { type: 'group', children: shapes };
+  return id;
+}
+
+function firstFill(shape: SpriteShape): string | undefined {
+  if (shape.type !== 'group') return shape.fill !== 'none' ? shape.fill : undefined;
+  for (const child of shape.children) {
+    const fill = firstFill(child);
+    if (fill) return fill;
+  }
+  return undefined;
+}
+
+/**
+ * Build a rig from a layered SVG. Each <g> with an id (or an Illustrator /
+ * Inkscape layer name) becomes a part, nested groups become child parts, and
+ * the group's transform becomes the part's default transform. Name parts like
+ * the built-in rigs (body, head, leftArm, rightLeg, mouth, ...) so animations
+ * and expressions apply to them.
+ */
+export function importRigFromSVG(svg: string, options: SVGRigOptions = {}): RigImportResult {
+  const { root, styles } = parseXML(svg);
+  if (!root) {
+    return { rig: null, errors: ['File is not an SVG (no <svg> element found)'] };
+  }
+
+  const attrs = root.attributes;
+  const context: SVGImportContext = {
+    classes: parseClassStyles(styles),
+    errors: [],
+    parts: {},
+    order: 0,
+  };
+
+  const viewBox = (attrs.viewBox || '').split(/[\s,]+/).map(Number);
+  const hasViewBox = viewBox.length === 4 && viewBox.every(Number.isFinite);
+  const width = hasViewBox ? viewBox[2] : toNumber(attrs.width, 120);
+  const height = hasViewBox ? viewBox[3] : toNumber(attrs.height, 180);
+  const origin: Vector2 = hasViewBox ? { x: -viewBox[0], y: -viewBox[1] } : { x: 0, y: 0 };
+
+  // A single top-level part is the root; otherwise everything hangs off a "root" part
+  const drawable = root.children.filter((child) => !SKIPPED_ELEMENTS.has(child.name));
+  let rootPartId: string;
+  if (drawable.length === 1 && drawable[0].name === 'g' && getPartKey(drawable[0])) {
+    rootPartId = createPart(drawable[0], null, origin, context);
+  } else {
+    rootPartId = 'root';
+    context.parts.root = {
+      id: 'root',
+      name: 'Root',
+      zIndex: context.order++,
+      parentId: null,
+      children: [],
+      defaultTransform: { position: origin, rotation: 0, scale: { x: 1, y: 1 }, pivot: { x: 0.5, y: 0.5 } },
+      shape: { type: 'group', children: [] },
+    };
+    const shapes = collectShapes(root, 'root', { x: 0, y: 0 }, context);
+    context.parts.root.shape = { type: 'group', children: shapes };
+  }
+
+  if (Object.keys(context.parts).length === 1 && context.parts[rootPartId].shape.type === 'group' && (context.parts[rootPartId].shape as { children: SpriteShape[] }).children.length === 0) {
+    return { rig: null, errors: [...context.errors, 'SVG has no shapes to import'] };
+  }
+
+  const colors: Partial<CharacterRig['colors']> = {};
+  COLOR_KEYS.forEach((key) => {
+    const declared = attrs[`data-color-${key}`];
+    const sourcePart = COLOR_SOURCE_PARTS[key].map((partId) => context.parts[partId]).find(Boolean);
+    const inferred = sourcePart ? firstFill(sourcePart.shape) : undefined;
+    if (declared || inferred) colors[key] = declared || inferred;
+  });
+
+  const rawId = options.id || attrs['data-rig-id'] || attrs.id || options.name || 'custom-rig';
+  const result = validateRig({
+    id: toRigId(rawId) || 'custom-rig',
+    name: options.name || attrs['data-rig-name'] || rawId,
+    category: options.category || (RIG_CATEGORIES.includes(attrs['data-category'] as CharacterRig['category']) ? attrs['data-category'] : 'fantasy'),
+    description: attrs['data-description'] || '',
+    width,
+    height,
+    parts: context.parts,
+    rootPartId,
+    colors: { ...DEFAULT_COLORS, ...colors },
+  });
+
+  return { rig: result.rig, errors: [...context.errors, ...result.errors] };
+}
+
+/**
+ * Read a rig from an imported file's text: SVG when it looks like markup, rig JSON otherwise
+ */
+export function importRigFile(text: string, options: SVGRigOptions = {}): RigImportResult {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('<')) {
+    return importRigFromSVG(trimmed, options);
+  }
+
+  try {
+    return parseRigFile(JSON.parse(trimmed));
+  } catch {
+    return { rig: null, errors: ['File is neither rig JSON nor SVG'] };
+  }
+}
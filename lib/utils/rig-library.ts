@@ -0,0 +1,162 @@
+/**
+ * User Rig Library
+ * Character rigs imported from JSON/SVG files, kept in localStorage and on the
+ * server (/api/rigs). Every rig in the library is registered with the sprite
+ * system, so getCharacterRig, RiggedCharacter and export resolve it like a built-in rig.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  CharacterRig,
+  getUserRigs,
+  isBuiltInRigId,
+  registerUserRigs,
+  unregisterUserRig,
+} from './sprite-system';
+import { RigImportResult, SVGRigOptions, createRigFile, importRigFile, parseRigFile } from './rig-format';
+
+const STORAGE_KEY = 'cartoon-studio-user-rigs';
+
+export class RigLibrary {
+  private listeners = new Set<(rigs: CharacterRig[]) => void>();
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  getRigs(): CharacterRig[] {
+    return getUserRigs();
+  }
+
+  /**
+   * Import a rig file (rig JSON or layered SVG). Ids that clash with a built-in
+   * rig get a "-custom" suffix; an existing user rig with the same id is replaced.
+   */
+  importFile(text: string, options: SVGRigOptions = {}): RigImportResult {
+    const result = importRigFile(text, options);
+    if (!result.rig) return result;
+
+    const rig = this.add(result.rig);
+    const errors = rig.id === result.rig.id
+      ? result.errors
+      : [...result.errors, `Rig id "${result.rig.id}" belongs to a built-in character; saved as "${rig.id}"`];
+    return { rig, errors };
+  }
+
+  add(rig: CharacterRig): CharacterRig {
+    const stored = isBuiltInRigId(rig.id) ? { ...rig, id: `${rig.id}-custom` } : rig;
+    registerUserRigs([stored]);
+    this.saveToStorage();
+    this.notify();
+    void this.pushToServer(stored);
+    return stored;
+  }
+
+  remove(id: string): void {
+    unregisterUserRig(id);
+    this.saveToStorage();
+    this.notify();
+    void fetch(`/api/rigs/${encodeURIComponent(id)}`, { method: 'DELETE' }).catch((error) => {
+      console.warn('Could not delete rig on the server:', error);
+    });
+  }
+
+  /**
+   * Merge in the server's rigs and upload rigs that only exist locally
+   */
+  async syncWithServer(): Promise<void> {
+    try {
+      const response = await fetch('/api/rigs');
+      if (!response.ok) return;
+      const data = await response.json();
+      const remote: CharacterRig[] = (Array.isArray(data.rigs) ? data.rigs : [])
+        .map((file: unknown) => parseRigFile(file).rig)
+        .filter((rig: CharacterRig | null): rig is CharacterRig => rig !== null);
+
+      const remoteIds = new Set(remote.map((rig) => rig.id));
+      const localOnly = this.getRigs().filter((rig) => !remoteIds.has(rig.id));
+
+      registerUserRigs(remote);
+      this.saveToStorage();
+      this.notify();
+      await Promise.all(localOnly.map((rig) => this.pushToServer(rig)));
+    } catch (error) {
+      console.warn('Rig library sync failed:', error);
+    }
+  }
+
+  subscribe(listener: (rigs: CharacterRig[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const rigs = this.getRigs();
+    this.listeners.forEach((listener) => listener(rigs));
+  }
+
+  private async pushToServer(rig: CharacterRig): Promise<void> {
+    try {
+      await fetch('/api/rigs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(createRigFile(rig)),
+      });
+    } catch (error) {
+      console.warn('Could not save rig on the server:', error);
+    }
+  }
+
+  private saveToStorage(): void {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.getRigs().map(createRigFile)));
+  }
+
+  private loadFromStorage(): void {
+    if (typeof window === 'undefined') return;
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) return;
+    try {
+      const files = JSON.parse(data) as unknown[];
+      registerUserRigs(
+        files
+          .map((file) => parseRigFile(file).rig)
+          .filter((rig): rig is CharacterRig => rig !== null)
+      );
+    } catch {
+      // Invalid data, start fresh
+    }
+  }
+}
+
+// Singleton
+let rigLibrary: RigLibrary | null = null;
+
+export function getRigLibrary(): RigLibrary {
+  if (!rigLibrary) {
+    rigLibrary = new RigLibrary();
+  }
+  return rigLibrary;
+}
+
+// User rigs, re-rendering when the library changes. Syncs with the server once per page load.
+let hasSynced = false;
+
+export function useUserRigs(): CharacterRig[] {
+  const [rigs, setRigs] = useState<CharacterRig[]>([]);
+
+  useEffect(() => {
+    const library = getRigLibrary();
+    setRigs(library.getRigs());
+    const unsubscribe = library.subscribe(setRigs);
+    if (!hasSynced) {
+      hasSynced = true;
+      void library.syncWithServer();
+    }
+    return unsubscribe;
+  }, []);
+
+  return rigs;
+}
@@ -0,0 +1,796 @@
+/**
+ * Collaborative Scene Document
+ * Conflict-free merging of concurrent edits to the EditableScene[] document.
+ *
+ * - Scene order, character order and dialogue lines are replicated growable arrays (RGA)
+ * - Narration and dialogue text are character-level RGA sequences
+ * - Every other field (transforms, background, camera, props...) is a last-writer-wins register
+ *
+ * Operations are idempotent and commute, so replicas converge no matter the delivery order.
+ * Operations that reference elements a replica hasn't seen yet are buffered until they arrive.
+ */
+
+import type { EditableScene, EditableCharacter } from '@/components/editors/InteractiveSceneEditor';
+
+// Lamport timestamp: counter first, replica id breaks ties deterministically
+export interface OpId {
+  c: number;
+  r: string;
+}
+
+export type SequencePath =
+  | { seq: 'scenes' }
+  | { seq: 'narration'; sceneId: string }
+  | { seq: 'characters'; sceneId: string }
+  | { seq: 'dialogue'; sceneId: string }
+  | { seq: 'dialogue-text'; sceneId: string; lineId: string };
+
+export type FieldPath =
+  | { entity: 'scene'; sceneId: string; field: string }
+  | { entity: 'character'; sceneId: string; characterId: string; field: string }
+  | { entity: 'dialogue'; sceneId: string; lineId: string; field: 'speaker' };
+
+export type DocOperation =
+  | { kind: 'insert'; id: OpId; path: SequencePath; after: string | null; value: string }
+  | { kind: 'remove'; id: OpId; path: SequencePath; target: string }
+  | { kind: 'set'; id: OpId; path: FieldPath; value: any };
+
+interface Register {
+  value: any;
+  ts: OpId;
+}
+
+interface SequenceNode {
+  key: string;
+  id: OpId;
+  after: string | null;
+  value: string;
+  visible: Register;
+}
+
+interface SequenceState {
+  nodes: Record<string, SequenceNode>;
+}
+
+interface DialogueLineState {
+  speaker: Register | null;
+  text: SequenceState;
+}
+
+// Omit that distributes over the operation union
+type UnidentifiedOperation<T = DocOperation> = T extends DocOperation ? Omit<T, 'id'> : never;
+
+type Emit = (operation: UnidentifiedOperation, id?: OpId) => DocOperation;
+
+interface SceneEntityState {
+  fields: Record<string, Register>;
+  narration: SequenceState;
+  characters: SequenceState;
+  characterFields: Record<string, Record<string, Register>>;
+  dialogue: SequenceState;
+  dialogueLines: Record<string, DialogueLineState>;
+}
+
+// Serializable document state (sent as the collaboration sync snapshot)
+export interface SceneDocumentState {
+  version: 1;
+  clock: number;
+  scenes: SequenceState;
+  entities: Record<string, SceneEntityState>;
+  applied: string[];
+}
+
+// Scene fields stored as LWW registers (narration, characters and dialogue are sequences)
+const SCENE_REGISTER_FIELDS = [
+  'title',
+  'background',
+  'duration',
+  'cameraZoom',
+  'cameraPanX',
+  'cameraPanY',
+  'mood',
+  'props',
+  'cameraKeyframes',
+] as const;
+
+export function compareOpIds(a: OpId, b: OpId): number {
+  if (a.c !== b.c) return a.c - b.c;
+  return a.r < b.r ? -1 : a.r > b.r ? 1 : 0;
+}
+
+export function opIdKey(id: OpId): string {
+  return `${id.c}@${id.r}`;
+}
+
+function isEqualValue(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function cloneValue<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function createSequence(): SequenceState {
+  return { nodes: {} };
+}
+
+function createEntity(): SceneEntityState {
+  return {
+    fields: {},
+    narration: createSequence(),
+    characters: createSequence(),
+    characterFields: {},
+    dialogue: createSequence(),
+    dialogueLines: {},
+  };
+}
+
+// Set a register if the timestamp is newer. Returns the (possibly new) register.
+function writeRegister(register: Register | null | undefined, value: any, ts: OpId): Register {
+  if (register && compareOpIds(ts, register.ts) <= 0) return register;
+  return { value: cloneValue(value), ts };
+}
+
+/**
+ * RGA traversal: children of a node are the elements inserted directly after it,
+ * newest first. A pre-order walk yields the sequence order.
+ */
+function sequenceOrder(sequence: SequenceState): SequenceNode[] {
+  const children: Record<string, SequenceNode[]> = {};
+  Object.values(sequence.nodes).forEach((node) => {
+    const parent = node.after ?? '';
+    (children[parent] ||= []).push(node);
+  });
+  Object.values(children).forEach((list) => list.sort((a, b) => compareOpIds(b.id, a.id)));
+
+  const ordered: SequenceNode[] = [];
+  const stack: SequenceNode[] = [...(children[''] || [])].reverse();
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    ordered.push(node);
+    const nested = children[node.key];
+    if (nested) {
+      for (let i = nested.length - 1; i >= 0; i--) stack.push(nested[i]);
+    }
+  }
+  return ordered;
+}
+
+function visibleNodes(sequence: SequenceState): SequenceNode[] {
+  return sequenceOrder(sequence).filter((node) => node.visible.value);
+}
+
+/**
+ * Visible entity ids in order. An entity moved concurrently by two replicas can be
+ * present twice; the newest insertion wins so every replica picks the same one.
+ */
+function visibleEntities(sequence: SequenceState): { key: string; value: string }[] {
+  const nodes = visibleNodes(sequence);
+  const winner: Record<string, SequenceNode> = {};
+  nodes.forEach((node) => {
+    const current = winner[node.value];
+    if (!current || compareOpIds(node.id, current.id) > 0) winner[node.value] = node;
+  });
+  return nodes.filter((node) => winner[node.value] === node).map((node) => ({ key: node.key, value: node.value }));
+}
+
+function sequenceText(sequence: SequenceState): string {
+  return visibleNodes(sequence).map((node) => node.value).join('');
+}
+
+// Longest common subsequence of two id lists (lists here are small)
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const common = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+}
+
+// Common prefix/suffix diff: replace before[start, start + removed) with inserted
+export function diffText(before: string, after: string): { start: number; removed: number; inserted: string } {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let suffix = 0;
+  while (
+    suffix < before.length - start &&
+    suffix < after.length - start &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  return {
+    start,
+    removed: before.length - start - suffix,
+    inserted: after.slice(start, after.length - suffix),
+  };
+}
+
+/**
+ * Replicated EditableScene[] document
+ */
+export class SceneDocument {
+  private replicaId: string;
+  private state: SceneDocumentState;
+  private applied: Set<string>;
+  private buffered: DocOperation[] = [];
+  // Local operations no snapshot has included yet; re-applied when a snapshot is loaded
+  private unacknowledged: DocOperation[] = [];
+
+  constructor(replicaId: string, state?: SceneDocumentState) {
+    this.replicaId = replicaId;
+    this.state = state
+      ? cloneValue(state)
+      : { version: 1, clock: 0, scenes: createSequence(), entities: {}, applied: [] };
+    this.applied = new Set(this.state.applied);
+  }
+
+  /**
+   * Create a document seeded with existing scenes (only the first replica should do this;
+   * everyone else loads its state from the sync snapshot)
+   */
+  static fromScenes(replicaId: string, scenes: EditableScene[]): { document: SceneDocument; operations: DocOperation[] } {
+    const document = new SceneDocument(replicaId);
+    const operations = document.applyLocalChange(scenes);
+    // The seed is the starting state, not an edit to carry over into someone else's document
+    document.unacknowledged = [];
+    return { document, operations };
+  }
+
+  getReplicaId(): string {
+    return this.replicaId;
+  }
+
+  /**
+   * Serializable state for sync snapshots
+   */
+  toJSON(): SceneDocumentState {
+    return cloneValue({ ...this.state, applied: Array.from(this.applied) });
+  }
+
+  /**
+   * Replace local state with a snapshot, then re-apply the local edits it doesn't
+   * include yet (e.g. made while offline) and anything we had buffered
+   */
+  load(state: SceneDocumentState): EditableScene[] {
+    const applied = new Set(state.applied);
+    this.unacknowledged = this.unacknowledged.filter((operation) => !applied.has(opIdKey(operation.id)));
+    const pending = [...this.unacknowledged, ...this.buffered];
+    this.state = cloneValue(state);
+    this.applied = applied;
+    this.buffered = [];
+    if (pending.length > 0) this.applyRemote(pending);
+    return this.getScenes();
+  }
+
+  /**
+   * Forget local operations the server now has (all of them when none are given,
+   * e.g. after publishing this document)
+   */
+  acknowledge(operations?: DocOperation[]): void {
+    if (!operations) {
+      this.unacknowledged = [];
+      return;
+    }
+    const keys = new Set(operations.map((operation) => opIdKey(operation.id)));
+    this.unacknowledged = this.unacknowledged.filter((operation) => !keys.has(opIdKey(operation.id)));
+  }
+
+  /**
+   * Local operations a loaded snapshot would not include yet
+   */
+  getUnacknowledgedCount(): number {
+    return this.unacknowledged.length;
+  }
+
+  /**
+   * Operations waiting for elements this replica hasn't received yet
+   */
+  getBufferedCount(): number {
+    return this.buffered.length;
+  }
+
+  /**
+   * Materialize the document as editor scenes
+   */
+  getScenes(): EditableScene[] {
+    return visibleEntities(this.state.scenes)
+      .map(({ value: sceneId }) => this.materializeScene(sceneId))
+      .filter((scene): scene is EditableScene => scene !== null);
+  }
+
+  /**
+   * Apply operations from other replicas. Duplicates are ignored; operations with
+   * missing dependencies are buffered and retried as new operations arrive.
+   */
+  applyRemote(operations: DocOperation[]): EditableScene[] {
+    let queue = [...this.buffered, ...operations];
+    this.buffered = [];
+
+    let progressed = true;
+    while (progressed && queue.length > 0) {
+      progressed = false;
+      const waiting: DocOperation[] = [];
+      queue.forEach((operation) => {
+        const key = opIdKey(operation.id);
+        if (this.applied.has(key)) return;
+        if (this.integrate(operation)) {
+          progressed = true;
+        } else {
+          waiting.push(operation);
+        }
+      });
+      queue = waiting;
+    }
+
+    this.buffered = queue;
+    return this.getScenes();
+  }
+
+  /**
+   * Diff the current document against the editor's new scenes and return the
+   * operations that describe the change (already applied locally).
+   */
+  applyLocalChange(next: EditableScene[]): DocOperation[] {
+    const operations: DocOperation[] = [];
+    const emit: Emit = (operation, id = this.nextId()) => {
+      const full = { ...operation, id } as DocOperation;
+      this.integrate(full);
+      operations.push(full);
+      return full;
+    };
+
+    const current = new Map(this.getScenes().map((scene) => [scene.id, scene]));
+    const nextIds = next.map((scene) => scene.id);
+
+    this.diffEntityList({ seq: 'scenes' }, this.state.scenes, nextIds, emit);
+
+    next.forEach((scene) => {
+      const previous = current.get(scene.id);
+      this.diffScene(previous ?? null, scene, emit);
+    });
+
+    this.unacknowledged.push(...operations);
+    return operations;
+  }
+
+  // Integration
+
+  private integrate(operation: DocOperation): boolean {
+    const key = opIdKey(operation.id);
+    if (this.applied.has(key)) return true;
+
+    let ok = false;
+    if (operation.kind === 'set') {
+      ok = this.integrateSet(operation.path, operation.value, operation.id);
+    } else {
+      const sequence = this.resolveSequence(operation.path);
+      ok = operation.kind === 'insert'
+        ? this.integrateInsert(sequence, operation.id, operation.after, operation.value)
+        : this.integrateRemove(sequence, operation.target, operation.id);
+    }
+
+    if (ok) {
+      this.applied.add(key);
+      this.state.clock = Math.max(this.state.clock, operation.id.c);
+    }
+    return ok;
+  }
+
+  private integrateInsert(sequence: SequenceState, id: OpId, after: string | null, value: string): boolean {
+    const key = opIdKey(id);
+    if (sequence.nodes[key]) return true;
+    if (after !== null && !sequence.nodes[after]) return false;
+    sequence.nodes[key] = { key, id, after, value, visible: { value: true, ts: id } };
+    return true;
+  }
+
+  private integrateRemove(sequence: SequenceState, target: string, id: OpId): boolean {
+    const node = sequence.nodes[target];
+    if (!node) return false;
+    node.visible = writeRegister(node.visible, false, id);
+    return true;
+  }
+
+  private integrateSet(path: FieldPath, value: any, id: OpId): boolean {
+    const entity = this.ensureEntity(path.sceneId);
+    if (path.entity === 'scene') {
+      entity.fields[path.field] = writeRegister(entity.fields[path.field], value, id);
+    } else if (path.entity === 'character') {
+      const fields = (entity.characterFields[path.characterId] ||= {});
+      fields[path.field] = writeRegister(fields[path.field], value, id);
+    } else {
+      const line = this.ensureDialogueLine(entity, path.lineId);
+      line.speaker = writeRegister(line.speaker, value, id);
+    }
+    return true;
+  }
+
+  private resolveSequence(path: SequencePath): SequenceState {
+    if (path.seq === 'scenes') return this.state.scenes;
+    const entity = this.ensureEntity(path.sceneId);
+    switch (path.seq) {
+      case 'narration':
+        return entity.narration;
+      case 'characters':
+        return entity.characters;
+      case 'dialogue':
+        return entity.dialogue;
+      case 'dialogue-text':
+        return this.ensureDialogueLine(entity, path.lineId).text;
+    }
+  }
+
+  private ensureEntity(sceneId: string): SceneEntityState {
+    return (this.state.entities[sceneId] ||= createEntity());
+  }
+
+  private ensureDialogueLine(entity: SceneEntityState, lineId: string): DialogueLineState {
+    return (entity.dialogueLines[lineId] ||= { speaker: null, text: createSequence() });
+  }
+
+  private nextId(): OpId {
+    this.state.clock += 1;
+    return { c: this.state.clock, r: this.replicaId };
+  }
+
+  // Materialization
+
+  private materializeScene(sceneId: string): EditableScene | null {
+    const entity = this.state.entities[sceneId];
+    if (!entity) return null;
+
+    const scene: any = { id: sceneId };
+    SCENE_REGISTER_FIELDS.forEach((field) => {
+      const register = entity.fields[field];
+      if (register && register.value !== undefined) scene[field] = cloneValue(register.value);
+    });
+    scene.title = scene.title ?? '';
+    scene.background = scene.background ?? 'meadow';
+    scene.duration = scene.duration ?? 5000;
+    scene.narration = sequenceText(entity.narration);
+
+    scene.characters = visibleEntities(entity.characters).map(({ value: characterId }) => {
+      const character: any = { id: characterId };
+      // Sorted so every replica materializes identical objects regardless of arrival order
+      const fields = entity.characterFields[characterId] || {};
+      Object.keys(fields).sort().forEach((field) => {
+        if (fields[field].value !== undefined) character[field] = cloneValue(fields[field].value);
+      });
+      return character as EditableCharacter;
+    });
+
+    const lines = visibleEntities(entity.dialogue);
+    if (lines.length > 0 || entity.fields.hasDialogue?.value) {
+      scene.dialogue = lines.map(({ value: lineId }) => {
+        const line = entity.dialogueLines[lineId];
+        return { speaker: line?.speaker?.value ?? '', text: line ? sequenceText(line.text) : '' };
+      });
+    }
+
+    return scene as EditableScene;
+  }
+
+  // Local diffing
+
+  private diffScene(
+    previous: EditableScene | null,
+    scene: EditableScene,
+    emit: Emit
+  ): void {
+    const entity = this.ensureEntity(scene.id);
+
+    SCENE_REGISTER_FIELDS.forEach((field) => {
+      const value = (scene as any)[field];
+      if (!previous || !isEqualValue((previous as any)[field], value)) {
+        if (previous || value !== undefined) {
+          emit({ kind: 'set', path: { entity: 'scene', sceneId: scene.id, field }, value });
+        }
+      }
+    });
+
+    this.diffText({ seq: 'narration', sceneId: scene.id }, entity.narration, scene.narration || '', emit);
+
+    // Characters: order as a sequence, every other field as LWW registers
+    const characters = scene.characters || [];
+    this.diffEntityList(
+      { seq: 'characters', sceneId: scene.id },
+      entity.characters,
+      characters.map((character) => character.id),
+      emit
+    );
+    const previousCharacters = new Map((previous?.characters || []).map((character) => [character.id, character]));
+    characters.forEach((character) => {
+      const before = previousCharacters.get(character.id);
+      Object.entries(character).forEach(([field, value]) => {
+        if (field === 'id' || (!before && value === undefined)) return;
+        if (!before || !isEqualValue((before as any)[field], value)) {
+          emit({ kind: 'set', path: { entity: 'character', sceneId: scene.id, characterId: character.id, field }, value });
+        }
+      });
+      if (before) {
+        Object.keys(before).forEach((field) => {
+          if (field !== 'id' && !(field in character)) {
+            emit({ kind: 'set', path: { entity: 'character', sceneId: scene.id, characterId: character.id, field }, value: undefined });
+          }
+        });
+      }
+    });
+
+    this.diffDialogue(previous, scene, entity, emit);
+  }
+
+  /**
+   * Dialogue lines carry no ids in the editor, so lines are matched by position:
+   * shared positions diff speaker/text, extra lines are appended or removed.
+   */
+  private diffDialogue(
+    previous: EditableScene | null,
+    scene: EditableScene,
+    entity: SceneEntityState,
+    emit: Emit
+  ): void {
+    const nextLines = scene.dialogue;
+    if (!nextLines && !previous?.dialogue) return;
+
+    if (!previous?.dialogue && nextLines && !entity.fields.hasDialogue?.value) {
+      emit({ kind: 'set', path: { entity: 'scene', sceneId: scene.id, field: 'hasDialogue' }, value: true });
+    }
+
+    const existing = visibleEntities(entity.dialogue);
+    const lines = nextLines || [];
+
+    lines.forEach((line, index) => {
+      let lineId: string;
+      if (index < existing.length) {
+        lineId = existing[index].value;
+      } else {
+        // A new line's id is the id of the operation that inserts it
+        const id = this.nextId();
+        lineId = opIdKey(id);
+        emit({ kind: 'insert', path: { seq: 'dialogue', sceneId: scene.id }, after: this.lastDialogueKey(entity), value: lineId }, id);
+      }
+
+      const state = this.ensureDialogueLine(entity, lineId);
+      if (state.speaker?.value !== line.speaker) {
+        emit({ kind: 'set', path: { entity: 'dialogue', sceneId: scene.id, lineId, field: 'speaker' }, value: line.speaker });
+      }
+      this.diffText({ seq: 'dialogue-text', sceneId: scene.id, lineId }, state.text, line.text || '', emit);
+    });
+
+    existing.slice(lines.length).forEach(({ key }) => {
+      emit({ kind: 'remove', path: { seq: 'dialogue', sceneId: scene.id }, target: key });
+    });
+  }
+
+  private lastDialogueKey(entity: SceneEntityState): string | null {
+    const ordered = visibleEntities(entity.dialogue);
+    return ordered.length > 0 ? ordered[ordered.length - 1].key : null;
+  }
+
+  /**
+   * Turn the current visible order of an entity sequence into `nextIds`.
+   * Entities that keep their relative order stay put; moved entities are removed
+   * and re-inserted at their new position.
+   */
+  private diffEntityList(
+    path: SequencePath,
+    sequence: SequenceState,
+    nextIds: string[],
+    emit: Emit
+  ): void {
+    const current = visibleEntities(sequence);
+    const currentIds = current.map((entry) => entry.value);
+    const keep = longestCommonSubsequence(currentIds, nextIds);
+
+    current.forEach((entry) => {
+      if (!keep.has(entry.value)) {
+        emit({ kind: 'remove', path, target: entry.key });
+      }
+    });
+
+    const keyOf = new Map(current.map((entry) => [entry.value, entry.key]));
+    let previousKey: string | null = null;
+    nextIds.forEach((id) => {
+      if (keep.has(id)) {
+        previousKey = keyOf.get(id)!;
+        return;
+      }
+      const inserted = emit({ kind: 'insert', path, after: previousKey, value: id });
+      previousKey = opIdKey(inserted.id);
+    });
+  }
+
+  private diffText(
+    path: SequencePath,
+    sequence: SequenceState,
+    next: string,
+    emit: Emit
+  ): void {
+    const nodes = visibleNodes(sequence);
+    const current = nodes.map((node) => node.value).join('');
+    if (current === next) return;
+
+    const { start, removed, inserted } = diffText(current, next);
+    nodes.slice(start, start + removed).forEach((node) => {
+      emit({ kind: 'remove', path, target: node.key });
+    });
+
+    let previousKey: string | null = start > 0 ? nodes[start - 1].key : null;
+    Array.from(inserted).forEach((char) => {
+      const operation = emit({ kind: 'insert', path, after: previousKey, value: char });
+      previousKey = opIdKey(operation.id);
+    });
+  }
+}
+
+// -------- Snapshot rebasing (used to keep undo history in step with remote edits) --------
+
+export type SceneChange =
+  | { type: 'scene-field'; sceneId: string; field: string; value: any }
+  | { type: 'narration'; sceneId: string; before: string; after: string }
+  | { type: 'dialogue'; sceneId: string; value: EditableScene['dialogue'] }
+  | { type: 'character-field'; sceneId: string; characterId: string; field: string; value: any }
+  | { type: 'character-add'; sceneId: string; character: EditableCharacter; afterId: string | null }
+  | { type: 'character-remove'; sceneId: string; characterId: string }
+  | { type: 'scene-add'; scene: EditableScene; afterId: string | null }
+  | { type: 'scene-remove'; sceneId: string };
+
+/**
+ * Describe how a remote merge changed the materialized scenes
+ */
+export function diffScenes(before: EditableScene[], after: EditableScene[]): SceneChange[] {
+  const changes: SceneChange[] = [];
+  const beforeMap = new Map(before.map((scene) => [scene.id, scene]));
+  const afterIds = new Set(after.map((scene) => scene.id));
+
+  before.forEach((scene) => {
+    if (!afterIds.has(scene.id)) changes.push({ type: 'scene-remove', sceneId: scene.id });
+  });
+
+  after.forEach((scene, index) => {
+    const previous = beforeMap.get(scene.id);
+    if (!previous) {
+      changes.push({ type: 'scene-add', scene: cloneValue(scene), afterId: index > 0 ? after[index - 1].id : null });
+      return;
+    }
+    changes.push(...diffScene(previous, scene));
+  });
+
+  return changes;
+}
+
+function diffScene(before: EditableScene, after: EditableScene): SceneChange[] {
+  const changes: SceneChange[] = [];
+  const sceneId = after.id;
+
+  SCENE_REGISTER_FIELDS.forEach((field) => {
+    if (!isEqualValue((before as any)[field], (after as any)[field])) {
+      changes.push({ type: 'scene-field', sceneId, field, value: cloneValue((after as any)[field]) });
+    }
+  });
+  if (before.narration !== after.narration) {
+    changes.push({ type: 'narration', sceneId, before: before.narration, after: after.narration });
+  }
+  if (!isEqualValue(before.dialogue, after.dialogue)) {
+    changes.push({ type: 'dialogue', sceneId, value: cloneValue(after.dialogue) });
+  }
+
+  const beforeCharacters = new Map(before.characters.map((character) => [character.id, character]));
+  const afterCharacterIds = new Set(after.characters.map((character) => character.id));
+  before.characters.forEach((character) => {
+    if (!afterCharacterIds.has(character.id)) changes.push({ type: 'character-remove', sceneId, characterId: character.id });
+  });
+  after.characters.forEach((character, index) => {
+    const previous = beforeCharacters.get(character.id);
+    if (!previous) {
+      changes.push({
+        type: 'character-add',
+        sceneId,
+        character: cloneValue(character),
+        afterId: index > 0 ? after.characters[index - 1].id : null,
+      });
+      return;
+    }
+    const fields = new Set([...Object.keys(previous), ...Object.keys(character)]);
+    fields.forEach((field) => {
+      if (field !== 'id' && !isEqualValue((previous as any)[field], (character as any)[field])) {
+        changes.push({ type: 'character-field', sceneId, characterId: character.id, field, value: cloneValue((character as any)[field]) });
+      }
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Apply a text change made elsewhere to a different version of the same text.
+ * Falls back to the changed text when the edited region can't be located.
+ */
+export function rebaseText(text: string, before: string, after: string): string {
+  if (text === before) return after;
+  const { start, removed, inserted } = diffText(before, after);
+  const prefix = before.slice(0, start);
+  const replaced = before.slice(start, start + removed);
+  const suffix = before.slice(start + removed);
+
+  // Anchor the edit on the unchanged text in front of it, or failing that behind it
+  if (text.startsWith(prefix + replaced)) {
+    return prefix + inserted + text.slice(prefix.length + replaced.length);
+  }
+  if (text.endsWith(replaced + suffix)) {
+    return text.slice(0, text.length - replaced.length - suffix.length) + inserted + suffix;
+  }
+  return after;
+}
+
+function insertAfter<T extends { id: string }>(list: T[], item: T, afterId: string | null): T[] {
+  if (list.some((entry) => entry.id === item.id)) return list;
+  const index = afterId === null ? 0 : list.findIndex((entry) => entry.id === afterId) + 1;
+  const position = afterId !== null && index === 0 ? list.length : index;
+  return [...list.slice(0, position), item, ...list.slice(position)];
+}
+
+/**
+ * Apply remote changes to a single scene snapshot
+ */
+export function applySceneChanges(scene: EditableScene, changes: SceneChange[]): EditableScene {
+  let result: EditableScene = cloneValue(scene);
+  changes.forEach((change) => {
+    if (!('sceneId' in change) || change.sceneId !== result.id) return;
+    switch (change.type) {
+      case 'scene-field':
+        (result as any)[change.field] = cloneValue(change.value);
+        break;
+      case 'narration':
+        result.narration = rebaseText(result.narration, change.before, change.after);
+        break;
+      case 'dialogue':
+        result.dialogue = cloneValue(change.value);
+        break;
+      case 'character-field':
+        result.characters = result.characters.map((character) =>
+          character.id === change.characterId ? { ...character, [change.field]: cloneValue(change.value) } : character
+        );
+        break;
+      case 'character-add':
+        result.characters = insertAfter(result.characters, cloneValue(change.character), change.afterId);
+        break;
+      case 'character-remove':
+        result.characters = result.characters.filter((character) => character.id !== change.characterId);
+        break;
+    }
+  });
+  return result;
+}
+
+/**
+ * Apply remote changes to a whole-project snapshot
+ */
+export function applySceneListChanges(scenes: EditableScene[], changes: SceneChange[]): EditableScene[] {
+  let result = scenes.map((scene) => applySceneChanges(scene, changes));
+  changes.forEach((change) => {
+    if (change.type === 'scene-remove') {
+      result = result.filter((scene) => scene.id !== change.sceneId);
+    } else if (change.type === 'scene-add') {
+      result = insertAfter(result, cloneValue(change.scene), change.afterId);
+    }
+  });
+  return result;
+}
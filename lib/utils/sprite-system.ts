@@ -860,10 +860,40 @@ export const CHARACTER_RIGS: CharacterRig[] = [
   }, 'A fluffy white bunny'),
 ];
 
+// Rigs imported by users (see rig-library), resolved after the built-in ones
+const userRigs = new Map<string, CharacterRig>();
+
+// Add or replace user rigs; ids of built-in rigs can't be taken over
+export function registerUserRigs(rigs: CharacterRig[]): void {
+  rigs.forEach((rig) => {
+    if (!isBuiltInRigId(rig.id)) {
+      userRigs.set(rig.id.toLowerCase(), rig);
+    }
+  });
+}
+
+export function unregisterUserRig(id: string): void {
+  userRigs.delete(id.toLowerCase());
+}
+
+export function getUserRigs(): CharacterRig[] {
+  return Array.from(userRigs.values());
+}
+
+// Built-in rigs followed by user rigs
+export function getAllCharacterRigs(): CharacterRig[] {
+  return [...CHARACTER_RIGS, ...getUserRigs()];
+}
+
+export function isBuiltInRigId(id: string): boolean {
+  const lowerId = id.toLowerCase();
+  return CHARACTER_RIGS.some(rig => rig.id.toLowerCase() === lowerId);
+}
+
 // Get character rig by ID or name
 export function getCharacterRig(identifier: string): CharacterRig | undefined {
   const lowerIdentifier = identifier.toLowerCase();
-  return CHARACTER_RIGS.find(
+  return getAllCharacterRigs().find(
     rig => rig.id.toLowerCase() === lowerIdentifier || 
            rig.name.toLowerCase() === lowerIdentifier
   );
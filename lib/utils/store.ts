@@ -11,7 +11,8 @@ import type {
   CharacterAnimation,
   Keyframe,
 } from './types';
-import { CHARACTER_TEMPLATES, BACKGROUND_TEMPLATES } from './templates';
+import { BACKGROUND_TEMPLATES } from './templates';
+import { getCharacterRegistry } from './character-registry';
 
 // Default project
 const createDefaultProject = (): Project => ({
@@ -182,7 +183,7 @@ interface StudioStore {
   duplicateScene: (sceneId: string) => void;
   
   // Character actions
-  addCharacter: (sceneId: string, templateId: string) => void;
+  addCharacter: (sceneId: string, characterId: string) => void;
   addCharacterToScene: (sceneId: string, character: CharacterInstance) => void;
   updateCharacter: (sceneId: string, characterId: string, updates: Partial<CharacterInstance>) => void;
   removeCharacter: (sceneId: string, characterId: string) => void;
@@ -364,8 +365,8 @@ export const useStudioStore = create<StudioStore>()(
       })),
 
       // Character actions
-      addCharacter: (sceneId, templateId) => set((state) => {
-        const template = CHARACTER_TEMPLATES.find((t) => t.id === templateId);
+      addCharacter: (sceneId, characterId) => set((state) => {
+        const template = getCharacterRegistry().getTemplate(characterId);
         if (!template) return {};
         
         const scene = state.project.scenes.find((s) => s.id === sceneId);
@@ -373,7 +374,7 @@ export const useStudioStore = create<StudioStore>()(
         
         const newCharacter: CharacterInstance = {
           id: uuidv4(),
-          templateId,
+          templateId: template.id,
           name: template.displayName,
           x: 50,
           y: 70,
@@ -0,0 +1,436 @@
+/**
+ * Story Branching Analyzer
+ * Static checks over a branching story graph: broken links, unreachable nodes,
+ * dead ends, closed loops, and conditions that can never be met
+ */
+
+import type {
+  BranchingStory,
+  StoryChoice,
+  StoryCondition,
+  StoryNode,
+} from '@/lib/utils/story-branching';
+
+export type BranchingIssueType =
+  | 'missing_start'
+  | 'missing_target'
+  | 'missing_scene'
+  | 'unreachable'
+  | 'dead_end'
+  | 'closed_cycle'
+  | 'undefined_variable'
+  | 'impossible_condition'
+  | 'unreachable_ending';
+
+export interface BranchingIssue {
+  type: BranchingIssueType;
+  severity: 'error' | 'warning';
+  nodeId?: string;
+  choiceId?: string;
+  message: string;
+}
+
+export interface EndingReachability {
+  endingId: string;
+  title: string;
+  reachable: boolean;
+  path: string[]; // Example route from the start node, empty when unreachable
+}
+
+export interface BranchingAnalysis {
+  issues: BranchingIssue[];
+  endings: EndingReachability[];
+  reachableNodeIds: string[];
+}
+
+export interface BranchingAnalysisOptions {
+  // Project scene titles by scene id; enables missing-scene checks and readable messages
+  sceneTitles?: Record<string, string>;
+}
+
+type Value = number | string | boolean;
+
+// What a variable can hold anywhere in the story
+interface VariableRange {
+  declared: boolean;
+  values: Set<Value>; // Exact values (default + set_variable)
+  min: number; // Numeric bounds once increments/decrements are applied
+  max: number;
+  numericDrift: boolean;
+}
+
+interface Edge {
+  to: string;
+  choice?: StoryChoice;
+}
+
+function nodeLabel(node: StoryNode | undefined, id: string, sceneTitles?: Record<string, string>): string {
+  if (!node) return `"${id}"`;
+  if (node.type === 'ending') return `ending "${node.endingTitle || id}"`;
+  if (node.type === 'choice') return `choice "${node.prompt || id}"`;
+  const title = (node.sceneId && sceneTitles?.[node.sceneId]) || node.scene?.title;
+  return title ? `scene "${title}"` : `${node.type} "${id}"`;
+}
+
+function getEdges(node: StoryNode): Edge[] {
+  const edges: Edge[] = [];
+  if (node.nextNodeId) edges.push({ to: node.nextNodeId });
+  if (node.type === 'choice') {
+    for (const choice of node.choices || []) {
+      edges.push({ to: choice.targetNodeId, choice });
+    }
+  }
+  return edges;
+}
+
+function collectVariableRanges(story: BranchingStory): Map<string, VariableRange> {
+  const ranges = new Map<string, VariableRange>();
+  const get = (name: string): VariableRange => {
+    let range = ranges.get(name);
+    if (!range) {
+      range = { declared: false, values: new Set(), min: Infinity, max: -Infinity, numericDrift: false };
+      ranges.set(name, range);
+    }
+    return range;
+  };
+
+  for (const variable of story.variables) {
+    const range = get(variable.name);
+    range.declared = true;
+    range.values.add(variable.defaultValue);
+  }
+
+  story.nodes.forEach((node) => {
+    for (const choice of node.choices || []) {
+      for (const effect of choice.effects || []) {
+        if (!effect.variable) continue;
+        const range = get(effect.variable);
+        if (effect.type === 'set_variable' && effect.value !== undefined) {
+          range.values.add(effect.value);
+        } else if (effect.type === 'increment' || effect.type === 'decrement') {
+          const step = typeof effect.value === 'number' ? effect.value : 1;
+          const up = effect.type === 'increment' ? step : -step;
+          range.numericDrift = true;
+          if (up > 0) range.max = Infinity;
+          if (up < 0) range.min = -Infinity;
+        }
+      }
+    }
+  });
+
+  ranges.forEach((range) => {
+    for (const value of Array.from(range.values)) {
+      if (typeof value !== 'number') continue;
+      range.min = Math.min(range.min, value);
+      range.max = Math.max(range.max, value);
+    }
+  });
+
+  return ranges;
+}
+
+const formatBound = (bound: number) => (bound === Infinity ? '∞' : bound === -Infinity ? '-∞' : String(bound));
+
+function compare(value: Value, operator: StoryCondition['operator'], target: Value): boolean {
+  switch (operator) {
+    case '==': return value === target;
+    case '!=': return value !== target;
+    case '>': return typeof value === 'number' && typeof target === 'number' && value > target;
+    case '<': return typeof value === 'number' && typeof target === 'number' && value < target;
+    case '>=': return typeof value === 'number' && typeof target === 'number' && value >= target;
+    case '<=': return typeof value === 'number' && typeof target === 'number' && value <= target;
+    default: return false;
+  }
+}
+
+// Can any value the variable may hold satisfy the comparison?
+function canSatisfy(range: VariableRange, operator: StoryCondition['operator'], target: Value): boolean {
+  if (Array.from(range.values).some((value) => compare(value, operator, target))) return true;
+  if (!range.numericDrift || typeof target !== 'number') return false;
+
+  // Increments and decrements reach any whole step between min and max
+  switch (operator) {
+    case '==': return target >= range.min && target <= range.max;
+    case '!=': return true;
+    case '>': return range.max > target;
+    case '>=': return range.max >= target;
+    case '<': return range.min < target;
+    case '<=': return range.min <= target;
+    default: return false;
+  }
+}
+
+/**
+ * Why a condition can never be true, or null when it might be
+ */
+function explainImpossible(
+  condition: StoryCondition,
+  story: BranchingStory,
+  ranges: Map<string, VariableRange>,
+  reachable: Set<string>
+): string | null {
+  switch (condition.type) {
+    case 'variable': {
+      if (!condition.variable) return 'it has no variable';
+      if (!condition.operator || condition.value === undefined) return 'it has no comparison';
+      const range = ranges.get(condition.variable);
+      if (!range || (range.values.size === 0 && !range.numericDrift)) return null; // reported as undefined
+      if (canSatisfy(range, condition.operator, condition.value)) return null;
+      const possible = range.numericDrift
+        ? `between ${formatBound(range.min)} and ${formatBound(range.max)}`
+        : Array.from(range.values).map((value) => JSON.stringify(value)).join(', ');
+      return `"${condition.variable}" is only ever ${possible}, so ${condition.variable} ${condition.operator} ${JSON.stringify(condition.value)} is never true`;
+    }
+    case 'visited':
+      if (!condition.nodeId || !story.nodes.has(condition.nodeId)) return `it checks a visit to missing node "${condition.nodeId ?? ''}"`;
+      if (!reachable.has(condition.nodeId)) return `"${condition.nodeId}" can never be visited`;
+      return null;
+    case 'choice_made': {
+      const node = condition.nodeId ? story.nodes.get(condition.nodeId) : undefined;
+      if (!node) return `it checks a choice on missing node "${condition.nodeId ?? ''}"`;
+      if (!node.choices?.some((choice) => choice.id === condition.choiceId)) {
+        return `"${condition.nodeId}" has no choice "${condition.choiceId ?? ''}"`;
+      }
+      if (!reachable.has(node.id)) return `"${condition.nodeId}" can never be reached`;
+      return null;
+    }
+    default:
+      return 'its type is unknown';
+  }
+}
+
+// Tarjan's strongly connected components over the given nodes
+function findStronglyConnected(ids: string[], edgesOf: (id: string) => string[]): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  const visit = (id: string) => {
+    indices.set(id, index);
+    lowLinks.set(id, index);
+    index++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const to of edgesOf(id)) {
+      if (!indices.has(to)) {
+        visit(to);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(to)!));
+      } else if (onStack.has(to)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(to)!));
+      }
+    }
+
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  for (const id of ids) {
+    if (!indices.has(id)) visit(id);
+  }
+  return components;
+}
+
+/**
+ * Analyze a branching story without playing it. Choices whose condition can
+ * never be true are treated as closed when working out what is reachable.
+ */
+export function analyzeBranchingStory(
+  story: BranchingStory,
+  options: BranchingAnalysisOptions = {}
+): BranchingAnalysis {
+  const { sceneTitles } = options;
+  const issues: BranchingIssue[] = [];
+  const label = (id: string) => nodeLabel(story.nodes.get(id), id, sceneTitles);
+  const ranges = collectVariableRanges(story);
+
+  if (!story.nodes.has(story.startNodeId)) {
+    issues.push({ type: 'missing_start', severity: 'error', message: `The start node "${story.startNodeId}" does not exist` });
+  }
+
+  // Broken links, missing scenes and undefined variables
+  const reportedVariables = new Set<string>();
+  story.nodes.forEach((node) => {
+    if (node.sceneId && sceneTitles && !(node.sceneId in sceneTitles)) {
+      issues.push({ type: 'missing_scene', severity: 'error', nodeId: node.id, message: `Node "${node.id}" plays a scene that was deleted` });
+    }
+    for (const edge of getEdges(node)) {
+      if (story.nodes.has(edge.to)) continue;
+      issues.push({
+        type: 'missing_target',
+        severity: 'error',
+        nodeId: node.id,
+        choiceId: edge.choice?.id,
+        message: edge.choice
+          ? `Choice "${edge.choice.text || edge.choice.id}" in ${label(node.id)} points to missing node "${edge.to}"`
+          : `${label(node.id)} continues to missing node "${edge.to}"`,
+      });
+    }
+    for (const choice of node.choices || []) {
+      const variable = choice.condition?.type === 'variable' ? choice.condition.variable : undefined;
+      if (!variable || reportedVariables.has(variable)) continue;
+      const range = ranges.get(variable);
+      if (!range || (!range.declared && range.values.size === 0 && !range.numericDrift)) {
+        reportedVariables.add(variable);
+        issues.push({
+          type: 'undefined_variable',
+          severity: 'error',
+          nodeId: node.id,
+          choiceId: choice.id,
+          message: `Variable "${variable}" is checked by choice "${choice.text || choice.id}" but never declared or set`,
+        });
+      } else if (!range.declared) {
+        reportedVariables.add(variable);
+        issues.push({
+          type: 'undefined_variable',
+          severity: 'warning',
+          nodeId: node.id,
+          choiceId: choice.id,
+          message: `Variable "${variable}" has no declared default, so it is unset until a choice sets it`,
+        });
+      }
+    }
+  });
+
+  // Reachability from the start, closing choices that can never be taken.
+  // Conditions on visits depend on reachability, so settle until stable.
+  let reachable = new Set<string>();
+  let closedChoices = new Map<string, string>(); // choice id -> reason
+  const parents = new Map<string, string>();
+  for (let pass = 0; pass < 3; pass++) {
+    const nextReachable = new Set<string>();
+    parents.clear();
+    const queue = story.nodes.has(story.startNodeId) ? [story.startNodeId] : [];
+    if (queue.length) nextReachable.add(story.startNodeId);
+
+    while (queue.length) {
+      const id = queue.shift()!;
+      for (const edge of getEdges(story.nodes.get(id)!)) {
+        if (edge.choice && closedChoices.has(edge.choice.id)) continue;
+        if (!story.nodes.has(edge.to) || nextReachable.has(edge.to)) continue;
+        nextReachable.add(edge.to);
+        parents.set(edge.to, id);
+        queue.push(edge.to);
+      }
+    }
+
+    const nextClosed = new Map<string, string>();
+    story.nodes.forEach((node) => {
+      for (const choice of node.choices || []) {
+        if (!choice.condition) continue;
+        const reason = explainImpossible(choice.condition, story, ranges, nextReachable);
+        if (reason) nextClosed.set(choice.id, reason);
+      }
+    });
+
+    const stable = nextClosed.size === closedChoices.size && nextReachable.size === reachable.size;
+    reachable = nextReachable;
+    closedChoices = nextClosed;
+    if (stable) break;
+  }
+
+  story.nodes.forEach((node) => {
+    for (const choice of node.choices || []) {
+      const reason = closedChoices.get(choice.id);
+      if (!reason) continue;
+      issues.push({
+        type: 'impossible_condition',
+        severity: 'warning',
+        nodeId: node.id,
+        choiceId: choice.id,
+        message: `Choice "${choice.text || choice.id}" in ${label(node.id)} can never be picked: ${reason}`,
+      });
+    }
+  });
+
+  story.nodes.forEach((node, id) => {
+    if (!reachable.has(id) && node.type !== 'ending') {
+      issues.push({ type: 'unreachable', severity: 'warning', nodeId: id, message: `${label(id)} can never be reached from the start` });
+    }
+  });
+
+  // Dead ends: reachable non-endings with nowhere to go
+  const openEdges = (id: string): string[] =>
+    getEdges(story.nodes.get(id)!)
+      .filter((edge) => !(edge.choice && closedChoices.has(edge.choice.id)) && story.nodes.has(edge.to))
+      .map((edge) => edge.to);
+
+  const reachableIds = Array.from(reachable);
+  for (const id of reachableIds) {
+    const node = story.nodes.get(id)!;
+    if (node.type === 'ending' || openEdges(id).length > 0) continue;
+    if (getEdges(node).some((edge) => !story.nodes.has(edge.to))) continue; // reported as a missing target
+    issues.push({
+      type: 'dead_end',
+      severity: 'warning',
+      nodeId: id,
+      message: node.type === 'choice'
+        ? `${label(id)} has no choices that can be picked`
+        : `${label(id)} stops without reaching an ending`,
+    });
+  }
+
+  // Loops the viewer can enter but never leave for an ending
+  const reachesEnding = new Set<string>();
+  const reverse = new Map<string, string[]>();
+  for (const id of reachableIds) {
+    for (const to of openEdges(id)) {
+      reverse.set(to, [...(reverse.get(to) || []), id]);
+    }
+  }
+  const endingQueue = reachableIds.filter((id) => story.nodes.get(id)!.type === 'ending');
+  endingQueue.forEach((id) => reachesEnding.add(id));
+  while (endingQueue.length) {
+    const id = endingQueue.shift()!;
+    for (const from of reverse.get(id) || []) {
+      if (reachesEnding.has(from)) continue;
+      reachesEnding.add(from);
+      endingQueue.push(from);
+    }
+  }
+
+  const trapped = reachableIds.filter((id) => !reachesEnding.has(id));
+  const trappedSet = new Set(trapped);
+  for (const component of findStronglyConnected(trapped, (id) => openEdges(id).filter((to) => trappedSet.has(to)))) {
+    const loops = component.length > 1 || openEdges(component[0]).includes(component[0]);
+    if (!loops) continue;
+    const first = component.find((id) => id === story.startNodeId) ?? component[component.length - 1];
+    issues.push({
+      type: 'closed_cycle',
+      severity: 'error',
+      nodeId: first,
+      message: `${component.map(label).join(' → ')} loop forever with no way to an ending`,
+    });
+  }
+
+  // Endings with an example route
+  const endings: EndingReachability[] = [];
+  story.nodes.forEach((node, id) => {
+    if (node.type !== 'ending') return;
+    const path: string[] = [];
+    if (reachable.has(id)) {
+      for (let at: string | undefined = id; at; at = parents.get(at)) path.unshift(at);
+    } else {
+      issues.push({
+        type: 'unreachable_ending',
+        severity: 'warning',
+        nodeId: id,
+        message: `Nobody can reach ${label(id)}`,
+      });
+    }
+    endings.push({ endingId: id, title: node.endingTitle || id, reachable: reachable.has(id), path });
+  });
+
+  return { issues, endings, reachableNodeIds: reachableIds };
+}
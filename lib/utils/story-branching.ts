@@ -33,6 +33,8 @@ export interface StoryNode {
   id: string;
   type: 'scene' | 'choice' | 'ending' | 'branch';
   scene?: Partial<EditableScene>;
+  sceneId?: string; // Project scene this node plays; takes precedence over `scene`
+  prompt?: string; // Question shown with the choices
   choices?: StoryChoice[];
   nextNodeId?: string; // For linear progression
   endingType?: 'good' | 'bad' | 'neutral' | 'secret';
@@ -68,6 +70,153 @@ export interface StoryState {
   history: string[]; // Node IDs in order visited
 }
 
+/**
+ * JSON-safe branching story, as stored with a project.
+ * Nodes that point at a project scene are stored by reference only.
+ */
+export interface SerializedBranchingStory {
+  version: number;
+  id: string;
+  title: string;
+  description: string;
+  startNodeId: string;
+  nodes: StoryNode[];
+  variables: StoryVariable[];
+  endings: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// JSON-safe StoryState, as kept in the viewer's browser
+export interface SerializedStoryState {
+  currentNodeId: string;
+  variables: Record<string, number | string | boolean>;
+  visitedNodes: string[];
+  choicesMade: Record<string, string>;
+  unlockedEndings: string[];
+  history: string[];
+}
+
+export const BRANCHING_FORMAT_VERSION = 1;
+
+const NODE_TYPES: StoryNode['type'][] = ['scene', 'choice', 'ending', 'branch'];
+const ENDING_TYPES: NonNullable<StoryNode['endingType']>[] = ['good', 'bad', 'neutral', 'secret'];
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+export function serializeBranchingStory(story: BranchingStory): SerializedBranchingStory {
+  return {
+    version: BRANCHING_FORMAT_VERSION,
+    id: story.id,
+    title: story.title,
+    description: story.description,
+    startNodeId: story.startNodeId,
+    nodes: Array.from(story.nodes.values()).map((node) => {
+      if (!node.sceneId) return { ...node };
+      const { scene: _scene, ...rest } = node;
+      return rest;
+    }),
+    variables: story.variables.map((variable) => ({ ...variable })),
+    endings: [...story.endings],
+    createdAt: story.createdAt,
+    updatedAt: story.updatedAt,
+  };
+}
+
+function deserializeNode(raw: unknown): StoryNode | null {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id) return null;
+
+  const node: StoryNode = {
+    id: raw.id,
+    type: NODE_TYPES.includes(raw.type) ? raw.type : 'scene',
+  };
+  if (typeof raw.sceneId === 'string') node.sceneId = raw.sceneId;
+  if (isRecord(raw.scene)) node.scene = raw.scene;
+  if (typeof raw.prompt === 'string') node.prompt = raw.prompt;
+  if (typeof raw.nextNodeId === 'string') node.nextNodeId = raw.nextNodeId;
+  if (ENDING_TYPES.includes(raw.endingType)) node.endingType = raw.endingType;
+  if (typeof raw.endingTitle === 'string') node.endingTitle = raw.endingTitle;
+  if (typeof raw.endingDescription === 'string') node.endingDescription = raw.endingDescription;
+  if (Array.isArray(raw.choices)) {
+    node.choices = raw.choices
+      .filter((choice: unknown) => isRecord(choice) && typeof choice.id === 'string' && typeof choice.targetNodeId === 'string')
+      .map((choice: any) => ({
+        id: choice.id,
+        text: typeof choice.text === 'string' ? choice.text : '',
+        targetNodeId: choice.targetNodeId,
+        ...(isRecord(choice.condition) ? { condition: choice.condition as StoryCondition } : {}),
+        ...(Array.isArray(choice.effects) ? { effects: choice.effects.filter(isRecord) as StoryEffect[] } : {}),
+      }));
+  }
+  return node;
+}
+
+/**
+ * Rebuild a BranchingStory from stored JSON. Returns null when the data is not
+ * a branching story or its start node is missing.
+ */
+export function deserializeBranchingStory(data: unknown): BranchingStory | null {
+  if (!isRecord(data) || !Array.isArray(data.nodes)) return null;
+
+  const nodes = new Map<string, StoryNode>();
+  for (const raw of data.nodes) {
+    const node = deserializeNode(raw);
+    if (node && !nodes.has(node.id)) nodes.set(node.id, node);
+  }
+
+  const startNodeId = typeof data.startNodeId === 'string' ? data.startNodeId : '';
+  if (!nodes.has(startNodeId)) return null;
+
+  const variables: StoryVariable[] = Array.isArray(data.variables)
+    ? data.variables.filter((v: unknown) => isRecord(v) && typeof v.name === 'string' && v.defaultValue !== undefined)
+    : [];
+
+  return {
+    id: typeof data.id === 'string' ? data.id : `story-${Date.now()}`,
+    title: typeof data.title === 'string' ? data.title : 'Interactive Story',
+    description: typeof data.description === 'string' ? data.description : '',
+    startNodeId,
+    nodes,
+    variables,
+    endings: toStringArray(data.endings).filter((id) => nodes.get(id)?.type === 'ending'),
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : Date.now(),
+    updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : Date.now(),
+  };
+}
+
+export function serializeStoryState(state: StoryState): SerializedStoryState {
+  return {
+    currentNodeId: state.currentNodeId,
+    variables: { ...state.variables },
+    visitedNodes: Array.from(state.visitedNodes),
+    choicesMade: Object.fromEntries(state.choicesMade),
+    unlockedEndings: Array.from(state.unlockedEndings),
+    history: [...state.history],
+  };
+}
+
+export function deserializeStoryState(data: unknown): StoryState | null {
+  if (!isRecord(data) || typeof data.currentNodeId !== 'string') return null;
+
+  // Older saves stored choicesMade as Map entries
+  const choicesMade = Array.isArray(data.choicesMade)
+    ? new Map<string, string>(data.choicesMade.filter((entry: unknown) => Array.isArray(entry) && entry.length === 2))
+    : new Map<string, string>(Object.entries(isRecord(data.choicesMade) ? data.choicesMade : {}));
+
+  return {
+    currentNodeId: data.currentNodeId,
+    variables: isRecord(data.variables) ? data.variables : {},
+    visitedNodes: new Set(toStringArray(data.visitedNodes)),
+    choicesMade,
+    unlockedEndings: new Set(toStringArray(data.unlockedEndings)),
+    history: toStringArray(data.history),
+  };
+}
+
 /**
  * Story Branching Engine
  */
@@ -138,6 +287,7 @@ export class StoryBranchingEngine {
 
     // Check if this is an ending
     if (currentNode.type === 'ending') {
+      this.state.unlockedEndings.add(currentNode.id);
       this.onEnding?.(currentNode, this.state);
       return currentNode;
     }
@@ -173,6 +323,8 @@ export class StoryBranchingEngine {
     }
 
     // Record choice
+    this.state.visitedNodes.add(this.state.currentNodeId);
+    this.state.history.push(this.state.currentNodeId);
     this.state.choicesMade.set(this.state.currentNodeId, choiceId);
 
     // Apply effects
@@ -279,12 +431,7 @@ export class StoryBranchingEngine {
    */
   exportState(): string | null {
     if (!this.state) return null;
-    return JSON.stringify({
-      ...this.state,
-      visitedNodes: Array.from(this.state.visitedNodes),
-      choicesMade: Array.from(this.state.choicesMade.entries()),
-      unlockedEndings: Array.from(this.state.unlockedEndings),
-    });
+    return JSON.stringify(serializeStoryState(this.state));
   }
 
   /**
@@ -292,13 +439,9 @@ export class StoryBranchingEngine {
    */
   importState(json: string): boolean {
     try {
-      const data = JSON.parse(json);
-      this.state = {
-        ...data,
-        visitedNodes: new Set(data.visitedNodes),
-        choicesMade: new Map(data.choicesMade),
-        unlockedEndings: new Set(data.unlockedEndings),
-      };
+      const state = deserializeStoryState(JSON.parse(json));
+      if (!state || (this.story && !this.story.nodes.has(state.currentNodeId))) return false;
+      this.state = state;
       return true;
     } catch {
       return false;
@@ -380,6 +523,7 @@ export function createBranchingStory(
         id: nodeId,
         type: 'scene',
         scene,
+        sceneId: scene.id,
         nextNodeId: `choice-${index}`,
       });
 
@@ -401,6 +545,7 @@ export function createBranchingStory(
         id: nodeId,
         type: 'scene',
         scene,
+        sceneId: scene.id,
         nextNodeId: endingId,
       });
       nodes.set(endingId, {
@@ -417,6 +562,7 @@ export function createBranchingStory(
         id: nodeId,
         type: 'scene',
         scene,
+        sceneId: scene.id,
         nextNodeId: `scene-${index + 1}`,
       });
     }
@@ -198,6 +198,20 @@ export class UndoRedoManager<T> {
     return this.cloneState(state.data);
   }
 
+  /**
+   * Rewrite every history entry, e.g. to fold in edits merged from collaborators
+   * so undo/redo only reverts local changes instead of remote ones
+   */
+  rebase(transform: (state: T) => T): void {
+    this.history = this.history.map((entry) => ({
+      ...entry,
+      data: this.cloneState(transform(this.cloneState(entry.data))),
+    }));
+    if (this.pendingState) {
+      this.pendingState = transform(this.cloneState(this.pendingState));
+    }
+  }
+
   private cloneState(state: T): T {
     return JSON.parse(JSON.stringify(state));
   }
@@ -329,6 +343,14 @@ export function useUndoRedo<T>(
     return managerRef.current?.getRecentActions(10) || [];
   }, []);
 
+  const rebase = useCallback((transform: (state: T) => T) => {
+    if (managerRef.current) {
+      managerRef.current.rebase(transform);
+      const state = managerRef.current.getCurrentState();
+      if (state) setCurrentState(state);
+    }
+  }, []);
+
   return {
     state: currentState,
     pushState,
@@ -337,5 +359,6 @@ export function useUndoRedo<T>(
     canUndo,
     canRedo,
     getHistory,
+    rebase,
   };
 }
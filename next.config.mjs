@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Native canvas bindings used by the headless renderer
+    serverComponentsExternalPackages: ['@napi-rs/canvas'],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "schemaVersion" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "transitionsJson" JSONB;
+
+-- AlterTable
+ALTER TABLE "Scene" ADD COLUMN     "propsJson" JSONB,
+ADD COLUMN     "cameraKeyframesJson" JSONB;
+
+-- AlterTable
+ALTER TABLE "Character" ADD COLUMN     "outfitExplorer" BOOLEAN,
+ADD COLUMN     "propBall" BOOLEAN,
+ADD COLUMN     "customColorsJson" JSONB,
+ADD COLUMN     "customAccessoriesJson" JSONB,
+ADD COLUMN     "customOutfit" TEXT,
+ADD COLUMN     "aiGeneratedImage" TEXT,
+ADD COLUMN     "useAICharacter" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "UserRig" (
+    "id" TEXT NOT NULL,
+    "rigId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "rigJson" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserRig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserRig_rigId_key" ON "UserRig"("rigId");
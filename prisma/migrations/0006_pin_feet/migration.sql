@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Character" ADD COLUMN     "pinFeet" BOOLEAN;
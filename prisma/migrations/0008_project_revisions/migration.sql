@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ProjectRevision" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "label" TEXT,
+    "author" TEXT,
+    "title" TEXT NOT NULL,
+    "sceneCount" INTEGER NOT NULL,
+    "schemaVersion" INTEGER NOT NULL,
+    "snapshotJson" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectRevision_projectId_number_key" ON "ProjectRevision"("projectId", "number");
+
+-- AddForeignKey
+ALTER TABLE "ProjectRevision" ADD CONSTRAINT "ProjectRevision_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
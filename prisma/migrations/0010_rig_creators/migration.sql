@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "UserRig" ADD COLUMN     "createdById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "UserRig_createdById_idx" ON "UserRig"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "UserRig" ADD CONSTRAINT "UserRig_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
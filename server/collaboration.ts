@@ -0,0 +1,42 @@
+/**
+ * Standalone collaboration server
+ * Run next to `next start`: npm run collab
+ */
+
+import { createCollaborationServer } from '../lib/utils/collaboration-server';
+import { verifyCollaborationTicket } from '../lib/auth/collab-ticket';
+
+const port = Number(process.env.COLLAB_PORT || 3001);
+const host = process.env.COLLAB_HOST || undefined;
+
+// Tickets are signed by the Next app (GET /api/auth/collab-ticket) with the same secret
+if (!process.env.AUTH_SECRET) {
+  console.error('AUTH_SECRET must be set (the same value as the Next app) to check who joins a project');
+  process.exit(1);
+}
+
+const server = createCollaborationServer({
+  port,
+  host,
+  authenticate: (request, projectId) => {
+    const ticket = new URL(request.url || '/', 'http://localhost').searchParams.get('ticket');
+    return ticket ? verifyCollaborationTicket(ticket, projectId) : null;
+  },
+});
+
+server
+  .start()
+  .then((boundPort) => {
+    console.log(`Collaboration server listening on ws://${host || 'localhost'}:${boundPort}`);
+  })
+  .catch((error) => {
+    console.error('Failed to start collaboration server:', error);
+    process.exit(1);
+  });
+
+const shutdown = () => {
+  server.stop().finally(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
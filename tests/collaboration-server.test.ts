@@ -0,0 +1,212 @@
+/**
+ * CollaborationServer with real `ws` clients in the same process: relay, locks,
+ * late-joiner snapshots and read-only viewers
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import WebSocket from 'ws';
+import { CollaborationServer, SERVER_SENDER_ID } from '../lib/utils/collaboration-server';
+import type { CollaborationMessage, EditOperation, ResourceLock } from '../lib/utils/collaboration';
+import type { ProjectRole } from '../lib/auth/roles';
+
+const MESSAGE_TIMEOUT_MS = 2000;
+
+interface TestClient {
+  socket: WebSocket;
+  // Resolves with the next received message matching `match` (earlier ones are skipped)
+  next(match?: (message: CollaborationMessage) => boolean): Promise<CollaborationMessage>;
+  send(type: CollaborationMessage['type'], payload: any): void;
+  close(): Promise<void>;
+}
+
+function connect(port: number, query: Record<string, string>): Promise<TestClient> {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}/?${new URLSearchParams(query)}`);
+  const inbox: CollaborationMessage[] = [];
+  const waiters: { match: (message: CollaborationMessage) => boolean; resolve: (message: CollaborationMessage) => void }[] = [];
+
+  socket.on('message', (data) => {
+    const message: CollaborationMessage = JSON.parse(data.toString());
+    const index = waiters.findIndex((waiter) => waiter.match(message));
+    if (index >= 0) {
+      waiters.splice(index, 1)[0].resolve(message);
+    } else {
+      inbox.push(message);
+    }
+  });
+
+  const client: TestClient = {
+    socket,
+    next(match = () => true) {
+      const index = inbox.findIndex(match);
+      if (index >= 0) return Promise.resolve(inbox.splice(index, 1)[0]);
+      return new Promise((resolve, reject) => {
+        const waiter = {
+          match,
+          resolve: (message: CollaborationMessage) => {
+            clearTimeout(timer);
+            resolve(message);
+          },
+        };
+        const timer = setTimeout(() => {
+          waiters.splice(waiters.indexOf(waiter), 1);
+          reject(new Error('Timed out waiting for a message'));
+        }, MESSAGE_TIMEOUT_MS);
+        waiters.push(waiter);
+      });
+    },
+    send(type, payload) {
+      socket.send(JSON.stringify({ type, senderId: 'spoofed', timestamp: Date.now(), payload }));
+    },
+    close() {
+      if (socket.readyState === WebSocket.CLOSED) return Promise.resolve();
+      return new Promise((resolve) => {
+        socket.once('close', () => resolve());
+        socket.close();
+      });
+    },
+  };
+
+  return new Promise((resolve, reject) => {
+    socket.once('open', () => resolve(client));
+    socket.once('error', reject);
+  });
+}
+
+const isType = (type: CollaborationMessage['type']) => (message: CollaborationMessage) => message.type === type;
+
+function editOperation(id: string, targetId: string): EditOperation {
+  return { id, type: 'scene', action: 'update', targetId, sceneIndex: 0, data: { title: id }, timestamp: Date.now() };
+}
+
+describe('CollaborationServer', () => {
+  let server: CollaborationServer;
+  let port: number;
+  const open: TestClient[] = [];
+
+  // Test identities come from the query string; `role` makes the server treat them as authenticated
+  const join = async (projectId: string, userId: string, role: ProjectRole = 'editor') => {
+    const client = await connect(port, { projectId, userId, role });
+    open.push(client);
+    await client.next(isType('sync')); // Snapshot every client gets on joining
+    return client;
+  };
+
+  before(async () => {
+    server = new CollaborationServer({
+      port: 0,
+      host: '127.0.0.1',
+      lockSweepIntervalMs: 20,
+      authenticate: (request, projectId) => {
+        const params = new URL(request.url || '/', 'http://localhost').searchParams;
+        const userId = params.get('userId');
+        const role = params.get('role') as ProjectRole | null;
+        return userId && role ? { userId, name: userId.toUpperCase(), projectId, role } : null;
+      },
+    });
+    port = await server.start();
+  });
+
+  after(async () => {
+    await Promise.all(open.map((client) => client.close()));
+    await server.stop();
+  });
+
+  it('relays edits to the other client under the real sender id', async () => {
+    const alice = await join('relay', 'alice');
+    const bob = await join('relay', 'bob');
+
+    alice.send('edit', editOperation('op-1', 'scene-1'));
+    const received = await bob.next(isType('edit'));
+
+    assert.equal(received.senderId, 'alice');
+    assert.equal(received.payload.id, 'op-1');
+    assert.equal(received.payload.targetId, 'scene-1');
+  });
+
+  it('rejects locks held by someone else and expires them on the server', async () => {
+    const alice = await join('locks', 'alice');
+    const bob = await join('locks', 'bob');
+
+    const now = Date.now();
+    alice.send('lock', { resourceId: 'scene-1', resourceType: 'scene', lockedAt: now, expiresAt: now + 150 });
+    const granted = (await bob.next(isType('lock'))).payload as ResourceLock;
+    assert.equal(granted.lockedBy, 'alice');
+
+    // Bob's lock request is answered with Alice's lock
+    bob.send('lock', { resourceId: 'scene-1', resourceType: 'scene' });
+    const refused = await bob.next(isType('lock'));
+    assert.equal(refused.senderId, SERVER_SENDER_ID);
+    assert.equal(refused.payload.lockedBy, 'alice');
+
+    // ...and his edit on the locked scene bounces back instead of reaching Alice
+    bob.send('edit', editOperation('op-locked', 'scene-1'));
+    const bounced = await bob.next(isType('lock'));
+    assert.equal(bounced.payload.lockedBy, 'alice');
+
+    // Nobody unlocks: the sweep expires it and tells everyone
+    const expired = await bob.next(isType('unlock'));
+    assert.equal(expired.payload.resourceId, 'scene-1');
+
+    bob.send('lock', { resourceId: 'scene-1', resourceType: 'scene' });
+    const bobsLock = await alice.next((message) => message.type === 'lock' && message.payload.lockedBy === 'bob');
+    assert.equal(bobsLock.payload.resourceId, 'scene-1');
+
+    bob.send('chat', { message: 'done' });
+    const next = await alice.next((message) => message.type === 'edit' || message.type === 'chat');
+    assert.equal(next.type, 'chat', 'the edit on the locked scene must not be relayed');
+  });
+
+  it('sends late joiners the document, newer edits, collaborators and locks', async () => {
+    const alice = await join('late', 'alice');
+    alice.send('presence', { status: 'active', color: '#f00', currentScene: 2 });
+    alice.send('sync', { document: { scenes: ['scene-1'] } });
+    alice.send('edit', editOperation('op-after-document', 'scene-1'));
+    alice.send('lock', { resourceId: 'scene-2', resourceType: 'scene' });
+    await alice.next(isType('lock'));
+
+    const carol = await connect(port, { projectId: 'late', userId: 'carol', role: 'editor' });
+    open.push(carol);
+    const snapshot = (await carol.next(isType('sync'))).payload;
+
+    assert.deepEqual(snapshot.document, { scenes: ['scene-1'] });
+    assert.deepEqual(snapshot.operations.map((operation: EditOperation) => operation.id), ['op-after-document']);
+    assert.equal(snapshot.collaborators.length, 1);
+    assert.equal(snapshot.collaborators[0].id, 'alice');
+    assert.equal(snapshot.collaborators[0].name, 'ALICE');
+    assert.equal(snapshot.collaborators[0].currentScene, 2);
+    assert.deepEqual(snapshot.locks.map((lock: ResourceLock) => lock.resourceId), ['scene-2']);
+  });
+
+  it("drops a viewer's edits, locks and documents but relays their chat", async () => {
+    const editor = await join('viewer', 'editor');
+    const viewer = await join('viewer', 'viewer', 'viewer');
+
+    viewer.send('edit', editOperation('op-viewer', 'scene-1'));
+    viewer.send('lock', { resourceId: 'scene-1', resourceType: 'scene' });
+    viewer.send('sync', { document: { scenes: ['overwritten'] } });
+    viewer.send('chat', { message: 'looks good', userName: 'Someone else' });
+
+    // Messages from one socket are handled in order, so the chat comes after anything relayed before it.
+    // The room has no document yet, so the editor was also asked to publish one when the viewer joined.
+    const next = await editor.next(
+      (message) => message.type !== 'presence' && !(message.type === 'sync' && message.payload.request)
+    );
+    assert.equal(next.type, 'chat');
+    assert.equal(next.senderId, 'viewer');
+    assert.equal(next.payload.userName, 'VIEWER');
+
+    const snapshot = server.getSnapshot('viewer');
+    assert.equal(snapshot?.document, null);
+    assert.deepEqual(snapshot?.operations, []);
+    assert.deepEqual(snapshot?.locks, []);
+  });
+
+  it('refuses connections the authenticate hook rejects', async () => {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/?projectId=relay&userId=mallory`);
+    const [code] = await new Promise<[number, string]>((resolve) =>
+      socket.once('close', (closeCode, reason) => resolve([closeCode, reason.toString()]))
+    );
+    assert.equal(code, 1008);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * SceneDocument replicas exchanging operations: concurrent edits converge whatever
+ * the delivery order, and local edits survive loading an older snapshot
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SceneDocument, type DocOperation } from '../lib/utils/scene-document';
+import type { EditableCharacter, EditableScene } from '../components/editors/InteractiveSceneEditor';
+
+function makeCharacter(id: string, x: number): EditableCharacter {
+  return {
+    id,
+    rigId: 'kiara',
+    name: id,
+    x,
+    y: 80,
+    scale: 1,
+    flipX: false,
+    animation: 'idle',
+    expression: 'neutral',
+    isTalking: false,
+    zIndex: 1,
+  };
+}
+
+function makeScene(id: string, narration: string): EditableScene {
+  return {
+    id,
+    title: `Scene ${id}`,
+    narration,
+    background: 'park',
+    characters: [makeCharacter('hero', 20), makeCharacter('friend', 70)],
+    duration: 5000,
+  };
+}
+
+// Replicas that start from the same published document, as late joiners do
+function replicas(scenes: EditableScene[]): [SceneDocument, SceneDocument] {
+  const { document: seed } = SceneDocument.fromScenes('a', scenes);
+  return [seed, new SceneDocument('b', seed.toJSON())];
+}
+
+function edit(document: SceneDocument, change: (scenes: EditableScene[]) => void): DocOperation[] {
+  const scenes = document.getScenes();
+  change(scenes);
+  return document.applyLocalChange(scenes);
+}
+
+describe('SceneDocument', () => {
+  it('merges concurrent typing in the same narration in either delivery order', () => {
+    const [a, b] = replicas([makeScene('s1', 'The dog ran.')]);
+
+    const fromA = edit(a, (scenes) => { scenes[0].narration = 'The big dog ran.'; });
+    const fromB = edit(b, (scenes) => { scenes[0].narration = 'The dog ran home.'; });
+    a.applyRemote(fromB);
+    b.applyRemote(fromA);
+
+    assert.equal(a.getScenes()[0].narration, 'The big dog ran home.');
+    assert.deepEqual(b.getScenes(), a.getScenes());
+  });
+
+  it('keeps both moves of different characters and agrees on one value for the same field', () => {
+    const [a, b] = replicas([makeScene('s1', '')]);
+
+    const fromA = edit(a, (scenes) => {
+      scenes[0].characters[0].x = 35;
+      scenes[0].title = 'Title from A';
+    });
+    const fromB = edit(b, (scenes) => {
+      scenes[0].characters[1].x = 55;
+      scenes[0].title = 'Title from B';
+    });
+    a.applyRemote(fromB);
+    b.applyRemote(fromA);
+
+    const merged = a.getScenes()[0];
+    assert.equal(merged.characters.find((character) => character.id === 'hero')?.x, 35);
+    assert.equal(merged.characters.find((character) => character.id === 'friend')?.x, 55);
+    assert.ok(['Title from A', 'Title from B'].includes(merged.title));
+    assert.deepEqual(b.getScenes(), a.getScenes());
+  });
+
+  it('converges on concurrent scene inserts and removals', () => {
+    const [a, b] = replicas([makeScene('s1', 'one'), makeScene('s2', 'two')]);
+
+    const fromA = edit(a, (scenes) => { scenes.splice(1, 0, makeScene('a1', 'from a')); });
+    const fromB = edit(b, (scenes) => {
+      scenes.splice(0, 1);
+      scenes.push(makeScene('b1', 'from b'));
+    });
+    b.applyRemote(fromA);
+    a.applyRemote(fromB);
+
+    assert.deepEqual(a.getScenes().map((scene) => scene.id), ['a1', 's2', 'b1']);
+    assert.deepEqual(b.getScenes(), a.getScenes());
+  });
+
+  it('buffers operations that arrive before their dependencies and ignores duplicates', () => {
+    const [a, b] = replicas([makeScene('s1', '')]);
+
+    const added = edit(a, (scenes) => { scenes.push(makeScene('s2', 'new')); });
+    const typed = edit(a, (scenes) => { scenes[1].narration = 'new scene text'; });
+
+    b.applyRemote(typed);
+    assert.ok(b.getBufferedCount() > 0);
+    assert.equal(b.getScenes().length, 1);
+
+    b.applyRemote(added);
+    b.applyRemote(added);
+    b.applyRemote(typed);
+    assert.equal(b.getBufferedCount(), 0);
+    assert.deepEqual(b.getScenes(), a.getScenes());
+  });
+
+  it('keeps local edits the loaded snapshot does not include yet', () => {
+    const [a, b] = replicas([makeScene('s1', 'start')]);
+    const published = a.toJSON();
+
+    // B edits offline; A keeps working and publishes before B's edits reach anyone
+    const offline = edit(b, (scenes) => { scenes[0].title = 'Renamed offline'; });
+    edit(a, (scenes) => { scenes[0].narration = 'start, continued'; });
+    const snapshot = a.toJSON();
+
+    const loaded = b.load(snapshot);
+    assert.equal(loaded[0].title, 'Renamed offline');
+    assert.equal(loaded[0].narration, 'start, continued');
+
+    // The replayed edits still reach A and both sides agree
+    a.applyRemote(offline);
+    assert.deepEqual(a.getScenes(), b.getScenes());
+
+    // Loading an older snapshot again doesn't lose them either
+    assert.equal(b.load(published)[0].title, 'Renamed offline');
+  });
+
+  it('stops replaying local edits once a snapshot includes them', () => {
+    const [a, b] = replicas([makeScene('s1', '')]);
+
+    const fromB = edit(b, (scenes) => { scenes[0].title = 'Shared'; });
+    assert.equal(b.getUnacknowledgedCount(), fromB.length);
+
+    a.applyRemote(fromB);
+    b.load(a.toJSON());
+    assert.equal(b.getUnacknowledgedCount(), 0);
+    assert.deepEqual(b.getScenes(), a.getScenes());
+  });
+});